@@ -1,7 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
 import { useAuth } from '@/hooks/useAuth';
-import { Redirect, useRouter } from 'expo-router';
+import { useOutbox } from '@/hooks/useOutbox';
+import { discardOutboxItem, retryOutboxItem, type OutboxItem } from '@/lib/outbox';
+import { Redirect, useRouter, useLocalSearchParams } from 'expo-router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getContracts, getDrafts, deleteContract, pauseContract, resumeContract, getRecordings, getPendingCollaborations, approveCollaboration, rejectCollaboration, getContractAmendments } from '@/services/api';
 import { Ionicons } from '@expo/vector-icons';
@@ -9,6 +11,7 @@ import { spacing, layout, typography, borderRadius, shadows } from '@/lib/theme'
 import { useTheme } from '@/contexts/ThemeContext';
 import { format } from 'date-fns';
 import Button from '@/components/Button';
+import type { ConsentContract } from '@shared/types';
 
 type TabType = 'active' | 'amendments' | 'drafts' | 'inbox';
 
@@ -22,7 +25,7 @@ const encounterColors: Record<string, string> = {
   default: '#8E8E93',
 };
 
-const getEncounterColor = (encounterType: string | undefined): string => {
+const getEncounterColor = (encounterType: string | null | undefined): string => {
   const type = encounterType?.toLowerCase() || '';
   if (type.includes('intimate')) return encounterColors.intimate;
   if (type.includes('date')) return encounterColors.date;
@@ -32,7 +35,7 @@ const getEncounterColor = (encounterType: string | undefined): string => {
   return encounterColors.default;
 };
 
-const getEncounterIcon = (encounterType: string | undefined): string => {
+const getEncounterIcon = (encounterType: string | null | undefined): string => {
   const type = encounterType?.toLowerCase() || '';
   if (type.includes('intimate')) return 'heart';
   if (type.includes('date')) return 'cafe';
@@ -47,7 +50,14 @@ export default function ContractsScreen() {
   const router = useRouter();
   const queryClient = useQueryClient();
   const { colors } = useTheme();
-  const [activeTab, setActiveTab] = useState<TabType>('active');
+  const { tab } = useLocalSearchParams<{ tab?: TabType }>();
+  const [activeTab, setActiveTab] = useState<TabType>(tab ?? 'active');
+  const outboxItems = useOutbox(user?.id);
+
+  // Invitation pushes link to ?tab=inbox, possibly while this screen is already open
+  useEffect(() => {
+    if (tab) setActiveTab(tab);
+  }, [tab]);
 
   const { data: contracts, isLoading } = useQuery({
     queryKey: ['contracts', user?.id],
@@ -199,6 +209,23 @@ export default function ContractsScreen() {
     );
   };
 
+  const handleDiscardOutboxItem = (item: OutboxItem) => {
+    Alert.alert(
+      'Discard',
+      item.kind === 'contract'
+        ? 'This contract has not been uploaded. Discarding it removes it from this device for good.'
+        : 'This amendment request has not been sent. Discard it?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardOutboxItem(item.id),
+        },
+      ]
+    );
+  };
+
   const styles = createStyles(colors);
 
   if (authLoading) {
@@ -215,9 +242,10 @@ export default function ContractsScreen() {
   }
 
   const allContracts = contracts || [];
-  const activeContracts = allContracts.filter((c: any) => c.status === 'active');
-  const pausedContracts = allContracts.filter((c: any) => c.status === 'paused');
-  const completedContracts = allContracts.filter((c: any) => c.status === 'completed');
+  const activeContracts = allContracts.filter(c => c.status === 'active');
+  const pausedContracts = allContracts.filter(c => c.status === 'paused');
+  const completedContracts = allContracts.filter(c => c.status === 'completed');
+  const revokedContracts = allContracts.filter(c => c.status === 'revoked');
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -227,6 +255,8 @@ export default function ContractsScreen() {
         return colors.status.warning;
       case 'completed':
         return colors.text.secondary;
+      case 'revoked':
+        return colors.status.error;
       default:
         return colors.text.tertiary;
     }
@@ -240,17 +270,16 @@ export default function ContractsScreen() {
         return 'pause-circle';
       case 'completed':
         return 'checkmark-done-circle';
+      case 'revoked':
+        return 'hand-left';
       default:
         return 'document-text';
     }
   };
 
-  const renderContractCard = (contract: any) => {
-    const createdAt = contract.created_at || contract.createdAt;
-    const encounterType = contract.encounter_type || contract.encounterType;
+  const renderContractCard = (contract: ConsentContract) => {
+    const { createdAt, encounterType, status, method } = contract;
     const parties = contract.parties || [];
-    const status = contract.status || 'draft';
-    const method = contract.method;
     const accentColor = getEncounterColor(encounterType);
     const icon = getEncounterIcon(encounterType);
 
@@ -315,6 +344,78 @@ export default function ContractsScreen() {
     );
   };
 
+  // Contracts and amendments saved on this device that haven't reached the server yet
+  const renderOutboxCard = (item: OutboxItem) => {
+    const encounterType = item.kind === 'contract' ? item.contract.encounterType : undefined;
+    const accentColor = getEncounterColor(encounterType);
+    const title = item.kind === 'contract'
+      ? encounterType || 'Consent Contract'
+      : 'Amendment Request';
+    const media = item.kind === 'contract' ? item.media : null;
+    const isUploading = item.status === 'syncing' && !!media && !media.path;
+    const syncStatus = {
+      pending: { label: 'Waiting', color: colors.status.warning },
+      syncing: { label: isUploading ? `Uploading ${Math.round((media?.progress ?? 0) * 100)}%` : 'Syncing', color: colors.brand.primary },
+      failed: { label: 'Failed', color: colors.status.error },
+    }[item.status];
+
+    return (
+      <View key={item.id} style={styles.contractCard}>
+        <View style={styles.cardContent}>
+          <View style={[styles.cardIconContainer, { backgroundColor: accentColor + '18' }]}>
+            <Ionicons name={(item.kind === 'contract' ? getEncounterIcon(encounterType) : 'create') as any} size={20} color={accentColor} />
+          </View>
+
+          <View style={styles.cardMainContent}>
+            <View style={styles.cardHeader}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.contractTitle} numberOfLines={1}>{title}</Text>
+                <Text style={styles.contractDate}>
+                  Saved {format(new Date(item.createdAt), 'MMM d, yyyy h:mm a')}
+                </Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: syncStatus.color + '18' }]}>
+                {item.status === 'syncing' ? (
+                  <ActivityIndicator size="small" color={syncStatus.color} />
+                ) : (
+                  <Ionicons name={item.status === 'failed' ? 'alert-circle' : 'cloud-upload-outline'} size={12} color={syncStatus.color} />
+                )}
+                <Text style={[styles.statusText, { color: syncStatus.color }]}>{syncStatus.label}</Text>
+              </View>
+            </View>
+
+            {item.lastError && (
+              <View style={styles.cardFooter}>
+                <Text style={styles.metaText} numberOfLines={2}>{item.lastError}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+
+        {item.status === 'failed' && (
+          <View style={styles.draftActions}>
+            <TouchableOpacity
+              style={styles.draftDeleteButton}
+              onPress={() => handleDiscardOutboxItem(item)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="trash-outline" size={18} color={colors.status.error} />
+              <Text style={styles.draftDeleteText}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.draftDeleteButton}
+              onPress={() => retryOutboxItem(item.id)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="refresh" size={18} color={colors.brand.primary} />
+              <Text style={[styles.draftDeleteText, { color: colors.brand.primary }]}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
   const renderEmptyState = (icon: string, message: string, subtitle?: string) => (
     <View style={styles.emptyState}>
       <View style={styles.emptyIconContainer}>
@@ -382,6 +483,13 @@ export default function ContractsScreen() {
               </View>
             ) : (
               <>
+                {outboxItems.length > 0 && (
+                  <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Waiting to Upload</Text>
+                    {outboxItems.map(renderOutboxCard)}
+                  </View>
+                )}
+
                 {activeContracts.length > 0 && (
                   <View style={styles.section}>
                     <Text style={styles.sectionTitle}>Active</Text>
@@ -402,8 +510,15 @@ export default function ContractsScreen() {
                     {completedContracts.map(renderContractCard)}
                   </View>
                 )}
+
+                {revokedContracts.length > 0 && (
+                  <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>Withdrawn</Text>
+                    {revokedContracts.map(renderContractCard)}
+                  </View>
+                )}
                 
-                {activeContracts.length === 0 && pausedContracts.length === 0 && completedContracts.length === 0 && (
+                {outboxItems.length === 0 && activeContracts.length === 0 && pausedContracts.length === 0 && completedContracts.length === 0 && revokedContracts.length === 0 && (
                   renderEmptyState(
                     'document-text-outline',
                     'No contracts yet',
@@ -420,7 +535,7 @@ export default function ContractsScreen() {
                       <Text style={styles.emptyCardText}>No recordings yet</Text>
                     </View>
                   ) : (
-                    recordings.map((recording: any) => (
+                    recordings.map((recording) => (
                       <TouchableOpacity
                         key={recording.id}
                         style={styles.recordingCard}
@@ -434,7 +549,7 @@ export default function ContractsScreen() {
                             {recording.filename || 'Audio Recording'}
                           </Text>
                           <Text style={styles.recordingMeta}>
-                            {recording.duration || '0:00'} • {format(new Date(recording.created_at || recording.createdAt), 'MMM d, yyyy')}
+                            {recording.duration || '0:00'} • {format(new Date(recording.createdAt), 'MMM d, yyyy')}
                           </Text>
                         </View>
                         <Ionicons name="play-circle" size={28} color={colors.brand.primary} />
@@ -526,9 +641,9 @@ export default function ContractsScreen() {
               )
             ) : (
               <View style={styles.section}>
-                {drafts.map((draft: any) => {
-                  const accentColor = getEncounterColor(draft.encounter_type);
-                  const icon = getEncounterIcon(draft.encounter_type);
+                {drafts.map((draft) => {
+                  const accentColor = getEncounterColor(draft.encounterType);
+                  const icon = getEncounterIcon(draft.encounterType);
                   return (
                     <View key={draft.id} style={styles.contractCard}>
                       <TouchableOpacity
@@ -544,10 +659,10 @@ export default function ContractsScreen() {
                         <View style={styles.cardMainContent}>
                           <View style={styles.cardInfo}>
                             <Text style={styles.contractTitle} numberOfLines={1}>
-                              {draft.encounter_type || 'Draft Contract'}
+                              {draft.encounterType || 'Draft Contract'}
                             </Text>
                             <Text style={styles.contractDate}>
-                              Created {format(new Date(draft.created_at || draft.createdAt), 'MMM d, yyyy')}
+                              Created {format(new Date(draft.createdAt), 'MMM d, yyyy')}
                             </Text>
                           </View>
                         </View>
@@ -591,10 +706,9 @@ export default function ContractsScreen() {
             ) : (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Pending Review</Text>
-                {pendingCollaborations.map((collab: any) => {
-                  const contractData = collab.consent_contracts;
-                  const encounterType = contractData?.encounter_type || contractData?.encounterType || 'Consent Contract';
-                  const createdAt = collab.created_at || collab.createdAt;
+                {pendingCollaborations.map((collab) => {
+                  const encounterType = collab.contract?.encounterType || 'Consent Contract';
+                  const createdAt = collab.createdAt;
                   const accentColor = getEncounterColor(encounterType);
                   const icon = getEncounterIcon(encounterType);
 
@@ -624,7 +738,7 @@ export default function ContractsScreen() {
                         <View style={styles.inboxActions}>
                           <TouchableOpacity
                             style={styles.viewContractButton}
-                            onPress={() => router.push(`/(tabs)/contracts/${contractData?.id}`)}
+                            onPress={() => router.push(`/(tabs)/contracts/${collab.contractId}`)}
                           >
                             <Text style={styles.viewContractText}>View Details</Text>
                           </TouchableOpacity>
@@ -1,38 +1,83 @@
-import { useState } from 'react';
-import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Alert, ViewStyle } from 'react-native';
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Alert, Image, Linking, Share, ViewStyle } from 'react-native';
 import { useAuth } from '@/hooks/useAuth';
 import { Redirect, useRouter, useLocalSearchParams } from 'expo-router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getContract, deleteContract, pauseContract, resumeContract, shareContractWithUser, shareContractViaEmail, getContractCollaborators, createAmendment, getContractAmendments } from '@/services/api';
+import { getContract, deleteContract, pauseContract, resumeContract, revokeContract, shareContractWithUser, shareContractViaEmail, getContractInvitations, resendInvitation, getContractCollaborators, getContractAmendments, approveAmendment, rejectAmendment, verifyContractIntegrity, verifyContractExportCode, getUniversity } from '@/services/api';
+import { formatContractVersionEvent } from '@/lib/contractChain';
+import { exportContractPdf } from '@/lib/contractExport';
+import { buildEncryptedActsAmendment, decryptAmendment, decryptContract, getContractKey, isEncryptedContract, shareContractKey, type DecryptedAmendment } from '@/lib/contractKeys';
+import { isEncryptedValue } from '@/lib/contractEncryption';
+import { getDecryptedMediaDataUri, getDecryptedMediaUri, isEncryptedMediaPath } from '@/lib/consentMedia';
+import { enqueueAmendment } from '@/lib/outbox';
+import { Audio } from 'expo-av';
 import Card from '@/components/Card';
 import Button from '@/components/Button';
 import { ShareDialog } from '@/components/ShareDialog';
 import { AmendmentDialog } from '@/components/AmendmentDialog';
+import { AmendmentDiff } from '@/components/AmendmentDiff';
+import { AmendmentApprovalCard } from '@/components/AmendmentApprovalCard';
+import { diffAmendmentValues } from '@/lib/amendmentDiff';
 import { Ionicons } from '@expo/vector-icons';
-import { format } from 'date-fns';
+import { format, addMinutes } from 'date-fns';
+import type { ContractAmendment } from '@shared/types';
+import { formatDuration } from '@/lib/utils';
 import { spacing, layout, typography, borderRadius } from '@/lib/theme';
 import { useTheme } from '@/contexts/ThemeContext';
 
 export default function ContractDetailScreen() {
   const { user, loading: authLoading } = useAuth();
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, verify } = useLocalSearchParams<{ id: string; verify?: string }>();
   const queryClient = useQueryClient();
   const { colors } = useTheme();
   const [showShareDialog, setShowShareDialog] = useState(false);
   const [showAmendmentDialog, setShowAmendmentDialog] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [isSubmittingAmendment, setIsSubmittingAmendment] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [resendingInvitationId, setResendingInvitationId] = useState<string | null>(null);
 
   const { data: contract, isLoading } = useQuery({
     queryKey: ['contract', id, user?.id],
     queryFn: () => {
       if (!user || !id) return null;
-      return getContract(id, user.id);
+      return getContract(id);
     },
     enabled: !!user && !!id,
   });
 
+  // null when no key has been shared with this device (or the contract predates encryption)
+  const { data: contractKey = null, isLoading: keyLoading } = useQuery({
+    queryKey: ['contract-key', id, user?.id],
+    queryFn: () => getContractKey(id!, user!.id),
+    enabled: !!user && !!id && !!contract,
+    staleTime: Infinity,
+  });
+
+  // Whoever can read the contract passes its key on to party devices that can't yet
+  useEffect(() => {
+    if (!id || !contractKey) return;
+    shareContractKey(id, contractKey).catch(error => {
+      console.error('Failed to share contract key:', error);
+    });
+  }, [id, contractKey]);
+
+  // The contract as the user sees it. Integrity checks keep using the stored
+  // (encrypted) row. null while the contract is locked on this device.
+  const readableContract = useMemo(() => {
+    if (!contract) return null;
+    if (!isEncryptedContract(contract)) return contract;
+    if (!contractKey) return null;
+    try {
+      return decryptContract(contract, contractKey);
+    } catch (error) {
+      console.error('Failed to decrypt contract:', error);
+      return null;
+    }
+  }, [contract, contractKey]);
+  const isLocked = !!contract && !readableContract && !keyLoading;
+
   const deleteMutation = useMutation({
     mutationFn: () => deleteContract(id!, user!.id),
     onSuccess: () => {
@@ -45,6 +90,7 @@ export default function ContractDetailScreen() {
     mutationFn: () => pauseContract(id!, user!.id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['contract', id, user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['contract-integrity', id] });
       queryClient.invalidateQueries({ queryKey: ['contracts', user?.id] });
     },
   });
@@ -53,7 +99,21 @@ export default function ContractDetailScreen() {
     mutationFn: () => resumeContract(id!, user!.id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['contract', id, user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['contract-integrity', id] });
+      queryClient.invalidateQueries({ queryKey: ['contracts', user?.id] });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => revokeContract(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contract', id, user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['contract-integrity', id] });
       queryClient.invalidateQueries({ queryKey: ['contracts', user?.id] });
+      Alert.alert('Consent Withdrawn', 'All other parties have been notified.');
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to withdraw consent');
     },
   });
 
@@ -66,7 +126,16 @@ export default function ContractDetailScreen() {
     enabled: !!id,
   });
 
-  const { data: amendments = [] } = useQuery({
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['contract-invitations', id],
+    queryFn: () => {
+      if (!id) return [];
+      return getContractInvitations(id);
+    },
+    enabled: !!id,
+  });
+
+  const { data: storedAmendments = [] } = useQuery({
     queryKey: ['contract-amendments', id],
     queryFn: () => {
       if (!id) return [];
@@ -75,6 +144,69 @@ export default function ContractDetailScreen() {
     enabled: !!id,
   });
 
+  const amendments = useMemo(() => {
+    try {
+      return storedAmendments.map(amendment => decryptAmendment(amendment, contractKey));
+    } catch (error) {
+      console.error('Failed to decrypt amendments:', error);
+      return storedAmendments.map(amendment => decryptAmendment(amendment, null));
+    }
+  }, [storedAmendments, contractKey]);
+
+  const { data: integrity, isLoading: integrityLoading } = useQuery({
+    queryKey: ['contract-integrity', id],
+    queryFn: () => verifyContractIntegrity(id!),
+    enabled: !!id && !!contract,
+  });
+
+  // Opened from the QR code on an exported PDF
+  const { data: exportVerification, isLoading: exportVerificationLoading } = useQuery({
+    queryKey: ['contract-export-verification', id, verify],
+    queryFn: () => verifyContractExportCode(id!, verify!),
+    enabled: !!id && !!verify && !!contract,
+  });
+
+  const universityId = contract?.universityId;
+  const { data: university = null } = useQuery({
+    queryKey: ['university', universityId],
+    queryFn: () => getUniversity(universityId!),
+    enabled: !!universityId,
+  });
+
+  // Media fields hold object paths in private buckets
+  const photoPath = contract?.photoUrl ?? null;
+  const audioPath = contract?.audioUrl ?? null;
+
+  const { data: photoUrl } = useQuery({
+    queryKey: ['consent-media', 'photos', photoPath, !!contractKey],
+    queryFn: () => getDecryptedMediaUri('photos', photoPath!, contractKey, 'image/jpeg'),
+    enabled: !!photoPath && (!isEncryptedMediaPath(photoPath) || !!contractKey),
+    // Signed URLs expire after five minutes
+    staleTime: 4 * 60 * 1000,
+  });
+
+  const handleOpenRecording = async () => {
+    if (!audioPath) return;
+    try {
+      const uri = await getDecryptedMediaUri('recordings', audioPath, contractKey, 'audio/webm');
+      if (!isEncryptedMediaPath(audioPath)) {
+        await Linking.openURL(uri);
+        return;
+      }
+
+      // Decrypted recordings are local files, so play them in the app
+      const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true });
+      sound.setOnPlaybackStatusUpdate((playback) => {
+        if (playback.isLoaded && playback.didJustFinish) {
+          sound.unloadAsync();
+        }
+      });
+    } catch (error: any) {
+      console.error('Open recording error:', error);
+      Alert.alert('Error', error.message || 'Failed to open recording');
+    }
+  };
+
   const handleDelete = () => {
     Alert.alert(
       'Delete Contract',
@@ -90,6 +222,34 @@ export default function ContractDetailScreen() {
     );
   };
 
+  const handleRevoke = () => {
+    Alert.alert(
+      'Withdraw Consent',
+      'This immediately ends the contract for everyone and notifies all other parties. It cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Withdraw Consent',
+          style: 'destructive',
+          onPress: () => revokeMutation.mutate(),
+        },
+      ]
+    );
+  };
+
+  // The recipient isn't taking invitation emails right now; the invitation
+  // itself still works through its link
+  const offerInviteLink = (inviteUrl: string) => {
+    Alert.alert(
+      'Invitation Created',
+      "The recipient isn't receiving invitation emails right now. Share the invitation link with them instead.",
+      [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Share Link', onPress: () => Share.share({ message: inviteUrl }) },
+      ]
+    );
+  };
+
   const handleShare = async (recipient: string, mode: 'pmy-user' | 'email') => {
     if (!user || !id) return;
 
@@ -99,8 +259,12 @@ export default function ContractDetailScreen() {
         await shareContractWithUser(id, user.id, recipient);
         Alert.alert('Success', 'Contract shared successfully! The recipient will receive a notification.');
       } else {
-        await shareContractViaEmail(id, user.id, recipient);
-        Alert.alert('Success', 'Invitation sent! The recipient will receive an email to review the contract.');
+        const { inviteUrl } = await shareContractViaEmail(id, recipient);
+        if (inviteUrl) {
+          offerInviteLink(inviteUrl);
+        } else {
+          Alert.alert('Success', 'Invitation sent! The recipient will receive an email to review the contract.');
+        }
       }
       setShowShareDialog(false);
       queryClient.invalidateQueries({ queryKey: ['contract-collaborators', id] });
@@ -109,23 +273,126 @@ export default function ContractDetailScreen() {
       Alert.alert('Error', error.message || 'Failed to share contract');
     } finally {
       setIsSharing(false);
+      // An invitation can exist even if its email failed; it can be resent from the list
+      queryClient.invalidateQueries({ queryKey: ['contract-invitations', id] });
+    }
+  };
+
+  const handleResendInvitation = async (invitationId: string) => {
+    setResendingInvitationId(invitationId);
+    try {
+      const inviteUrl = await resendInvitation(invitationId);
+      if (inviteUrl) {
+        offerInviteLink(inviteUrl);
+      } else {
+        Alert.alert('Invitation Sent', 'The invitation email has been sent again.');
+      }
+    } catch (error: any) {
+      console.error('Resend invitation error:', error);
+      Alert.alert('Error', error.message || 'Failed to resend invitation');
+    } finally {
+      setResendingInvitationId(null);
+      queryClient.invalidateQueries({ queryKey: ['contract-invitations', id] });
+    }
+  };
+
+  const handleExport = async () => {
+    if (!contract || !integrity) return;
+
+    if (!readableContract) {
+      Alert.alert('Export Unavailable', 'This contract is locked on this device. Unlock it with your recovery code to export it.');
+      return;
+    }
+
+    if (integrity.chain.status === 'broken' || !integrity.headMatches) {
+      Alert.alert('Export Unavailable', 'This contract\'s history could not be verified, so it cannot be exported.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await exportContractPdf({
+        contract: readableContract,
+        university,
+        amendments,
+        collaborators,
+        versions: integrity.versions,
+        revokedByName,
+        photoUrl: photoPath ? await getDecryptedMediaDataUri('photos', photoPath, contractKey, 'image/jpeg') : null,
+      });
+    } catch (error: any) {
+      console.error('Export error:', error);
+      Alert.alert('Error', error.message || 'Failed to export contract');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const refreshAfterAmendment = () => {
+    queryClient.invalidateQueries({ queryKey: ['contract-amendments', id] });
+    queryClient.invalidateQueries({ queryKey: ['contract', id, user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['contract-integrity', id] });
+  };
+
+  const handleApproveAmendment = async (amendmentId: string) => {
+    const pending = amendments.find(amendment => amendment.id === amendmentId);
+    const blockedReason = pending && getApprovalBlockedReason(pending);
+    if (blockedReason) {
+      Alert.alert('Cannot Approve', blockedReason);
+      return;
+    }
+
+    try {
+      const amendment = await approveAmendment(amendmentId);
+      if (amendment.status === 'approved') {
+        Alert.alert('Amendment Applied', 'All parties approved. The contract has been updated.');
+      }
+      refreshAfterAmendment();
+    } catch (error: any) {
+      console.error('Approve amendment error:', error);
+      Alert.alert('Error', error.message || 'Failed to approve amendment');
+    }
+  };
+
+  const handleRejectAmendment = async (amendmentId: string, reason?: string) => {
+    try {
+      await rejectAmendment(amendmentId, reason);
+      refreshAfterAmendment();
+    } catch (error: any) {
+      console.error('Reject amendment error:', error);
+      Alert.alert('Error', error.message || 'Failed to reject amendment');
     }
   };
 
   const handleAmendmentSubmit = async (amendment: { type: string; description: string; newValue?: any }) => {
     if (!user || !id) return;
 
+    // Acts on an encrypted contract are merged here; the server only checks the base
+    const storedActs = contract?.intimateActs;
+    const isEncryptedActsChange = isEncryptedValue(storedActs)
+      && (amendment.type === 'add_acts' || amendment.type === 'remove_acts');
+    if (isEncryptedActsChange && !contractKey) {
+      Alert.alert('Contract Locked', 'Unlock this contract on this device before requesting changes to it.');
+      return;
+    }
+
     setIsSubmittingAmendment(true);
     try {
-      await createAmendment({
-        contract_id: id,
-        requested_by: user.id,
+      const { synced } = await enqueueAmendment(user.id, {
+        contractId: id,
+        requestedBy: user.id,
         type: amendment.type,
         description: amendment.description,
-        new_value: amendment.newValue ? JSON.stringify(amendment.newValue) : null,
-        status: 'pending',
+        newValue: isEncryptedActsChange
+          ? buildEncryptedActsAmendment(contractKey!, amendment.type as 'add_acts' | 'remove_acts', amendment.newValue || [], intimateActs, storedActs!)
+          : amendment.newValue ? JSON.stringify(amendment.newValue) : null,
       });
-      Alert.alert('Success', 'Amendment request submitted. All parties will be notified.');
+      Alert.alert(
+        synced ? 'Success' : 'Saved Offline',
+        synced
+          ? 'Amendment request submitted. All parties will be notified.'
+          : "Your amendment request will be sent when you're back online."
+      );
       setShowAmendmentDialog(false);
       queryClient.invalidateQueries({ queryKey: ['contract-amendments', id] });
     } catch (error: any) {
@@ -138,7 +405,7 @@ export default function ContractDetailScreen() {
 
   const styles = createStyles(colors);
 
-  if (authLoading || isLoading) {
+  if (authLoading || isLoading || keyLoading) {
     return (
       <View style={[styles.center, { backgroundColor: colors.background.dark }]}>
         <ActivityIndicator size="large" color={colors.brand.primary} />
@@ -160,27 +427,92 @@ export default function ContractDetailScreen() {
     );
   }
 
-  // Handle both snake_case (Supabase) and camelCase (types) field names
-  const contractAny = contract as any;
-  const createdAt = contractAny.created_at || contractAny.createdAt;
-  const updatedAt = contractAny.updated_at || contractAny.updatedAt;
-  const universityName = contractAny.university_name || contractAny.universityName;
-  const stateName = contractAny.state_name || contractAny.stateName;
-  const encounterType = contractAny.encounter_type || contractAny.encounterType;
-  const status = contractAny.status || 'draft';
-  const parties = contractAny.parties || [];
-  const intimateActsRaw = contractAny.intimate_acts || contractAny.intimateActs;
-  const intimateActs = intimateActsRaw ? (typeof intimateActsRaw === 'string' ? JSON.parse(intimateActsRaw) : intimateActsRaw) : {};
-  const contractStartTime = contractAny.contract_start_time || contractAny.contractStartTime;
-  const contractEndTime = contractAny.contract_end_time || contractAny.contractEndTime;
-  const contractDuration = contractAny.contract_duration || contractAny.contractDuration;
-  const method = contractAny.method;
+  const shownContract = readableContract ?? contract;
+  const {
+    createdAt,
+    encounterType,
+    status,
+    contractStartTime,
+    contractEndTime,
+    contractDuration,
+    method,
+    revokedAt,
+    revokedBy,
+    revocationReason,
+  } = shownContract;
+  const parties = shownContract.parties || [];
+  const intimateActs: Record<string, string> = readableContract?.intimateActs ? JSON.parse(readableContract.intimateActs) : {};
+  const isOwner = contract.userId === user.id;
+  const revokedByName = !revokedBy ? null
+    : revokedBy === user.id ? 'You'
+    : collaborators.find(collab => collab.userId === revokedBy)?.legalName || 'Another party';
+  const canRevoke = status === 'pending_approval' || status === 'active' || status === 'paused';
+
+  // Every party except the requester has to approve an amendment
+  const partyCount = 1 + collaborators.filter(collab =>
+    collab.userId && (collab.status === 'reviewing' || collab.status === 'approved')
+  ).length;
+  const pendingAmendments = amendments.filter(amendment => amendment.status === 'pending');
+  const resolvedAmendments = amendments.filter(amendment => amendment.status !== 'pending');
+  const currentActs = Object.fromEntries(
+    Object.entries(intimateActs).map(([act, consent]) => [act, consent === 'yes'])
+  );
+
+  // Acts amendments on an encrypted contract are checked on this device; see decryptAmendment()
+  const getApprovalBlockedReason = (amendment: DecryptedAmendment) => {
+    if (amendment.proposedActs === null) {
+      return "This change can't be read on this device, so it can't be checked. Open the contract on a device that holds its key.";
+    }
+    if (amendment.proposedActs && !amendment.proposedActs.matchesRequest) {
+      return "The acts this amendment would store don't match the change it lists. Reject it and ask for it to be requested again.";
+    }
+    return null;
+  };
+
+  // AmendmentApprovalCard expects the proposed change as a `changes` JSON string
+  const toApprovalCardAmendment = (amendment: ContractAmendment) => {
+    let newValue: any = amendment.newValue;
+    if (amendment.newValue) {
+      try {
+        newValue = JSON.parse(amendment.newValue);
+      } catch {
+        newValue = amendment.newValue;
+      }
+    }
+
+    let amendmentType = amendment.type;
+    let changes: { addedActs?: string[]; removedActs?: string[]; newEndTime?: string } = {};
+    if (amendment.type === 'add_acts') {
+      changes = { addedActs: newValue || [] };
+    } else if (amendment.type === 'remove_acts') {
+      changes = { removedActs: newValue || [] };
+    } else if (amendment.type === 'change_duration' && newValue) {
+      const start = contractStartTime ? new Date(contractStartTime) : new Date();
+      changes = { newEndTime: addMinutes(start, Number(newValue)).toISOString() };
+      amendmentType = !contractDuration || Number(newValue) >= Number(contractDuration)
+        ? 'extend_duration'
+        : 'shorten_duration';
+    }
+
+    return {
+      id: amendment.id,
+      contractId: amendment.contractId,
+      requestedBy: amendment.requestedBy,
+      amendmentType,
+      status: amendment.status,
+      changes: JSON.stringify(changes),
+      reason: amendment.description || '',
+      approvers: amendment.approvers,
+      createdAt: amendment.createdAt,
+    };
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return colors.status.success;
       case 'draft': return colors.status.warning;
       case 'paused': return colors.status.error;
+      case 'revoked': return colors.status.error;
       default: return colors.text.tertiary;
     }
   };
@@ -210,24 +542,136 @@ export default function ContractDetailScreen() {
         </View>
       </Card>
 
+      {/* Locked */}
+      {isLocked && (
+        <Card style={styles.card}>
+          <View style={styles.integrityRow}>
+            <Ionicons name="lock-closed" size={24} color={colors.text.tertiary} />
+            <View style={[styles.infoContent, styles.integrityTextSpacing]}>
+              <Text style={styles.integrityText}>Locked on this device</Text>
+              <Text style={styles.integrityDetail}>
+                This contract is end-to-end encrypted. It unlocks when another party opens it, or right away with your recovery code.
+              </Text>
+            </View>
+          </View>
+          <Button
+            title="Use Recovery Code"
+            onPress={() => router.push('/(tabs)/profile/encryption' as `/${string}`)}
+            variant="outline"
+            style={styles.actionButton}
+          />
+        </Card>
+      )}
+
+      {/* Revocation */}
+      {status === 'revoked' && (
+        <Card style={{ ...styles.card, ...styles.revokedCard }}>
+          <View style={styles.integrityRow}>
+            <Ionicons name="hand-left" size={24} color={colors.status.error} />
+            <View style={[styles.infoContent, styles.integrityTextSpacing]}>
+              <Text style={styles.revokedTitle}>Consent Withdrawn</Text>
+              <Text style={styles.revokedDetail}>
+                {revokedByName || 'A party'} withdrew consent
+                {revokedAt ? ` on ${format(new Date(revokedAt), 'MMM d, yyyy h:mm a')}` : ''}.
+                This contract is no longer in effect and cannot be amended.
+              </Text>
+              {revocationReason && (
+                <Text style={styles.revokedDetail}>Reason: {revocationReason}</Text>
+              )}
+            </View>
+          </View>
+        </Card>
+      )}
+
+      {/* Integrity */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Contract History</Text>
+        {integrityLoading || !integrity ? (
+          <View style={styles.integrityRow}>
+            <ActivityIndicator size="small" color={colors.brand.primary} />
+            <Text style={[styles.integrityText, styles.integrityTextSpacing]}>Verifying history...</Text>
+          </View>
+        ) : integrity.chain.status === 'broken' || !integrity.headMatches ? (
+          <View style={styles.integrityRow}>
+            <Ionicons name="warning" size={20} color={colors.status.error} />
+            <View style={[styles.infoContent, styles.integrityTextSpacing]}>
+              <Text style={[styles.integrityText, { color: colors.status.error }]}>Tampering detected</Text>
+              <Text style={styles.integrityDetail}>
+                {integrity.chain.status === 'broken'
+                  ? `Version ${integrity.chain.brokenAtVersion}: ${integrity.chain.reason}`
+                  : 'This contract was changed without a recorded version'}
+              </Text>
+            </View>
+          </View>
+        ) : integrity.chain.status === 'empty' ? (
+          <View style={styles.integrityRow}>
+            <Ionicons name="time" size={20} color={colors.text.tertiary} />
+            <Text style={[styles.integrityText, styles.integrityTextSpacing]}>No history recorded yet</Text>
+          </View>
+        ) : (
+          <View style={styles.integrityRow}>
+            <Ionicons name="shield-checkmark" size={20} color={colors.status.success} />
+            <View style={[styles.infoContent, styles.integrityTextSpacing]}>
+              <Text style={[styles.integrityText, { color: colors.status.success }]}>History verified</Text>
+              <Text style={styles.integrityDetail}>
+                {integrity.chain.versionCount} {integrity.chain.versionCount === 1 ? 'version' : 'versions'} · {integrity.chain.headHash.slice(0, 12)}
+              </Text>
+            </View>
+          </View>
+        )}
+        {verify && (
+          <View style={styles.integrityRow}>
+            {exportVerificationLoading ? (
+              <ActivityIndicator size="small" color={colors.brand.primary} />
+            ) : (
+              <Ionicons
+                name={exportVerification ? 'document-text' : 'close-circle'}
+                size={20}
+                color={exportVerification ? colors.status.success : colors.status.error}
+              />
+            )}
+            <View style={[styles.infoContent, styles.integrityTextSpacing]}>
+              <Text style={styles.integrityText}>Export {verify}</Text>
+              <Text style={styles.integrityDetail}>
+                {exportVerificationLoading
+                  ? 'Checking export...'
+                  : exportVerification
+                    ? `Matches v${exportVerification.version}${exportVerification.isCurrent ? ' (current)' : ' — contract has changed since export'}`
+                    : 'Does not match any recorded version'}
+              </Text>
+            </View>
+          </View>
+        )}
+        {integrity && [...integrity.versions].reverse().map((version) => (
+          <View key={version.id} style={styles.versionItem}>
+            <Text style={styles.versionLabel}>
+              v{version.version} · {formatContractVersionEvent(version.event)}
+            </Text>
+            <Text style={styles.versionDate}>
+              {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+            </Text>
+          </View>
+        ))}
+      </Card>
+
       {/* Basic Information */}
       <Card style={styles.card}>
         <Text style={styles.sectionTitle}>Basic Information</Text>
-        {universityName && (
+        {university && (
           <View style={styles.infoRow}>
             <Ionicons name="school" size={20} color={colors.text.tertiary} />
             <View style={styles.infoContent}>
               <Text style={styles.infoLabel}>University</Text>
-              <Text style={styles.infoValue}>{universityName}</Text>
+              <Text style={styles.infoValue}>{university.name}</Text>
             </View>
           </View>
         )}
-        {stateName && (
+        {university?.state && (
           <View style={styles.infoRow}>
             <Ionicons name="location" size={20} color={colors.text.tertiary} />
             <View style={styles.infoContent}>
               <Text style={styles.infoLabel}>State</Text>
-              <Text style={styles.infoValue}>{stateName}</Text>
+              <Text style={styles.infoValue}>{university.state}</Text>
             </View>
           </View>
         )}
@@ -299,7 +743,7 @@ export default function ContractDetailScreen() {
               <Ionicons name="time" size={20} color={colors.text.tertiary} />
               <View style={[styles.infoContent, styles.infoContentSpacing]}>
                 <Text style={styles.infoLabel}>Duration</Text>
-                <Text style={styles.infoValue}>{contractDuration} hours</Text>
+                <Text style={styles.infoValue}>{formatDuration(contractDuration)}</Text>
               </View>
             </View>
           )}
@@ -318,36 +762,46 @@ export default function ContractDetailScreen() {
       )}
 
       {/* Contract Text */}
-      {(contractAny.contract_text || contractAny.contractText) && (
+      {readableContract?.contractText && (
         <Card style={styles.card}>
           <Text style={styles.sectionTitle}>Contract Text</Text>
-          <Text style={styles.contractText}>{contractAny.contract_text || contractAny.contractText}</Text>
+          <Text style={styles.contractText}>{readableContract.contractText}</Text>
         </Card>
       )}
 
       {/* Recordings */}
-      {(contractAny.signature1 || contractAny.signature2 || contractAny.photo_url || contractAny.photoUrl || contractAny.credential_id || contractAny.credentialId) && (
+      {(shownContract.signature1 || shownContract.signature2 || photoPath || audioPath || shownContract.credentialId) && (
         <Card style={styles.card}>
           <Text style={styles.sectionTitle}>Recordings</Text>
-          {contractAny.signature1 && (
+          {shownContract.signature1 && (
             <View style={styles.recordingItem}>
               <Ionicons name="create" size={20} color={colors.text.tertiary} />
               <Text style={[styles.recordingText, styles.recordingTextSpacing]}>Signature 1: Recorded</Text>
             </View>
           )}
-          {contractAny.signature2 && (
+          {shownContract.signature2 && (
             <View style={styles.recordingItem}>
               <Ionicons name="create" size={20} color={colors.text.tertiary} />
               <Text style={[styles.recordingText, styles.recordingTextSpacing]}>Signature 2: Recorded</Text>
             </View>
           )}
-          {(contractAny.photo_url || contractAny.photoUrl) && (
-            <View style={styles.recordingItem}>
-              <Ionicons name="camera" size={20} color={colors.text.tertiary} />
-              <Text style={[styles.recordingText, styles.recordingTextSpacing]}>Photo: Recorded</Text>
-            </View>
+          {photoPath && (
+            <>
+              <View style={styles.recordingItem}>
+                <Ionicons name="camera" size={20} color={colors.text.tertiary} />
+                <Text style={[styles.recordingText, styles.recordingTextSpacing]}>Photo: Recorded</Text>
+              </View>
+              {photoUrl && <Image source={{ uri: photoUrl }} style={styles.recordingPhoto} resizeMode="cover" />}
+            </>
+          )}
+          {audioPath && (
+            <TouchableOpacity style={styles.recordingItem} onPress={handleOpenRecording}>
+              <Ionicons name="mic" size={20} color={colors.text.tertiary} />
+              <Text style={[styles.recordingText, styles.recordingTextSpacing]}>Voice: Recorded</Text>
+              <Ionicons name="play-circle-outline" size={20} color={colors.brand.primary} style={styles.recordingAction} />
+            </TouchableOpacity>
           )}
-          {(contractAny.credential_id || contractAny.credentialId) && (
+          {shownContract.credentialId && (
             <View style={styles.recordingItem}>
               <Ionicons name="finger-print" size={20} color={colors.text.tertiary} />
               <Text style={[styles.recordingText, styles.recordingTextSpacing]}>Biometric: Recorded</Text>
@@ -360,14 +814,14 @@ export default function ContractDetailScreen() {
       {collaborators.length > 0 && (
         <Card style={styles.card}>
           <Text style={styles.sectionTitle}>Collaborators</Text>
-          {collaborators.map((collab: any) => (
+          {collaborators.map((collab) => (
             <View key={collab.id} style={styles.collaboratorItem}>
               <View style={styles.collaboratorInfo}>
                 <View style={styles.collaboratorAvatar}>
                   <Ionicons name="person" size={16} color={colors.text.tertiary} />
                 </View>
                 <Text style={styles.collaboratorName}>
-                  {collab.legal_name || collab.contact_info || 'PMY User'}
+                  {collab.legalName || collab.contactInfo || 'PMY User'}
                 </Text>
               </View>
               <View style={[styles.collaboratorBadge, {
@@ -388,11 +842,84 @@ export default function ContractDetailScreen() {
         </Card>
       )}
 
+      {/* Email Invitations */}
+      {isOwner && invitations.length > 0 && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Invitations</Text>
+          {invitations.map((invitation) => {
+            const deliveryColor = invitation.deliveryStatus === 'delivered' ? colors.status.success :
+                                  ['bounced', 'complained', 'failed'].includes(invitation.deliveryStatus) ? colors.status.error :
+                                  colors.status.warning;
+            const label = invitation.status === 'pending' ? invitation.deliveryStatus : invitation.status;
+            return (
+              <View key={invitation.id} style={styles.collaboratorItem}>
+                <View style={styles.collaboratorInfo}>
+                  <View style={styles.collaboratorAvatar}>
+                    <Ionicons name="mail" size={16} color={colors.text.tertiary} />
+                  </View>
+                  <View style={styles.invitationDetails}>
+                    <Text style={styles.collaboratorName} numberOfLines={1}>
+                      {invitation.recipientEmail}
+                    </Text>
+                    {invitation.deliveryError && invitation.status === 'pending' && (
+                      <Text style={styles.invitationError} numberOfLines={2}>
+                        {invitation.deliveryError}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+                <View style={[styles.collaboratorBadge, { backgroundColor: deliveryColor + '20' }]}>
+                  <Text style={[styles.collaboratorStatus, { color: deliveryColor }]}>
+                    {label.charAt(0).toUpperCase() + label.slice(1)}
+                  </Text>
+                </View>
+                {invitation.status === 'pending' && new Date(invitation.expiresAt) > new Date() && (
+                  <TouchableOpacity
+                    style={styles.invitationResend}
+                    onPress={() => handleResendInvitation(invitation.id)}
+                    disabled={resendingInvitationId !== null}
+                  >
+                    {resendingInvitationId === invitation.id ? (
+                      <ActivityIndicator size="small" color={colors.brand.primary} />
+                    ) : (
+                      <Ionicons name="refresh" size={18} color={colors.brand.primary} />
+                    )}
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </Card>
+      )}
+
+      {/* Pending Amendments */}
+      {pendingAmendments.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Pending Amendments</Text>
+          {pendingAmendments.map((amendment) => (
+            <AmendmentApprovalCard
+              key={amendment.id}
+              amendment={toApprovalCardAmendment(amendment)}
+              currentUserId={user.id}
+              currentActs={currentActs}
+              currentEndTime={contractEndTime ?? undefined}
+              requiredApprovals={partyCount - 1}
+              proposedChanges={amendment.proposedActs
+                ? diffAmendmentValues({ intimate_acts: amendment.proposedActs.before }, { intimate_acts: amendment.proposedActs.after })
+                : undefined}
+              approvalBlockedReason={getApprovalBlockedReason(amendment)}
+              onApprove={handleApproveAmendment}
+              onReject={handleRejectAmendment}
+            />
+          ))}
+        </View>
+      )}
+
       {/* Amendments */}
-      {amendments.length > 0 && (
+      {resolvedAmendments.length > 0 && (
         <Card style={styles.card}>
           <Text style={styles.sectionTitle}>Amendments</Text>
-          {amendments.map((amendment: any) => (
+          {resolvedAmendments.map((amendment) => (
             <View key={amendment.id} style={styles.amendmentItem}>
               <View style={styles.amendmentHeader}>
                 <Text style={styles.amendmentType}>
@@ -415,8 +942,14 @@ export default function ContractDetailScreen() {
               {amendment.description && (
                 <Text style={styles.amendmentDescription}>{amendment.description}</Text>
               )}
+              {amendment.status === 'rejected' && amendment.rejectionReason && (
+                <Text style={styles.amendmentDescription}>Rejected: {amendment.rejectionReason}</Text>
+              )}
+              <AmendmentDiff rows={diffAmendmentValues(amendment.previousValue, amendment.appliedValue)} />
               <Text style={styles.amendmentDate}>
-                Requested {format(new Date(amendment.created_at || amendment.createdAt), 'MMM d, yyyy')}
+                Requested {format(new Date(amendment.createdAt), 'MMM d, yyyy')}
+                {amendment.appliedAt &&
+                  ` · Applied ${format(new Date(amendment.appliedAt), 'MMM d, yyyy')}`}
               </Text>
             </View>
           ))}
@@ -428,12 +961,22 @@ export default function ContractDetailScreen() {
         <Text style={styles.sectionTitle}>Actions</Text>
         <View style={styles.actions}>
           <Button
-            title="Share Contract"
-            onPress={() => setShowShareDialog(true)}
+            title="Export PDF"
+            onPress={handleExport}
             variant="outline"
+            loading={isExporting}
+            disabled={!integrity}
             style={styles.actionButton}
           />
-          {(status === 'active' || status === 'paused') && (
+          {isOwner && (
+            <Button
+              title="Share Contract"
+              onPress={() => setShowShareDialog(true)}
+              variant="outline"
+              style={{ ...styles.actionButton, ...styles.actionButtonSpacing }}
+            />
+          )}
+          {(status === 'active' || status === 'paused') && partyCount > 1 && (
             <Button
               title="Request Amendment"
               onPress={() => setShowAmendmentDialog(true)}
@@ -441,7 +984,7 @@ export default function ContractDetailScreen() {
               style={[styles.actionButton, styles.actionButtonSpacing]}
             />
           )}
-          {status === 'active' && (
+          {isOwner && status === 'active' && (
             <Button
               title="Pause Contract"
               onPress={() => pauseMutation.mutate()}
@@ -449,7 +992,7 @@ export default function ContractDetailScreen() {
               style={[styles.actionButton, styles.actionButtonSpacing]}
             />
           )}
-          {status === 'paused' && (
+          {isOwner && status === 'paused' && (
             <Button
               title="Resume Contract"
               onPress={() => resumeMutation.mutate()}
@@ -457,12 +1000,23 @@ export default function ContractDetailScreen() {
               style={[styles.actionButton, styles.actionButtonSpacing]}
             />
           )}
-          <Button
-            title="Delete Contract"
-            onPress={handleDelete}
-            style={[styles.actionButton, styles.actionButtonSpacing] as ViewStyle}
-            variant="destructive"
-          />
+          {canRevoke && (
+            <Button
+              title="Withdraw Consent"
+              onPress={handleRevoke}
+              loading={revokeMutation.isPending}
+              style={{ ...styles.actionButton, ...styles.actionButtonSpacing }}
+              variant="destructive"
+            />
+          )}
+          {isOwner && (
+            <Button
+              title="Delete Contract"
+              onPress={handleDelete}
+              style={[styles.actionButton, styles.actionButtonSpacing] as ViewStyle}
+              variant="destructive"
+            />
+          )}
         </View>
       </Card>
 
@@ -482,7 +1036,7 @@ export default function ContractDetailScreen() {
         loading={isSubmittingAmendment}
         currentContract={{
           intimateActs: intimateActs,
-          contractDuration: contractDuration,
+          contractDuration: contractDuration ?? undefined,
         }}
       />
     </ScrollView>
@@ -627,6 +1181,48 @@ const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>
   recordingTextSpacing: {
     marginLeft: 12,
   },
+  recordingAction: {
+    marginLeft: 'auto',
+  },
+  recordingPhoto: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: borderRadius.md,
+    marginBottom: 12,
+  },
+  integrityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  integrityText: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.inverse,
+  },
+  integrityTextSpacing: {
+    marginLeft: spacing.md,
+  },
+  integrityDetail: {
+    fontSize: typography.size.xs,
+    color: colors.text.tertiary,
+    marginTop: spacing.xs,
+  },
+  versionItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: colors.ui.borderDark,
+  },
+  versionLabel: {
+    fontSize: typography.size.sm,
+    color: colors.text.inverse,
+  },
+  versionDate: {
+    fontSize: typography.size.xs,
+    color: colors.text.tertiary,
+  },
   collaboratorItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -662,6 +1258,18 @@ const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>
     fontSize: typography.size.xs,
     fontWeight: typography.weight.semibold,
   },
+  invitationDetails: {
+    flex: 1,
+  },
+  invitationError: {
+    fontSize: typography.size.xs,
+    color: colors.status.error,
+    marginTop: 2,
+  },
+  invitationResend: {
+    padding: spacing.xs,
+    marginLeft: spacing.sm,
+  },
   amendmentItem: {
     paddingVertical: spacing.md,
     borderBottomWidth: 1,
@@ -696,6 +1304,20 @@ const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>
     fontSize: typography.size.xs,
     color: colors.text.tertiary,
   },
+  revokedCard: {
+    borderWidth: 1,
+    borderColor: colors.status.error,
+  },
+  revokedTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.bold,
+    color: colors.status.error,
+  },
+  revokedDetail: {
+    fontSize: typography.size.sm,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
   actions: {
   },
   actionButtonSpacing: {
@@ -6,8 +6,12 @@ import { useConsentFlow, type ConsentFlowState } from '@/contexts/ConsentFlowCon
 import { useAuth } from '@/hooks/useAuth';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useConsentFlowValidation } from '@/hooks/useConsentFlowValidation';
-import { getAllUniversities, getUserContacts, getUserProfile, createContract, getContract, updateContract } from '@/services/api';
+import { getAllUniversities, getUniversity, getUserContacts, getUserProfile, getContract } from '@/services/api';
+import { decryptContract, getContractKey, getOrCreateContractKey, isEncryptedContract, updateEncryptedContract } from '@/lib/contractKeys';
+import { enqueueContract, updateQueuedContract } from '@/lib/outbox';
+import { generateContractKey } from '@/lib/contractEncryption';
 import { doesEncounterTypeRequireUniversity, type UserContact, type University } from '@/lib/consentFlowConstants';
+import type { UpdateConsentContract } from '@shared/types';
 import { EncounterTypeStep } from '@/components/consent-flow/EncounterTypeStep';
 import { UniversitySelectionStep } from '@/components/consent-flow/UniversitySelectionStep';
 import { PartiesStep } from '@/components/consent-flow/PartiesStep';
@@ -47,39 +51,17 @@ export default function ConsentFlowPage() {
     queryFn: getAllUniversities,
   });
 
-  // Fetch user contacts (Supabase returns snake_case)
+  // Fetch user contacts
   const { data: contacts = [] } = useQuery({
     queryKey: ['user-contacts', user?.id],
-    queryFn: async () => {
-      if (!user) return [];
-      const apiContacts = await getUserContacts(user.id);
-      return apiContacts.map((contact: any) => ({
-        id: contact.id,
-        userId: contact.user_id,
-        contactUsername: contact.username || contact.name || '',
-        nickname: null,
-        createdAt: contact.created_at,
-      }));
-    },
+    queryFn: () => getUserContacts(user!.id),
     enabled: !!user,
   });
 
   // Fetch current user data for pre-fill
-  const { data: userData } = useQuery<{ 
-    id: string; 
-    email: string; 
-    username?: string;
-  } | null>({
+  const { data: userData } = useQuery({
     queryKey: ['user-profile', user?.id],
-    queryFn: async () => {
-      if (!user) return null;
-      const profile = await getUserProfile(user.id);
-      return profile ? {
-        id: profile.id,
-        email: '',
-        username: profile.username,
-      } : null;
-    },
+    queryFn: () => getUserProfile(user!.id),
     enabled: !!user,
   });
 
@@ -201,23 +183,29 @@ export default function ConsentFlowPage() {
     const resumeDraftId = params.resumeDraftId as string | undefined;
     
     if (resumeDraftId) {
-      getContract(resumeDraftId, user.id)
-        .then(draft => {
-          if (!draft) return;
+      getContract(resumeDraftId)
+        .then(async stored => {
+          // Collaborators can read shared contracts, but only the owner resumes a draft
+          if (!stored || stored.userId !== user.id) return;
+
+          let draft = stored;
+          if (isEncryptedContract(stored)) {
+            const key = await getContractKey(stored.id, user.id);
+            if (!key) {
+              throw new Error("This draft is locked on this device");
+            }
+            draft = decryptContract(stored, key);
+          }
           
-          // Supabase returns snake_case column names
-          const draftData = draft as any;
           let parsedIntimateActs = {};
-          const intimateActsRaw = draftData.intimate_acts;
-          if (typeof intimateActsRaw === 'string') {
+          if (draft.intimateActs) {
             try {
-              parsedIntimateActs = JSON.parse(intimateActsRaw);
+              parsedIntimateActs = JSON.parse(draft.intimateActs);
             } catch (e) {
-              console.error('Failed to parse intimate_acts:', e);
+              console.error('Failed to parse intimate acts:', e);
             }
-          } else if (intimateActsRaw) {
-            parsedIntimateActs = intimateActsRaw;
           }
+          const university = draft.universityId ? await getUniversity(draft.universityId) : null;
 
           const normalizedParties = (draft.parties || ["", ""]).map((party: string) => {
             return normalizeUsername(party);
@@ -229,25 +217,25 @@ export default function ConsentFlowPage() {
 
           updateFlowState({
             draftId: draft.id,
-            universityId: draftData.university_id || "",
-            universityName: draftData.university_name || "",
-            encounterType: draftData.encounter_type || "",
+            universityId: draft.universityId || "",
+            universityName: university?.name || "",
+            encounterType: draft.encounterType || "",
             parties: normalizedParties,
             intimateActs: parsedIntimateActs,
-            contractStartTime: draftData.contract_start_time || undefined,
-            contractDuration: draftData.contract_duration || undefined,
-            contractEndTime: draftData.contract_end_time || undefined,
-            method: draftData.method as ConsentFlowState['method'] || null,
-            isCollaborative: draftData.is_collaborative === 'true',
-            contractText: draftData.contract_text || undefined,
-            signature1: draftData.signature_1 || undefined,
-            signature2: draftData.signature_2 || undefined,
-            photoUrl: draftData.photo_url || undefined,
+            contractStartTime: draft.contractStartTime || undefined,
+            contractDuration: draft.contractDuration || undefined,
+            contractEndTime: draft.contractEndTime || undefined,
+            method: draft.method as ConsentFlowState['method'] || null,
+            isCollaborative: draft.isCollaborative,
+            contractText: draft.contractText || undefined,
+            signature1: draft.signature1 || undefined,
+            signature2: draft.signature2 || undefined,
+            photoUrl: draft.photoUrl || undefined,
           });
         })
         .catch(err => {
           console.error('Failed to load draft:', err);
-          Alert.alert("Error", "Failed to load draft for editing");
+          Alert.alert("Error", err.message || "Failed to load draft for editing");
         });
     }
   }, [isHydrated, user, params.resumeDraftId, normalizeUsername, validateParty, updateFlowState]);
@@ -309,39 +297,48 @@ export default function ConsentFlowPage() {
         throw new Error("Cannot save changes to a collaborative draft.");
       }
 
-      // Use snake_case column names for Supabase
-      const draftData = {
-        contract_text: state.contractText || `Consent Contract\n\nEncounter Type: ${state.encounterType}\nParties: ${state.parties.filter(p => p.trim()).join(", ")}\nIntimate Acts: ${Object.keys(state.intimateActs).join(", ")}\nUniversity: ${state.universityName || "N/A"}\n`,
-        university_id: state.universityId || null,
-        encounter_type: state.encounterType,
+      const draftData: UpdateConsentContract = {
+        contractText: state.contractText || `Consent Contract\n\nEncounter Type: ${state.encounterType}\nParties: ${state.parties.filter(p => p.trim()).join(", ")}\nIntimate Acts: ${Object.keys(state.intimateActs).join(", ")}\nUniversity: ${state.universityName || "N/A"}\n`,
+        universityId: state.universityId || null,
+        encounterType: state.encounterType,
         parties: state.parties.filter(p => p.trim()),
-        intimate_acts: JSON.stringify(state.intimateActs),
-        contract_start_time: state.contractStartTime || null,
-        contract_duration: state.contractDuration || null,
-        contract_end_time: state.contractEndTime || null,
+        intimateActs: JSON.stringify(state.intimateActs),
+        contractStartTime: state.contractStartTime || null,
+        contractDuration: state.contractDuration || null,
+        contractEndTime: state.contractEndTime || null,
         method: state.method,
         status: "draft",
-        is_collaborative: 'false' as const,
-        signature_1: state.signature1 || null,
-        signature_2: state.signature2 || null,
-        photo_url: state.photoUrl || null,
+        isCollaborative: false,
+        signature1: state.signature1 || null,
+        signature2: state.signature2 || null,
+        photoUrl: state.photoUrl || null,
       };
 
       if (state.draftId && !state.isCollaborative) {
-        const updated = await updateContract(state.draftId, user!.id, draftData);
-        return { id: state.draftId, ...draftData } as any;
+        // A draft saved offline is still in the outbox; change what's queued
+        if (await updateQueuedContract(state.draftId, draftData)) {
+          return { id: state.draftId, synced: false };
+        }
+
+        const key = await getOrCreateContractKey(state.draftId, user!.id);
+        if (!key) {
+          throw new Error("This draft is locked on this device. Restore your encryption keys to edit it.");
+        }
+        await updateEncryptedContract(state.draftId, user!.id, draftData, key);
+        return { id: state.draftId, synced: true };
       } else {
-        const created = await createContract({
-          ...draftData,
-          user_id: user!.id,
-        });
-        return created;
+        return enqueueContract(user!.id, { ...draftData, userId: user!.id }, generateContractKey());
       }
     },
-    onSuccess: (draft) => {
-      updateFlowState({ draftId: draft.id });
+    onSuccess: ({ id, synced }) => {
+      updateFlowState({ draftId: id });
       queryClient.invalidateQueries({ queryKey: ['contracts'] });
-      Alert.alert("Draft saved", "Your consent contract has been saved as a draft");
+      Alert.alert(
+        "Draft saved",
+        synced
+          ? "Your consent contract has been saved as a draft"
+          : "Your draft is saved on this device and will be uploaded when you're back online"
+      );
       router.push('/(tabs)/contracts');
     },
     onError: (error: Error) => {
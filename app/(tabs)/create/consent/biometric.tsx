@@ -1,12 +1,21 @@
-import { useState, useEffect } from 'react';
-import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useState, useEffect, useRef } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, Platform } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import * as LocalAuthentication from 'expo-local-authentication';
 import { useConsentFlow } from '@/contexts/ConsentFlowContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useMutation } from '@tanstack/react-query';
-import { createContract } from '@/services/api';
+import { deleteContract, getContractVersions, registerBiometricCredential, verifyBiometricConsent } from '@/services/api';
+import { createEncryptedContract } from '@/lib/contractKeys';
+import { isOnline } from '@/lib/outbox';
+import {
+  getDeviceCredential,
+  createDeviceCredential,
+  deleteDeviceCredential,
+  unlockDeviceKey,
+  signConsentChallenge,
+} from '@/lib/biometricCredential';
 import Button from '@/components/Button';
 import Card from '@/components/Card';
 import HoldToConfirmButton from '@/components/HoldToConfirmButton';
@@ -24,6 +33,8 @@ export default function ConsentBiometricPage() {
   const [status, setStatus] = useState<'idle' | 'authenticating' | 'verified'>('idle');
   const [biometricType, setBiometricType] = useState<string>('');
   const [isSupported, setIsSupported] = useState(false);
+  // Unlocked device key, held only between authentication and submission
+  const privateKeyRef = useRef<Uint8Array | null>(null);
 
   useEffect(() => {
     if (isHydrated && !hasRequiredData()) {
@@ -59,55 +70,90 @@ export default function ConsentBiometricPage() {
     setStatus('authenticating');
 
     try {
-      const result = await LocalAuthentication.authenticateAsync({
-        promptMessage: 'Authenticate for consent',
-        fallbackLabel: 'Use passcode',
-        cancelLabel: 'Cancel',
-      });
+      let credential = await getDeviceCredential(user!.id);
+      if (!credential) {
+        credential = await createDeviceCredential(user!.id);
+        try {
+          await registerBiometricCredential(
+            credential.credentialId,
+            credential.publicKey,
+            `${biometricType} (${Platform.OS})`
+          );
+        } catch (error) {
+          await deleteDeviceCredential(user!.id);
+          throw error;
+        }
+      }
 
-      if (result.success) {
+      // Reading the key is what prompts for Face ID / Touch ID
+      const privateKey = await unlockDeviceKey(user!.id);
+      if (privateKey) {
+        privateKeyRef.current = privateKey;
         setStatus('verified');
       } else {
         setStatus('idle');
-        if (result.error !== 'user_cancel') {
-          Alert.alert("Authentication Failed", "Please try again.");
-        }
+        Alert.alert("Authentication Failed", "Please try again.");
       }
-    } catch (error) {
+    } catch (error: any) {
       setStatus('idle');
-      Alert.alert("Error", "Authentication failed. Please try again.");
+      Alert.alert("Error", error.message || "Authentication failed. Please try again.");
     }
   };
 
   const saveMutation = useMutation({
     mutationFn: async () => {
-      if (status !== 'verified') {
+      const privateKey = privateKeyRef.current;
+      if (status !== 'verified' || !privateKey) {
         throw new Error("Biometric authentication required");
       }
 
+      // The server checks the signature right away, so this method can't be queued offline
+      if (!(await isOnline())) {
+        throw new Error("Biometric consent is verified by our servers and needs a connection. Try again once you're online, or choose another method.");
+      }
+
+      // Created as pending; the server activates it once the signature checks out
       const contractData = {
-        user_id: user!.id,
-        university_id: state.universityId || null,
-        encounter_type: state.encounterType,
+        userId: user!.id,
+        universityId: state.universityId || null,
+        encounterType: state.encounterType,
         parties: state.parties.filter(p => p.trim()),
-        intimate_acts: JSON.stringify(state.intimateActs),
-        contract_start_time: state.contractStartTime || null,
-        contract_duration: state.contractDuration || null,
-        contract_end_time: state.contractEndTime || null,
+        intimateActs: JSON.stringify(state.intimateActs),
+        contractStartTime: state.contractStartTime || null,
+        contractDuration: state.contractDuration || null,
+        contractEndTime: state.contractEndTime || null,
         method: 'biometric' as const,
-        contract_text: `Biometric consent authenticated via ${biometricType}`,
-        authenticated_at: new Date().toISOString(),
-        status: 'active' as const,
-        is_collaborative: 'false' as const,
+        contractText: `Biometric consent authenticated via ${biometricType}`,
+        status: 'pending_approval' as const,
+        isCollaborative: false,
       };
 
-      return createContract(contractData);
+      const contract = await createEncryptedContract(user!.id, contractData);
+
+      try {
+        const versions = await getContractVersions(contract.id);
+        const head = versions[versions.length - 1];
+        if (!head) {
+          throw new Error("Contract history is unavailable");
+        }
+
+        const assertion = await signConsentChallenge(user!.id, privateKey, contract.id, head.contentHash);
+        await verifyBiometricConsent(contract.id, assertion);
+      } catch (error) {
+        await deleteContract(contract.id, user!.id).catch(() => {});
+        throw error;
+      }
+
+      return contract;
     },
     onSuccess: () => {
+      privateKeyRef.current = null;
       Alert.alert("Success", "Consent contract created successfully");
       router.replace('/(tabs)/contracts');
     },
     onError: (error: Error) => {
+      privateKeyRef.current = null;
+      setStatus('idle');
       Alert.alert("Error", error.message || "Failed to create contract");
     },
   });
@@ -129,7 +175,7 @@ export default function ConsentBiometricPage() {
           </View>
           <Text style={[styles.infoTitle, styles.infoTitleSpacing]}>Secure Authentication</Text>
           <Text style={[styles.infoText, styles.infoTextSpacing]}>
-            Use {biometricType} to cryptographically verify your consent. This provides the highest level of security and legal validity.
+            Use {biometricType} to unlock a key that never leaves this device and sign this contract. The signature is verified by our servers and recorded with the contract.
           </Text>
         </Card>
 
@@ -6,10 +6,13 @@ import * as ImagePicker from 'expo-image-picker';
 import { useConsentFlow } from '@/contexts/ConsentFlowContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useMutation } from '@tanstack/react-query';
-import { createContract, uploadPhoto } from '@/services/api';
+import { enqueueContract } from '@/lib/outbox';
+import { generateContractKey } from '@/lib/contractEncryption';
+import { encryptMediaFile } from '@/lib/consentMedia';
 import Button from '@/components/Button';
 import Card from '@/components/Card';
 import HoldToConfirmButton from '@/components/HoldToConfirmButton';
+import UploadProgress from '@/components/UploadProgress';
 import { spacing, typography, borderRadius } from '@/lib/theme';
 import { useTheme } from '@/contexts/ThemeContext';
 
@@ -22,6 +25,7 @@ export default function ConsentPhotoPage() {
   const styles = createStyles(colors);
 
   const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
   useEffect(() => {
     if (isHydrated && !hasRequiredData()) {
@@ -73,36 +77,45 @@ export default function ConsentPhotoPage() {
         throw new Error("No photo selected");
       }
 
-      // Upload photo (React Native - pass URI directly)
-      const photoUrl = await uploadPhoto(user!.id, photoUri, {
-        filename: 'consent-photo.jpg',
-      });
+      // The photo is encrypted with the contract's key before it's queued for upload
+      const contractKey = generateContractKey();
+      const photo = await encryptMediaFile(photoUri, contractKey);
 
       const contractData = {
-        user_id: user!.id,
-        university_id: state.universityId || null,
-        encounter_type: state.encounterType,
+        userId: user!.id,
+        universityId: state.universityId || null,
+        encounterType: state.encounterType,
         parties: state.parties.filter(p => p.trim()),
-        intimate_acts: JSON.stringify(state.intimateActs),
-        contract_start_time: state.contractStartTime || null,
-        contract_duration: state.contractDuration || null,
-        contract_end_time: state.contractEndTime || null,
+        intimateActs: JSON.stringify(state.intimateActs),
+        contractStartTime: state.contractStartTime || null,
+        contractDuration: state.contractDuration || null,
+        contractEndTime: state.contractEndTime || null,
         method: 'photo' as const,
-        contract_text: `Photo consent documentation`,
-        photo_url: photoUrl,
+        contractText: `Photo consent documentation`,
         status: 'active' as const,
-        is_collaborative: 'false' as const,
+        isCollaborative: false,
       };
 
-      return createContract(contractData);
+      return enqueueContract(user!.id, contractData, contractKey, {
+        bucket: 'photos',
+        filename: 'consent-photo.jpg',
+        bytes: photo,
+      }, setUploadProgress);
     },
-    onSuccess: () => {
-      Alert.alert("Success", "Consent contract created successfully");
+    onSuccess: ({ synced }) => {
+      if (synced) {
+        Alert.alert("Success", "Consent contract created successfully");
+      } else {
+        Alert.alert("Saved Offline", "Your contract is saved on this device and will be uploaded when you're back online. You can follow its progress in Contracts.");
+      }
       router.replace('/(tabs)/contracts');
     },
     onError: (error: Error) => {
       Alert.alert("Error", error.message || "Failed to create contract");
     },
+    onSettled: () => {
+      setUploadProgress(null);
+    },
   });
 
   return (
@@ -140,6 +153,9 @@ export default function ConsentPhotoPage() {
               disabled={saveMutation.isPending}
               subtitle="Photo ready to submit"
             />
+            {saveMutation.isPending && uploadProgress !== null && (
+              <UploadProgress progress={uploadProgress} label="Uploading photo" />
+            )}
           </>
         ) : (
           <Card style={[styles.cameraCard, styles.cameraCardSpacing]}>
@@ -5,7 +5,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { useConsentFlow } from '@/contexts/ConsentFlowContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { createContract, getUserProfile, updateUserProfile } from '@/services/api';
+import { getUserProfile, updateUserProfile } from '@/services/api';
+import { enqueueContract } from '@/lib/outbox';
+import { generateContractKey } from '@/lib/contractEncryption';
 import Button from '@/components/Button';
 import Card from '@/components/Card';
 import SignatureInput from '@/components/SignatureInput';
@@ -121,40 +123,49 @@ The digital signatures below indicate that both parties have read, understood, a
         throw new Error("Both signatures are required");
       }
 
-      // Save signature to user profile if requested (only signature1 - the current user's)
+      // Save signature to user profile if requested (only signature1 - the current user's).
+      // Offline this is skipped rather than holding up the contract.
       if (saveSignature && signature1 && signature1Type) {
-        await updateUserProfile(user!.id, {
-          saved_signature: signature1,
-          saved_signature_type: signature1Type,
-          saved_signature_text: signature1Text,
-        });
-        queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
+        try {
+          await updateUserProfile(user!.id, {
+            savedSignature: signature1,
+            savedSignatureType: signature1Type,
+            savedSignatureText: signature1Text,
+          });
+          queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
+        } catch (error) {
+          console.warn('Failed to save signature to profile:', error);
+        }
       }
 
       const contractData = {
-        user_id: user!.id,
-        university_id: state.universityId || null,
-        encounter_type: state.encounterType,
+        userId: user!.id,
+        universityId: state.universityId || null,
+        encounterType: state.encounterType,
         parties: state.parties.filter(p => p.trim()),
-        intimate_acts: JSON.stringify(state.intimateActs),
-        contract_start_time: state.contractStartTime || null,
-        contract_duration: state.contractDuration || null,
-        contract_end_time: state.contractEndTime || null,
+        intimateActs: JSON.stringify(state.intimateActs),
+        contractStartTime: state.contractStartTime || null,
+        contractDuration: state.contractDuration || null,
+        contractEndTime: state.contractEndTime || null,
         method: 'signature' as const,
-        contract_text: generateContractText(),
-        signature_1: signature1,
-        signature_2: signature2,
+        contractText: generateContractText(),
+        signature1: signature1,
+        signature2: signature2,
         status: 'active' as const,
-        is_collaborative: 'false' as const,
+        isCollaborative: false,
       };
 
-      return createContract(contractData);
+      return enqueueContract(user!.id, contractData, generateContractKey());
     },
-    onSuccess: () => {
+    onSuccess: ({ synced }) => {
       resetState();
-      Alert.alert("Success", "Consent contract created successfully!", [
-        { text: "View Contracts", onPress: () => router.replace('/(tabs)/contracts') }
-      ]);
+      Alert.alert(
+        synced ? "Success" : "Saved Offline",
+        synced
+          ? "Consent contract created successfully!"
+          : "Your contract is saved on this device and will be uploaded when you're back online.",
+        [{ text: "View Contracts", onPress: () => router.replace('/(tabs)/contracts') }]
+      );
     },
     onError: (error: Error) => {
       Alert.alert("Error", error.message || "Failed to create contract");
@@ -258,12 +269,12 @@ The digital signatures below indicate that both parties have read, understood, a
           {currentSigner === 1 ? (
             <SignatureInput
               onSignatureChange={handleSignature1Change}
-              savedSignature={profile?.saved_signature}
-              savedSignatureType={profile?.saved_signature_type}
-              savedSignatureText={profile?.saved_signature_text}
+              savedSignature={profile?.savedSignature}
+              savedSignatureType={profile?.savedSignatureType}
+              savedSignatureText={profile?.savedSignatureText}
               initialSignature={signature1}
-              autoPopulate={!!profile?.saved_signature}
-              showSaveOption={!profile?.saved_signature}
+              autoPopulate={!!profile?.savedSignature}
+              showSaveOption={!profile?.savedSignature}
               onSavePreferenceChange={setSaveSignature}
               onDrawingStart={handleDrawingStart}
               onDrawingEnd={handleDrawingEnd}
@@ -6,10 +6,13 @@ import { Audio } from 'expo-av';
 import { useConsentFlow } from '@/contexts/ConsentFlowContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useMutation } from '@tanstack/react-query';
-import { createContract, uploadAudioRecording } from '@/services/api';
+import { enqueueContract } from '@/lib/outbox';
+import { generateContractKey } from '@/lib/contractEncryption';
+import { encryptMediaFile } from '@/lib/consentMedia';
 import Button from '@/components/Button';
 import Card from '@/components/Card';
 import HoldToConfirmButton from '@/components/HoldToConfirmButton';
+import UploadProgress from '@/components/UploadProgress';
 import { spacing, typography, borderRadius } from '@/lib/theme';
 import { useTheme } from '@/contexts/ThemeContext';
 
@@ -25,6 +28,7 @@ export default function ConsentVoicePage() {
   const [isRecording, setIsRecording] = useState(false);
   const [audioUri, setAudioUri] = useState<string | null>(null);
   const [duration, setDuration] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
@@ -128,36 +132,46 @@ export default function ConsentVoicePage() {
         throw new Error("No recording available");
       }
 
-      // Upload audio file (React Native - pass URI directly)
-      const audioUrl = await uploadAudioRecording(user!.id, audioUri, {
-        filename: 'consent-recording.webm',
-        duration: duration.toString(),
-      });
+      // The recording is encrypted with the contract's key before it's queued for upload
+      const contractKey = generateContractKey();
+      const recording = await encryptMediaFile(audioUri, contractKey);
 
       const contractData = {
-        user_id: user!.id,
-        university_id: state.universityId || null,
-        encounter_type: state.encounterType,
+        userId: user!.id,
+        universityId: state.universityId || null,
+        encounterType: state.encounterType,
         parties: state.parties.filter(p => p.trim()),
-        intimate_acts: JSON.stringify(state.intimateActs),
-        contract_start_time: state.contractStartTime || null,
-        contract_duration: state.contractDuration || null,
-        contract_end_time: state.contractEndTime || null,
+        intimateActs: JSON.stringify(state.intimateActs),
+        contractStartTime: state.contractStartTime || null,
+        contractDuration: state.contractDuration || null,
+        contractEndTime: state.contractEndTime || null,
         method: 'voice' as const,
-        contract_text: `Voice consent recording - ${duration} seconds`,
+        contractText: `Voice consent recording - ${duration} seconds`,
         status: 'active' as const,
-        is_collaborative: 'false' as const,
+        isCollaborative: false,
       };
 
-      return createContract(contractData);
+      return enqueueContract(user!.id, contractData, contractKey, {
+        bucket: 'recordings',
+        filename: 'consent-recording.webm',
+        duration: duration.toString(),
+        bytes: recording,
+      }, setUploadProgress);
     },
-    onSuccess: () => {
-      Alert.alert("Success", "Consent contract created successfully");
+    onSuccess: ({ synced }) => {
+      if (synced) {
+        Alert.alert("Success", "Consent contract created successfully");
+      } else {
+        Alert.alert("Saved Offline", "Your contract is saved on this device and will be uploaded when you're back online. You can follow its progress in Contracts.");
+      }
       router.replace('/(tabs)/contracts');
     },
     onError: (error: Error) => {
       Alert.alert("Error", error.message || "Failed to create contract");
     },
+    onSettled: () => {
+      setUploadProgress(null);
+    },
   });
 
   const formatTime = (seconds: number) => {
@@ -236,11 +250,16 @@ export default function ConsentVoicePage() {
         </Card>
 
         {audioUri && (
-          <HoldToConfirmButton
-            onConfirm={() => saveMutation.mutate()}
-            disabled={saveMutation.isPending}
-            subtitle="Recording ready to submit"
-          />
+          <>
+            <HoldToConfirmButton
+              onConfirm={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              subtitle="Recording ready to submit"
+            />
+            {saveMutation.isPending && uploadProgress !== null && (
+              <UploadProgress progress={uploadProgress} label="Uploading recording" />
+            )}
+          </>
         )}
       </ScrollView>
     </View>
@@ -63,7 +63,7 @@ export default function ProfileScreen() {
   });
 
   const { data: unreadNotificationCount = 0 } = useQuery({
-    queryKey: ['unread-notification-count', user?.id],
+    queryKey: ['unread-notifications', user?.id],
     queryFn: () => {
       if (!user) return 0;
       return getUnreadNotificationCount(user.id);
@@ -87,8 +87,8 @@ export default function ProfileScreen() {
     return <Redirect href="/auth" />;
   }
 
-  const userName = profile?.first_name && profile?.last_name
-    ? `${profile.first_name} ${profile.last_name}`
+  const userName = profile?.firstName && profile?.lastName
+    ? `${profile.firstName} ${profile.lastName}`
     : profile?.username || user.email?.split('@')[0] || 'User';
 
   const initials = userName
@@ -99,7 +99,7 @@ export default function ProfileScreen() {
     .slice(0, 2) || 'U';
 
   const totalContracts = contracts?.length || 0;
-  const activeContracts = contracts?.filter((c: any) => c.status === 'active').length || 0;
+  const activeContracts = contracts?.filter(c => c.status === 'active').length || 0;
 
   const formatDataRetention = (policy: string | null | undefined) => {
     if (!policy) return 'Forever';
@@ -126,9 +126,9 @@ export default function ProfileScreen() {
         <View style={styles.profileHeader}>
         {/* Avatar */}
           <View style={styles.avatar}>
-            {profile?.profile_picture_url ? (
+            {profile?.profilePictureUrl ? (
               <Image
-                source={{ uri: profile.profile_picture_url }}
+                source={{ uri: profile.profilePictureUrl }}
                 style={styles.avatarImage}
               />
             ) : (
@@ -153,7 +153,7 @@ export default function ProfileScreen() {
       <View style={styles.nameSection}>
         <View style={styles.usernameRow}>
           <Text style={styles.username}>@{profile?.username || 'username'}</Text>
-          {profile?.is_verified === 'true' ? (
+          {profile?.isVerified ? (
             <TouchableOpacity
               style={styles.verifiedBadge}
               onPress={() => router.push('/(tabs)/profile/verification')}
@@ -180,19 +180,19 @@ export default function ProfileScreen() {
         )}
 
       {/* Website Link */}
-      {profile?.website_url && (
+      {profile?.websiteUrl && (
         <TouchableOpacity
           style={styles.websiteLink}
           onPress={() => {
-            const url = profile.website_url!.startsWith('http')
-              ? profile.website_url!
-              : `https://${profile.website_url}`;
+            const url = profile.websiteUrl!.startsWith('http')
+              ? profile.websiteUrl!
+              : `https://${profile.websiteUrl}`;
             Linking.openURL(url);
           }}
         >
           <Ionicons name="link-outline" size={14} color={colors.brand.primary} />
           <Text style={styles.websiteText}>
-            {profile.website_url.replace(/^https?:\/\//, '')}
+            {profile.websiteUrl.replace(/^https?:\/\//, '')}
           </Text>
         </TouchableOpacity>
       )}
@@ -234,7 +234,7 @@ export default function ProfileScreen() {
               </View>
               <View style={styles.detailTextContainer}>
                 <Text style={styles.detailLabel}>Member since</Text>
-                <Text style={styles.detailValue}>{formatDate(profile?.created_at)}</Text>
+                <Text style={styles.detailValue}>{formatDate(profile?.createdAt)}</Text>
               </View>
             </View>
 
@@ -244,7 +244,7 @@ export default function ProfileScreen() {
               </View>
               <View style={styles.detailTextContainer}>
                 <Text style={styles.detailLabel}>Data retention</Text>
-                <Text style={styles.detailValue}>{formatDataRetention(profile?.data_retention_policy)}</Text>
+                <Text style={styles.detailValue}>{formatDataRetention(profile?.dataRetentionPolicy)}</Text>
               </View>
             </View>
 
@@ -328,7 +328,7 @@ export default function ProfileScreen() {
         <Text style={[styles.sectionTitle, styles.sectionTitleSpacing]}>QUICK ACTIONS</Text>
 
         {/* Verification Card - Show prominently if not verified */}
-        {profile?.is_verified !== 'true' && (
+        {!profile?.isVerified && (
           <TouchableOpacity
             onPress={() => router.push('/(tabs)/profile/verification')}
             style={styles.actionCard}
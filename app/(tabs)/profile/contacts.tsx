@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { Redirect, useRouter } from 'expo-router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getUserContacts, addUserContact, deleteUserContact } from '@/services/api';
+import type { InsertUserContact } from '@shared/types';
 import Card from '@/components/Card';
 import Button from '@/components/Button';
 import Modal from '@/components/Modal';
@@ -33,7 +34,7 @@ export default function ContactsScreen() {
   });
 
   const addContactMutation = useMutation({
-    mutationFn: (contact: { contact_username: string; nickname?: string }) =>
+    mutationFn: (contact: InsertUserContact) =>
       addUserContact(user!.id, contact),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-contacts', user?.id] });
@@ -68,7 +69,7 @@ export default function ContactsScreen() {
     setIsSubmitting(true);
     try {
       await addContactMutation.mutateAsync({
-        contact_username: username,
+        contactUsername: username,
         nickname: newContactNickname.trim() || undefined,
       });
     } finally {
@@ -148,17 +149,17 @@ export default function ContactsScreen() {
           </View>
         ) : (
           <View style={styles.contactsList}>
-            {contacts.map((contact: any) => (
+            {contacts.map((contact) => (
               <Card key={contact.id} style={styles.contactCard}>
                 <View style={styles.contactContent}>
                   <View style={styles.contactAvatar}>
                     <Text style={styles.contactAvatarText}>
-                      {(contact.contact_username || contact.contactUsername || 'U')[0].toUpperCase()}
+                      {(contact.contactUsername || 'U')[0].toUpperCase()}
                     </Text>
                   </View>
                   <View style={styles.contactInfo}>
                     <Text style={styles.contactUsername}>
-                      @{contact.contact_username || contact.contactUsername}
+                      @{contact.contactUsername}
                     </Text>
                     {contact.nickname && (
                       <Text style={styles.contactNickname}>{contact.nickname}</Text>
@@ -167,7 +168,7 @@ export default function ContactsScreen() {
                   <TouchableOpacity
                     onPress={() => handleDeleteContact(
                       contact.id,
-                      contact.nickname || `@${contact.contact_username || contact.contactUsername}`
+                      contact.nickname || `@${contact.contactUsername}`
                     )}
                     style={styles.deleteButton}
                   >
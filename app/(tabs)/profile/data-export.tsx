@@ -0,0 +1,215 @@
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Alert, Linking } from 'react-native';
+import { useAuth } from '@/hooks/useAuth';
+import { Redirect, useRouter } from 'expo-router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getDataExports, requestDataExport, getDataExportDownloadUrl } from '@/services/api';
+import type { DataExport } from '@shared/types';
+import Card from '@/components/Card';
+import Button from '@/components/Button';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, typography } from '@/lib/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import { format } from 'date-fns';
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isInProgress = (dataExport: DataExport) =>
+  dataExport.status === 'pending' || dataExport.status === 'processing';
+
+export default function DataExportScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useTheme();
+  const styles = createStyles(colors);
+
+  const { data: exports = [], isLoading } = useQuery({
+    queryKey: ['data-exports', user?.id],
+    queryFn: () => getDataExports(user!.id),
+    enabled: !!user,
+    // Check back while an archive is being built
+    refetchInterval: (query) => (query.state.data?.some(isInProgress) ? 5000 : false),
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: requestDataExport,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['data-exports', user?.id] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to request data export');
+    },
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: getDataExportDownloadUrl,
+    onSuccess: (url) => {
+      Linking.openURL(url);
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to download data export');
+      queryClient.invalidateQueries({ queryKey: ['data-exports', user?.id] });
+    },
+  });
+
+  if (authLoading || isLoading) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <ActivityIndicator size="large" color={colors.brand.primary} />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return <Redirect href="/auth" />;
+  }
+
+  const inProgress = exports.some(isInProgress);
+  const now = new Date();
+
+  const describe = (dataExport: DataExport) => {
+    switch (dataExport.status) {
+      case 'ready':
+        return dataExport.expiresAt && new Date(dataExport.expiresAt) > now
+          ? `${formatSize(dataExport.sizeBytes)} · Available until ${format(new Date(dataExport.expiresAt), 'MMM d, yyyy')}`
+          : 'Expired';
+      case 'failed':
+        return "Couldn't be created. Please try again.";
+      default:
+        return "Preparing your archive. We'll notify you when it's ready.";
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.inverse} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Export Your Data</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>What's Included</Text>
+        <Text style={styles.description}>
+          A zip archive of your profile, preferences, contracts with their amendments and collaborators, recordings, photos, notifications, contacts and verification history, with a manifest.json describing every file.
+        </Text>
+        <Text style={styles.description}>
+          End-to-end encrypted contract details and media stay encrypted in the archive; only the PMY app can read them with your keys.
+        </Text>
+        <Button
+          title={inProgress ? 'Export in Progress' : 'Request Export'}
+          onPress={() => requestMutation.mutate()}
+          loading={requestMutation.isPending}
+          disabled={inProgress}
+        />
+      </Card>
+
+      {exports.length > 0 && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Recent Exports</Text>
+          {exports.map((dataExport) => {
+            const downloadable = dataExport.status === 'ready'
+              && !!dataExport.expiresAt
+              && new Date(dataExport.expiresAt) > now;
+
+            return (
+              <TouchableOpacity
+                key={dataExport.id}
+                style={styles.exportItem}
+                disabled={!downloadable || downloadMutation.isPending}
+                onPress={() => downloadMutation.mutate(dataExport.id)}
+              >
+                <Ionicons
+                  name={downloadable ? 'download-outline' : dataExport.status === 'failed' ? 'alert-circle-outline' : 'time-outline'}
+                  size={20}
+                  color={downloadable ? colors.brand.primary : colors.text.tertiary}
+                />
+                <View style={styles.exportText}>
+                  <Text style={styles.exportTitle}>
+                    {format(new Date(dataExport.requestedAt), 'MMM d, yyyy h:mm a')}
+                  </Text>
+                  <Text style={styles.exportDescription}>{describe(dataExport)}</Text>
+                </View>
+                {downloadMutation.isPending && downloadMutation.variables === dataExport.id && (
+                  <ActivityIndicator size="small" color={colors.brand.primary} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </Card>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.dark,
+  },
+  center: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xl * 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xl,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  title: {
+    fontSize: typography.size['2xl'],
+    fontWeight: typography.weight.bold,
+    color: colors.text.inverse,
+  },
+  card: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.inverse,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    fontSize: typography.size.sm,
+    color: colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  exportItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.ui.borderDark,
+  },
+  exportText: {
+    flex: 1,
+  },
+  exportTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+    color: colors.text.inverse,
+  },
+  exportDescription: {
+    fontSize: typography.size.xs,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
+import { useAuth } from '@/hooks/useAuth';
+import { Redirect, useRouter } from 'expo-router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getAccountDeletionRequest, requestAccountDeletion, cancelAccountDeletion } from '@/services/api';
+import Card from '@/components/Card';
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, typography } from '@/lib/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+export default function DeleteAccountScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useTheme();
+  const styles = createStyles(colors);
+
+  const [password, setPassword] = useState('');
+
+  const { data: request, isLoading } = useQuery({
+    queryKey: ['account-deletion', user?.id],
+    queryFn: () => getAccountDeletionRequest(user!.id),
+    enabled: !!user,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () => requestAccountDeletion(password),
+    onSuccess: (scheduledFor) => {
+      setPassword('');
+      queryClient.invalidateQueries({ queryKey: ['account-deletion', user?.id] });
+      Alert.alert(
+        'Account Scheduled for Deletion',
+        `Your account will be deleted on ${formatDate(scheduledFor)}. You can cancel until then.`
+      );
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to delete account');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelAccountDeletion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['account-deletion', user?.id] });
+      Alert.alert('Deletion Cancelled', "Your account won't be deleted.");
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to cancel account deletion');
+    },
+  });
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Account',
+      'Your account and data will be permanently deleted after 30 days. This cannot be undone once the 30 days have passed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => requestMutation.mutate() },
+      ]
+    );
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <ActivityIndicator size="large" color={colors.brand.primary} />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return <Redirect href="/auth" />;
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.inverse} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Delete Account</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {request ? (
+        <Card style={styles.card}>
+          <View style={styles.statusRow}>
+            <Ionicons name="time-outline" size={20} color={colors.status.warning} />
+            <Text style={styles.statusText}>
+              Scheduled for deletion on {formatDate(request.scheduledFor)}
+            </Text>
+          </View>
+          <Text style={styles.description}>
+            Until then you can keep using PMY as normal. If you change your mind, cancel the request and nothing will be deleted.
+          </Text>
+          <Button
+            title="Cancel Deletion"
+            onPress={() => cancelMutation.mutate()}
+            loading={cancelMutation.isPending}
+          />
+        </Card>
+      ) : (
+        <>
+          {/* What happens */}
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>What Gets Deleted</Text>
+            <Text style={styles.description}>
+              After a 30-day grace period we permanently delete your profile, the contracts you created, your recordings and photos, and your sign-in. You can cancel at any time during the grace period.
+            </Text>
+            <Text style={styles.sectionTitle}>Shared Contracts</Text>
+            <Text style={styles.description}>
+              Contracts you created are deleted for everyone on them. Contracts you joined that are still in effect are revoked, as if you had withdrawn consent. Everyone you've shared a contract with is notified that your account was deleted.
+            </Text>
+            <Text style={styles.description}>
+              Data under a legal hold is kept until the hold is released.
+            </Text>
+          </Card>
+
+          {/* Confirm */}
+          <Card style={styles.card}>
+            <Text style={styles.sectionTitle}>Confirm It's You</Text>
+            <Text style={styles.description}>
+              Enter your password to schedule your account for deletion.
+            </Text>
+            <Input
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Button
+              title="Delete My Account"
+              variant="destructive"
+              onPress={handleDelete}
+              loading={requestMutation.isPending}
+              disabled={!password}
+              style={styles.deleteButton}
+            />
+          </Card>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.dark,
+  },
+  center: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xl * 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xl,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  title: {
+    fontSize: typography.size['2xl'],
+    fontWeight: typography.weight.bold,
+    color: colors.text.inverse,
+  },
+  card: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.inverse,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    fontSize: typography.size.sm,
+    color: colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+    color: colors.text.inverse,
+  },
+  deleteButton: {
+    marginTop: spacing.md,
+  },
+});
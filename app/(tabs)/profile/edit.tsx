@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { Redirect, useRouter } from 'expo-router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getUserProfile, updateUserProfile, uploadProfilePicture, getAllUniversities } from '@/services/api';
+import type { UpdateUserProfile } from '@shared/types';
 import Card from '@/components/Card';
 import Button from '@/components/Button';
 import { Ionicons } from '@expo/vector-icons';
@@ -42,38 +43,38 @@ export default function EditProfileScreen() {
   });
 
   const [formData, setFormData] = useState({
-    first_name: '',
-    last_name: '',
+    firstName: '',
+    lastName: '',
     username: '',
     bio: '',
-    website_url: '',
-    profile_picture_url: '',
+    websiteUrl: '',
+    profilePictureUrl: '',
     // Contract preferences
-    state_of_residence: '',
-    default_university_id: '',
-    default_encounter_type: '',
-    default_contract_duration: '',
+    stateOfResidence: '',
+    defaultUniversityId: '',
+    defaultEncounterType: '',
+    defaultContractDuration: '',
   });
 
   useEffect(() => {
     if (profile) {
       setFormData({
-        first_name: profile.first_name || '',
-        last_name: profile.last_name || '',
+        firstName: profile.firstName || '',
+        lastName: profile.lastName || '',
         username: profile.username || '',
         bio: profile.bio || '',
-        website_url: profile.website_url || '',
-        profile_picture_url: profile.profile_picture_url || '',
-        state_of_residence: profile.state_of_residence || '',
-        default_university_id: profile.default_university_id || '',
-        default_encounter_type: profile.default_encounter_type || '',
-        default_contract_duration: profile.default_contract_duration?.toString() || '',
+        websiteUrl: profile.websiteUrl || '',
+        profilePictureUrl: profile.profilePictureUrl || '',
+        stateOfResidence: profile.stateOfResidence || '',
+        defaultUniversityId: profile.defaultUniversityId || '',
+        defaultEncounterType: profile.defaultEncounterType || '',
+        defaultContractDuration: profile.defaultContractDuration?.toString() || '',
       });
     }
   }, [profile]);
 
   const updateMutation = useMutation({
-    mutationFn: (updates: any) => updateUserProfile(user!.id, updates),
+    mutationFn: (updates: UpdateUserProfile) => updateUserProfile(user!.id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
       queryClient.invalidateQueries({ queryKey: ['user-preferences', user?.id] });
@@ -86,18 +87,18 @@ export default function EditProfileScreen() {
   });
 
   const handleSave = () => {
-    const updates: any = {
-      first_name: formData.first_name || null,
-      last_name: formData.last_name || null,
-      username: formData.username || null,
+    const updates: UpdateUserProfile = {
+      firstName: formData.firstName || null,
+      lastName: formData.lastName || null,
+      username: formData.username || undefined,
       bio: formData.bio || null,
-      website_url: formData.website_url || null,
-      profile_picture_url: formData.profile_picture_url || null,
-      state_of_residence: formData.state_of_residence || null,
-      default_university_id: formData.default_university_id || null,
-      default_encounter_type: formData.default_encounter_type || null,
-      default_contract_duration: formData.default_contract_duration
-        ? parseInt(formData.default_contract_duration, 10)
+      websiteUrl: formData.websiteUrl || null,
+      profilePictureUrl: formData.profilePictureUrl || null,
+      stateOfResidence: formData.stateOfResidence || null,
+      defaultUniversityId: formData.defaultUniversityId || null,
+      defaultEncounterType: formData.defaultEncounterType || null,
+      defaultContractDuration: formData.defaultContractDuration
+        ? parseInt(formData.defaultContractDuration, 10)
         : null,
     };
     updateMutation.mutate(updates);
@@ -123,7 +124,7 @@ export default function EditProfileScreen() {
       try {
         const contentType = asset.mimeType || 'image/jpeg';
         const url = await uploadProfilePicture(user!.id, asset.uri, contentType);
-        setFormData({ ...formData, profile_picture_url: url });
+        setFormData({ ...formData, profilePictureUrl: url });
       } catch (error: any) {
         Alert.alert('Upload Failed', error.message || 'Failed to upload profile picture');
       } finally {
@@ -151,7 +152,7 @@ export default function EditProfileScreen() {
       try {
         const contentType = asset.mimeType || 'image/jpeg';
         const url = await uploadProfilePicture(user!.id, asset.uri, contentType);
-        setFormData({ ...formData, profile_picture_url: url });
+        setFormData({ ...formData, profilePictureUrl: url });
       } catch (error: any) {
         Alert.alert('Upload Failed', error.message || 'Failed to upload profile picture');
       } finally {
@@ -167,10 +168,10 @@ export default function EditProfileScreen() {
       [
         { text: 'Take Photo', onPress: takePhoto },
         { text: 'Choose from Library', onPress: pickImage },
-        ...(formData.profile_picture_url ? [{
+        ...(formData.profilePictureUrl ? [{
           text: 'Remove Photo',
           style: 'destructive' as const,
-          onPress: () => setFormData({ ...formData, profile_picture_url: '' })
+          onPress: () => setFormData({ ...formData, profilePictureUrl: '' })
         }] : []),
         { text: 'Cancel', style: 'cancel' as const },
       ]
@@ -192,13 +193,13 @@ export default function EditProfileScreen() {
     return <Redirect href="/auth" />;
   }
 
-  const initials = (formData.first_name?.[0] || '') + (formData.last_name?.[0] || '') ||
+  const initials = (formData.firstName?.[0] || '') + (formData.lastName?.[0] || '') ||
                    formData.username?.[0]?.toUpperCase() || 'U';
 
-  const selectedUniversity = universities?.find((u: any) => u.id === formData.default_university_id);
-  const selectedState = US_STATES.find(s => s.code === formData.state_of_residence);
+  const selectedUniversity = universities?.find((u: any) => u.id === formData.defaultUniversityId);
+  const selectedState = US_STATES.find(s => s.code === formData.stateOfResidence);
   const allEncounterTypes = [intimateEncounterType, ...encounterTypes];
-  const selectedEncounter = allEncounterTypes.find(e => e.id === formData.default_encounter_type);
+  const selectedEncounter = allEncounterTypes.find(e => e.id === formData.defaultEncounterType);
 
   const durationOptions = [
     { label: '30 minutes', value: '30' },
@@ -209,7 +210,7 @@ export default function EditProfileScreen() {
     { label: '12 hours', value: '720' },
     { label: '24 hours', value: '1440' },
   ];
-  const selectedDuration = durationOptions.find(d => d.value === formData.default_contract_duration);
+  const selectedDuration = durationOptions.find(d => d.value === formData.defaultContractDuration);
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -238,9 +239,9 @@ export default function EditProfileScreen() {
                 <View style={styles.avatarLoading}>
                   <ActivityIndicator size="large" color={colors.brand.primary} />
                 </View>
-              ) : formData.profile_picture_url ? (
+              ) : formData.profilePictureUrl ? (
                 <Image
-                  source={{ uri: formData.profile_picture_url }}
+                  source={{ uri: formData.profilePictureUrl }}
                   style={styles.avatarImage}
                 />
               ) : (
@@ -265,15 +266,15 @@ export default function EditProfileScreen() {
         <Text style={styles.sectionTitle}>Personal Information</Text>
         <Input
           label="First Name"
-          value={formData.first_name}
-          onChangeText={(text: string) => setFormData({ ...formData, first_name: text })}
+          value={formData.firstName}
+          onChangeText={(text: string) => setFormData({ ...formData, firstName: text })}
           placeholder="Enter first name"
           style={styles.input}
         />
         <Input
           label="Last Name"
-          value={formData.last_name}
-          onChangeText={(text: string) => setFormData({ ...formData, last_name: text })}
+          value={formData.lastName}
+          onChangeText={(text: string) => setFormData({ ...formData, lastName: text })}
           placeholder="Enter last name"
           style={styles.input}
         />
@@ -298,8 +299,8 @@ export default function EditProfileScreen() {
         </View>
         <Input
           label="Website"
-          value={formData.website_url}
-          onChangeText={(text: string) => setFormData({ ...formData, website_url: text })}
+          value={formData.websiteUrl}
+          onChangeText={(text: string) => setFormData({ ...formData, websiteUrl: text })}
           placeholder="https://example.com"
           style={styles.input}
         />
@@ -393,17 +394,17 @@ export default function EditProfileScreen() {
                 <TouchableOpacity
                   style={styles.modalOption}
                   onPress={() => {
-                    setFormData({ ...formData, state_of_residence: item.code });
+                    setFormData({ ...formData, stateOfResidence: item.code });
                     setShowStateModal(false);
                   }}
                 >
                   <Text style={[
                     styles.modalOptionText,
-                    formData.state_of_residence === item.code && styles.modalOptionSelected
+                    formData.stateOfResidence === item.code && styles.modalOptionSelected
                   ]}>
                     {item.name}
                   </Text>
-                  {formData.state_of_residence === item.code && (
+                  {formData.stateOfResidence === item.code && (
                     <Ionicons name="checkmark" size={20} color={colors.brand.primary} />
                   )}
                 </TouchableOpacity>
@@ -430,17 +431,17 @@ export default function EditProfileScreen() {
                 <TouchableOpacity
                   style={styles.modalOption}
                   onPress={() => {
-                    setFormData({ ...formData, default_university_id: item.id });
+                    setFormData({ ...formData, defaultUniversityId: item.id });
                     setShowUniversityModal(false);
                   }}
                 >
                   <Text style={[
                     styles.modalOptionText,
-                    formData.default_university_id === item.id && styles.modalOptionSelected
+                    formData.defaultUniversityId === item.id && styles.modalOptionSelected
                   ]} numberOfLines={1}>
                     {item.name}
                   </Text>
-                  {formData.default_university_id === item.id && (
+                  {formData.defaultUniversityId === item.id && (
                     <Ionicons name="checkmark" size={20} color={colors.brand.primary} />
                   )}
                 </TouchableOpacity>
@@ -467,17 +468,17 @@ export default function EditProfileScreen() {
                 <TouchableOpacity
                   style={styles.modalOption}
                   onPress={() => {
-                    setFormData({ ...formData, default_encounter_type: item.id });
+                    setFormData({ ...formData, defaultEncounterType: item.id });
                     setShowEncounterModal(false);
                   }}
                 >
                   <Text style={[
                     styles.modalOptionText,
-                    formData.default_encounter_type === item.id && styles.modalOptionSelected
+                    formData.defaultEncounterType === item.id && styles.modalOptionSelected
                   ]}>
                     {item.label}
                   </Text>
-                  {formData.default_encounter_type === item.id && (
+                  {formData.defaultEncounterType === item.id && (
                     <Ionicons name="checkmark" size={20} color={colors.brand.primary} />
                   )}
                 </TouchableOpacity>
@@ -504,17 +505,17 @@ export default function EditProfileScreen() {
                 <TouchableOpacity
                   style={styles.modalOption}
                   onPress={() => {
-                    setFormData({ ...formData, default_contract_duration: item.value });
+                    setFormData({ ...formData, defaultContractDuration: item.value });
                     setShowDurationModal(false);
                   }}
                 >
                   <Text style={[
                     styles.modalOptionText,
-                    formData.default_contract_duration === item.value && styles.modalOptionSelected
+                    formData.defaultContractDuration === item.value && styles.modalOptionSelected
                   ]}>
                     {item.label}
                   </Text>
-                  {formData.default_contract_duration === item.value && (
+                  {formData.defaultContractDuration === item.value && (
                     <Ionicons name="checkmark" size={20} color={colors.brand.primary} />
                   )}
                 </TouchableOpacity>
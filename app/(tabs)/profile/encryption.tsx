@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
+import { useAuth } from '@/hooks/useAuth';
+import { Redirect, useRouter } from 'expo-router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { hasRecoveryKey, recoverWithCode, setUpRecovery } from '@/lib/contractKeys';
+import Card from '@/components/Card';
+import Button from '@/components/Button';
+import Input from '@/components/Input';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, typography, borderRadius } from '@/lib/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export default function EncryptionKeysScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useTheme();
+  const styles = createStyles(colors);
+
+  // Shown once, right after it is created
+  const [newCode, setNewCode] = useState<string | null>(null);
+  const [restoreCode, setRestoreCode] = useState('');
+
+  const { data: hasRecovery, isLoading } = useQuery({
+    queryKey: ['recovery-key', user?.id],
+    queryFn: () => hasRecoveryKey(user!.id),
+    enabled: !!user,
+  });
+
+  const setUpMutation = useMutation({
+    mutationFn: () => setUpRecovery(user!.id),
+    onSuccess: (code) => {
+      setNewCode(code);
+      queryClient.invalidateQueries({ queryKey: ['recovery-key', user?.id] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to create a recovery code');
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: () => recoverWithCode(user!.id, restoreCode),
+    onSuccess: (count) => {
+      setRestoreCode('');
+      queryClient.invalidateQueries({ queryKey: ['contract-key'] });
+      queryClient.invalidateQueries({ queryKey: ['consent-media'] });
+      Alert.alert(
+        'Contracts Unlocked',
+        count === 1 ? '1 contract is now readable on this device.' : `${count} contracts are now readable on this device.`
+      );
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message || 'Failed to restore with this recovery code');
+    },
+  });
+
+  const handleSetUp = () => {
+    if (!hasRecovery) {
+      setUpMutation.mutate();
+      return;
+    }
+
+    Alert.alert(
+      'Replace Recovery Code',
+      'Your current recovery code will stop unlocking new contracts. Make sure you save the new one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => setUpMutation.mutate() },
+      ]
+    );
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <ActivityIndicator size="large" color={colors.brand.primary} />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return <Redirect href="/auth" />;
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.inverse} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Encryption Keys</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {/* Info Card */}
+      <Card style={styles.infoCard}>
+        <View style={styles.infoContent}>
+          <Ionicons name="lock-closed" size={24} color={colors.brand.secondary} />
+          <Text style={styles.infoText}>
+            Contract text, signatures, photos and recordings are encrypted on your device. PMY can't read them, and can't restore them for you. A recovery code lets you unlock your contracts on a new device.
+          </Text>
+        </View>
+      </Card>
+
+      {/* Recovery Code */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Recovery Code</Text>
+        {newCode ? (
+          <>
+            <Text style={styles.description}>
+              Write this down and keep it somewhere safe. It won't be shown again.
+            </Text>
+            <View style={styles.codeBox}>
+              <Text style={styles.codeText} selectable>{newCode}</Text>
+            </View>
+            <Button title="I've Saved It" onPress={() => setNewCode(null)} />
+          </>
+        ) : (
+          <>
+            <View style={styles.statusRow}>
+              <Ionicons
+                name={hasRecovery ? 'shield-checkmark' : 'warning'}
+                size={20}
+                color={hasRecovery ? colors.status.success : colors.status.warning}
+              />
+              <Text style={styles.statusText}>
+                {hasRecovery ? 'A recovery code is set up' : 'No recovery code yet'}
+              </Text>
+            </View>
+            <Text style={styles.description}>
+              {hasRecovery
+                ? 'Creating a new code replaces the old one. Contracts this device can read are re-encrypted for the new code.'
+                : 'Without a recovery code, contracts on a lost device can only be unlocked by another party opening them.'}
+            </Text>
+            <Button
+              title={hasRecovery ? 'Create New Code' : 'Set Up Recovery Code'}
+              onPress={handleSetUp}
+              loading={setUpMutation.isPending}
+            />
+          </>
+        )}
+      </Card>
+
+      {/* Restore */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Unlock This Device</Text>
+        <Text style={styles.description}>
+          New phone? Enter your recovery code to unlock your contracts here.
+        </Text>
+        <Input
+          value={restoreCode}
+          onChangeText={setRestoreCode}
+          placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+        <Button
+          title="Unlock Contracts"
+          onPress={() => restoreMutation.mutate()}
+          loading={restoreMutation.isPending}
+          disabled={!restoreCode.trim()}
+          style={styles.restoreButton}
+        />
+      </Card>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.dark,
+  },
+  center: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xl * 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xl,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  title: {
+    fontSize: typography.size['2xl'],
+    fontWeight: typography.weight.bold,
+    color: colors.text.inverse,
+  },
+  infoCard: {
+    marginBottom: spacing.lg,
+    backgroundColor: `${colors.brand.secondary}15`,
+    borderColor: `${colors.brand.secondary}30`,
+  },
+  infoContent: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.md,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: typography.size.sm,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  card: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.inverse,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    fontSize: typography.size.sm,
+    color: colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  statusText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+    color: colors.text.inverse,
+  },
+  codeBox: {
+    backgroundColor: colors.background.dark,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.ui.border,
+    padding: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  codeText: {
+    fontSize: typography.size.lg,
+    fontFamily: 'monospace',
+    color: colors.text.inverse,
+    textAlign: 'center',
+    letterSpacing: 1,
+  },
+  restoreButton: {
+    marginTop: spacing.md,
+  },
+});
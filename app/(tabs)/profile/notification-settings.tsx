@@ -0,0 +1,379 @@
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator, TouchableOpacity, Switch, Alert } from 'react-native';
+import { useAuth } from '@/hooks/useAuth';
+import { Redirect, useRouter } from 'expo-router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/services/api';
+import Card from '@/components/Card';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, layout, typography, borderRadius } from '@/lib/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  UpdateNotificationPreferences,
+} from '@shared/types';
+
+const CATEGORIES: { id: NotificationCategory; label: string; description: string; channels: NotificationChannel[] }[] = [
+  { id: 'invitation', label: 'Invitations', description: 'Invitations, and parties accepting or declining', channels: ['in_app', 'email', 'push'] },
+  { id: 'amendment', label: 'Amendments', description: 'Requested, approved and rejected changes', channels: ['in_app', 'email', 'push'] },
+  { id: 'revocation', label: 'Consent Changes', description: 'A party pauses, resumes or withdraws consent', channels: ['in_app', 'email', 'push'] },
+  // No emails are sent for these
+  { id: 'expiry', label: 'Completed Contracts', description: 'A contract reaches its end time', channels: ['in_app', 'push'] },
+  { id: 'verification', label: 'Identity Verification', description: 'Verification results', channels: ['in_app', 'push'] },
+];
+
+const CHANNELS: { id: NotificationChannel; label: string }[] = [
+  { id: 'in_app', label: 'In-app' },
+  { id: 'email', label: 'Email' },
+  { id: 'push', label: 'Push' },
+];
+
+const QUIET_HOURS_STEP_MINUTES = 30;
+
+function stepTime(time: string, direction: 1 | -1): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const total = (hours * 60 + minutes + direction * QUIET_HOURS_STEP_MINUTES + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export default function NotificationSettingsScreen() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useTheme();
+
+  const { data: preferences, isLoading } = useQuery({
+    queryKey: ['notification-preferences', user?.id],
+    queryFn: () => getNotificationPreferences(user!.id),
+    enabled: !!user,
+  });
+
+  // Each change saves straight away; the cache is updated first so switches don't lag
+  const updateMutation = useMutation({
+    mutationFn: (updates: UpdateNotificationPreferences) => updateNotificationPreferences(user!.id, updates),
+    onMutate: async (updates) => {
+      const queryKey = ['notification-preferences', user?.id];
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<NotificationPreferences>(queryKey);
+      if (previous) {
+        queryClient.setQueryData<NotificationPreferences>(queryKey, { ...previous, ...updates });
+      }
+      return { previous };
+    },
+    onError: (error: any, _updates, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['notification-preferences', user?.id], context.previous);
+      }
+      Alert.alert('Error', error.message || 'Failed to update notification settings');
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['notification-preferences', user?.id], saved);
+    },
+  });
+
+  const styles = createStyles(colors);
+
+  if (authLoading || (isLoading && !preferences)) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background.dark }]}>
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.brand.primary} />
+        </View>
+      </View>
+    );
+  }
+
+  if (!user) {
+    return <Redirect href="/auth" />;
+  }
+
+  if (!preferences) {
+    return null;
+  }
+
+  const deviceTimeZone = getDeviceTimeZone();
+  // Quiet hours follow this device's zone unless the user saved one before
+  const timeZone = preferences.updatedAt ? preferences.timeZone : deviceTimeZone;
+
+  const isEnabled = (category: NotificationCategory, channel: NotificationChannel) =>
+    preferences.channels[category]?.[channel] !== false;
+
+  const handleToggleChannel = (category: NotificationCategory, channel: NotificationChannel, value: boolean) => {
+    const categoryChannels = { ...preferences.channels[category] };
+    // Only what's turned off is stored
+    if (value) {
+      delete categoryChannels[channel];
+    } else {
+      categoryChannels[channel] = false;
+    }
+    updateMutation.mutate({
+      channels: { ...preferences.channels, [category]: categoryChannels },
+      timeZone,
+    });
+  };
+
+  const handleQuietHours = (updates: UpdateNotificationPreferences) => {
+    updateMutation.mutate({ ...updates, timeZone });
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color={colors.text.inverse} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Notification Settings</Text>
+        <View style={{ width: 32 }} />
+      </View>
+
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>What You Hear About</Text>
+        <Text style={styles.description}>
+          Choose where each kind of update reaches you. Push notifications never include contract details.
+        </Text>
+
+        <View style={styles.matrixHeader}>
+          <View style={styles.categoryColumn} />
+          {CHANNELS.map(channel => (
+            <Text key={channel.id} style={styles.channelLabel}>{channel.label}</Text>
+          ))}
+        </View>
+
+        {CATEGORIES.map(category => (
+          <View key={category.id} style={styles.matrixRow}>
+            <View style={styles.categoryColumn}>
+              <Text style={styles.categoryLabel}>{category.label}</Text>
+              <Text style={styles.categoryDescription}>{category.description}</Text>
+            </View>
+            {CHANNELS.map(channel => (
+              <View key={channel.id} style={styles.channelCell}>
+                {category.channels.includes(channel.id) ? (
+                  <Switch
+                    value={isEnabled(category.id, channel.id)}
+                    onValueChange={value => handleToggleChannel(category.id, channel.id, value)}
+                    trackColor={{ false: colors.ui.borderDark, true: colors.brand.secondary }}
+                    thumbColor={colors.text.inverse}
+                  />
+                ) : (
+                  <Text style={styles.unavailable}>—</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        ))}
+      </Card>
+
+      <Card style={styles.card}>
+        <View style={styles.quietHoursHeader}>
+          <View style={styles.categoryColumn}>
+            <Text style={styles.sectionTitle}>Quiet Hours</Text>
+            <Text style={styles.categoryDescription}>
+              Emails and push notifications due during these hours aren't sent, even afterwards. Everything still appears in your inbox, and invitation emails always go out.
+            </Text>
+          </View>
+          <Switch
+            value={preferences.quietHoursEnabled}
+            onValueChange={value => handleQuietHours({ quietHoursEnabled: value })}
+            trackColor={{ false: colors.ui.borderDark, true: colors.brand.secondary }}
+            thumbColor={colors.text.inverse}
+          />
+        </View>
+
+        {preferences.quietHoursEnabled && (
+          <>
+            {([
+              { key: 'quietHoursStart', label: 'From', value: preferences.quietHoursStart },
+              { key: 'quietHoursEnd', label: 'Until', value: preferences.quietHoursEnd },
+            ] as const).map(row => (
+              <View key={row.key} style={styles.timeRow}>
+                <Text style={styles.timeLabel}>{row.label}</Text>
+                <View style={styles.timeStepper}>
+                  <TouchableOpacity
+                    onPress={() => handleQuietHours({ [row.key]: stepTime(row.value, -1) })}
+                    style={styles.stepButton}
+                  >
+                    <Ionicons name="remove" size={18} color={colors.text.inverse} />
+                  </TouchableOpacity>
+                  <Text style={styles.timeValue}>{formatTime(row.value)}</Text>
+                  <TouchableOpacity
+                    onPress={() => handleQuietHours({ [row.key]: stepTime(row.value, 1) })}
+                    style={styles.stepButton}
+                  >
+                    <Ionicons name="add" size={18} color={colors.text.inverse} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.timeRow}>
+              <Text style={styles.timeLabel}>Time zone</Text>
+              <Text style={styles.timeZoneValue}>{timeZone.replace(/_/g, ' ')}</Text>
+            </View>
+            {timeZone !== deviceTimeZone && (
+              <TouchableOpacity
+                onPress={() => handleQuietHours({ timeZone: deviceTimeZone })}
+                style={styles.timeZoneButton}
+              >
+                <Ionicons name="locate-outline" size={16} color={colors.brand.primary} />
+                <Text style={styles.timeZoneButtonText}>
+                  Use this device's time zone ({deviceTimeZone.replace(/_/g, ' ')})
+                </Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </Card>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) => StyleSheet.create({
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.dark,
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: layout.bottomNavHeight + spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  title: {
+    fontSize: typography.size['2xl'],
+    fontWeight: typography.weight.bold,
+    color: colors.text.inverse,
+  },
+  card: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    marginBottom: spacing.sm,
+    color: colors.text.inverse,
+  },
+  description: {
+    fontSize: typography.size.sm,
+    color: colors.text.tertiary,
+    marginBottom: spacing.lg,
+    lineHeight: 20,
+  },
+  matrixHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.ui.borderDark,
+  },
+  matrixRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.ui.borderDark,
+  },
+  categoryColumn: {
+    flex: 1,
+    paddingRight: spacing.sm,
+  },
+  categoryLabel: {
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.inverse,
+  },
+  categoryDescription: {
+    fontSize: typography.size.sm,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  channelLabel: {
+    width: 60,
+    textAlign: 'center',
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.secondary,
+  },
+  channelCell: {
+    width: 60,
+    alignItems: 'center',
+  },
+  unavailable: {
+    fontSize: typography.size.md,
+    color: colors.text.tertiary,
+  },
+  quietHoursHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.ui.borderDark,
+    marginTop: spacing.sm,
+  },
+  timeLabel: {
+    fontSize: typography.size.md,
+    color: colors.text.inverse,
+  },
+  timeStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background.card,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timeValue: {
+    minWidth: 80,
+    textAlign: 'center',
+    fontSize: typography.size.md,
+    fontWeight: typography.weight.semibold,
+    color: colors.text.inverse,
+  },
+  timeZoneValue: {
+    fontSize: typography.size.md,
+    color: colors.text.secondary,
+  },
+  timeZoneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+  },
+  timeZoneButtonText: {
+    fontSize: typography.size.sm,
+    color: colors.brand.primary,
+  },
+});
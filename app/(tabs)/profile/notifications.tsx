@@ -9,6 +9,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { spacing, layout, typography, borderRadius } from '@/lib/theme';
 import { useTheme } from '@/contexts/ThemeContext';
+import type { NotificationType } from '@shared/types';
 
 export default function NotificationsScreen() {
   const { user, loading: authLoading } = useAuth();
@@ -67,7 +68,7 @@ export default function NotificationsScreen() {
     return <Redirect href="/auth" />;
   }
 
-  const unreadCount = notifications?.filter((n: any) => n.is_read === 'false' || n.is_read === false).length || 0;
+  const unreadCount = notifications?.filter(n => !n.isRead).length || 0;
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -93,6 +94,12 @@ export default function NotificationsScreen() {
           <Text style={styles.sectionTitle}>
             {unreadCount > 0 ? `${unreadCount} Unread` : 'All Notifications'}
           </Text>
+          <TouchableOpacity
+            onPress={() => router.push('/(tabs)/profile/notification-settings' as `/${string}`)}
+            style={styles.backButton}
+          >
+            <Ionicons name="options-outline" size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
         </View>
 
         {isLoading ? (
@@ -101,9 +108,8 @@ export default function NotificationsScreen() {
             <Text style={styles.emptyText}>Loading notifications...</Text>
           </View>
         ) : notifications && notifications.length > 0 ? (
-          notifications.map((notification: any) => {
-            const isRead = notification.is_read === 'true' || notification.is_read === true;
-            const createdAt = notification.created_at || notification.createdAt;
+          notifications.map((notification) => {
+            const { isRead, createdAt, relatedContractId } = notification;
 
             return (
               <TouchableOpacity
@@ -111,9 +117,10 @@ export default function NotificationsScreen() {
                 style={[styles.notificationItem, !isRead && styles.notificationItemUnread]}
                 onPress={() => {
                   if (!isRead) handleMarkRead(notification.id);
-                  const relatedContractId = notification.related_contract_id || notification.relatedContractId;
                   if (relatedContractId) {
                     router.push(`/(tabs)/contracts/${relatedContractId}`);
+                  } else if (isDataExportNotification(notification.type)) {
+                    router.push('/(tabs)/profile/data-export' as `/${string}`);
                   }
                 }}
               >
@@ -129,7 +136,7 @@ export default function NotificationsScreen() {
                     {notification.title || 'Notification'}
                   </Text>
                   <Text style={styles.notificationMessage} numberOfLines={2}>
-                    {notification.message || notification.body || ''}
+                    {notification.message}
                   </Text>
                   {createdAt && (
                     <Text style={styles.notificationTime}>
@@ -141,7 +148,7 @@ export default function NotificationsScreen() {
                   {!isRead && (
                     <View style={styles.unreadDot} />
                   )}
-                  {(notification.related_contract_id || notification.relatedContractId) && (
+                  {(relatedContractId || isDataExportNotification(notification.type)) && (
                     <Ionicons name="chevron-forward" size={16} color={colors.text.tertiary} />
                   )}
                 </View>
@@ -162,18 +169,42 @@ export default function NotificationsScreen() {
   );
 }
 
-function getNotificationIcon(type?: string): keyof typeof Ionicons.glyphMap {
+function isDataExportNotification(type?: NotificationType): boolean {
+  return type === 'data_export_ready' || type === 'data_export_failed';
+}
+
+function getNotificationIcon(type?: NotificationType): keyof typeof Ionicons.glyphMap {
   switch (type) {
+    case 'contract_invitation':
+      return 'document-text-outline';
+    case 'invitation_accepted':
+      return 'person-add-outline';
     case 'contract_approved':
-    case 'contract_signed':
+    case 'amendment_approved':
+    case 'verification_complete':
       return 'checkmark-circle-outline';
     case 'contract_rejected':
+    case 'amendment_rejected':
     case 'contract_revoked':
       return 'close-circle-outline';
-    case 'contract_received':
-      return 'document-text-outline';
+    case 'amendment_requested':
+      return 'create-outline';
+    case 'contract_paused':
+      return 'pause-circle-outline';
+    case 'contract_resumed':
+      return 'play-circle-outline';
     case 'contract_expired':
       return 'time-outline';
+    case 'verification_failed':
+      return 'alert-circle-outline';
+    case 'retention_warning':
+      return 'trash-outline';
+    case 'party_account_deleted':
+      return 'person-remove-outline';
+    case 'data_export_ready':
+      return 'download-outline';
+    case 'data_export_failed':
+      return 'alert-circle-outline';
     default:
       return 'notifications-outline';
   }
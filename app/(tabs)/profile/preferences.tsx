@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { Redirect, useRouter } from 'expo-router';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getUserPreferences, getUserProfile, updateUserProfile, getAllUniversities } from '@/services/api';
+import type { UpdateUserProfile } from '@shared/types';
 import Card from '@/components/Card';
 import Button from '@/components/Button';
 import { Ionicons } from '@expo/vector-icons';
@@ -33,25 +34,25 @@ export default function PreferencesScreen() {
   });
 
   const [formData, setFormData] = useState({
-    default_university_id: '',
-    state_of_residence: '',
-    default_encounter_type: '',
-    default_contract_duration: '',
+    defaultUniversityId: '',
+    stateOfResidence: '',
+    defaultEncounterType: '',
+    defaultContractDuration: '',
   });
 
   useEffect(() => {
     if (preferences) {
       setFormData({
-        default_university_id: preferences.default_university_id || '',
-        state_of_residence: preferences.state_of_residence || '',
-        default_encounter_type: preferences.default_encounter_type || '',
-        default_contract_duration: preferences.default_contract_duration?.toString() || '',
+        defaultUniversityId: preferences.defaultUniversityId || '',
+        stateOfResidence: preferences.stateOfResidence || '',
+        defaultEncounterType: preferences.defaultEncounterType || '',
+        defaultContractDuration: preferences.defaultContractDuration?.toString() || '',
       });
     }
   }, [preferences]);
 
   const updateMutation = useMutation({
-    mutationFn: (updates: any) => updateUserProfile(user!.id, updates),
+    mutationFn: (updates: UpdateUserProfile) => updateUserProfile(user!.id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['user-preferences', user?.id] });
       queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
@@ -64,12 +65,12 @@ export default function PreferencesScreen() {
   });
 
   const handleSave = () => {
-    const updates: any = {};
-    if (formData.default_university_id) updates.default_university_id = formData.default_university_id;
-    if (formData.state_of_residence) updates.state_of_residence = formData.state_of_residence;
-    if (formData.default_encounter_type) updates.default_encounter_type = formData.default_encounter_type;
-    if (formData.default_contract_duration) {
-      updates.default_contract_duration = parseInt(formData.default_contract_duration, 10);
+    const updates: UpdateUserProfile = {};
+    if (formData.defaultUniversityId) updates.defaultUniversityId = formData.defaultUniversityId;
+    if (formData.stateOfResidence) updates.stateOfResidence = formData.stateOfResidence;
+    if (formData.defaultEncounterType) updates.defaultEncounterType = formData.defaultEncounterType;
+    if (formData.defaultContractDuration) {
+      updates.defaultContractDuration = parseInt(formData.defaultContractDuration, 10);
     }
     updateMutation.mutate(updates);
   };
@@ -90,7 +91,7 @@ export default function PreferencesScreen() {
   }
 
   const selectedUniversity = (universities && Array.isArray(universities)) 
-    ? universities.find((u: any) => u.id === formData.default_university_id)
+    ? universities.find((u: any) => u.id === formData.defaultUniversityId)
     : undefined;
 
   return (
@@ -141,7 +142,7 @@ export default function PreferencesScreen() {
           <Text style={styles.settingLabel}>State of Residence</Text>
           <View style={styles.pickerContainer}>
             <Text style={styles.pickerText}>
-              {formData.state_of_residence || 'None selected'}
+              {formData.stateOfResidence || 'None selected'}
             </Text>
             <Button
               title="Select"
@@ -160,7 +161,7 @@ export default function PreferencesScreen() {
           <Text style={styles.settingLabel}>Default Encounter Type</Text>
           <View style={styles.pickerContainer}>
             <Text style={styles.pickerText}>
-              {formData.default_encounter_type || 'None selected'}
+              {formData.defaultEncounterType || 'None selected'}
             </Text>
             <Button
               title="Select"
@@ -180,7 +181,7 @@ export default function PreferencesScreen() {
           <View style={styles.inputContainer}>
             <Text style={styles.inputLabel}>Duration</Text>
             <Text style={styles.inputValue}>
-              {formData.default_contract_duration || 'Not set'}
+              {formData.defaultContractDuration || 'Not set'}
             </Text>
             <Button
               title="Set"
@@ -80,8 +80,8 @@ export default function ShareProfileScreen() {
     }
   };
 
-  const userName = profile?.first_name && profile?.last_name
-    ? `${profile.first_name} ${profile.last_name}`
+  const userName = profile?.firstName && profile?.lastName
+    ? `${profile.firstName} ${profile.lastName}`
     : username;
 
   const initials = userName
@@ -116,7 +116,7 @@ export default function ShareProfileScreen() {
             </View>
             <Text style={styles.displayName}>{userName}</Text>
             <Text style={styles.username}>@{username}</Text>
-            {profile?.is_verified === 'true' && (
+            {profile?.isVerified && (
               <View style={styles.verifiedBadge}>
                 <View style={styles.verifiedCheckmark}>
                   <Ionicons name="checkmark" size={10} color="#fff" />
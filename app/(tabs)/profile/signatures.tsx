@@ -38,9 +38,9 @@ export default function SavedSignaturesScreen() {
         throw new Error('No signature to save');
       }
       return updateUserProfile(user.id, {
-        saved_signature: newSignature,
-        saved_signature_type: newSignatureType,
-        saved_signature_text: newSignatureText,
+        savedSignature: newSignature,
+        savedSignatureType: newSignatureType,
+        savedSignatureText: newSignatureText,
       });
     },
     onSuccess: () => {
@@ -62,9 +62,9 @@ export default function SavedSignaturesScreen() {
         throw new Error('Not authenticated');
       }
       return updateUserProfile(user.id, {
-        saved_signature: null,
-        saved_signature_type: null,
-        saved_signature_text: null,
+        savedSignature: null,
+        savedSignatureType: null,
+        savedSignatureText: null,
       });
     },
     onSuccess: () => {
@@ -109,7 +109,7 @@ export default function SavedSignaturesScreen() {
     return <Redirect href="/auth" />;
   }
 
-  const hasSavedSignature = !!profile?.saved_signature;
+  const hasSavedSignature = !!profile?.savedSignature;
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -139,16 +139,16 @@ export default function SavedSignaturesScreen() {
             <Text style={styles.sectionTitle}>Your Saved Signature</Text>
             <View style={styles.signatureTypeBadge}>
               <Text style={styles.signatureTypeText}>
-                {profile?.saved_signature_type || 'Unknown'}
+                {profile?.savedSignatureType || 'Unknown'}
               </Text>
             </View>
           </View>
 
           <View style={styles.signaturePreview}>
-            {profile?.saved_signature?.startsWith('data:image/svg') ? (
+            {profile?.savedSignature?.startsWith('data:image/svg') ? (
               <View style={styles.svgPreviewContainer}>
-                {profile?.saved_signature_type === 'type' && profile?.saved_signature_text ? (
-                  <Text style={styles.typedSignaturePreview}>{profile.saved_signature_text}</Text>
+                {profile?.savedSignatureType === 'type' && profile?.savedSignatureText ? (
+                  <Text style={styles.typedSignaturePreview}>{profile.savedSignatureText}</Text>
                 ) : (
                   <View style={styles.signaturePlaceholder}>
                     <Ionicons name="checkmark-circle" size={48} color={colors.brand.primary} />
@@ -156,9 +156,9 @@ export default function SavedSignaturesScreen() {
                   </View>
                 )}
               </View>
-            ) : profile?.saved_signature ? (
+            ) : profile?.savedSignature ? (
               <Image
-                source={{ uri: profile.saved_signature }}
+                source={{ uri: profile.savedSignature }}
                 style={styles.signatureImage}
                 resizeMode="contain"
               />
@@ -212,9 +212,9 @@ export default function SavedSignaturesScreen() {
 
           <SignatureInput
             onSignatureChange={handleSignatureChange}
-            savedSignature={profile?.saved_signature}
-            savedSignatureType={profile?.saved_signature_type}
-            savedSignatureText={profile?.saved_signature_text}
+            savedSignature={profile?.savedSignature}
+            savedSignatureType={profile?.savedSignatureType}
+            savedSignatureText={profile?.savedSignatureText}
             showSaveOption={false}
           />
 
@@ -55,7 +55,7 @@ export default function VerificationScreen() {
 
   const styles = createStyles(colors);
 
-  const isVerified = profile?.is_verified === 'true';
+  const isVerified = !!profile?.isVerified;
   const isPending = verificationStatus?.status === 'pending' || verificationStatus?.status === 'processing';
   const hasFailed = verificationStatus?.status === 'failed';
 
@@ -151,8 +151,8 @@ export default function VerificationScreen() {
               <View style={styles.statusTextContainer}>
                 <Text style={styles.statusTitle}>Identity Verified</Text>
                 <Text style={styles.statusSubtitle}>
-                  Verified on {profile?.verified_at 
-                    ? new Date(profile.verified_at).toLocaleDateString('en-US', { 
+                  Verified on {profile?.verifiedAt 
+                    ? new Date(profile.verifiedAt).toLocaleDateString('en-US', { 
                         month: 'long', 
                         day: 'numeric', 
                         year: 'numeric' 
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/hooks/useAuth';
+import { getInvitationPreview, acceptInvitation, type InvitationState } from '@/services/api';
+import { formatDate, formatDateTime, formatDuration } from '@/lib/utils';
+import Card from '@/components/Card';
+import Button from '@/components/Button';
+import { spacing, layout, typography } from '@/lib/theme';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const STATE_MESSAGES: Record<Exclude<InvitationState, 'pending'>, { title: string; message: string }> = {
+  accepted: {
+    title: 'Already Accepted',
+    message: 'This invitation has already been used. If you accepted it, the contract is in your Contracts tab.',
+  },
+  expired: {
+    title: 'Invitation Expired',
+    message: 'This invitation has expired. Ask the sender to invite you again.',
+  },
+  closed: {
+    title: 'Contract Closed',
+    message: 'This contract has ended or been withdrawn and is no longer accepting parties.',
+  },
+  invalid: {
+    title: 'Invitation Unavailable',
+    message: 'This invitation is no longer valid. Ask the sender to invite you again.',
+  },
+};
+
+export default function InvitePage() {
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useTheme();
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+  const styles = createStyles(colors);
+
+  const { data: invitation, isLoading, error } = useQuery({
+    queryKey: ['invitation', code],
+    queryFn: () => getInvitationPreview(code!),
+    enabled: !!code,
+    retry: false,
+  });
+
+  const handleAccept = async () => {
+    if (!code) return;
+
+    setIsAccepting(true);
+    setAcceptError(null);
+    try {
+      const contractId = await acceptInvitation(code);
+      queryClient.invalidateQueries({ queryKey: ['contracts', user?.id] });
+      router.replace(`/(tabs)/contracts/${contractId}` as `/${string}`);
+    } catch (err: any) {
+      console.error('Accept invitation error:', err);
+      setAcceptError(err.message || 'Failed to accept invitation');
+      queryClient.invalidateQueries({ queryKey: ['invitation', code] });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleSignIn = () => {
+    router.push({ pathname: '/login', params: { redirect: `/invite/${code}` } });
+  };
+
+  if (isLoading || authLoading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color={colors.brand.primary} />
+        <Text style={styles.loadingText}>Loading invitation...</Text>
+      </View>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <View style={styles.center}>
+        <Ionicons name="alert-circle-outline" size={48} color={colors.status.error} />
+        <Text style={styles.stateTitle}>Invitation Not Found</Text>
+        <Text style={styles.stateMessage}>
+          {(error as Error | null)?.message || 'This invitation link is not valid.'}
+        </Text>
+        <Button title="Go Home" onPress={() => router.replace('/')} style={styles.stateButton} />
+      </View>
+    );
+  }
+
+  if (invitation.state !== 'pending') {
+    const { title, message } = STATE_MESSAGES[invitation.state];
+    return (
+      <View style={styles.center}>
+        <Ionicons name="mail-open-outline" size={48} color={colors.status.warning} />
+        <Text style={styles.stateTitle}>{title}</Text>
+        <Text style={styles.stateMessage}>{message}</Text>
+        <Button title="Go Home" onPress={() => router.replace('/')} style={styles.stateButton} />
+      </View>
+    );
+  }
+
+  const contract = invitation.contract;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Contract Invitation</Text>
+      <Text style={styles.subtitle}>
+        {invitation.senderName} invited {invitation.recipientEmail} to review a consent contract.
+      </Text>
+
+      {contract && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Contract Preview</Text>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Encounter Type</Text>
+            <Text style={styles.infoValue}>{contract.encounterType || 'Not specified'}</Text>
+          </View>
+          {contract.contractStartTime && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Starts</Text>
+              <Text style={styles.infoValue}>{formatDateTime(contract.contractStartTime)}</Text>
+            </View>
+          )}
+          {contract.contractDuration != null && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Duration</Text>
+              <Text style={styles.infoValue}>{formatDuration(contract.contractDuration)}</Text>
+            </View>
+          )}
+          <Text style={styles.previewNote}>
+            The full contract is shown once you accept the invitation.
+          </Text>
+        </Card>
+      )}
+
+      <Text style={styles.expiryText}>This invitation expires on {formatDate(invitation.expiresAt)}.</Text>
+
+      {acceptError && <Text style={styles.errorText}>{acceptError}</Text>}
+
+      {user ? (
+        <Button
+          title={isAccepting ? 'Accepting...' : 'Accept Invitation'}
+          onPress={handleAccept}
+          disabled={isAccepting}
+          loading={isAccepting}
+        />
+      ) : (
+        <Button title="Sign In to Accept" onPress={handleSignIn} />
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) => StyleSheet.create({
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+    backgroundColor: colors.background.dark,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.dark,
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: layout.bottomNavHeight + spacing.xl,
+  },
+  loadingText: {
+    marginTop: spacing.lg,
+    color: colors.text.inverse,
+  },
+  title: {
+    fontSize: typography.size['3xl'],
+    fontWeight: typography.weight.bold,
+    color: colors.text.inverse,
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    fontSize: typography.size.md,
+    color: colors.text.tertiary,
+    marginBottom: spacing.lg,
+  },
+  card: {
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    marginBottom: spacing.md,
+    color: colors.text.inverse,
+  },
+  infoRow: {
+    marginBottom: spacing.md,
+  },
+  infoLabel: {
+    fontSize: typography.size.xs,
+    color: colors.text.tertiary,
+    marginBottom: spacing.xs,
+  },
+  infoValue: {
+    fontSize: typography.size.md,
+    color: colors.text.inverse,
+  },
+  previewNote: {
+    fontSize: typography.size.sm,
+    color: colors.text.tertiary,
+  },
+  expiryText: {
+    fontSize: typography.size.sm,
+    color: colors.text.tertiary,
+    marginBottom: spacing.lg,
+  },
+  errorText: {
+    fontSize: typography.size.sm,
+    color: colors.status.error,
+    marginBottom: spacing.md,
+  },
+  stateTitle: {
+    fontSize: typography.size.xl,
+    fontWeight: typography.weight.bold,
+    color: colors.text.inverse,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  stateMessage: {
+    fontSize: typography.size.md,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  stateButton: {
+    minWidth: 160,
+  },
+});
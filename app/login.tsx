@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Redirect, useRouter } from 'expo-router';
+import { Redirect, useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '@/hooks/useAuth';
 import { View, ActivityIndicator, Text, ScrollView, KeyboardAvoidingView, Platform, StyleSheet } from 'react-native';
 import { supabase } from '@/lib/supabase';
@@ -12,6 +12,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 export default function AuthPage() {
   const { user, loading: authLoading } = useAuth();
   const router = useRouter();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
   const { colors } = useTheme();
   const [isSignUp, setIsSignUp] = useState(false);
   const [email, setEmail] = useState('');
@@ -29,8 +30,11 @@ export default function AuthPage() {
     );
   }
 
+  // Deep links (e.g. /invite/<code>) send signed-out users here and expect to come back
+  const destination = redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/(tabs)';
+
   if (user) {
-    return <Redirect href="/(tabs)" />;
+    return <Redirect href={destination as `/${string}`} />;
   }
 
   const handleAuth = async () => {
@@ -107,7 +111,7 @@ export default function AuthPage() {
           }
           return;
         }
-        router.replace('/(tabs)' as `/${string}`);
+        router.replace(destination as `/${string}`);
       }
     } catch (err: any) {
       // Catch any unexpected errors including JSON parse errors
@@ -1,8 +1,10 @@
 import { View, Text, ScrollView, StyleSheet, TouchableOpacity, ActivityIndicator, Switch, Alert } from 'react-native';
 import { useAuth } from '@/hooks/useAuth';
+import { useOutbox } from '@/hooks/useOutbox';
 import { Redirect, useRouter } from 'expo-router';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getUserProfile, updateUserProfile, getUserPreferences, getUnreadNotificationCount } from '@/services/api';
+import { useQuery } from '@tanstack/react-query';
+import { getUserPreferences, getUnreadNotificationCount, getAccountDeletionRequest } from '@/services/api';
+import { hasRecoveryKey } from '@/lib/contractKeys';
 import Card from '@/components/Card';
 import { Ionicons } from '@expo/vector-icons';
 import { spacing, layout, typography, borderRadius } from '@/lib/theme';
@@ -11,19 +13,8 @@ import { useTheme } from '@/contexts/ThemeContext';
 export default function SettingsScreen() {
   const { user, loading, signOut } = useAuth();
   const router = useRouter();
-  const queryClient = useQueryClient();
   const { isDark, setTheme, colors } = useTheme();
-
-  // Fetch user profile for notification settings
-  const { data: profile } = useQuery({
-    queryKey: ['user-profile', user?.id],
-    queryFn: () => {
-      if (!user) return null;
-      return getUserProfile(user.id);
-    },
-    enabled: !!user,
-    staleTime: 60000,
-  });
+  const outboxItems = useOutbox(user?.id);
 
   // Fetch user preferences
   const { data: preferences } = useQuery({
@@ -45,24 +36,36 @@ export default function SettingsScreen() {
     enabled: !!user,
   });
 
-  // Update email notifications mutation
-  const updateEmailNotificationsMutation = useMutation({
-    mutationFn: (enabled: boolean) => updateUserProfile(user!.id, { emailNotificationsEnabled: enabled ? 'true' : 'false' }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['user-profile', user?.id] });
-    },
+  const { data: deletionRequest } = useQuery({
+    queryKey: ['account-deletion', user?.id],
+    queryFn: () => getAccountDeletionRequest(user!.id),
+    enabled: !!user,
   });
 
-  const handleToggleEmailNotifications = (value: boolean) => {
-    updateEmailNotificationsMutation.mutate(value);
-  };
+  const { data: hasRecovery } = useQuery({
+    queryKey: ['recovery-key', user?.id],
+    queryFn: () => hasRecoveryKey(user!.id),
+    enabled: !!user,
+  });
 
   const handleSignOut = () => {
+    // Anything still in the outbox only exists on this device
+    const unsent = outboxItems.length > 0
+      ? `\n\n${outboxItems.length === 1 ? "1 item hasn't" : `${outboxItems.length} items haven't`} been uploaded yet and will be lost.`
+      : '';
+    // Without a recovery code the device keeps its encryption key (see useAuth)
+    const encryption = hasRecovery
+      ? "To read encrypted contracts here again, you'll need your recovery code."
+      : "This device keeps your encryption key so you can read encrypted contracts when you sign back in here. Set up a recovery code to read them on a new device.";
     Alert.alert(
       'Sign Out',
-      'Are you sure you want to sign out?',
+      `Your contracts and drafts will be removed from this device. ${encryption}${unsent}`,
       [
         { text: 'Cancel', style: 'cancel' },
+        ...(hasRecovery ? [] : [{
+          text: 'Set Up Recovery',
+          onPress: () => router.push('/(tabs)/profile/encryption' as `/${string}`),
+        }]),
         {
           text: 'Sign Out',
           style: 'destructive',
@@ -91,7 +94,6 @@ export default function SettingsScreen() {
   }
 
   const styles = createStyles(colors);
-  const emailNotificationsEnabled = profile?.emailNotificationsEnabled === 'true' || false;
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -125,26 +127,72 @@ export default function SettingsScreen() {
           </View>
           <Ionicons name="chevron-forward" size={20} color={colors.text.secondary} />
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => router.push('/(tabs)/profile/data-export' as `/${string}`)}
+        >
+          <View style={styles.settingLeft}>
+            <Ionicons name="download-outline" size={20} color={colors.brand.primary} />
+            <View style={styles.settingTextContainer}>
+              <Text style={styles.settingText}>Export Your Data</Text>
+              <Text style={styles.settingDescription}>Download an archive of everything stored about you</Text>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.text.secondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => router.push('/(tabs)/profile/delete-account' as `/${string}`)}
+        >
+          <View style={styles.settingLeft}>
+            <Ionicons name="trash-outline" size={20} color={colors.status.error} />
+            <View style={styles.settingTextContainer}>
+              <Text style={styles.settingText}>Delete Account</Text>
+              <Text style={styles.settingDescription}>
+                {deletionRequest
+                  ? `Scheduled for ${new Date(deletionRequest.scheduledFor).toLocaleDateString()}. Tap to cancel`
+                  : 'Permanently delete your account and data'}
+              </Text>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.text.secondary} />
+        </TouchableOpacity>
+      </Card>
+
+      {/* Security Section */}
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>Security</Text>
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => router.push('/(tabs)/profile/encryption' as `/${string}`)}
+        >
+          <View style={styles.settingLeft}>
+            <Ionicons name="key-outline" size={20} color={colors.brand.primary} />
+            <View style={styles.settingTextContainer}>
+              <Text style={styles.settingText}>Encryption Keys</Text>
+              <Text style={styles.settingDescription}>Set up a recovery code or unlock this device</Text>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.text.secondary} />
+        </TouchableOpacity>
       </Card>
 
       {/* Notifications Section */}
       <Card style={styles.card}>
         <Text style={styles.sectionTitle}>Notifications</Text>
-        <View style={styles.settingItem}>
+        <TouchableOpacity
+          style={styles.settingItem}
+          onPress={() => router.push('/(tabs)/profile/notification-settings' as `/${string}`)}
+        >
           <View style={styles.settingLeft}>
-            <Ionicons name="mail-outline" size={20} color={colors.brand.primary} />
+            <Ionicons name="options-outline" size={20} color={colors.brand.primary} />
             <View style={styles.settingTextContainer}>
-              <Text style={styles.settingText}>Email Notifications</Text>
-              <Text style={styles.settingDescription}>Receive emails for important updates</Text>
+              <Text style={styles.settingText}>Notification Settings</Text>
+              <Text style={styles.settingDescription}>Choose in-app, email and push updates, and quiet hours</Text>
             </View>
           </View>
-          <Switch
-            value={emailNotificationsEnabled}
-            onValueChange={handleToggleEmailNotifications}
-            trackColor={{ false: colors.ui.borderDark, true: colors.brand.secondary }}
-            thumbColor={colors.text.inverse}
-          />
-        </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.text.secondary} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.settingItem}
           onPress={() => router.push('/(tabs)/profile/notifications')}
@@ -182,8 +230,8 @@ export default function SettingsScreen() {
             <View style={styles.settingTextContainer}>
               <Text style={styles.settingText}>Default Settings</Text>
               <Text style={styles.settingDescription}>
-                {preferences?.default_encounter_type
-                  ? `${preferences.default_encounter_type}${preferences.state_of_residence ? `, ${preferences.state_of_residence}` : ''}`
+                {preferences?.defaultEncounterType
+                  ? `${preferences.defaultEncounterType}${preferences.stateOfResidence ? `, ${preferences.stateOfResidence}` : ''}`
                   : 'Configure your defaults'}
               </Text>
             </View>
@@ -253,13 +301,13 @@ export default function SettingsScreen() {
           </View>
           <View style={styles.retentionTextContainer}>
             <Text style={styles.retentionText}>
-              <Text style={styles.retentionBold}>Active Account:</Text> Your consent contracts and recordings are stored securely for as long as your account remains active.
+              <Text style={styles.retentionBold}>Retention Period:</Text> Contracts are kept for your chosen retention period after they end, and recordings for that period after they're made, unless needed for a contract still in effect. You'll be notified a week before anything is deleted.
             </Text>
             <Text style={styles.retentionText}>
               <Text style={styles.retentionBold}>Deletion:</Text> You may delete individual contracts or recordings at any time through the Contracts page.
             </Text>
             <Text style={styles.retentionText}>
-              <Text style={styles.retentionBold}>Account Closure:</Text> Upon account deletion, all personal data, contracts, and recordings are permanently removed from our servers within 30 days, unless required by law to retain certain information.
+              <Text style={styles.retentionBold}>Account Closure:</Text> When you delete your account, all personal data, contracts, and recordings are permanently removed from our servers after 30 days, unless required by law to retain certain information. You can cancel during those 30 days.
             </Text>
           </View>
         </View>
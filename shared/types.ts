@@ -63,6 +63,9 @@ export interface InsertStateLaw {
 // User Profiles
 // ================================================================
 
+// Enforced server-side by 20261019116000_data_retention.sql
+export type DataRetentionPolicy = '30days' | '90days' | '1year' | 'forever';
+
 export interface UserProfile {
   id: string;
   username: string;
@@ -74,7 +77,7 @@ export interface UserProfile {
   savedSignature: string | null;
   savedSignatureType: string | null;
   savedSignatureText: string | null;
-  dataRetentionPolicy: string;
+  dataRetentionPolicy: DataRetentionPolicy;
   stripeCustomerId: string | null;
   referralCode: string | null;
   referralCount: number;
@@ -83,11 +86,12 @@ export interface UserProfile {
   stateOfResidence: string | null;
   defaultEncounterType: string | null;
   defaultContractDuration: number | null;
-  isVerified: string;
+  isVerified: boolean;
   verificationProvider: string | null;
   verifiedAt: string | null;
   verificationLevel: string | null;
-  emailNotificationsEnabled: string;
+  // Superseded by NotificationPreferences; kept for older clients
+  emailNotificationsEnabled: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -102,7 +106,7 @@ export interface InsertUserProfile {
   savedSignature?: string | null;
   savedSignatureType?: string | null;
   savedSignatureText?: string | null;
-  dataRetentionPolicy?: '30days' | '90days' | '1year' | 'forever';
+  dataRetentionPolicy?: DataRetentionPolicy;
   stripeCustomerId?: string | null;
   referralCode?: string | null;
   referralCount?: number;
@@ -111,11 +115,72 @@ export interface InsertUserProfile {
   stateOfResidence?: string | null;
   defaultEncounterType?: string | null;
   defaultContractDuration?: number | null;
-  isVerified?: string;
+  isVerified?: boolean;
   verificationProvider?: string | null;
   verifiedAt?: string | null;
   verificationLevel?: string | null;
-  emailNotificationsEnabled?: string;
+  emailNotificationsEnabled?: boolean;
+}
+
+// The columns users can change themselves; verification and billing are set
+// server-side (see 20261019120000_row_level_security.sql)
+export type UpdateUserProfile = Partial<Pick<UserProfile,
+  | 'username'
+  | 'firstName'
+  | 'lastName'
+  | 'profilePictureUrl'
+  | 'bio'
+  | 'websiteUrl'
+  | 'savedSignature'
+  | 'savedSignatureType'
+  | 'savedSignatureText'
+  | 'dataRetentionPolicy'
+  | 'defaultUniversityId'
+  | 'stateOfResidence'
+  | 'defaultEncounterType'
+  | 'defaultContractDuration'
+  | 'emailNotificationsEnabled'
+>>;
+
+// Defaults the consent flow starts from
+export type UserPreferences = Pick<UserProfile,
+  'defaultUniversityId' | 'stateOfResidence' | 'defaultEncounterType' | 'defaultContractDuration'
+>;
+
+// Written by the stripe-identity function and its webhook
+export interface AccountVerification {
+  id: string;
+  userId: string;
+  provider: string;
+  sessionId: string | null;
+  status: string;
+  paymentStatus: string;
+  amount: number | null;
+  failureReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+// Made and cancelled through the account-deletion edge function
+export interface AccountDeletionRequest {
+  id: string;
+  userId: string;
+  requestedAt: string;
+  scheduledFor: string;
+}
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+// Requested and downloaded through the data-export edge function
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  error: string | null;
+  requestedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
 }
 
 // ================================================================
@@ -148,6 +213,10 @@ export interface InsertConsentRecording {
 // Consent Contracts
 // ================================================================
 
+export type ContractStatus = 'draft' | 'pending_approval' | 'active' | 'paused' | 'completed' | 'rejected' | 'revoked';
+
+export type ContractMethod = 'signature' | 'voice' | 'photo' | 'biometric';
+
 export interface ConsentContract {
   id: string;
   userId: string | null;
@@ -162,15 +231,22 @@ export interface ConsentContract {
   signature1: string | null;
   signature2: string | null;
   photoUrl: string | null;
+  audioUrl: string | null;
   credentialId: string | null;
   credentialPublicKey: string | null;
   credentialCounter: string | null;
   credentialDeviceType: string | null;
-  credentialBackedUp: string | null;
+  credentialBackedUp: boolean | null;
+  // Assertion over the contract version consented to (see 20261019101000_biometric_credentials.sql)
+  credentialSignature: string | null;
+  credentialSignedVersion: number | null;
   authenticatedAt: string | null;
   verifiedAt: string | null;
-  status: string;
-  isCollaborative: string;
+  status: ContractStatus;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  revocationReason: string | null;
+  isCollaborative: boolean;
   lastEditedBy: string | null;
   intimateActs: string | null;
   createdAt: string;
@@ -178,6 +254,8 @@ export interface ConsentContract {
 }
 
 export interface InsertConsentContract {
+  // Set by the outbox so a replayed insert can't create the contract twice
+  id?: string;
   userId?: string | null;
   universityId?: string | null;
   encounterType?: string | null;
@@ -185,23 +263,90 @@ export interface InsertConsentContract {
   contractStartTime?: string | null;
   contractDuration?: number | null;
   contractEndTime?: string | null;
-  method?: 'signature' | 'voice' | 'photo' | 'biometric';
+  method?: ContractMethod | null;
   contractText?: string | null;
   signature1?: string | null;
   signature2?: string | null;
   photoUrl?: string | null;
+  audioUrl?: string | null;
   credentialId?: string | null;
   credentialPublicKey?: string | null;
   credentialCounter?: string | null;
   credentialDeviceType?: string | null;
-  credentialBackedUp?: string | null;
+  credentialBackedUp?: boolean | null;
   authenticatedAt?: string | null;
   verifiedAt?: string | null;
-  status?: 'draft' | 'pending_approval' | 'active' | 'paused' | 'completed' | 'rejected';
-  isCollaborative?: 'true' | 'false';
+  status?: ContractStatus;
+  isCollaborative?: boolean;
   intimateActs?: string | null;
 }
 
+// Revocation goes through revoke-contract; the owner and id don't change
+export type UpdateConsentContract = Partial<Omit<InsertConsentContract, 'id' | 'userId'>>;
+
+// ================================================================
+// Contract Collaboration
+// ================================================================
+
+export interface ContractCollaborator {
+  id: string;
+  contractId: string;
+  userId: string | null;
+  legalName: string | null;
+  contactInfo: string | null;
+  participantType: string;
+  role: string;
+  status: string;
+  lastViewedAt: string | null;
+  approvedAt: string | null;
+  rejectedAt: string | null;
+  rejectionReason: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
+}
+
+// An in-app share awaiting the user's answer, with the contract it's for
+export interface PendingCollaboration extends ContractCollaborator {
+  contract: ConsentContract | null;
+}
+
+export type InvitationDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'bounced' | 'complained' | 'failed';
+
+// Issued by the send-invitation edge function; the code itself is never stored
+export interface ContractInvitation {
+  id: string;
+  contractId: string;
+  senderId: string;
+  recipientEmail: string;
+  recipientUserId: string | null;
+  status: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  deliveryStatus: InvitationDeliveryStatus;
+  deliveryError: string | null;
+  sendCount: number;
+  lastSentAt: string | null;
+  deliveredAt: string | null;
+  bouncedAt: string | null;
+  createdAt: string;
+}
+
+// ================================================================
+// Contract Versions
+// ================================================================
+
+export interface ContractVersion {
+  id: string;
+  contractId: string;
+  version: number;
+  event: 'baseline' | 'created' | 'updated' | 'amended' | 'paused' | 'resumed' | 'status_changed';
+  snapshot: Record<string, string | null>;
+  previousHash: string | null;
+  contentHash: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
 // ================================================================
 // Contract Amendments
 // ================================================================
@@ -212,28 +357,96 @@ export interface ContractAmendment {
   requestedBy: string;
   type: string;
   description: string | null;
-  newValue: any;
+  // JSON; see 20261019105000_contract_amendment_engine.sql for the shape by type
+  newValue: string | null;
   status: string;
+  approvers: string[];
+  approvedAt: string | null;
+  rejectedAt: string | null;
+  rejectedBy: string | null;
+  rejectionReason: string | null;
+  // Contract fields touched by the amendment, before and after it was applied
+  previousValue: AmendmentFieldValues | null;
+  appliedValue: AmendmentFieldValues | null;
+  appliedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface InsertContractAmendment {
+  // Set by the outbox so a replayed request can't be sent twice
+  id?: string;
+  contractId: string;
+  requestedBy: string;
+  type: string;
+  description?: string | null;
+  newValue?: string | null;
+}
+
+export interface AmendmentFieldValues {
+  intimate_acts?: Record<string, string>;
+  contract_duration?: number | null;
+  contract_end_time?: string | null;
+}
+
 // ================================================================
 // Notifications
 // ================================================================
 
+// Created server-side only; titles and messages come from notification_templates
+export type NotificationType =
+  | 'contract_invitation'
+  | 'invitation_accepted'
+  | 'contract_approved'
+  | 'contract_rejected'
+  | 'amendment_requested'
+  | 'amendment_approved'
+  | 'amendment_rejected'
+  | 'contract_paused'
+  | 'contract_resumed'
+  | 'contract_revoked'
+  | 'contract_expired'
+  | 'verification_complete'
+  | 'verification_failed'
+  | 'retention_warning'
+  | 'party_account_deleted'
+  | 'data_export_ready'
+  | 'data_export_failed';
+
 export interface Notification {
   id: string;
   userId: string;
-  type: string;
+  type: NotificationType;
   title: string;
   message: string;
-  isRead: string;
+  isRead: boolean;
   relatedContractId: string | null;
   relatedAmendmentId: string | null;
   createdAt: string;
 }
 
+// ================================================================
+// Notification Preferences
+// ================================================================
+
+export type NotificationCategory = 'invitation' | 'amendment' | 'revocation' | 'expiry' | 'verification';
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+// Only channels turned off are stored; anything missing is on
+export type NotificationChannelSettings = Partial<Record<NotificationCategory, Partial<Record<NotificationChannel, boolean>>>>;
+
+export interface NotificationPreferences {
+  userId: string;
+  channels: NotificationChannelSettings;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;  // "HH:MM" in timeZone
+  quietHoursEnd: string;
+  timeZone: string;  // IANA name, e.g. "America/New_York"
+  updatedAt: string | null;
+}
+
+export type UpdateNotificationPreferences = Partial<Omit<NotificationPreferences, 'userId' | 'updatedAt'>>;
+
 // ================================================================
 // User Contacts
 // ================================================================
@@ -241,9 +454,13 @@ export interface Notification {
 export interface UserContact {
   id: string;
   userId: string;
-  name: string;
-  email: string | null;
-  username: string | null;
+  contactUsername: string;
+  nickname: string | null;
   createdAt: string;
 }
 
+export interface InsertUserContact {
+  contactUsername: string;
+  nickname?: string | null;
+}
+
@@ -9,8 +9,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { spacing, borderRadius, typography } from '@/lib/theme';
 import { formatDate } from '@/lib/utils';
+import type { AmendmentDiffRow } from '@/lib/amendmentDiff';
 import Card from './Card';
 import Button from './Button';
+import { AmendmentDiff } from './AmendmentDiff';
 
 interface Amendment {
   id: string;
@@ -31,14 +33,14 @@ interface Amendment {
 interface AmendmentApprovalCardProps {
   amendment: Amendment;
   currentUserId: string;
-  currentActs: {
-    touching: boolean;
-    kissing: boolean;
-    oral: boolean;
-    anal: boolean;
-    vaginal: boolean;
-  };
+  currentActs: Record<string, boolean>;
   currentEndTime?: string;
+  // Parties other than the requester who must approve
+  requiredApprovals?: number;
+  // Every change the amendment would make, when it was worked out on this device
+  proposedChanges?: AmendmentDiffRow[];
+  // Set when the change can't be checked or doesn't match what was requested
+  approvalBlockedReason?: string | null;
   onApprove: (amendmentId: string) => Promise<void>;
   onReject: (amendmentId: string, reason?: string) => Promise<void>;
   isLoading?: boolean;
@@ -57,6 +59,9 @@ export function AmendmentApprovalCard({
   currentUserId,
   currentActs,
   currentEndTime,
+  requiredApprovals = 1,
+  proposedChanges,
+  approvalBlockedReason,
   onApprove,
   onReject,
   isLoading,
@@ -110,6 +115,8 @@ export function AmendmentApprovalCard({
         return 'Extend Duration';
       case 'shorten_duration':
         return 'Shorten Duration';
+      case 'other':
+        return 'Other Change';
       default:
         return amendment.amendmentType;
     }
@@ -270,6 +277,13 @@ export function AmendmentApprovalCard({
           </View>
         )}
 
+        {proposedChanges && proposedChanges.length > 0 && (
+          <>
+            <Text style={styles.changesLabel}>Before and After</Text>
+            <AmendmentDiff rows={proposedChanges} />
+          </>
+        )}
+
         {(amendment.amendmentType === 'extend_duration' ||
           amendment.amendmentType === 'shorten_duration') && (
           <View style={styles.changesGrid}>
@@ -298,7 +312,7 @@ export function AmendmentApprovalCard({
           <View style={styles.approvalStatus}>
             <Text style={styles.approvalLabel}>Approval Status</Text>
             <Text style={styles.approvalText}>
-              {amendment.approvers.length} of 2 parties have approved
+              {amendment.approvers.length} of {requiredApprovals} {requiredApprovals === 1 ? 'party has' : 'parties have'} approved
             </Text>
           </View>
         )}
@@ -311,11 +325,18 @@ export function AmendmentApprovalCard({
         </View>
       )}
 
+      {amendment.status === 'pending' && approvalBlockedReason && (
+        <View style={styles.warningBox}>
+          <Ionicons name="warning-outline" size={16} color={colors.status.error} />
+          <Text style={styles.warningText}>{approvalBlockedReason}</Text>
+        </View>
+      )}
+
       {/* Action buttons */}
       {amendment.status === 'pending' && !showRejectDialog && (
         <View style={styles.actions}>
           <Button
-            title="Reject"
+            title={isRequester ? 'Withdraw' : 'Reject'}
             variant="outline"
             onPress={() => setShowRejectDialog(true)}
             disabled={isSubmitting || isLoading}
@@ -325,7 +346,7 @@ export function AmendmentApprovalCard({
             <Button
               title={isSubmitting || isLoading ? 'Approving...' : 'Approve'}
               onPress={handleApprove}
-              disabled={isSubmitting || isLoading}
+              disabled={isSubmitting || isLoading || !!approvalBlockedReason}
               style={styles.actionButton}
             />
           )}
@@ -548,6 +569,22 @@ const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>
       fontSize: typography.size.sm,
       color: colors.status.error,
     },
+    warningBox: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: spacing.xs,
+      backgroundColor: colors.status.error + '10',
+      borderWidth: 1,
+      borderColor: colors.status.error + '30',
+      padding: spacing.sm,
+      borderRadius: borderRadius.md,
+      marginBottom: spacing.md,
+    },
+    warningText: {
+      flex: 1,
+      fontSize: typography.size.sm,
+      color: colors.status.error,
+    },
     actions: {
       flexDirection: 'row',
       gap: spacing.sm,
@@ -0,0 +1,86 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { spacing, borderRadius, typography } from '@/lib/theme';
+import type { AmendmentDiffRow } from '@/lib/amendmentDiff';
+
+interface AmendmentDiffProps {
+  rows: AmendmentDiffRow[];
+}
+
+export function AmendmentDiff({ rows }: AmendmentDiffProps) {
+  const { colors } = useTheme();
+  const styles = createStyles(colors);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.headerText, styles.labelColumn]}>Field</Text>
+        <Text style={[styles.headerText, styles.valueColumn]}>Before</Text>
+        <View style={styles.arrow} />
+        <Text style={[styles.headerText, styles.valueColumn]}>After</Text>
+      </View>
+      {rows.map((row) => (
+        <View key={row.label} style={styles.row}>
+          <Text style={[styles.label, styles.labelColumn]}>{row.label}</Text>
+          <Text style={[styles.before, styles.valueColumn]}>{row.before}</Text>
+          <Ionicons name="arrow-forward" size={12} color={colors.text.tertiary} style={styles.arrow} />
+          <Text style={[styles.after, styles.valueColumn]}>{row.after}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) =>
+  StyleSheet.create({
+    container: {
+      marginTop: spacing.sm,
+      marginBottom: spacing.xs,
+      padding: spacing.sm,
+      borderRadius: borderRadius.sm,
+      backgroundColor: colors.background.secondary,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingBottom: spacing.xs,
+    },
+    headerText: {
+      fontSize: typography.size.xs,
+      fontWeight: typography.weight.semibold,
+      color: colors.text.tertiary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: spacing.xs,
+      borderTopWidth: 1,
+      borderTopColor: colors.ui.borderDark,
+    },
+    labelColumn: {
+      flex: 1.2,
+    },
+    valueColumn: {
+      flex: 1,
+    },
+    arrow: {
+      width: 20,
+    },
+    label: {
+      fontSize: typography.size.sm,
+      color: colors.text.inverse,
+    },
+    before: {
+      fontSize: typography.size.sm,
+      color: colors.status.error,
+      textDecorationLine: 'line-through',
+    },
+    after: {
+      fontSize: typography.size.sm,
+      color: colors.status.success,
+      fontWeight: typography.weight.semibold,
+    },
+  });
@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { useRouter, usePathname } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -5,6 +6,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useQuery } from '@tanstack/react-query';
 import { getUnreadNotificationCount } from '@/services/api';
 import { useAuth } from '@/hooks/useAuth';
+import { startOutboxSync } from '@/lib/outbox';
+import { subscribeToUserChanges } from '@/lib/realtime';
+import { registerForPushNotifications, subscribeToNotificationResponses } from '@/lib/pushNotifications';
 import { useTheme } from '@/contexts/ThemeContext';
 import { spacing, typography, layout, borderRadius } from '@/lib/theme';
 import CustomTabBar from './CustomTabBar';
@@ -32,9 +36,27 @@ export default function AppLayout({ children }: AppLayoutProps) {
       return getUnreadNotificationCount(user.id);
     },
     enabled: !!user && !isAuthPage,
-    refetchInterval: 30000,
   });
 
+  // Send contracts and amendments saved while offline
+  useEffect(() => {
+    if (!user) return;
+    return startOutboxSync();
+  }, [user?.id]);
+
+  // Notifications, invitations and amendments arrive over Realtime (src/lib/realtime.ts)
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToUserChanges(user.id);
+  }, [user?.id]);
+
+  // Pushes reach the user with the app closed; tapping one opens what it's about
+  useEffect(() => {
+    if (!user) return;
+    registerForPushNotifications().catch(e => console.warn('Failed to register for push notifications:', e));
+    return subscribeToNotificationResponses(user.id);
+  }, [user?.id]);
+
   // Don't show AppLayout for auth pages
   if (isAuthPage) {
     return <>{children}</>;
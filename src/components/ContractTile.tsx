@@ -2,6 +2,7 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { spacing, borderRadius, typography } from '@/lib/theme';
+import { isEncryptedValue } from '@/lib/contractEncryption';
 import Card from './Card';
 import Button from './Button';
 
@@ -145,7 +146,7 @@ export default function ContractTile({
         )}
 
         {/* Contract text preview for drafts */}
-        {variant === 'draft' && contractText && (
+        {variant === 'draft' && contractText && !isEncryptedValue(contractText) && (
           <Text style={styles.previewText} numberOfLines={2}>
             {contractText.substring(0, 150)}...
           </Text>
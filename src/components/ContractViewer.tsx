@@ -48,6 +48,7 @@ interface UserProfile {
 }
 
 interface ContractViewerProps {
+  // Receives plaintext; save it with createEncryptedContract() (src/lib/contractKeys.ts)
   onContractSave?: (data: {
     contractText: string;
     signature1: string;
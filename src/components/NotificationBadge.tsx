@@ -3,6 +3,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useQuery } from '@tanstack/react-query';
+import { getUnreadNotificationCount } from '@/services/api';
 import { borderRadius, typography } from '@/lib/theme';
 
 interface NotificationBadgeProps {
@@ -14,10 +15,11 @@ export default function NotificationBadge({ onPress }: NotificationBadgeProps) {
   const { user } = useAuth();
   const styles = createStyles(colors);
 
-  // Fetch unread notification count only when user is authenticated
-  const { data } = useQuery<{ count: number }>({
-    queryKey: ['/api/notifications/unread/count'],
-    refetchInterval: 30000, // Refetch every 30 seconds
+  // Fetch unread notification count only when user is authenticated; kept
+  // current over Realtime (src/lib/realtime.ts)
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ['unread-notifications', user?.id],
+    queryFn: () => getUnreadNotificationCount(user!.id),
     enabled: !!user,
   });
 
@@ -26,8 +28,6 @@ export default function NotificationBadge({ onPress }: NotificationBadgeProps) {
     return null;
   }
 
-  const unreadCount = data?.count || 0;
-
   return (
     <TouchableOpacity
       style={styles.button}
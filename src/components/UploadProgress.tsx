@@ -0,0 +1,59 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { spacing, borderRadius, typography } from '@/lib/theme';
+
+interface UploadProgressProps {
+  // 0 to 1
+  progress: number;
+  label?: string;
+}
+
+export default function UploadProgress({ progress, label = 'Uploading' }: UploadProgressProps) {
+  const { colors } = useTheme();
+  const styles = createStyles(colors);
+  const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+
+  return (
+    <View style={styles.container} accessibilityRole="progressbar" accessibilityValue={{ min: 0, max: 100, now: percent }}>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.percent}>{percent}%</Text>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${percent}%` }]} />
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof import('@/lib/theme').getColors>) =>
+  StyleSheet.create({
+    container: {
+      marginTop: spacing.md,
+    },
+    labelRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: spacing.xs,
+    },
+    label: {
+      fontSize: typography.size.sm,
+      color: colors.text.secondary,
+    },
+    percent: {
+      fontSize: typography.size.sm,
+      fontWeight: typography.weight.semibold,
+      color: colors.text.inverse,
+    },
+    track: {
+      height: 6,
+      borderRadius: borderRadius.full,
+      backgroundColor: colors.ui.border,
+      overflow: 'hidden',
+    },
+    fill: {
+      height: '100%',
+      borderRadius: borderRadius.full,
+      backgroundColor: colors.brand.primary,
+    },
+  });
@@ -11,7 +11,7 @@ interface SearchUser {
   lastName: string | null;
   profilePictureUrl: string | null;
   bio: string | null;
-  isVerified?: string;
+  isVerified?: boolean;
   verificationProvider?: string | null;
 }
 
@@ -100,7 +100,7 @@ export function UserSearch({ onSelectUser, selectedUserId, placeholder = "Search
                   <View style={styles.userInfo}>
                     <View style={styles.userNameRow}>
                       <Text style={styles.userName}>{getDisplayName(item)}</Text>
-                      {item.isVerified === 'true' && (
+                      {item.isVerified && (
                         <View style={styles.verifiedBadge}>
                           <Ionicons name="checkmark" size={10} color="#fff" />
                         </View>
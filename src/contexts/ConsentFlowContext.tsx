@@ -1,9 +1,11 @@
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { storage } from '../services/storage';
 import { useAuth } from '../hooks/useAuth';
 import { useQuery } from '@tanstack/react-query';
 import { queryClient } from '../lib/queryClient';
 import { US_STATES } from '../lib/constants';
+import { STORAGE_KEYS } from '../lib/localData';
+import type { UserPreferences } from '@shared/types';
 
 export interface ConsentFlowState {
   universityId: string;
@@ -42,29 +44,21 @@ interface ConsentFlowContextType {
   isHydrated: boolean;
 }
 
-// API returns snake_case from Supabase
-interface UserPreferences {
-  default_university_id: string | null;
-  state_of_residence: string | null;
-  default_encounter_type: string | null;
-  default_contract_duration: number | null;
-}
-
 const getDefaultState = (preferences?: UserPreferences): ConsentFlowState => {
-  const stateCode = preferences?.state_of_residence || '';
+  const stateCode = preferences?.stateOfResidence || '';
   const stateName = stateCode ? (US_STATES.find(s => s.code === stateCode)?.name || '') : '';
 
   return {
-    universityId: preferences?.default_university_id || '',
+    universityId: preferences?.defaultUniversityId || '',
     universityName: '',
     stateCode,
     stateName,
     selectionMode: undefined,
-    encounterType: preferences?.default_encounter_type || '',
+    encounterType: preferences?.defaultEncounterType || '',
     parties: ['', ''],
     intimateActs: {},
     contractStartTime: undefined,
-    contractDuration: preferences?.default_contract_duration || undefined,
+    contractDuration: preferences?.defaultContractDuration || undefined,
     contractEndTime: undefined,
     method: null,
     draftId: undefined,
@@ -85,7 +79,7 @@ const getDefaultState = (preferences?: UserPreferences): ConsentFlowState => {
 
 const STALE_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
 
-const STORAGE_KEY = 'pmy_consent_flow_state';
+const STORAGE_KEY = STORAGE_KEYS.consentFlow;
 
 const ConsentFlowContext = createContext<ConsentFlowContextType | undefined>(undefined);
 
@@ -102,15 +96,27 @@ export function ConsentFlowProvider({ children }: { children: ReactNode }) {
       const { getUserPreferences } = await import('../services/api');
       const prefs = await getUserPreferences(user.id);
       return prefs || {
-        default_university_id: null,
-        state_of_residence: null,
-        default_encounter_type: null,
-        default_contract_duration: null,
+        defaultUniversityId: null,
+        stateOfResidence: null,
+        defaultEncounterType: null,
+        defaultContractDuration: null,
       };
     },
     enabled: !!user,
   });
 
+  // The persisted copy is wiped on sign-out; drop the in-memory flow too so it
+  // isn't written back for the next account
+  const previousUserId = useRef<string | null>(null);
+  useEffect(() => {
+    if (authLoading) return;
+    const userId = user?.id ?? null;
+    if (previousUserId.current && previousUserId.current !== userId) {
+      setState(getDefaultState());
+    }
+    previousUserId.current = userId;
+  }, [authLoading, user?.id]);
+
   useEffect(() => {
     if (authLoading) return;
     
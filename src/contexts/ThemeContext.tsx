@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { useColorScheme } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
 import { getColors } from '@/lib/theme';
+import { SECURE_STORE_KEYS } from '@/lib/localData';
 
 type Theme = 'light' | 'dark' | 'system';
 
@@ -14,7 +15,7 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const THEME_STORAGE_KEY = 'app_theme';
+const THEME_STORAGE_KEY = SECURE_STORE_KEYS.theme;
 
 export function ThemeProvider({ children }: { children: ReactNode }) {
   const systemColorScheme = useColorScheme();
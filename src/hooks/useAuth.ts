@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { rememberSignedInUser, signOutAndWipe } from '../lib/localData';
+import { hasRecoveryKey, revokeThisDeviceKey } from '../lib/contractKeys';
+import { unregisterPushNotifications } from '../lib/pushNotifications';
 
 interface UseAuthReturn {
   user: User | null;
@@ -25,6 +28,7 @@ export function useAuth(): UseAuthReturn {
         setSession(null);
         setUser(null);
       } else {
+        if (session?.user) rememberSignedInUser(session.user.id);
         setSession(session);
         setUser(session?.user ?? null);
       }
@@ -35,6 +39,8 @@ export function useAuth(): UseAuthReturn {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((event, session) => {
       if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
+        // A different account signing in wipes what the previous one left behind
+        if (event === 'SIGNED_IN' && session?.user) rememberSignedInUser(session.user.id);
         setSession(session);
         setUser(session?.user ?? null);
       } else if (event === 'SIGNED_OUT') {
@@ -47,8 +53,22 @@ export function useAuth(): UseAuthReturn {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Signs out everywhere and wipes the device: stored data, the query cache and
+  // cached media. This device's encryption key is revoked and deleted if a
+  // recovery code can restore the user's contracts; without one it may be the
+  // only key that can, so it stays for the next sign-in here. The push token is
+  // removed so the next person to use the device gets no pushes.
   const signOut = async () => {
-    await supabase.auth.signOut({ scope: 'global' });
+    const userId = user?.id ?? null;
+    let keepDeviceKey = false;
+    if (userId) {
+      keepDeviceKey = !(await hasRecoveryKey(userId).catch(() => false));
+      if (!keepDeviceKey) {
+        await revokeThisDeviceKey(userId).catch(e => console.warn('Failed to revoke device key:', e));
+      }
+      await unregisterPushNotifications().catch(e => console.warn('Failed to unregister push token:', e));
+    }
+    await signOutAndWipe(userId, { keepDeviceKey });
     setUser(null);
     setSession(null);
   };
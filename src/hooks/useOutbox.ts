@@ -0,0 +1,10 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getOutboxItems, subscribeToOutbox, type OutboxItem } from '../lib/outbox';
+
+/**
+ * Items a user has waiting in the outbox, oldest first
+ */
+export function useOutbox(userId: string | undefined): OutboxItem[] {
+  const items = useSyncExternalStore(subscribeToOutbox, getOutboxItems);
+  return useMemo(() => items.filter(item => item.userId === userId), [items, userId]);
+}
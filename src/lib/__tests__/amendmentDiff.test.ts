@@ -0,0 +1,49 @@
+import { diffAmendmentValues } from '../amendmentDiff';
+
+describe('diffAmendmentValues', () => {
+  it('lists added, removed and withdrawn acts and skips unchanged ones', () => {
+    const rows = diffAmendmentValues(
+      { intimate_acts: { kissing: 'yes', oral: 'yes', touching: 'no' } },
+      { intimate_acts: { kissing: 'yes', oral: 'no', touching: 'yes', massage: 'yes' } }
+    );
+
+    expect(rows).toEqual([
+      { label: 'oral', before: 'Yes', after: 'No' },
+      { label: 'touching', before: 'No', after: 'Yes' },
+      { label: 'massage', before: 'Not included', after: 'Yes' },
+    ]);
+  });
+
+  it('shows a changed duration and end time', () => {
+    const before = new Date(2026, 9, 19, 22, 0);
+    const after = new Date(2026, 9, 19, 23, 30);
+
+    const rows = diffAmendmentValues(
+      { contract_duration: 60, contract_end_time: before.toISOString() },
+      { contract_duration: 150, contract_end_time: after.toISOString() }
+    );
+
+    expect(rows).toEqual([
+      { label: 'Duration', before: '1h', after: '2h 30m' },
+      { label: 'End Time', before: 'Oct 19, 2026 10:00 PM', after: 'Oct 19, 2026 11:30 PM' },
+    ]);
+  });
+
+  it('shows a duration that was not set before as None', () => {
+    expect(diffAmendmentValues({ contract_duration: null }, { contract_duration: 90 })).toEqual([
+      { label: 'Duration', before: 'None', after: '1h 30m' },
+    ]);
+  });
+
+  it('has no rows until the amendment has been applied', () => {
+    expect(diffAmendmentValues(null, { contract_duration: 90 })).toEqual([]);
+    expect(diffAmendmentValues({ contract_duration: 60 }, undefined)).toEqual([]);
+  });
+
+  it('has no rows when nothing changed', () => {
+    expect(diffAmendmentValues(
+      { intimate_acts: { kissing: 'yes' }, contract_duration: 60 },
+      { intimate_acts: { kissing: 'yes' }, contract_duration: 60 }
+    )).toEqual([]);
+  });
+});
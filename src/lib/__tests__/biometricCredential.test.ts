@@ -0,0 +1,102 @@
+import * as SecureStore from 'expo-secure-store';
+import { ed25519 } from '@noble/curves/ed25519';
+import { hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  buildConsentChallenge,
+  createDeviceCredential,
+  getDeviceCredential,
+  signConsentChallenge,
+  unlockDeviceKey,
+} from '../biometricCredential';
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes } = jest.requireActual('crypto');
+  return { getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)) };
+});
+
+jest.mock('expo-secure-store', () => {
+  const values = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => values.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      values.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      values.delete(key);
+    }),
+  };
+});
+
+jest.mock('../localData', () => ({
+  userStorageKey: (prefix: string, userId: string) => prefix + userId,
+  USER_SECURE_STORE_PREFIXES: { biometricKey: 'biometric_key_', biometricMeta: 'biometric_meta_' },
+}));
+
+const CONTENT_HASH = 'a'.repeat(64);
+
+function verifies(publicKey: string, contractId: string, contentHash: string, counter: number, signature: string) {
+  return ed25519.verify(
+    hexToBytes(signature),
+    utf8ToBytes(buildConsentChallenge(contractId, contentHash, counter)),
+    hexToBytes(publicKey)
+  );
+}
+
+describe('buildConsentChallenge', () => {
+  it('matches the message the biometric-credential function verifies', () => {
+    expect(buildConsentChallenge('contract-1', CONTENT_HASH, 3)).toBe(
+      `pmy-biometric-consent/v1\ncontract_id=contract-1\ncontent_hash=${CONTENT_HASH}\ncounter=3`
+    );
+  });
+});
+
+describe('createDeviceCredential', () => {
+  it('keeps the private key behind biometrics', async () => {
+    await createDeviceCredential('user-1');
+
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith(
+      'biometric_key_user-1',
+      expect.any(String),
+      expect.objectContaining({ requireAuthentication: true })
+    );
+  });
+});
+
+describe('signConsentChallenge', () => {
+  it('signs the contract head with a counter that goes up with every signature', async () => {
+    const credential = await createDeviceCredential('user-2');
+    const privateKey = (await unlockDeviceKey('user-2'))!;
+
+    const first = await signConsentChallenge('user-2', privateKey, 'contract-1', CONTENT_HASH);
+    const second = await signConsentChallenge('user-2', privateKey, 'contract-1', CONTENT_HASH);
+
+    expect(first).toMatchObject({ credentialId: credential.credentialId, counter: 1 });
+    expect(second.counter).toBe(2);
+    expect((await getDeviceCredential('user-2'))!.counter).toBe(2);
+    expect(verifies(credential.publicKey, 'contract-1', CONTENT_HASH, 1, first.signature)).toBe(true);
+    expect(verifies(credential.publicKey, 'contract-1', CONTENT_HASH, 2, second.signature)).toBe(true);
+  });
+
+  it("produces a signature that doesn't verify for another contract, version or counter", async () => {
+    const credential = await createDeviceCredential('user-3');
+    const { signature } = await signConsentChallenge('user-3', (await unlockDeviceKey('user-3'))!, 'contract-1', CONTENT_HASH);
+
+    expect(verifies(credential.publicKey, 'contract-2', CONTENT_HASH, 1, signature)).toBe(false);
+    expect(verifies(credential.publicKey, 'contract-1', 'b'.repeat(64), 1, signature)).toBe(false);
+    expect(verifies(credential.publicKey, 'contract-1', CONTENT_HASH, 2, signature)).toBe(false);
+  });
+
+  it('needs a credential on this device', async () => {
+    await expect(signConsentChallenge('nobody', new Uint8Array(32), 'contract-1', CONTENT_HASH))
+      .rejects.toThrow('No biometric credential registered on this device');
+  });
+});
+
+describe('unlockDeviceKey', () => {
+  it('returns null when authentication is cancelled', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.mocked(SecureStore.getItemAsync).mockRejectedValueOnce(new Error('User canceled the authentication'));
+
+    expect(await unlockDeviceKey('user-1')).toBeNull();
+  });
+});
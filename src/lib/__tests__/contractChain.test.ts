@@ -0,0 +1,134 @@
+import type { ContractVersion } from '@shared/types';
+import { computeContractVersionHash, verifyContractChain } from '../contractChain';
+
+const CONTRACT_ID = '4f6c2a0e-8d3b-4c1a-9e5f-2b7d8a1c3e90';
+
+const SNAPSHOT: Record<string, string | null> = {
+  university_id: '1',
+  encounter_type: 'intimate',
+  parties: '["Alex","Sam"]',
+  intimate_acts: '{"kissing":"yes"}',
+  contract_start_time: '2026-10-19T20:00:00.000Z',
+  contract_duration: '120',
+  contract_end_time: '2026-10-19T22:00:00.000Z',
+  method: 'signature',
+  contract_text: 'We both agree.\nLine two — café',
+  signature_1: null,
+  signature_2: null,
+  photo_url: null,
+  audio_url: null,
+  credential_id: null,
+  credential_public_key: null,
+  status: 'active',
+};
+
+// Computed independently from contract_chain_hash() in
+// 20261019100000_contract_version_chain.sql
+const CREATED_HASH = 'dd56a8b6aaa7a55a053102275da03a0b15e2e121f783766370970709a4907263';
+const PAUSED_HASH = 'a1a1454d08fd2cc7e063541c20b651f8075c7f0f9a39a8bda670621563b29bce';
+
+function buildChain(): ContractVersion[] {
+  return [
+    {
+      id: 'v1',
+      contractId: CONTRACT_ID,
+      version: 1,
+      event: 'created',
+      snapshot: SNAPSHOT,
+      previousHash: null,
+      contentHash: CREATED_HASH,
+      createdBy: null,
+      createdAt: '2026-10-19T19:00:00.000Z',
+    },
+    {
+      id: 'v2',
+      contractId: CONTRACT_ID,
+      version: 2,
+      event: 'paused',
+      snapshot: { ...SNAPSHOT, status: 'paused' },
+      previousHash: CREATED_HASH,
+      contentHash: PAUSED_HASH,
+      createdBy: null,
+      createdAt: '2026-10-19T20:30:00.000Z',
+    },
+  ];
+}
+
+describe('computeContractVersionHash', () => {
+  it('matches the database canonical form', () => {
+    expect(computeContractVersionHash(CONTRACT_ID, 1, 'created', null, SNAPSHOT)).toBe(CREATED_HASH);
+    expect(
+      computeContractVersionHash(CONTRACT_ID, 2, 'paused', CREATED_HASH, { ...SNAPSHOT, status: 'paused' })
+    ).toBe(PAUSED_HASH);
+  });
+
+  it('tells a missing field apart from the text "null"', () => {
+    expect(computeContractVersionHash(CONTRACT_ID, 1, 'created', null, { ...SNAPSHOT, signature_1: 'null' }))
+      .not.toBe(CREATED_HASH);
+  });
+
+  it("doesn't let text move between fields", () => {
+    const shifted = {
+      ...SNAPSHOT,
+      contract_text: 'We both agree.',
+      signature_1: 'Line two — café',
+    };
+    expect(computeContractVersionHash(CONTRACT_ID, 1, 'created', null, shifted)).not.toBe(CREATED_HASH);
+  });
+});
+
+describe('verifyContractChain', () => {
+  it('reports an empty history', () => {
+    expect(verifyContractChain(CONTRACT_ID, [])).toEqual({ status: 'empty' });
+  });
+
+  it('verifies an intact chain in any order', () => {
+    expect(verifyContractChain(CONTRACT_ID, buildChain().reverse())).toEqual({
+      status: 'verified',
+      versionCount: 2,
+      headHash: PAUSED_HASH,
+    });
+  });
+
+  it('detects an edited snapshot', () => {
+    const chain = buildChain();
+    chain[0] = { ...chain[0], snapshot: { ...SNAPSHOT, contract_text: 'Edited later' } };
+
+    expect(verifyContractChain(CONTRACT_ID, chain)).toMatchObject({
+      status: 'broken',
+      brokenAtVersion: 1,
+      reason: 'Recorded content does not match its hash',
+    });
+  });
+
+  it('detects an edited snapshot that was re-hashed', () => {
+    const chain = buildChain();
+    const snapshot = { ...SNAPSHOT, contract_text: 'Edited later' };
+    chain[0] = {
+      ...chain[0],
+      snapshot,
+      contentHash: computeContractVersionHash(CONTRACT_ID, 1, 'created', null, snapshot),
+    };
+
+    expect(verifyContractChain(CONTRACT_ID, chain)).toMatchObject({
+      status: 'broken',
+      brokenAtVersion: 2,
+      reason: 'Link to the previous version does not match',
+    });
+  });
+
+  it('detects a deleted version', () => {
+    expect(verifyContractChain(CONTRACT_ID, buildChain().slice(1))).toMatchObject({
+      status: 'broken',
+      brokenAtVersion: 2,
+      reason: 'Version 1 is missing from the history',
+    });
+  });
+
+  it('detects a version moved to another contract', () => {
+    expect(verifyContractChain('0b9a7c1e-2d3f-4a5b-8c6d-7e8f9a0b1c2d', buildChain())).toMatchObject({
+      status: 'broken',
+      brokenAtVersion: 1,
+    });
+  });
+});
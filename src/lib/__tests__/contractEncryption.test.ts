@@ -0,0 +1,106 @@
+import {
+  ENCRYPTED_PREFIX,
+  decryptBytes,
+  decryptField,
+  deriveRecoveryKeyPair,
+  encryptBytes,
+  encryptField,
+  generateContractKey,
+  generateKeyPair,
+  generateRecoveryCode,
+  normalizeRecoveryCode,
+  unwrapContractKey,
+  wrapContractKey,
+} from '../contractEncryption';
+import { base64ToBytes, bytesToBase64 } from '../encoding';
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes } = jest.requireActual('crypto');
+  return { getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)) };
+});
+
+describe('fields', () => {
+  it('round-trips text', () => {
+    const key = generateContractKey();
+    const sealed = encryptField(key, 'contract_text', 'We both agree — café');
+
+    expect(sealed!.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+    expect(sealed).not.toContain('agree');
+    expect(decryptField(key, 'contract_text', sealed)).toBe('We both agree — café');
+  });
+
+  it('uses a fresh nonce for every value', () => {
+    const key = generateContractKey();
+    expect(encryptField(key, 'contract_text', 'same')).not.toBe(encryptField(key, 'contract_text', 'same'));
+  });
+
+  it('keeps null and legacy plaintext as they are', () => {
+    const key = generateContractKey();
+    expect(encryptField(key, 'signature_1', null)).toBeNull();
+    expect(decryptField(key, 'signature_1', undefined)).toBeNull();
+    expect(decryptField(key, 'contract_text', 'Written before encryption')).toBe('Written before encryption');
+  });
+
+  it('rejects a value moved to another field', () => {
+    const key = generateContractKey();
+    const sealed = encryptField(key, 'signature_1', 'Alex');
+    expect(() => decryptField(key, 'signature_2', sealed)).toThrow();
+  });
+
+  it('rejects the wrong key', () => {
+    const sealed = encryptField(generateContractKey(), 'contract_text', 'secret');
+    expect(() => decryptField(generateContractKey(), 'contract_text', sealed)).toThrow();
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const key = generateContractKey();
+    const sealed = encryptField(key, 'contract_text', 'secret')!;
+    const bytes = base64ToBytes(sealed.slice(ENCRYPTED_PREFIX.length));
+    bytes[bytes.length - 1] ^= 1;
+    expect(() => decryptField(key, 'contract_text', ENCRYPTED_PREFIX + bytesToBase64(bytes))).toThrow();
+  });
+});
+
+describe('media', () => {
+  it('round-trips bytes', () => {
+    const key = generateContractKey();
+    const bytes = new Uint8Array(10_000).map((_, i) => i % 251);
+    expect(decryptBytes(key, encryptBytes(key, bytes))).toEqual(bytes);
+  });
+});
+
+describe('key wrapping', () => {
+  it('unwraps for the device it was wrapped for', () => {
+    const contractKey = generateContractKey();
+    const device = generateKeyPair();
+    expect(unwrapContractKey(wrapContractKey(contractKey, device.publicKey), device.privateKey)).toEqual(contractKey);
+  });
+
+  it("can't be unwrapped by another device", () => {
+    const wrapped = wrapContractKey(generateContractKey(), generateKeyPair().publicKey);
+    expect(() => unwrapContractKey(wrapped, generateKeyPair().privateKey)).toThrow();
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates 32 Crockford base32 characters in groups of four', () => {
+    expect(generateRecoveryCode()).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){7}[0-9A-HJKMNP-TV-Z]{4}$/);
+  });
+
+  it('derives the same keypair from a code typed loosely', () => {
+    const code = generateRecoveryCode();
+    const loose = code.toLowerCase().replace(/-/g, ' ').replace(/0/g, 'o').replace(/1/g, 'l');
+
+    expect(normalizeRecoveryCode(loose)).toBe(code.replace(/-/g, ''));
+    expect(deriveRecoveryKeyPair(loose).publicKey).toBe(deriveRecoveryKeyPair(code).publicKey);
+  });
+
+  it('recovers a contract key wrapped for the recovery keypair', () => {
+    const code = generateRecoveryCode();
+    const contractKey = generateContractKey();
+    const wrapped = wrapContractKey(contractKey, deriveRecoveryKeyPair(code).publicKey);
+
+    expect(unwrapContractKey(wrapped, deriveRecoveryKeyPair(code).privateKey)).toEqual(contractKey);
+    expect(() => unwrapContractKey(wrapped, deriveRecoveryKeyPair(generateRecoveryCode()).privateKey)).toThrow();
+  });
+});
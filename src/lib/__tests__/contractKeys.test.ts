@@ -0,0 +1,143 @@
+import * as SecureStore from 'expo-secure-store';
+import { bytesToHex } from '@noble/hashes/utils';
+import { getContract, getContractKeyEnvelopes, getContractPartyDeviceKeys, insertKeyEnvelopes } from '@/services/api';
+import type { ConsentContract, ContractAmendment } from '@shared/types';
+import { ENCRYPTED_PREFIX, encryptField, generateContractKey, generateKeyPair, unwrapContractKey } from '../contractEncryption';
+import { buildEncryptedActsAmendment, decryptAmendment, getOrCreateContractKey } from '../contractKeys';
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes } = jest.requireActual('crypto');
+  return { getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)) };
+});
+
+jest.mock('expo-secure-store', () => {
+  const values = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => values.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      values.set(key, value);
+    }),
+  };
+});
+
+jest.mock('@/services/api', () => ({
+  getContract: jest.fn(),
+  getContractKeyEnvelopes: jest.fn(),
+  getContractPartyDeviceKeys: jest.fn(),
+  insertKeyEnvelopes: jest.fn(),
+  registerDeviceKey: jest.fn(),
+}));
+
+jest.mock('../localData', () => ({
+  registerMemoryCache: jest.fn(),
+  userStorageKey: (prefix: string, userId: string) => prefix + userId,
+  USER_SECURE_STORE_PREFIXES: { encryptionDeviceKey: 'device_key_' },
+}));
+
+const USER_ID = 'user-1';
+const device = generateKeyPair();
+
+function contract(id: string, changes: Partial<ConsentContract> = {}): ConsentContract {
+  return { id, userId: USER_ID, contractText: 'Written before encryption', ...changes } as ConsentContract;
+}
+
+beforeAll(async () => {
+  await SecureStore.setItemAsync(
+    `device_key_${USER_ID}`,
+    JSON.stringify({ id: 'device-1', publicKey: device.publicKey, privateKey: bytesToHex(device.privateKey) })
+  );
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.mocked(getContractKeyEnvelopes).mockResolvedValue([]);
+  jest.mocked(getContractPartyDeviceKeys).mockResolvedValue([
+    { id: 'device-1', user_id: USER_ID, public_key: device.publicKey, has_envelope: false },
+  ] as any);
+});
+
+describe('getOrCreateContractKey', () => {
+  it('gives a plaintext contract its first key and shares it with party devices', async () => {
+    jest.mocked(getContract).mockResolvedValue(contract('plaintext'));
+
+    const key = await getOrCreateContractKey('plaintext', USER_ID);
+
+    expect(key).not.toBeNull();
+    const [envelopes] = jest.mocked(insertKeyEnvelopes).mock.calls[0];
+    expect(envelopes).toHaveLength(1);
+    expect(unwrapContractKey(envelopes[0].wrapped_key, device.privateKey)).toEqual(key);
+  });
+
+  it("doesn't replace the key of an encrypted contract this device can't read", async () => {
+    jest.mocked(getContract).mockResolvedValue(contract('encrypted', { contractText: `${ENCRYPTED_PREFIX}AAAA` }));
+
+    expect(await getOrCreateContractKey('encrypted', USER_ID)).toBeNull();
+    expect(insertKeyEnvelopes).not.toHaveBeenCalled();
+  });
+
+  it("doesn't replace a key only held by other devices", async () => {
+    jest.mocked(getContract).mockResolvedValue(contract('shared'));
+    jest.mocked(getContractPartyDeviceKeys).mockResolvedValue([
+      { id: 'device-1', user_id: USER_ID, public_key: device.publicKey, has_envelope: false },
+      { id: 'device-2', user_id: 'user-2', public_key: generateKeyPair().publicKey, has_envelope: true },
+    ] as any);
+
+    expect(await getOrCreateContractKey('shared', USER_ID)).toBeNull();
+    expect(insertKeyEnvelopes).not.toHaveBeenCalled();
+  });
+
+  it('returns null for a contract that no longer exists', async () => {
+    jest.mocked(getContract).mockResolvedValue(null);
+
+    expect(await getOrCreateContractKey('deleted', USER_ID)).toBeNull();
+    expect(insertKeyEnvelopes).not.toHaveBeenCalled();
+  });
+});
+
+describe('decryptAmendment', () => {
+  const key = generateContractKey();
+  const currentActs = { kissing: 'yes', oral: 'no' };
+  const storedActs = encryptField(key, 'intimate_acts', JSON.stringify(currentActs))!;
+
+  function amendment(newValue: string): ContractAmendment {
+    return { id: 'amendment-1', type: 'add_acts', newValue, previousValue: null, appliedValue: null } as ContractAmendment;
+  }
+
+  it('shows the acts before and after a requested change', () => {
+    const decrypted = decryptAmendment(
+      amendment(buildEncryptedActsAmendment(key, 'add_acts', ['Oral', 'touching'], currentActs, storedActs)),
+      key
+    );
+
+    expect(JSON.parse(decrypted.newValue!)).toEqual(['Oral', 'touching']);
+    expect(decrypted.proposedActs).toEqual({
+      before: currentActs,
+      after: { kissing: 'yes', oral: 'yes', touching: 'yes' },
+      matchesRequest: true,
+    });
+  });
+
+  it('flags encrypted acts that differ from the change listed', () => {
+    const value = JSON.parse(buildEncryptedActsAmendment(key, 'add_acts', ['touching'], currentActs, storedActs));
+    value.intimate_acts = encryptField(key, 'intimate_acts', JSON.stringify({ kissing: 'yes', oral: 'yes', touching: 'yes' }));
+
+    const decrypted = decryptAmendment(amendment(JSON.stringify(value)), key);
+
+    expect(JSON.parse(decrypted.newValue!)).toEqual(['touching']);
+    expect(decrypted.proposedActs).toMatchObject({ after: { oral: 'yes' }, matchesRequest: false });
+  });
+
+  it("leaves the change unchecked when it can't be decrypted", () => {
+    const newValue = buildEncryptedActsAmendment(key, 'add_acts', ['touching'], currentActs, storedActs);
+
+    expect(decryptAmendment(amendment(newValue), null)).toMatchObject({ newValue: null, proposedActs: null });
+    expect(decryptAmendment(amendment(newValue), generateContractKey())).toMatchObject({ newValue: null, proposedActs: null });
+  });
+
+  it('leaves plaintext amendments as they are', () => {
+    const decrypted = decryptAmendment(amendment('["touching"]'), key);
+
+    expect(decrypted.newValue).toBe('["touching"]');
+    expect(decrypted.proposedActs).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+import type { InsertContractAmendment } from '@shared/types';
+
+// Shared with the mocks below, which are rebuilt whenever a test restarts the app
+const mockStorage = new Map<string, string>();
+const mockFiles = new Map<string, Uint8Array>();
+const mockNetwork = { online: true };
+const mockApi = {
+  createAmendment: jest.fn(),
+  uploadPhoto: jest.fn(),
+  uploadAudioRecording: jest.fn(),
+};
+const mockSyncEncryptedContract = jest.fn();
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes, randomUUID } = jest.requireActual('crypto');
+  return {
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+    randomUUID: () => randomUUID(),
+  };
+});
+
+jest.mock('expo-file-system', () => {
+  const join = (parts: (string | { uri: string })[]) =>
+    parts.map(part => typeof part === 'string' ? part : part.uri).join('/');
+
+  class Directory {
+    uri: string;
+    exists = true;
+    constructor(...parts: (string | { uri: string })[]) {
+      this.uri = join(parts);
+    }
+    create() {}
+  }
+  class File {
+    uri: string;
+    constructor(...parts: (string | { uri: string })[]) {
+      this.uri = join(parts);
+    }
+    get exists() {
+      return mockFiles.has(this.uri);
+    }
+    create() {
+      mockFiles.set(this.uri, new Uint8Array());
+    }
+    write(bytes: Uint8Array) {
+      mockFiles.set(this.uri, bytes);
+    }
+    delete() {
+      mockFiles.delete(this.uri);
+    }
+    async bytes() {
+      return mockFiles.get(this.uri)!;
+    }
+  }
+  return { Directory, File, Paths: { document: { uri: 'documents' } } };
+});
+
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: async () => ({ isConnected: mockNetwork.online, isInternetReachable: mockNetwork.online }),
+  addEventListener: () => () => {},
+}));
+
+jest.mock('../supabase', () => ({
+  getSession: async () => ({ user: { id: 'user-1' } }),
+}));
+
+jest.mock('../queryClient', () => ({
+  queryClient: { invalidateQueries: jest.fn() },
+}));
+
+jest.mock('../../services/storage', () => ({
+  storage: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+  },
+}));
+
+jest.mock('../../services/api', () => mockApi);
+
+jest.mock('../contractKeys', () => ({
+  syncEncryptedContract: (...args: unknown[]) => mockSyncEncryptedContract(...args),
+}));
+
+jest.mock('../localData', () => ({
+  registerMemoryCache: () => {},
+  STORAGE_KEYS: { outbox: 'outbox' },
+  DOCUMENT_DIRECTORIES: { outbox: 'outbox' },
+}));
+
+type Outbox = typeof import('../outbox');
+
+const AMENDMENT: InsertContractAmendment = {
+  contractId: 'contract-1',
+  requestedBy: 'user-1',
+  type: 'duration',
+  newValue: '90',
+};
+
+// A fresh copy of the module, as after the app restarts; storage persists
+function startApp(): Outbox {
+  let outbox!: Outbox;
+  jest.isolateModules(() => {
+    outbox = require('../outbox');
+  });
+  return outbox;
+}
+
+function storedItems(): any[] {
+  return JSON.parse(mockStorage.get('outbox') ?? '[]');
+}
+
+beforeEach(() => {
+  mockStorage.clear();
+  mockFiles.clear();
+  mockNetwork.online = true;
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('amendments', () => {
+  it('stays queued while offline and is sent under its own id once online', async () => {
+    const outbox = startApp();
+    mockNetwork.online = false;
+
+    const queued = await outbox.enqueueAmendment('user-1', AMENDMENT);
+
+    expect(queued.synced).toBe(false);
+    expect(mockApi.createAmendment).not.toHaveBeenCalled();
+    expect(storedItems()).toHaveLength(1);
+
+    mockNetwork.online = true;
+    await outbox.syncOutbox();
+
+    expect(mockApi.createAmendment).toHaveBeenCalledWith({ ...AMENDMENT, id: queued.id });
+    expect(storedItems()).toHaveLength(0);
+  });
+
+  it('treats a duplicate from an earlier attempt as sent', async () => {
+    const outbox = startApp();
+    mockApi.createAmendment.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+    const result = await outbox.enqueueAmendment('user-1', AMENDMENT);
+
+    expect(result.synced).toBe(true);
+    expect(storedItems()).toHaveLength(0);
+  });
+
+  it('needs a manual retry after repeated failures', async () => {
+    const outbox = startApp();
+    mockApi.createAmendment.mockRejectedValue(new Error('Server error'));
+
+    const { id } = await outbox.enqueueAmendment('user-1', AMENDMENT);
+    for (let i = 0; i < 6; i++) await outbox.syncOutbox();
+
+    expect(mockApi.createAmendment).toHaveBeenCalledTimes(5);
+    expect(storedItems()[0]).toMatchObject({ id, status: 'failed', attempts: 5, lastError: 'Server error' });
+
+    mockApi.createAmendment.mockResolvedValue(undefined);
+    await outbox.retryOutboxItem(id);
+
+    expect(storedItems()).toHaveLength(0);
+  });
+
+  it('sends again an item the app was killed while sending', async () => {
+    mockStorage.set('outbox', JSON.stringify([{
+      id: 'amendment-1',
+      userId: 'user-1',
+      kind: 'amendment',
+      createdAt: '2026-10-19T12:00:00.000Z',
+      status: 'syncing',
+      attempts: 0,
+      lastError: null,
+      amendment: AMENDMENT,
+    }]));
+
+    await startApp().syncOutbox();
+
+    expect(mockApi.createAmendment).toHaveBeenCalledWith({ ...AMENDMENT, id: 'amendment-1' });
+    expect(storedItems()).toHaveLength(0);
+  });
+});
+
+describe('contracts', () => {
+  const key = new Uint8Array(32).fill(7);
+  const media = { bucket: 'photos' as const, filename: 'photo.jpg', bytes: new Uint8Array([1, 2, 3]) };
+
+  it('resumes an interrupted media upload after a restart and creates the contract once', async () => {
+    mockApi.uploadPhoto.mockImplementationOnce(async (_userId, _bytes, _metadata, resumable) => {
+      await resumable.onUploadUrl('https://storage.example/upload/1');
+      throw new Error('Network request failed');
+    });
+
+    const { id, synced } = await startApp().enqueueContract('user-1', { userId: 'user-1', parties: ['Alex'] }, key, media);
+
+    expect(synced).toBe(false);
+    expect(storedItems()[0].media).toMatchObject({ uploadUrl: 'https://storage.example/upload/1', path: null });
+    expect(mockSyncEncryptedContract).not.toHaveBeenCalled();
+
+    mockApi.uploadPhoto.mockResolvedValueOnce(`user-1/photos/${id}-photo.jpg.enc`);
+    await startApp().syncOutbox();
+
+    const [, bytes, metadata, resumable] = mockApi.uploadPhoto.mock.calls[1];
+    expect(bytes).toEqual(media.bytes);
+    expect(metadata).toMatchObject({ id });
+    expect(resumable.uploadUrl).toBe('https://storage.example/upload/1');
+
+    expect(mockSyncEncryptedContract).toHaveBeenCalledTimes(1);
+    expect(mockSyncEncryptedContract).toHaveBeenCalledWith(
+      'user-1',
+      id,
+      { userId: 'user-1', parties: ['Alex'], photoUrl: `user-1/photos/${id}-photo.jpg.enc` },
+      key
+    );
+    expect(storedItems()).toHaveLength(0);
+    expect(mockFiles.size).toBe(0);
+  });
+
+  it("doesn't upload media again when only the contract insert failed", async () => {
+    mockApi.uploadPhoto.mockResolvedValue('user-1/photos/uploaded.enc');
+    mockSyncEncryptedContract.mockRejectedValueOnce(new Error('Network request failed'));
+
+    const outbox = startApp();
+    const { id } = await outbox.enqueueContract('user-1', { userId: 'user-1' }, key, media);
+    await outbox.syncOutbox();
+
+    expect(mockApi.uploadPhoto).toHaveBeenCalledTimes(1);
+    expect(mockSyncEncryptedContract).toHaveBeenCalledTimes(2);
+    expect(mockSyncEncryptedContract).toHaveBeenLastCalledWith(
+      'user-1',
+      id,
+      { userId: 'user-1', photoUrl: 'user-1/photos/uploaded.enc' },
+      key
+    );
+    expect(storedItems()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { NotificationType } from '@shared/types';
+import { buildPushPayload, type NotificationRow } from '../../../supabase/functions/_shared/pushPayloads';
+
+const CONTRACT_URL = 'pmy://contracts/contract-1';
+const NOTIFICATIONS_URL = 'pmy://profile/notifications';
+
+// Every type needs an entry, so a new type can't ship without a deep link
+const EXPECTED_URLS: Record<NotificationType, string> = {
+  contract_invitation: 'pmy://contracts?tab=inbox',
+  invitation_accepted: CONTRACT_URL,
+  contract_approved: CONTRACT_URL,
+  contract_rejected: CONTRACT_URL,
+  amendment_requested: CONTRACT_URL,
+  amendment_approved: CONTRACT_URL,
+  amendment_rejected: CONTRACT_URL,
+  contract_paused: CONTRACT_URL,
+  contract_resumed: CONTRACT_URL,
+  contract_revoked: CONTRACT_URL,
+  contract_expired: CONTRACT_URL,
+  verification_complete: NOTIFICATIONS_URL,
+  verification_failed: NOTIFICATIONS_URL,
+  retention_warning: NOTIFICATIONS_URL,
+  party_account_deleted: NOTIFICATIONS_URL,
+  data_export_ready: 'pmy://profile/data-export',
+  data_export_failed: 'pmy://profile/data-export',
+};
+
+function notification(type: string, changes: Partial<NotificationRow> = {}): NotificationRow {
+  return {
+    id: 'notification-1',
+    type,
+    title: 'Server title',
+    message: 'Alex wants to add something private',
+    related_contract_id: 'contract-1',
+    related_amendment_id: 'amendment-1',
+    ...changes,
+  };
+}
+
+// The screen under app/(tabs) that expo-router opens for a deep link
+function routeFile(url: string): string {
+  const path = url.replace('pmy://', '').split('?')[0].replace('contract-1', '[id]');
+  return join(__dirname, '../../../app/(tabs)', `${path}.tsx`);
+}
+
+describe('buildPushPayload', () => {
+  it.each(Object.entries(EXPECTED_URLS))('links %s to its screen', (type, url) => {
+    const payload = buildPushPayload(notification(type));
+
+    expect(payload.data.url).toBe(url);
+    expect(existsSync(routeFile(url))).toBe(true);
+  });
+
+  it('keeps notification text out of pushes for known types', () => {
+    const payload = buildPushPayload(notification('amendment_requested'));
+
+    expect(payload.title).toBe('Amendment Requested');
+    expect(payload.body).not.toContain('Alex');
+    expect(payload.data).toEqual({
+      url: CONTRACT_URL,
+      type: 'amendment_requested',
+      notificationId: 'notification-1',
+      contractId: 'contract-1',
+      amendmentId: 'amendment-1',
+    });
+  });
+
+  it('opens the notification list when a contract link has no contract', () => {
+    expect(buildPushPayload(notification('contract_revoked', { related_contract_id: null })).data.url)
+      .toBe(NOTIFICATIONS_URL);
+  });
+
+  it("uses the notification's own text for a type it doesn't know", () => {
+    const payload = buildPushPayload(notification('something_new'));
+
+    expect(payload).toMatchObject({ title: 'Server title', body: 'Alex wants to add something private' });
+    expect(payload.data.url).toBe(CONTRACT_URL);
+    expect(buildPushPayload(notification('something_new', { related_contract_id: null })).data.url)
+      .toBe(NOTIFICATIONS_URL);
+  });
+});
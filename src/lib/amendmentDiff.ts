@@ -0,0 +1,64 @@
+/**
+ * Amendment Diff
+ *
+ * Turns the before/after values the database keeps on an applied amendment
+ * (`previous_value` / `applied_value`) into rows for display and export.
+ */
+
+import { format } from 'date-fns';
+import type { AmendmentFieldValues } from '@shared/types';
+import { formatDuration } from './utils';
+
+export interface AmendmentDiffRow {
+  label: string;
+  before: string;
+  after: string;
+}
+
+function formatConsent(value: string | undefined): string {
+  if (value === 'yes') return 'Yes';
+  if (value === 'no') return 'No';
+  return 'Not included';
+}
+
+/**
+ * List the fields an amendment changed, skipping anything left as it was
+ */
+export function diffAmendmentValues(
+  previous: AmendmentFieldValues | null | undefined,
+  applied: AmendmentFieldValues | null | undefined
+): AmendmentDiffRow[] {
+  if (!previous || !applied) return [];
+
+  const rows: AmendmentDiffRow[] = [];
+
+  if (previous.intimate_acts || applied.intimate_acts) {
+    const before = previous.intimate_acts || {};
+    const after = applied.intimate_acts || {};
+    const acts = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+    for (const act of acts) {
+      if (before[act] !== after[act]) {
+        rows.push({ label: act, before: formatConsent(before[act]), after: formatConsent(after[act]) });
+      }
+    }
+  }
+
+  if ('contract_duration' in applied && previous.contract_duration !== applied.contract_duration) {
+    rows.push({
+      label: 'Duration',
+      before: previous.contract_duration ? formatDuration(previous.contract_duration) : 'None',
+      after: applied.contract_duration ? formatDuration(applied.contract_duration) : 'None',
+    });
+  }
+
+  if ('contract_end_time' in applied && previous.contract_end_time !== applied.contract_end_time) {
+    rows.push({
+      label: 'End Time',
+      before: previous.contract_end_time ? format(new Date(previous.contract_end_time), 'MMM d, yyyy h:mm a') : 'None',
+      after: applied.contract_end_time ? format(new Date(applied.contract_end_time), 'MMM d, yyyy h:mm a') : 'None',
+    });
+  }
+
+  return rows;
+}
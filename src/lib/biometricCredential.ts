@@ -0,0 +1,131 @@
+/**
+ * Biometric Consent Credential
+ *
+ * Per-device Ed25519 keypair used for the biometric consent method. The private
+ * key is kept in SecureStore behind `requireAuthentication`, so reading it is the
+ * biometric check. The public key is registered with the server, which verifies
+ * signatures over a challenge derived from the contract's hash-chain head.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { userStorageKey, USER_SECURE_STORE_PREFIXES } from './localData';
+
+const KEY_PREFIX = USER_SECURE_STORE_PREFIXES.biometricKey;
+const META_PREFIX = USER_SECURE_STORE_PREFIXES.biometricMeta;
+
+export interface DeviceCredential {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+}
+
+export interface BiometricAssertion {
+  credentialId: string;
+  counter: number;
+  signature: string;
+}
+
+function storageKey(prefix: string, userId: string): string {
+  return userStorageKey(prefix, userId);
+}
+
+/**
+ * Build the message signed for a contract. Must match the edge function.
+ */
+export function buildConsentChallenge(contractId: string, contentHash: string, counter: number): string {
+  return [
+    'pmy-biometric-consent/v1',
+    `contract_id=${contractId}`,
+    `content_hash=${contentHash}`,
+    `counter=${counter}`,
+  ].join('\n');
+}
+
+/**
+ * Get the credential registered on this device for a user, if any
+ */
+export async function getDeviceCredential(userId: string): Promise<DeviceCredential | null> {
+  const raw = await SecureStore.getItemAsync(storageKey(META_PREFIX, userId));
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as DeviceCredential;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a new keypair for this device. The caller registers the public key
+ * with the server before the credential is used.
+ */
+export async function createDeviceCredential(userId: string): Promise<DeviceCredential> {
+  const privateKey = Crypto.getRandomBytes(32);
+  const credential: DeviceCredential = {
+    credentialId: bytesToHex(Crypto.getRandomBytes(16)),
+    publicKey: bytesToHex(ed25519.getPublicKey(privateKey)),
+    counter: 0,
+  };
+
+  await SecureStore.setItemAsync(storageKey(KEY_PREFIX, userId), bytesToHex(privateKey), {
+    requireAuthentication: true,
+    authenticationPrompt: 'Authenticate to set up biometric consent',
+  });
+  await SecureStore.setItemAsync(storageKey(META_PREFIX, userId), JSON.stringify(credential));
+
+  return credential;
+}
+
+/**
+ * Remove this device's credential (e.g. after the server rejected it)
+ */
+export async function deleteDeviceCredential(userId: string): Promise<void> {
+  await SecureStore.deleteItemAsync(storageKey(KEY_PREFIX, userId));
+  await SecureStore.deleteItemAsync(storageKey(META_PREFIX, userId));
+}
+
+/**
+ * Prompt for biometrics and unlock the private key. Returns null if the user
+ * cancelled or authentication failed.
+ */
+export async function unlockDeviceKey(userId: string): Promise<Uint8Array | null> {
+  try {
+    const hex = await SecureStore.getItemAsync(storageKey(KEY_PREFIX, userId), {
+      requireAuthentication: true,
+      authenticationPrompt: 'Authenticate for consent',
+    });
+    return hex ? hexToBytes(hex) : null;
+  } catch (e) {
+    console.warn('[BiometricCredential] unlock failed:', e);
+    return null;
+  }
+}
+
+/**
+ * Sign the consent challenge for a contract version, advancing the counter
+ */
+export async function signConsentChallenge(
+  userId: string,
+  privateKey: Uint8Array,
+  contractId: string,
+  contentHash: string
+): Promise<BiometricAssertion> {
+  const credential = await getDeviceCredential(userId);
+  if (!credential) {
+    throw new Error('No biometric credential registered on this device');
+  }
+
+  const counter = credential.counter + 1;
+  const challenge = buildConsentChallenge(contractId, contentHash, counter);
+  const signature = bytesToHex(ed25519.sign(utf8ToBytes(challenge), privateKey));
+
+  await SecureStore.setItemAsync(
+    storageKey(META_PREFIX, userId),
+    JSON.stringify({ ...credential, counter })
+  );
+
+  return { credentialId: credential.credentialId, counter, signature };
+}
@@ -0,0 +1,93 @@
+/**
+ * Consent Media
+ *
+ * Photos and voice recordings are encrypted with the contract key before upload
+ * and stored as opaque `.enc` objects. Viewing one downloads it through a signed
+ * URL and decrypts it into the cache directory. Objects uploaded before
+ * encryption are served from the signed URL as they are.
+ */
+
+import { Platform } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import { getConsentMediaUrl, type ConsentMediaBucket } from '@/services/api';
+import { decryptBytes, encryptBytes } from './contractEncryption';
+import { bytesToBase64 } from './encoding';
+
+const ENCRYPTED_SUFFIX = '.enc';
+const CACHE_DIRECTORY = 'consent-media';
+
+export function isEncryptedMediaPath(path: string): boolean {
+  return path.endsWith(ENCRYPTED_SUFFIX);
+}
+
+/**
+ * Read a local file (camera/recorder URI) and encrypt it for upload
+ */
+export async function encryptMediaFile(uri: string, key: Uint8Array): Promise<Uint8Array> {
+  const bytes = Platform.OS === 'web'
+    ? new Uint8Array(await (await fetch(uri)).arrayBuffer())
+    : await new File(uri).bytes();
+  return encryptBytes(key, bytes);
+}
+
+async function downloadDecrypted(bucket: ConsentMediaBucket, path: string, key: Uint8Array): Promise<Uint8Array> {
+  const response = await fetch(await getConsentMediaUrl(bucket, path));
+  if (!response.ok) {
+    throw new Error(`Failed to download media: ${response.status}`);
+  }
+  return decryptBytes(key, new Uint8Array(await response.arrayBuffer()));
+}
+
+/**
+ * Get a URI the app can display or play. Decrypted copies live in the cache
+ * directory, which is emptied on sign-out (see localData.ts).
+ */
+export async function getDecryptedMediaUri(
+  bucket: ConsentMediaBucket,
+  path: string,
+  key: Uint8Array | null,
+  mimeType: string
+): Promise<string> {
+  if (!isEncryptedMediaPath(path)) {
+    return getConsentMediaUrl(bucket, path);
+  }
+  if (!key) {
+    throw new Error('This contract is locked on this device');
+  }
+
+  const bytes = await downloadDecrypted(bucket, path, key);
+
+  if (Platform.OS === 'web') {
+    return URL.createObjectURL(new Blob([bytes as BlobPart], { type: mimeType }));
+  }
+
+  const directory = new Directory(Paths.cache, CACHE_DIRECTORY);
+  if (!directory.exists) directory.create({ intermediates: true });
+
+  const extension = mimeType.split('/')[1] || 'bin';
+  const file = new File(directory, `${path.replace(/[^A-Za-z0-9._-]/g, '_')}.${extension}`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(bytes);
+  return file.uri;
+}
+
+/**
+ * Get the media as a data: URI, for embedding in exported documents
+ */
+export async function getDecryptedMediaDataUri(
+  bucket: ConsentMediaBucket,
+  path: string,
+  key: Uint8Array | null,
+  mimeType: string
+): Promise<string> {
+  if (!isEncryptedMediaPath(path)) {
+    return getConsentMediaUrl(bucket, path);
+  }
+  if (!key) {
+    throw new Error('This contract is locked on this device');
+  }
+
+  const bytes = await downloadDecrypted(bucket, path, key);
+  return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Contract Version Chain
+ *
+ * Client-side verification of the tamper-evident hash chain that the database
+ * appends to `contract_versions` on every contract change. The canonical form
+ * must match `contract_chain_hash` in
+ * supabase/migrations/20261019100000_contract_version_chain.sql exactly.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { ContractVersion } from '@shared/types';
+
+/**
+ * Contract fields covered by the hash, in hashing order
+ */
+export const CONTRACT_CHAIN_FIELDS = [
+  'university_id',
+  'encounter_type',
+  'parties',
+  'intimate_acts',
+  'contract_start_time',
+  'contract_duration',
+  'contract_end_time',
+  'method',
+  'contract_text',
+  'signature_1',
+  'signature_2',
+  'photo_url',
+  'audio_url',
+  'credential_id',
+  'credential_public_key',
+  'status',
+] as const;
+
+export type ChainVerificationResult =
+  | { status: 'verified'; versionCount: number; headHash: string }
+  | { status: 'empty' }
+  | { status: 'broken'; versionCount: number; brokenAtVersion: number; reason: string };
+
+function sha256Hex(value: string): string {
+  return bytesToHex(sha256(utf8ToBytes(value)));
+}
+
+/**
+ * Compute the hash of a single version from its stored snapshot
+ */
+export function computeContractVersionHash(
+  contractId: string,
+  version: number,
+  event: string,
+  previousHash: string | null,
+  snapshot: Record<string, string | null>
+): string {
+  const lines = [
+    'pmy-contract-chain/v1',
+    `contract_id=${contractId}`,
+    `version=${version}`,
+    `event=${event}`,
+    `previous_hash=${previousHash ?? 'genesis'}`,
+  ];
+
+  for (const field of CONTRACT_CHAIN_FIELDS) {
+    const value = snapshot[field];
+    lines.push(`${field}=${value === null || value === undefined ? 'null' : sha256Hex(value)}`);
+  }
+
+  return sha256Hex(lines.join('\n'));
+}
+
+/**
+ * Re-walk a contract's version chain from genesis and report the first break
+ */
+export function verifyContractChain(contractId: string, versions: ContractVersion[]): ChainVerificationResult {
+  if (versions.length === 0) {
+    return { status: 'empty' };
+  }
+
+  const ordered = [...versions].sort((a, b) => a.version - b.version);
+  let previousHash: string | null = null;
+
+  for (let i = 0; i < ordered.length; i++) {
+    const entry = ordered[i];
+    const broken = (reason: string): ChainVerificationResult => ({
+      status: 'broken',
+      versionCount: ordered.length,
+      brokenAtVersion: entry.version,
+      reason,
+    });
+
+    if (entry.version !== i + 1) {
+      return broken(`Version ${i + 1} is missing from the history`);
+    }
+    if (entry.previousHash !== previousHash) {
+      return broken('Link to the previous version does not match');
+    }
+
+    const expected = computeContractVersionHash(
+      contractId,
+      entry.version,
+      entry.event,
+      entry.previousHash,
+      entry.snapshot
+    );
+    if (expected !== entry.contentHash) {
+      return broken('Recorded content does not match its hash');
+    }
+
+    previousHash = entry.contentHash;
+  }
+
+  return { status: 'verified', versionCount: ordered.length, headHash: previousHash! };
+}
+
+/**
+ * Human readable label for a version event
+ */
+export function formatContractVersionEvent(event: string): string {
+  switch (event) {
+    case 'baseline':
+      return 'History started';
+    case 'created':
+      return 'Created';
+    case 'updated':
+      return 'Updated';
+    case 'amended':
+      return 'Amendment applied';
+    case 'paused':
+      return 'Paused';
+    case 'resumed':
+      return 'Resumed';
+    case 'status_changed':
+      return 'Status changed';
+    default:
+      return event;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Contract Encryption
+ *
+ * Primitives for end-to-end encrypted contracts. Each contract has a random
+ * 256-bit key. Fields and media are sealed with XChaCha20-Poly1305 under that
+ * key, and the key itself is wrapped for each device's X25519 public key
+ * (ephemeral ECDH + HKDF-SHA256). Key storage and distribution live in
+ * contractKeys.ts; see also 20261019111000_contract_encryption.sql.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, bytesToUtf8, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+// Stored text values that start with this are ciphertext; anything else is legacy plaintext
+export const ENCRYPTED_PREFIX = 'pmy-e2e:v1:';
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+const WRAP_INFO = utf8ToBytes('pmy-contract-key/v1');
+const RECOVERY_INFO = utf8ToBytes('pmy-recovery-key/v1');
+
+// Bound into each ciphertext so values can't be swapped between fields
+export type EncryptedField =
+  | 'contract_text'
+  | 'intimate_acts'
+  | 'signature_1'
+  | 'signature_2'
+  | 'amendment'
+  | 'media';
+
+export interface KeyPair {
+  privateKey: Uint8Array;
+  publicKey: string;
+}
+
+function seal(key: Uint8Array, plaintext: Uint8Array, aad: Uint8Array): Uint8Array {
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  return concatBytes(nonce, xchacha20poly1305(key, nonce, aad).encrypt(plaintext));
+}
+
+function open(key: Uint8Array, sealed: Uint8Array, aad: Uint8Array): Uint8Array {
+  const nonce = sealed.subarray(0, NONCE_LENGTH);
+  return xchacha20poly1305(key, nonce, aad).decrypt(sealed.subarray(NONCE_LENGTH));
+}
+
+export function generateContractKey(): Uint8Array {
+  return Crypto.getRandomBytes(KEY_LENGTH);
+}
+
+export function generateKeyPair(): KeyPair {
+  const privateKey = Crypto.getRandomBytes(KEY_LENGTH);
+  return { privateKey, publicKey: bytesToHex(x25519.getPublicKey(privateKey)) };
+}
+
+export function isEncryptedValue(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a text field. null/undefined stay null so optional fields remain optional.
+ */
+export function encryptField(key: Uint8Array, field: EncryptedField, plaintext: string | null | undefined): string | null {
+  if (plaintext === null || plaintext === undefined) return null;
+  return ENCRYPTED_PREFIX + bytesToBase64(seal(key, utf8ToBytes(plaintext), utf8ToBytes(field)));
+}
+
+/**
+ * Decrypt a text field. Legacy plaintext values are returned unchanged.
+ */
+export function decryptField(key: Uint8Array, field: EncryptedField, value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  if (!isEncryptedValue(value)) return value;
+  const sealed = base64ToBytes(value.slice(ENCRYPTED_PREFIX.length));
+  return bytesToUtf8(open(key, sealed, utf8ToBytes(field)));
+}
+
+export function encryptBytes(key: Uint8Array, bytes: Uint8Array): Uint8Array {
+  return seal(key, bytes, utf8ToBytes('media'));
+}
+
+export function decryptBytes(key: Uint8Array, sealed: Uint8Array): Uint8Array {
+  return open(key, sealed, utf8ToBytes('media'));
+}
+
+function wrappingKey(sharedSecret: Uint8Array, ephemeralPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+  return hkdf(sha256, sharedSecret, concatBytes(ephemeralPublicKey, recipientPublicKey), WRAP_INFO, KEY_LENGTH);
+}
+
+/**
+ * Wrap a contract key for a device's public key. Output: base64(ephemeral public key || nonce || ciphertext)
+ */
+export function wrapContractKey(contractKey: Uint8Array, recipientPublicKeyHex: string): string {
+  const recipientPublicKey = hexToBytes(recipientPublicKeyHex);
+  const ephemeralPrivateKey = Crypto.getRandomBytes(KEY_LENGTH);
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralPrivateKey);
+  const kek = wrappingKey(x25519.getSharedSecret(ephemeralPrivateKey, recipientPublicKey), ephemeralPublicKey, recipientPublicKey);
+  return bytesToBase64(concatBytes(ephemeralPublicKey, seal(kek, contractKey, WRAP_INFO)));
+}
+
+export function unwrapContractKey(wrapped: string, privateKey: Uint8Array): Uint8Array {
+  const bytes = base64ToBytes(wrapped);
+  const ephemeralPublicKey = bytes.subarray(0, 32);
+  const recipientPublicKey = x25519.getPublicKey(privateKey);
+  const kek = wrappingKey(x25519.getSharedSecret(privateKey, ephemeralPublicKey), ephemeralPublicKey, recipientPublicKey);
+  return open(kek, bytes.subarray(32), WRAP_INFO);
+}
+
+// ================================================================
+// Recovery codes
+// ================================================================
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or handwritten
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_CODE_BYTES = 20;
+
+/**
+ * Generate a recovery code: 160 random bits as 32 base32 characters in groups of four
+ */
+export function generateRecoveryCode(): string {
+  const bytes = Crypto.getRandomBytes(RECOVERY_CODE_BYTES);
+  let bits = 0;
+  let buffer = 0;
+  let code = '';
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      code += RECOVERY_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return code.match(/.{1,4}/g)!.join('-');
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+/**
+ * Derive the recovery keypair for a code. The private key never leaves the device.
+ */
+export function deriveRecoveryKeyPair(code: string): KeyPair {
+  const privateKey = hkdf(sha256, utf8ToBytes(normalizeRecoveryCode(code)), undefined, RECOVERY_INFO, KEY_LENGTH);
+  return { privateKey, publicKey: bytesToHex(x25519.getPublicKey(privateKey)) };
+}
@@ -0,0 +1,295 @@
+/**
+ * Contract PDF Export
+ *
+ * Renders a contract, its signatures, amendments, collaborator approvals and the
+ * version history into a printable HTML document, then prints it to a PDF with
+ * expo-print. Every export carries a verification code taken from the hash-chain
+ * head, plus a QR code linking back to the contract in the app.
+ */
+
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as Linking from 'expo-linking';
+import qrcode from 'qrcode-generator';
+import { format } from 'date-fns';
+import type {
+  AmendmentFieldValues,
+  ConsentContract,
+  ContractAmendment,
+  ContractCollaborator,
+  ContractVersion,
+  University,
+} from '@shared/types';
+import { formatContractVersionEvent } from './contractChain';
+import { formatDuration } from './utils';
+import { diffAmendmentValues } from './amendmentDiff';
+
+// 16 hex characters of the head hash, shown as four groups of four
+const VERIFICATION_CODE_LENGTH = 16;
+
+export interface ContractExportInput {
+  // Decrypted
+  contract: ConsentContract;
+  university: University | null;
+  amendments: ContractAmendment[];
+  collaborators: ContractCollaborator[];
+  versions: ContractVersion[];
+  // Display name for revokedBy, resolved by the caller
+  revokedByName?: string | null;
+  // Signed URL for the contract photo (the contract only stores its object path)
+  photoUrl?: string | null;
+}
+
+/**
+ * Derive the human-readable verification code for a chain head hash
+ */
+export function formatVerificationCode(contentHash: string): string {
+  const prefix = contentHash.slice(0, VERIFICATION_CODE_LENGTH).toUpperCase();
+  return prefix.match(/.{1,4}/g)!.join('-');
+}
+
+/**
+ * Strip separators and case from a verification code so it can be compared to a hash prefix
+ */
+export function normalizeVerificationCode(code: string): string {
+  return code.replace(/[^0-9a-fA-F]/g, '').toLowerCase();
+}
+
+/**
+ * Deep link opened by the QR code on an exported contract
+ */
+export function getVerificationUrl(contractId: string, verificationCode: string): string {
+  return Linking.createURL(`/contracts/${contractId}`, {
+    queryParams: { verify: verificationCode },
+  });
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return '—';
+  return format(new Date(value), 'MMM d, yyyy h:mm a');
+}
+
+function titleCase(value: string): string {
+  return value.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function renderRows(rows: [string, string | null | undefined][]): string {
+  return rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+}
+
+function renderSignature(label: string, dataUrl: string | null | undefined): string {
+  if (!dataUrl) return '';
+  // Only embed images produced by SignatureInput; anything else is shown as recorded
+  const image = dataUrl.startsWith('data:image/')
+    ? `<img class="signature" src="${escapeHtml(dataUrl)}" />`
+    : '<p class="muted">Recorded</p>';
+  return `<div class="signature-block"><p class="label">${escapeHtml(label)}</p>${image}</div>`;
+}
+
+function renderAmendmentValue(newValue: string | null): string {
+  if (!newValue) return '';
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(newValue);
+  } catch {
+    parsed = newValue;
+  }
+  const text = typeof parsed === 'string' ? parsed : JSON.stringify(parsed, null, 2);
+  return `<pre>${escapeHtml(text)}</pre>`;
+}
+
+function renderAmendmentDiff(previous: AmendmentFieldValues | null, applied: AmendmentFieldValues | null): string {
+  const rows = diffAmendmentValues(previous, applied);
+  if (rows.length === 0) return '';
+  return `<table class="diff"><tr><th>Field</th><th>Before</th><th>After</th></tr>${rows
+    .map((row) => `<tr><td>${escapeHtml(row.label)}</td><td class="before">${escapeHtml(row.before)}</td><td class="after">${escapeHtml(row.after)}</td></tr>`)
+    .join('')}</table>`;
+}
+
+/**
+ * Build the printable HTML for a contract export
+ */
+export function buildContractExportHtml(input: ContractExportInput): string {
+  const { contract, university, amendments, collaborators, versions, revokedByName, photoUrl } = input;
+  const head = versions[versions.length - 1];
+  const verificationCode = head ? formatVerificationCode(head.contentHash) : null;
+
+  const intimateActs: Record<string, string> = contract.intimateActs ? JSON.parse(contract.intimateActs) : {};
+  const parties = contract.parties || [];
+  const { contractText, audioUrl: audioPath, credentialId, revokedAt, revocationReason } = contract;
+
+  const revocation = contract.status === 'revoked'
+    ? `<div class="revoked">
+      <h2>Consent Withdrawn</h2>
+      <p>${escapeHtml(revokedByName || 'A party')} withdrew consent on ${escapeHtml(formatDate(revokedAt))}. This contract is no longer in effect.</p>
+      ${revocationReason ? `<p>Reason: ${escapeHtml(revocationReason)}</p>` : ''}
+    </div>`
+    : '';
+
+  let qrSvg = '';
+  if (verificationCode) {
+    const qr = qrcode(0, 'M');
+    qr.addData(getVerificationUrl(contract.id, verificationCode));
+    qr.make();
+    qrSvg = qr.createSvgTag({ cellSize: 3, margin: 0 });
+  }
+
+  const details = renderRows([
+    ['Contract ID', contract.id],
+    ['Status', titleCase(contract.status || 'draft')],
+    ['Encounter Type', contract.encounterType],
+    ['Recording Method', contract.method],
+    ['University', university?.name],
+    ['State', university?.state],
+    ['Withdrawn', revokedAt ? formatDate(revokedAt) : null],
+    ['Created', formatDate(contract.createdAt)],
+    ['Last Updated', formatDate(contract.updatedAt)],
+  ]);
+
+  const duration = renderRows([
+    ['Start Time', contract.contractStartTime ? formatDate(contract.contractStartTime) : null],
+    ['Duration', contract.contractDuration ? formatDuration(contract.contractDuration) : null],
+    ['End Time', contract.contractEndTime ? formatDate(contract.contractEndTime) : null],
+  ]);
+
+  const acts = Object.entries(intimateActs)
+    .map(([act, consent]) => `<tr><th>${escapeHtml(act)}</th><td>${consent === 'yes' ? '✓ Yes' : '✗ No'}</td></tr>`)
+    .join('');
+
+  const signatures = [
+    renderSignature('Signature 1', contract.signature1),
+    renderSignature('Signature 2', contract.signature2),
+  ].join('');
+
+  const evidence = [
+    photoUrl ? `<div class="evidence"><p class="label">Photo</p><img class="photo" src="${escapeHtml(photoUrl)}" /></div>` : '',
+    audioPath ? `<div class="evidence"><p class="label">Voice Recording</p><p>Recorded; stored privately in PMY</p></div>` : '',
+    credentialId ? `<div class="evidence"><p class="label">Biometric Credential</p><p class="mono">${escapeHtml(credentialId)}</p></div>` : '',
+  ].join('');
+
+  const collaboratorRows = collaborators
+    .map((collab) => `<tr>
+      <td>${escapeHtml(collab.legalName || collab.contactInfo || 'PMY User')}</td>
+      <td>${escapeHtml(titleCase(collab.status))}</td>
+      <td>${escapeHtml(formatDate(collab.approvedAt || collab.rejectedAt))}</td>
+    </tr>`)
+    .join('');
+
+  const amendmentItems = amendments
+    .map((amendment) => `<div class="amendment">
+      <p><strong>${escapeHtml(titleCase(amendment.type))}</strong> · ${escapeHtml(titleCase(amendment.status))}</p>
+      ${amendment.description ? `<p>${escapeHtml(amendment.description)}</p>` : ''}
+      ${renderAmendmentValue(amendment.newValue)}
+      ${renderAmendmentDiff(amendment.previousValue, amendment.appliedValue)}
+      <p class="muted">Requested ${escapeHtml(formatDate(amendment.createdAt))}${amendment.appliedAt ? ` · Applied ${escapeHtml(formatDate(amendment.appliedAt))}` : ''}</p>
+    </div>`)
+    .join('');
+
+  const versionRows = versions
+    .map((version) => `<tr>
+      <td>v${version.version}</td>
+      <td>${escapeHtml(formatContractVersionEvent(version.event))}</td>
+      <td>${escapeHtml(formatDate(version.createdAt))}</td>
+      <td class="mono">${escapeHtml(version.contentHash)}</td>
+    </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { margin: 48px 40px; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; font-size: 12px; line-height: 1.5; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 8px 4px 0; }
+  th { width: 35%; color: #555; font-weight: 600; }
+  section, .amendment, .signature-block, tr { page-break-inside: avoid; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; }
+  .verification { text-align: right; }
+  .verification .code { font-family: Menlo, Courier, monospace; font-size: 14px; font-weight: 700; letter-spacing: 1px; }
+  .label { font-weight: 600; color: #555; margin: 0 0 4px; }
+  .muted { color: #777; }
+  .mono { font-family: Menlo, Courier, monospace; font-size: 9px; word-break: break-all; }
+  .contract-text { white-space: pre-wrap; }
+  .signatures { display: flex; flex-wrap: wrap; gap: 16px; }
+  .signature-block { flex: 1; min-width: 200px; }
+  .signature { width: 100%; max-height: 120px; object-fit: contain; border: 1px solid #ddd; }
+  .photo { max-width: 100%; max-height: 320px; }
+  .amendment { border-left: 3px solid #ddd; padding-left: 8px; margin-bottom: 12px; }
+  .diff { margin: 4px 0 6px; }
+  .diff .before { color: #B00020; text-decoration: line-through; }
+  .diff .after { color: #1B7F3B; font-weight: 600; }
+  pre { background: #f5f5f5; padding: 6px; white-space: pre-wrap; font-size: 10px; }
+  .history { page-break-before: always; }
+  .revoked { border: 2px solid #FF3B30; border-radius: 6px; padding: 8px 12px; margin-top: 16px; color: #B00020; }
+  .revoked h2 { color: #B00020; border-bottom: none; margin-top: 0; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Consent Contract</h1>
+      <p class="muted">Exported ${escapeHtml(format(new Date(), 'MMM d, yyyy h:mm a'))}</p>
+    </div>
+    <div class="verification">
+      ${qrSvg}
+      <p class="label">Verification Code</p>
+      <p class="code">${escapeHtml(verificationCode || 'Unavailable')}</p>
+      ${head ? `<p class="muted">Version ${head.version}</p>` : ''}
+    </div>
+  </div>
+
+  ${revocation}
+  <section><h2>Details</h2><table>${details}</table></section>
+  ${parties.length > 0 ? `<section><h2>Parties</h2><table>${parties.map((party, index) => `<tr><th>Party ${index + 1}</th><td>${escapeHtml(party)}</td></tr>`).join('')}</table></section>` : ''}
+  ${acts ? `<section><h2>Intimate Acts</h2><table>${acts}</table></section>` : ''}
+  ${duration ? `<section><h2>Duration</h2><table>${duration}</table></section>` : ''}
+  ${contractText ? `<h2>Contract Text</h2><p class="contract-text">${escapeHtml(contractText)}</p>` : ''}
+  ${signatures ? `<section><h2>Signatures</h2><div class="signatures">${signatures}</div></section>` : ''}
+  ${evidence ? `<section><h2>Recordings</h2>${evidence}</section>` : ''}
+  ${collaboratorRows ? `<section><h2>Collaborator Approvals</h2><table><tr><th>Party</th><th>Status</th><th>Date</th></tr>${collaboratorRows}</table></section>` : ''}
+  ${amendmentItems ? `<h2>Amendments</h2>${amendmentItems}` : ''}
+
+  <div class="history">
+    <h2>Audit Trail</h2>
+    <p class="muted">Each version's hash covers the contract contents and the previous version's hash. The verification code above is the start of the newest hash.</p>
+    ${versionRows
+      ? `<table><tr><th>Version</th><th>Event</th><th>Recorded</th><th>Hash</th></tr>${versionRows}</table>`
+      : '<p class="muted">No history recorded.</p>'}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Print the contract to a PDF file and open the share sheet for it
+ */
+export async function exportContractPdf(input: ContractExportInput): Promise<string> {
+  const html = buildContractExportHtml(input);
+  const { uri } = await Print.printToFileAsync({ html });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: 'Export Contract',
+    });
+  }
+
+  return uri;
+}
@@ -0,0 +1,461 @@
+/**
+ * Contract Keys
+ *
+ * Storage and distribution of per-contract keys. Each device holds an X25519
+ * keypair in SecureStore and registers the public half in user_device_keys. A
+ * contract's key reaches a device as an envelope wrapped for that device's key;
+ * whoever holds the contract key wraps it for the other parties' devices (and
+ * recovery keys) that don't have one yet.
+ *
+ * A new device gets its keys either from another party opening the contract, or
+ * at once by entering the recovery code: every contract key is also wrapped for
+ * the recovery key, whose private half is derived from the code.
+ */
+
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  createContract,
+  deleteContract,
+  getContract,
+  updateContract,
+  registerDeviceKey,
+  getDeviceKeys,
+  revokeDeviceKey,
+  getContractPartyDeviceKeys,
+  getContractKeyEnvelopes,
+  getKeyEnvelopesForDevice,
+  insertKeyEnvelopes,
+} from '@/services/api';
+import type {
+  ConsentContract,
+  ContractAmendment,
+  InsertConsentContract,
+  UpdateConsentContract,
+} from '@shared/types';
+import {
+  ENCRYPTED_PREFIX,
+  decryptField,
+  deriveRecoveryKeyPair,
+  encryptField,
+  generateContractKey,
+  generateKeyPair,
+  generateRecoveryCode,
+  isEncryptedValue,
+  unwrapContractKey,
+  wrapContractKey,
+  type EncryptedField,
+} from './contractEncryption';
+import { registerMemoryCache, userStorageKey, USER_SECURE_STORE_PREFIXES } from './localData';
+
+// Encrypted contract columns, with the camelCase name the shared types use. The
+// column name is the context each value is encrypted under.
+const CONTRACT_FIELDS: [EncryptedField, 'contractText' | 'intimateActs' | 'signature1' | 'signature2'][] = [
+  ['contract_text', 'contractText'],
+  ['intimate_acts', 'intimateActs'],
+  ['signature_1', 'signature1'],
+  ['signature_2', 'signature2'],
+];
+
+export interface DeviceKeyPair {
+  id: string;
+  publicKey: string;
+  privateKey: Uint8Array;
+}
+
+// Unwrapped contract keys for this session; cleared on sign-out
+const contractKeyCache = new Map<string, Uint8Array>();
+registerMemoryCache(() => contractKeyCache.clear());
+
+function storageKey(userId: string): string {
+  return userStorageKey(USER_SECURE_STORE_PREFIXES.encryptionDeviceKey, userId);
+}
+
+/**
+ * Get this device's encryption key for a user, if it has one
+ */
+export async function getDeviceKey(userId: string): Promise<DeviceKeyPair | null> {
+  const raw = await SecureStore.getItemAsync(storageKey(userId));
+  if (!raw) return null;
+
+  try {
+    const stored = JSON.parse(raw) as { id: string; publicKey: string; privateKey: string };
+    return { id: stored.id, publicKey: stored.publicKey, privateKey: hexToBytes(stored.privateKey) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get this device's encryption key, generating and registering one on first use
+ */
+export async function ensureDeviceKey(userId: string): Promise<DeviceKeyPair> {
+  const existing = await getDeviceKey(userId);
+  if (existing) return existing;
+
+  const pair = generateKeyPair();
+  const registered = await registerDeviceKey(userId, pair.publicKey, 'device', Platform.OS);
+
+  await SecureStore.setItemAsync(
+    storageKey(userId),
+    JSON.stringify({ id: registered.id, publicKey: pair.publicKey, privateKey: bytesToHex(pair.privateKey) })
+  );
+
+  return { id: registered.id, publicKey: pair.publicKey, privateKey: pair.privateKey };
+}
+
+/**
+ * Revoke this device's key on the server, e.g. before its private half is
+ * wiped on sign-out. Contracts stay readable through the user's other keys.
+ */
+export async function revokeThisDeviceKey(userId: string): Promise<void> {
+  const device = await getDeviceKey(userId);
+  if (device) {
+    await revokeDeviceKey(device.id, userId);
+  }
+}
+
+/**
+ * Unwrap a contract's key with this device's key. Returns null if no envelope
+ * has been shared with this device yet.
+ */
+export async function getContractKey(contractId: string, userId: string): Promise<Uint8Array | null> {
+  const cached = contractKeyCache.get(contractId);
+  if (cached) return cached;
+
+  const device = await getDeviceKey(userId);
+  if (!device) return null;
+
+  const envelopes = await getContractKeyEnvelopes(contractId);
+  const envelope = envelopes.find(e => e.device_key_id === device.id);
+  if (!envelope) return null;
+
+  const key = unwrapContractKey(envelope.wrapped_key, device.privateKey);
+  contractKeyCache.set(contractId, key);
+  return key;
+}
+
+/**
+ * Get a contract's key, or give a contract written before encryption its first
+ * key. Returns null if the contract has a key that hasn't reached this device,
+ * including one whose envelopes are only held by revoked keys: a new key
+ * couldn't decrypt what is already there.
+ */
+export async function getOrCreateContractKey(contractId: string, userId: string): Promise<Uint8Array | null> {
+  const existing = await getContractKey(contractId, userId);
+  if (existing) return existing;
+
+  const contract = await getContract(contractId);
+  if (!contract || isEncryptedContract(contract)) return null;
+
+  await ensureDeviceKey(userId);
+  const deviceKeys = await getContractPartyDeviceKeys(contractId);
+  if (deviceKeys.some(k => k.has_envelope)) return null;
+
+  const key = generateContractKey();
+  await shareContractKey(contractId, key);
+  contractKeyCache.set(contractId, key);
+  return key;
+}
+
+/**
+ * Wrap a contract key for every party device that doesn't hold it yet.
+ * Returns the number of envelopes written.
+ */
+export async function shareContractKey(contractId: string, key: Uint8Array): Promise<number> {
+  const deviceKeys = await getContractPartyDeviceKeys(contractId);
+  const envelopes = deviceKeys
+    .filter(k => !k.has_envelope)
+    .map(k => ({
+      contract_id: contractId,
+      device_key_id: k.id,
+      user_id: k.user_id,
+      wrapped_key: wrapContractKey(key, k.public_key),
+    }));
+
+  await insertKeyEnvelopes(envelopes);
+  return envelopes.length;
+}
+
+/**
+ * Encrypt the sensitive columns of a contract insert/update. Values that are
+ * already ciphertext, and columns that aren't present, are left as they are.
+ */
+export function encryptContractFields<T extends InsertConsentContract | UpdateConsentContract>(key: Uint8Array, data: T): T {
+  const encrypted: T = { ...data };
+  for (const [column, field] of CONTRACT_FIELDS) {
+    const value = encrypted[field];
+    if (typeof value === 'string' && !isEncryptedValue(value)) {
+      encrypted[field] = encryptField(key, column, value);
+    }
+  }
+  return encrypted;
+}
+
+/**
+ * Return a copy of a contract row with its encrypted columns decrypted. Throws
+ * if a value doesn't authenticate under the key.
+ */
+export function decryptContract(contract: ConsentContract, key: Uint8Array): ConsentContract {
+  const decrypted = { ...contract };
+  for (const [column, field] of CONTRACT_FIELDS) {
+    decrypted[field] = decryptField(key, column, decrypted[field]);
+  }
+  return decrypted;
+}
+
+/**
+ * Whether a contract carries any encrypted columns
+ */
+export function isEncryptedContract(contract: ConsentContract): boolean {
+  return CONTRACT_FIELDS.some(([, field]) => isEncryptedValue(contract[field]));
+}
+
+/**
+ * Create a contract with its content encrypted under a new key (or `key`, when
+ * media was already encrypted with it) and share the key with the owner's
+ * devices. The contract is removed again if the key can't be stored, since
+ * nobody could read it.
+ */
+export async function createEncryptedContract(
+  userId: string,
+  data: InsertConsentContract,
+  key: Uint8Array = generateContractKey()
+): Promise<ConsentContract> {
+  await ensureDeviceKey(userId);
+
+  const contract = await createContract(encryptContractFields(key, data));
+
+  try {
+    await shareContractKey(contract.id, key);
+  } catch (error) {
+    await deleteContract(contract.id, userId).catch(() => {});
+    throw error;
+  }
+
+  contractKeyCache.set(contract.id, key);
+  return contract;
+}
+
+/**
+ * Create a contract queued by the outbox (src/lib/outbox.ts). The row id is the
+ * outbox item's id, so a replay that finds the row already created moves on to
+ * sharing the key instead of inserting a duplicate. Nothing is rolled back on
+ * failure; the outbox keeps the key and retries.
+ */
+export async function syncEncryptedContract(
+  userId: string,
+  id: string,
+  data: InsertConsentContract,
+  key: Uint8Array
+): Promise<void> {
+  await ensureDeviceKey(userId);
+
+  try {
+    await createContract({ ...encryptContractFields(key, data), id });
+  } catch (error: any) {
+    if (error?.code !== '23505') throw error; // unique_violation: created by an earlier attempt
+  }
+
+  await shareContractKey(id, key);
+  contractKeyCache.set(id, key);
+}
+
+export async function updateEncryptedContract(
+  id: string,
+  userId: string,
+  updates: UpdateConsentContract,
+  key: Uint8Array
+): Promise<ConsentContract | null> {
+  return updateContract(id, userId, encryptContractFields(key, updates));
+}
+
+// ================================================================
+// Amendments
+// ================================================================
+
+/**
+ * Apply an add_acts/remove_acts request to a set of acts the way
+ * apply_contract_amendment() does: names match case-insensitively and removed
+ * acts are kept as "no".
+ */
+function mergeActs(
+  type: 'add_acts' | 'remove_acts',
+  acts: string[],
+  currentActs: Record<string, string>
+): Record<string, string> {
+  const merged = { ...currentActs };
+  for (const raw of acts) {
+    const act = raw.trim();
+    if (!act) continue;
+    const existing = Object.keys(merged).find(k => k.toLowerCase() === act.toLowerCase());
+    merged[existing ?? act] = type === 'add_acts' ? 'yes' : 'no';
+  }
+  return merged;
+}
+
+function sameActs(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => b[key] === a[key]);
+}
+
+/**
+ * Build the newValue for an add_acts/remove_acts amendment on an encrypted
+ * contract. The server can't merge acts it can't read, so the merged acts are
+ * computed here and sent with the ciphertext they were based on.
+ */
+export function buildEncryptedActsAmendment(
+  key: Uint8Array,
+  type: 'add_acts' | 'remove_acts',
+  acts: string[],
+  currentActs: Record<string, string>,
+  storedActs: string
+): string {
+  return JSON.stringify({
+    intimate_acts: encryptField(key, 'intimate_acts', JSON.stringify(mergeActs(type, acts, currentActs))),
+    base: storedActs,
+    acts: encryptField(key, 'amendment', JSON.stringify(acts)),
+  });
+}
+
+/**
+ * The acts an amendment to an encrypted contract would store, next to the acts
+ * it was based on
+ */
+export interface ProposedActs {
+  before: Record<string, string>;
+  after: Record<string, string>;
+  // Whether `after` is what the listed acts make of `before`. The server only
+  // checks `before`, so a requester could otherwise list one change and send
+  // another.
+  matchesRequest: boolean;
+}
+
+export interface DecryptedAmendment extends ContractAmendment {
+  // Set for acts amendments on an encrypted contract; null when they can't be
+  // read on this device
+  proposedActs?: ProposedActs | null;
+}
+
+function decryptActs(key: Uint8Array | null, value: unknown): unknown {
+  if (!isEncryptedValue(value)) return value;
+  if (!key) return undefined;
+  return JSON.parse(decryptField(key, 'intimate_acts', value as string)!);
+}
+
+function decryptFieldValues(
+  key: Uint8Array | null,
+  values: ContractAmendment['previousValue']
+): ContractAmendment['previousValue'] {
+  if (!values || !isEncryptedValue(values.intimate_acts)) return values;
+  return { ...values, intimate_acts: decryptActs(key, values.intimate_acts) as Record<string, string> | undefined };
+}
+
+/**
+ * Return a copy of an amendment with the acts it carries decrypted, in the
+ * shape plaintext amendments use (newValue is the JSON list of acts). Acts
+ * amendments also get proposedActs, recomputed here so an approver sees what
+ * will actually be stored. Without a key the encrypted values are dropped.
+ */
+export function decryptAmendment(amendment: ContractAmendment, key: Uint8Array | null): DecryptedAmendment {
+  const decrypted: DecryptedAmendment = {
+    ...amendment,
+    previousValue: decryptFieldValues(key, amendment.previousValue),
+    appliedValue: decryptFieldValues(key, amendment.appliedValue),
+  };
+
+  const raw = decrypted.newValue;
+  if (typeof raw === 'string' && raw.includes(ENCRYPTED_PREFIX)) {
+    decrypted.newValue = null;
+    decrypted.proposedActs = null;
+    if (!key) return decrypted;
+
+    try {
+      const value = JSON.parse(raw);
+      decrypted.newValue = isEncryptedValue(value?.acts) ? decryptField(key, 'amendment', value.acts) : null;
+      if (!decrypted.newValue || !isEncryptedValue(value.base) || !isEncryptedValue(value.intimate_acts)) {
+        return decrypted;
+      }
+
+      const acts: string[] = JSON.parse(decrypted.newValue);
+      const before = decryptActs(key, value.base) as Record<string, string>;
+      const after = decryptActs(key, value.intimate_acts) as Record<string, string>;
+      decrypted.proposedActs = {
+        before,
+        after,
+        matchesRequest: (amendment.type === 'add_acts' || amendment.type === 'remove_acts')
+          && sameActs(mergeActs(amendment.type, acts, before), after),
+      };
+    } catch {
+      // Unreadable or tampered; proposedActs stays null
+    }
+  }
+
+  return decrypted;
+}
+
+// ================================================================
+// Recovery
+// ================================================================
+
+export async function hasRecoveryKey(userId: string): Promise<boolean> {
+  const keys = await getDeviceKeys(userId);
+  return keys.some(k => k.kind === 'recovery');
+}
+
+/**
+ * Create a new recovery code, replacing any previous one, and wrap every
+ * contract key this device holds for it. The code is returned once and never
+ * stored.
+ */
+export async function setUpRecovery(userId: string): Promise<string> {
+  const device = await ensureDeviceKey(userId);
+
+  const existing = await getDeviceKeys(userId);
+  for (const key of existing.filter(k => k.kind === 'recovery')) {
+    await revokeDeviceKey(key.id, userId);
+  }
+
+  const code = generateRecoveryCode();
+  const recoveryPair = deriveRecoveryKeyPair(code);
+  const recoveryKey = await registerDeviceKey(userId, recoveryPair.publicKey, 'recovery', 'Recovery code');
+
+  const envelopes = await getKeyEnvelopesForDevice(device.id);
+  await insertKeyEnvelopes(envelopes.map(e => ({
+    contract_id: e.contract_id,
+    device_key_id: recoveryKey.id,
+    user_id: userId,
+    wrapped_key: wrapContractKey(unwrapContractKey(e.wrapped_key, device.privateKey), recoveryPair.publicKey),
+  })));
+
+  return code;
+}
+
+/**
+ * Restore access on this device with a recovery code: every contract key
+ * wrapped for the recovery key is re-wrapped for this device. Returns the
+ * number of contracts restored.
+ */
+export async function recoverWithCode(userId: string, code: string): Promise<number> {
+  const recoveryPair = deriveRecoveryKeyPair(code);
+  const keys = await getDeviceKeys(userId);
+  const recoveryKey = keys.find(k => k.kind === 'recovery' && k.public_key === recoveryPair.publicKey);
+  if (!recoveryKey) {
+    throw new Error('That recovery code does not match this account');
+  }
+
+  const device = await ensureDeviceKey(userId);
+  const envelopes = await getKeyEnvelopesForDevice(recoveryKey.id);
+
+  // One at a time: contracts the user is no longer a party to are refused by RLS
+  const results = await Promise.allSettled(envelopes.map(e => insertKeyEnvelopes([{
+    contract_id: e.contract_id,
+    device_key_id: device.id,
+    user_id: userId,
+    wrapped_key: wrapContractKey(unwrapContractKey(e.wrapped_key, recoveryPair.privateKey), device.publicKey),
+  }])));
+
+  contractKeyCache.clear();
+  return results.filter(r => r.status === 'fulfilled').length;
+}
@@ -0,0 +1,142 @@
+/**
+ * Local Data
+ *
+ * Registry of everything the app keeps on the device, and the wipe that runs on
+ * sign-out and when a different account signs in. Anything new persisted to
+ * SecureStore, the storage service or the file system belongs in this file, so
+ * a shared or handed-over phone never keeps the previous user's consent data.
+ */
+
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { Directory, Paths } from 'expo-file-system';
+import { supabase } from './supabase';
+import { queryClient } from './queryClient';
+import { storage } from '../services/storage';
+
+// Values written through the storage service (src/services/storage.ts). The
+// Supabase session also lives there, under the client's own key.
+export const STORAGE_KEYS = {
+  consentFlow: 'pmy_consent_flow_state',
+  outbox: 'pmy_outbox',
+} as const;
+
+// Values written to SecureStore directly
+export const SECURE_STORE_KEYS = {
+  theme: 'app_theme',
+  lastUserId: 'pmy_last_user_id',
+  pushToken: 'pmy_push_token',
+} as const;
+
+// Per-user SecureStore values, stored under userStorageKey(prefix, userId)
+export const USER_SECURE_STORE_PREFIXES = {
+  biometricKey: 'pmy_biometric_key_',
+  biometricMeta: 'pmy_biometric_meta_',
+  encryptionDeviceKey: 'pmy_e2e_device_key_',
+} as const;
+
+// SecureStore keys only allow alphanumerics, ".", "-" and "_"
+export function userStorageKey(prefix: string, userId: string): string {
+  return `${prefix}${userId.replace(/[^A-Za-z0-9._-]/g, '')}`;
+}
+
+// Directories under the document directory (unlike the cache, the OS won't purge them)
+export const DOCUMENT_DIRECTORIES = {
+  outbox: 'outbox',
+} as const;
+
+// In-memory caches outside React Query register here so the wipe can drop them
+const memoryCaches = new Set<() => void>();
+
+export function registerMemoryCache(clear: () => void): void {
+  memoryCaches.add(clear);
+}
+
+// Camera captures, recordings and decrypted consent media all land in the cache
+// directory; media waiting to upload is kept in the document directory
+function clearCachedFiles(): void {
+  if (Platform.OS === 'web') return;
+
+  const entries = [
+    ...new Directory(Paths.cache).list(),
+    ...Object.values(DOCUMENT_DIRECTORIES).map(name => new Directory(Paths.document, name)),
+  ];
+  for (const entry of entries) {
+    try {
+      if (entry.exists) entry.delete();
+    } catch (e) {
+      console.warn('[LocalData] Failed to delete cached file:', e);
+    }
+  }
+}
+
+/**
+ * Remove a user's data from the device. With keepSession the storage service
+ * keeps the current Supabase session (used when another account has just
+ * signed in); otherwise it is cleared entirely. With keepDeviceKey the user's
+ * encryption key stays, for when it may be their only way into encrypted
+ * contracts.
+ */
+export async function wipeLocalData(
+  userId: string | null,
+  options: { keepSession?: boolean; keepDeviceKey?: boolean } = {}
+): Promise<void> {
+  queryClient.clear();
+  memoryCaches.forEach(clear => clear());
+
+  if (options.keepSession) {
+    for (const key of Object.values(STORAGE_KEYS)) {
+      await storage.removeItem(key);
+    }
+  } else {
+    await storage.clear();
+  }
+
+  for (const key of Object.values(SECURE_STORE_KEYS)) {
+    await SecureStore.deleteItemAsync(key).catch(() => {});
+  }
+
+  if (userId) {
+    for (const prefix of Object.values(USER_SECURE_STORE_PREFIXES)) {
+      if (options.keepDeviceKey && prefix === USER_SECURE_STORE_PREFIXES.encryptionDeviceKey) continue;
+      await SecureStore.deleteItemAsync(userStorageKey(prefix, userId)).catch(() => {});
+    }
+  }
+
+  try {
+    clearCachedFiles();
+  } catch (e) {
+    console.warn('[LocalData] Failed to clear cached files:', e);
+  }
+}
+
+let accountCheck: Promise<void> = Promise.resolve();
+
+/**
+ * Record the signed-in user, wiping the previous user's data first if a
+ * different account signed in without signing out.
+ */
+export function rememberSignedInUser(userId: string): Promise<void> {
+  accountCheck = accountCheck.then(async () => {
+    const previousUserId = await SecureStore.getItemAsync(SECURE_STORE_KEYS.lastUserId);
+    if (previousUserId === userId) return;
+
+    // The previous user's recovery setup can't be checked without their
+    // session, so their encryption key is kept rather than risk losing contracts
+    if (previousUserId) {
+      await wipeLocalData(previousUserId, { keepSession: true, keepDeviceKey: true });
+    }
+    await SecureStore.setItemAsync(SECURE_STORE_KEYS.lastUserId, userId);
+  }).catch(e => {
+    console.error('[LocalData] Account check failed:', e);
+  });
+  return accountCheck;
+}
+
+/**
+ * Sign out everywhere and wipe the device
+ */
+export async function signOutAndWipe(userId: string | null, options: { keepDeviceKey?: boolean } = {}): Promise<void> {
+  await supabase.auth.signOut({ scope: 'global' });
+  await wipeLocalData(userId, options);
+}
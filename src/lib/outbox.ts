@@ -0,0 +1,413 @@
+/**
+ * Outbox
+ *
+ * New contracts, their media and amendments are queued here before they're sent,
+ * so saving one works without a connection. The queue is persisted through the
+ * storage service and replayed when the device comes back online or the app
+ * returns to the foreground.
+ *
+ * An item's id is its idempotency key: it becomes the contract or amendment row
+ * id and names the uploaded media object, so replaying an item that already
+ * reached the server finds what it created instead of creating it twice.
+ *
+ * Contract content is queued as plaintext alongside its key, both inside the
+ * encrypted storage service; media is encrypted before it is queued and sent
+ * as a resumable upload, whose URL is kept with the item across restarts.
+ */
+
+import { AppState, Platform } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { getSession } from './supabase';
+import { queryClient } from './queryClient';
+import { storage } from '../services/storage';
+import {
+  createAmendment,
+  uploadAudioRecording,
+  uploadPhoto,
+  type ConsentMediaBucket,
+  type ResumableUploadOptions,
+} from '../services/api';
+import { toConsentContractInsert, toContractAmendmentInsert } from '../services/mappers';
+import type { InsertConsentContract, InsertContractAmendment, UpdateConsentContract } from '@shared/types';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { syncEncryptedContract } from './contractKeys';
+import { generateId } from './utils';
+import { DOCUMENT_DIRECTORIES, registerMemoryCache, STORAGE_KEYS } from './localData';
+
+// Attempts made while online before an item needs the user to retry it
+const MAX_ATTEMPTS = 5;
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+interface OutboxItemBase {
+  id: string;
+  userId: string;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface QueuedMedia {
+  bucket: ConsentMediaBucket;
+  filename: string;
+  duration?: string;
+  // Encrypted copy in the outbox directory (base64 data on web)
+  file: string;
+  // Resumable upload URL, kept so an upload interrupted by a restart continues
+  uploadUrl: string | null;
+  // Fraction uploaded so far
+  progress: number;
+  // Object path, once uploaded
+  path: string | null;
+}
+
+export interface ContractOutboxItem extends OutboxItemBase {
+  kind: 'contract';
+  contract: InsertConsentContract;
+  // Hex-encoded contract key
+  contractKey: string;
+  media: QueuedMedia | null;
+}
+
+export interface AmendmentOutboxItem extends OutboxItemBase {
+  kind: 'amendment';
+  amendment: InsertContractAmendment;
+}
+
+export type OutboxItem = ContractOutboxItem | AmendmentOutboxItem;
+
+export interface EnqueueResult {
+  id: string;
+  // False when the item is still queued, e.g. because the device is offline
+  synced: boolean;
+}
+
+let items: OutboxItem[] | null = null;
+// Progress callbacks for items being sent from the screen that queued them
+const progressListeners = new Map<string, (progress: number) => void>();
+// Stable snapshot for subscribers until the queue has loaded
+const EMPTY: OutboxItem[] = [];
+const listeners = new Set<() => void>();
+
+registerMemoryCache(() => {
+  items = [];
+  notify();
+});
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+async function load(): Promise<OutboxItem[]> {
+  if (items) return items;
+
+  const raw = await storage.getItem(STORAGE_KEYS.outbox);
+  try {
+    const stored = raw ? JSON.parse(raw) as OutboxItem[] : [];
+    // An item the app was killed while sending is sent again
+    items = stored
+      .map(upgradeItem)
+      .map(item => item.status === 'syncing' ? { ...item, status: 'pending' } : item);
+  } catch {
+    items = [];
+  }
+  notify();
+  return items;
+}
+
+// Items queued by earlier versions hold rows with column names
+function upgradeItem(item: OutboxItem): OutboxItem {
+  if (item.kind === 'contract' && 'user_id' in item.contract) {
+    return { ...item, contract: toConsentContractInsert(item.contract) };
+  }
+  if (item.kind === 'amendment' && 'contract_id' in item.amendment) {
+    return { ...item, amendment: toContractAmendmentInsert(item.amendment) };
+  }
+  return item;
+}
+
+async function save(next: OutboxItem[]): Promise<void> {
+  items = next;
+  notify();
+  await storage.setItem(STORAGE_KEYS.outbox, JSON.stringify(next));
+}
+
+async function updateItem(id: string, changes: Partial<OutboxItem>): Promise<OutboxItem | null> {
+  const current = await load();
+  const existing = current.find(item => item.id === id);
+  if (!existing) return null;
+
+  const updated = { ...existing, ...changes } as OutboxItem;
+  await save(current.map(item => item.id === id ? updated : item));
+  return updated;
+}
+
+// Progress changes too often to persist; it's saved with the item's next update
+function setMediaProgress(id: string, progress: number): void {
+  if (!items) return;
+  items = items.map(item => item.id === id && item.kind === 'contract' && item.media
+    ? { ...item, media: { ...item.media, progress } }
+    : item);
+  notify();
+  progressListeners.get(id)?.(progress);
+}
+
+async function removeItem(item: OutboxItem): Promise<void> {
+  await save((await load()).filter(i => i.id !== item.id));
+  if (item.kind === 'contract' && item.media && Platform.OS !== 'web') {
+    try {
+      const file = new File(item.media.file);
+      if (file.exists) file.delete();
+    } catch (e) {
+      console.warn('[Outbox] Failed to delete queued media:', e);
+    }
+  }
+}
+
+// ================================================================
+// Queue
+// ================================================================
+
+function writeQueuedMedia(id: string, bytes: Uint8Array): string {
+  if (Platform.OS === 'web') return bytesToBase64(bytes);
+
+  const directory = new Directory(Paths.document, DOCUMENT_DIRECTORIES.outbox);
+  if (!directory.exists) directory.create({ intermediates: true });
+
+  const file = new File(directory, `${id}.enc`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(bytes);
+  return file.uri;
+}
+
+async function readQueuedMedia(media: QueuedMedia): Promise<Uint8Array> {
+  if (Platform.OS === 'web') return base64ToBytes(media.file);
+  return new File(media.file).bytes();
+}
+
+async function enqueue(item: OutboxItem, onProgress?: (progress: number) => void): Promise<EnqueueResult> {
+  await save([...(await load()), item]);
+
+  if (onProgress) progressListeners.set(item.id, onProgress);
+  try {
+    await syncOutbox();
+  } finally {
+    progressListeners.delete(item.id);
+  }
+
+  return { id: item.id, synced: !(await load()).some(i => i.id === item.id) };
+}
+
+/**
+ * Queue a new contract and try to send it. `data` is the plaintext insert;
+ * media, if any, must already be encrypted with `key` and is stored on the
+ * contract's photoUrl/audioUrl once uploaded. onProgress reports the
+ * media upload while this call is sending it.
+ */
+export async function enqueueContract(
+  userId: string,
+  data: InsertConsentContract,
+  key: Uint8Array,
+  media?: { bucket: ConsentMediaBucket; filename: string; duration?: string; bytes: Uint8Array },
+  onProgress?: (progress: number) => void
+): Promise<EnqueueResult> {
+  const id = generateId();
+
+  return enqueue({
+    id,
+    userId,
+    kind: 'contract',
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    contract: data,
+    contractKey: bytesToHex(key),
+    media: media
+      ? {
+          bucket: media.bucket,
+          filename: media.filename,
+          duration: media.duration,
+          file: writeQueuedMedia(id, media.bytes),
+          uploadUrl: null,
+          progress: 0,
+          path: null,
+        }
+      : null,
+  }, onProgress);
+}
+
+/**
+ * Queue an amendment request and try to send it
+ */
+export async function enqueueAmendment(userId: string, amendment: InsertContractAmendment): Promise<EnqueueResult> {
+  return enqueue({
+    id: generateId(),
+    userId,
+    kind: 'amendment',
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    amendment,
+  });
+}
+
+/**
+ * Change a contract that hasn't been sent yet (e.g. saving a queued draft
+ * again). Returns false if it is no longer queued.
+ */
+export async function updateQueuedContract(id: string, changes: UpdateConsentContract): Promise<boolean> {
+  // Let a send that's under way finish, so it can't insert the old data afterwards
+  await syncOutbox();
+
+  const item = (await load()).find(i => i.id === id);
+  if (!item || item.kind !== 'contract') return false;
+
+  await updateItem(id, { contract: { ...item.contract, ...changes } });
+  return true;
+}
+
+export async function retryOutboxItem(id: string): Promise<void> {
+  await updateItem(id, { status: 'pending', attempts: 0, lastError: null });
+  await syncOutbox();
+}
+
+export async function discardOutboxItem(id: string): Promise<void> {
+  const item = (await load()).find(i => i.id === id);
+  if (item) await removeItem(item);
+}
+
+export function getOutboxItems(): OutboxItem[] {
+  if (!items) {
+    load().catch(e => console.error('[Outbox] Failed to load:', e));
+  }
+  return items ?? EMPTY;
+}
+
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// ================================================================
+// Sync
+// ================================================================
+
+export async function isOnline(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  return state.isConnected !== false && state.isInternetReachable !== false;
+}
+
+async function sendContract(item: ContractOutboxItem): Promise<void> {
+  const key = hexToBytes(item.contractKey);
+  let media = item.media;
+
+  if (media && !media.path) {
+    const bytes = await readQueuedMedia(media);
+    const resumable: ResumableUploadOptions = {
+      uploadUrl: media.uploadUrl ?? null,
+      onUploadUrl: async uploadUrl => {
+        media = { ...media!, uploadUrl };
+        await updateItem(item.id, { media });
+      },
+      onProgress: (uploaded, total) => setMediaProgress(item.id, total ? uploaded / total : 1),
+    };
+
+    const path = media.bucket === 'photos'
+      ? await uploadPhoto(item.userId, bytes, { filename: media.filename, id: item.id }, resumable)
+      : await uploadAudioRecording(item.userId, bytes, { filename: media.filename, duration: media.duration ?? '0', id: item.id }, resumable);
+    media = { ...media, path, progress: 1 };
+    await updateItem(item.id, { media });
+  }
+
+  const data = media
+    ? { ...item.contract, [media.bucket === 'photos' ? 'photoUrl' : 'audioUrl']: media.path }
+    : item.contract;
+
+  await syncEncryptedContract(item.userId, item.id, data, key);
+}
+
+async function sendAmendment(item: AmendmentOutboxItem): Promise<void> {
+  try {
+    await createAmendment({ ...item.amendment, id: item.id });
+  } catch (error: any) {
+    if (error?.code !== '23505') throw error; // unique_violation: sent by an earlier attempt
+  }
+}
+
+async function flush(): Promise<void> {
+  const session = await getSession();
+  if (!session || !(await isOnline())) return;
+
+  const userId = session.user.id;
+  const tried = new Set<string>();
+
+  // Items queued while this runs are picked up too
+  for (;;) {
+    const item = (await load()).find(i => i.userId === userId && i.status === 'pending' && !tried.has(i.id));
+    if (!item) return;
+    tried.add(item.id);
+
+    await updateItem(item.id, { status: 'syncing' });
+    try {
+      if (item.kind === 'contract') {
+        await sendContract(item);
+      } else {
+        await sendAmendment(item);
+      }
+
+      await removeItem(item);
+      if (item.kind === 'contract') {
+        queryClient.invalidateQueries({ queryKey: ['contracts'] });
+        queryClient.invalidateQueries({ queryKey: ['drafts'] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['contract-amendments', item.amendment.contractId] });
+      }
+    } catch (error: any) {
+      console.error('[Outbox] Failed to send item:', error);
+      const attempts = item.attempts + 1;
+      await updateItem(item.id, {
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        lastError: error?.message || 'Failed to sync',
+      });
+    }
+  }
+}
+
+let flushing: Promise<void> = Promise.resolve();
+
+/**
+ * Send every pending item for the signed-in user. Calls are serialized; the
+ * returned promise settles once this call's pass is done.
+ */
+export function syncOutbox(): Promise<void> {
+  const run = flushing.then(flush, flush);
+  flushing = run.catch(e => console.error('[Outbox] Sync failed:', e));
+  return flushing;
+}
+
+/**
+ * Replay the outbox whenever connectivity returns or the app is foregrounded.
+ * Returns a function that stops listening.
+ */
+export function startOutboxSync(): () => void {
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    if (state.isConnected && state.isInternetReachable !== false) syncOutbox();
+  });
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') syncOutbox();
+  });
+
+  syncOutbox();
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+}
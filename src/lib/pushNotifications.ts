@@ -0,0 +1,118 @@
+/**
+ * Push Notifications
+ *
+ * Registers this device's Expo push token for the signed-in user and opens the
+ * screen a push links to when it's tapped. The server sends a push for every
+ * new notifications row (supabase/functions/push-dispatch); the payload carries
+ * a pmy:// link to the related contract or the invitations inbox and nothing
+ * about the contract itself.
+ *
+ * The token is kept in SecureStore so sign-out can unregister it before the
+ * session goes away.
+ */
+
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import * as Linking from 'expo-linking';
+import Constants from 'expo-constants';
+import { router } from 'expo-router';
+import { registerPushToken, deletePushToken, markNotificationAsRead } from '../services/api';
+import { SECURE_STORE_KEYS } from './localData';
+
+// Must match channelId in supabase/functions/_shared/pushPayloads.ts
+const ANDROID_CHANNEL_ID = 'contract-events';
+
+// In the foreground the notification list and badge already update over Realtime
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+function getProjectId(): string | undefined {
+  return Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+}
+
+/**
+ * Ask for permission and register this device's push token for the user.
+ * Does nothing on the web, on simulators, or when permission is refused.
+ */
+export async function registerForPushNotifications(): Promise<void> {
+  if (Platform.OS === 'web' || !Device.isDevice) return;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Contract updates',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== 'granted') {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') return;
+
+  const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId: getProjectId() });
+  await registerPushToken(token, Platform.OS as 'ios' | 'android', Device.deviceName);
+  await SecureStore.setItemAsync(SECURE_STORE_KEYS.pushToken, token);
+}
+
+/**
+ * Stop pushes to this device. Call while still signed in, since the token row
+ * is only visible to its owner.
+ */
+export async function unregisterPushNotifications(): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  const token = await SecureStore.getItemAsync(SECURE_STORE_KEYS.pushToken);
+  if (!token) return;
+
+  await deletePushToken(token);
+  await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.pushToken);
+}
+
+function openNotification(response: Notifications.NotificationResponse, userId: string): void {
+  const data = response.notification.request.content.data as { url?: string; notificationId?: string } | undefined;
+
+  if (data?.notificationId) {
+    markNotificationAsRead(data.notificationId, userId).catch(e => console.warn('Failed to mark notification read:', e));
+  }
+  if (!data?.url) return;
+
+  const { path, queryParams } = Linking.parse(data.url);
+  if (!path) return;
+
+  router.push({
+    pathname: `/${path}` as `/${string}`,
+    params: (queryParams ?? {}) as Record<string, string>,
+  });
+}
+
+/**
+ * Open the linked screen when a push is tapped, including the one that
+ * launched the app. Returns a function that stops listening.
+ */
+export function subscribeToNotificationResponses(userId: string): () => void {
+  if (Platform.OS === 'web') return () => {};
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(response => {
+      if (!response) return;
+      openNotification(response, userId);
+      // Otherwise the same push would be opened again on the next sign-in
+      return Notifications.clearLastNotificationResponseAsync();
+    })
+    .catch(e => console.warn('Failed to read the launching notification:', e));
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    openNotification(response, userId);
+  });
+
+  return () => subscription.remove();
+}
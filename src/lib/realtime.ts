@@ -0,0 +1,160 @@
+/**
+ * Realtime
+ *
+ * Keeps the React Query caches current from Supabase Realtime instead of
+ * polling. One channel per signed-in user listens for changes to notifications,
+ * contract_collaborators and contract_amendments (RLS decides which rows reach
+ * the user) and patches the cached lists in place. Queries built from joins or
+ * server-side state, like the contract itself, are invalidated instead.
+ *
+ * Rows arrive as stored (snake_case) and go through the same mappers as the
+ * api.ts getters before they're cached.
+ */
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { ContractAmendment, ContractCollaborator, Notification, PendingCollaboration } from '@shared/types';
+import { supabase } from './supabase';
+import { queryClient } from './queryClient';
+import {
+  transformContractAmendment,
+  transformContractCollaborator,
+  transformNotification,
+} from '../services/mappers';
+
+type Row = Record<string, any>;
+type Change = RealtimePostgresChangesPayload<Row>;
+
+// Replace a cached row, or add it at the given end of the list
+function upsertRow<T extends { id: string }>(list: T[] | undefined, row: T, position: 'start' | 'end'): T[] | undefined {
+  if (!list) return list;
+  if (!list.some(r => r.id === row.id)) {
+    return position === 'start' ? [row, ...list] : [...list, row];
+  }
+  return list.map(r => r.id === row.id ? { ...r, ...row } : r);
+}
+
+function removeRow<T extends { id: string }>(list: T[] | undefined, id: string): T[] | undefined {
+  return list?.filter(r => r.id !== id);
+}
+
+function refreshContract(contractId: string): void {
+  queryClient.invalidateQueries({ queryKey: ['contract', contractId] });
+  queryClient.invalidateQueries({ queryKey: ['contract-integrity', contractId] });
+  queryClient.invalidateQueries({ queryKey: ['contracts'] });
+}
+
+function handleNotificationChange(userId: string, change: Change): void {
+  if (change.eventType === 'DELETE') {
+    queryClient.setQueryData<Notification[]>(['notifications', userId], list => removeRow(list, change.old.id));
+    queryClient.invalidateQueries({ queryKey: ['unread-notifications', userId] });
+    return;
+  }
+
+  const notification = transformNotification(change.new);
+  queryClient.setQueryData<Notification[]>(['notifications', userId], list => upsertRow(list, notification, 'start'));
+
+  if (change.eventType === 'INSERT') {
+    if (!notification.isRead) {
+      queryClient.setQueryData<number>(['unread-notifications', userId], count => count === undefined ? count : count + 1);
+    }
+    // Invitations, approvals and revocations notify the parties; refresh the contract they're about
+    if (notification.relatedContractId) {
+      refreshContract(notification.relatedContractId);
+    }
+  } else {
+    // Under RLS the old row carries only its primary key, so whether it was unread before isn't known
+    queryClient.invalidateQueries({ queryKey: ['unread-notifications', userId] });
+  }
+}
+
+function handleCollaboratorChange(userId: string, change: Change): void {
+  if (change.eventType === 'DELETE') {
+    queryClient.setQueriesData<ContractCollaborator[]>({ queryKey: ['contract-collaborators'] }, list => removeRow(list, change.old.id));
+    queryClient.setQueryData<PendingCollaboration[]>(['pending-collaborations', userId], list => removeRow(list, change.old.id));
+    return;
+  }
+
+  const collaborator = transformContractCollaborator(change.new);
+  queryClient.setQueryData<ContractCollaborator[]>(
+    ['contract-collaborators', collaborator.contractId],
+    list => upsertRow(list, collaborator, 'end')
+  );
+
+  if (collaborator.userId === userId) {
+    if (collaborator.status === 'pending') {
+      // The inbox shows the contract joined onto the row
+      queryClient.invalidateQueries({ queryKey: ['pending-collaborations', userId] });
+    } else {
+      queryClient.setQueryData<PendingCollaboration[]>(['pending-collaborations', userId], list => removeRow(list, collaborator.id));
+    }
+  }
+
+  // Approving or rejecting can change the contract's status
+  if (change.eventType === 'UPDATE') {
+    refreshContract(collaborator.contractId);
+  }
+}
+
+function handleAmendmentChange(change: Change): void {
+  if (change.eventType === 'DELETE') {
+    queryClient.setQueriesData<ContractAmendment[]>({ queryKey: ['contract-amendments'] }, list => removeRow(list, change.old.id));
+    return;
+  }
+
+  const amendment = transformContractAmendment(change.new);
+  queryClient.setQueryData<ContractAmendment[]>(
+    ['contract-amendments', amendment.contractId],
+    list => upsertRow(list, amendment, 'start')
+  );
+
+  // An applied amendment changes the contract and adds to its history
+  if (amendment.appliedAt) {
+    refreshContract(amendment.contractId);
+  }
+}
+
+// Changes made while the channel was down aren't replayed
+function refreshAll(userId: string): void {
+  queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+  queryClient.invalidateQueries({ queryKey: ['unread-notifications', userId] });
+  queryClient.invalidateQueries({ queryKey: ['pending-collaborations', userId] });
+  queryClient.invalidateQueries({ queryKey: ['contract-collaborators'] });
+  queryClient.invalidateQueries({ queryKey: ['contract-amendments'] });
+  queryClient.invalidateQueries({ queryKey: ['contracts'] });
+  queryClient.invalidateQueries({ queryKey: ['contract'] });
+}
+
+/**
+ * Subscribe to the signed-in user's changes. Returns a function that
+ * unsubscribes.
+ */
+export function subscribeToUserChanges(userId: string): () => void {
+  let connectedBefore = false;
+
+  const channel = supabase
+    .channel(`user-changes:${userId}`)
+    .on<Row>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      change => handleNotificationChange(userId, change)
+    )
+    .on<Row>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'contract_collaborators' },
+      change => handleCollaboratorChange(userId, change)
+    )
+    .on<Row>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'contract_amendments' },
+      handleAmendmentChange
+    )
+    .subscribe(status => {
+      if (status !== 'SUBSCRIBED') return;
+      if (connectedBefore) refreshAll(userId);
+      connectedBefore = true;
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
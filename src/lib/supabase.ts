@@ -1,18 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import * as SecureStore from 'expo-secure-store';
-
-// Custom storage adapter for Expo SecureStore
-const ExpoSecureStoreAdapter = {
-  getItem: (key: string) => {
-    return SecureStore.getItemAsync(key);
-  },
-  setItem: (key: string, value: string) => {
-    return SecureStore.setItemAsync(key, value);
-  },
-  removeItem: (key: string) => {
-    return SecureStore.deleteItemAsync(key);
-  },
-};
+import { storage } from '../services/storage';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_PROJECT_URL || '';
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_PUBLIC || '';
@@ -44,7 +31,8 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     persistSession: true,
     autoRefreshToken: true,
     detectSessionInUrl: false,
-    storage: ExpoSecureStoreAdapter,
+    // Sessions outgrow SecureStore's per-value limit; the storage service chunks them
+    storage,
     // Handle refresh token errors gracefully
     debug: __DEV__,
   },
@@ -2,6 +2,8 @@
  * Utility functions for the PMY app
  */
 
+import * as Crypto from 'expo-crypto';
+
 /**
  * Format a date to a readable string
  */
@@ -81,10 +83,10 @@ export function capitalize(text: string): string {
 }
 
 /**
- * Generate a unique ID
+ * Generate a unique, unguessable ID (random UUID v4)
  */
 export function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+  return Crypto.randomUUID();
 }
 
 /**
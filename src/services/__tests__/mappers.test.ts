@@ -0,0 +1,72 @@
+import {
+  toConsentContractInsert,
+  toConsentContractRow,
+  toUserProfileRow,
+  transformConsentContract,
+  transformNotification,
+  transformUserProfile,
+} from '../mappers';
+
+describe('flag columns', () => {
+  it('reads TEXT flags as booleans', () => {
+    expect(transformNotification({ is_read: 'true' }).isRead).toBe(true);
+    expect(transformNotification({ is_read: 'false' }).isRead).toBe(false);
+    expect(transformUserProfile({ is_verified: 'false', email_notifications_enabled: 'true' })).toMatchObject({
+      isVerified: false,
+      emailNotificationsEnabled: true,
+    });
+  });
+
+  it('reads real booleans from Realtime payloads', () => {
+    expect(transformNotification({ is_read: true }).isRead).toBe(true);
+    expect(transformNotification({ is_read: false }).isRead).toBe(false);
+  });
+
+  it('reads a missing or unexpected value as false', () => {
+    expect(transformNotification({}).isRead).toBe(false);
+    expect(transformNotification({ is_read: 'TRUE' }).isRead).toBe(false);
+    expect(transformNotification({ is_read: 1 }).isRead).toBe(false);
+  });
+
+  it('keeps an unknown credential backup state unknown', () => {
+    expect(transformConsentContract({ credential_backed_up: null }).credentialBackedUp).toBeNull();
+    expect(transformConsentContract({ credential_backed_up: 'false' }).credentialBackedUp).toBe(false);
+  });
+
+  it('writes booleans as TEXT', () => {
+    expect(toConsentContractRow({ isCollaborative: false, credentialBackedUp: true })).toEqual({
+      is_collaborative: 'false',
+      credential_backed_up: 'true',
+    });
+    expect(toUserProfileRow({ emailNotificationsEnabled: false })).toEqual({ email_notifications_enabled: 'false' });
+  });
+});
+
+describe('contract rows', () => {
+  it('only writes the fields that are set', () => {
+    expect(toConsentContractRow({ status: 'paused', contractText: null })).toEqual({
+      status: 'paused',
+      contract_text: null,
+    });
+  });
+
+  it('round-trips an insert queued as a row by an earlier outbox', () => {
+    const row = toConsentContractRow({
+      id: 'contract-1',
+      userId: 'user-1',
+      parties: ['Alex', 'Sam'],
+      contractText: 'We both agree.',
+      isCollaborative: true,
+      credentialBackedUp: false,
+    });
+
+    expect(toConsentContractInsert(row)).toEqual({
+      id: 'contract-1',
+      userId: 'user-1',
+      parties: ['Alex', 'Sam'],
+      contractText: 'We both agree.',
+      isCollaborative: true,
+      credentialBackedUp: false,
+    });
+  });
+});
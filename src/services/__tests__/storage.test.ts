@@ -0,0 +1,101 @@
+// SecureStore contents, kept across app restarts
+const mockSecureStore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: async (key: string) => mockSecureStore.get(key) ?? null,
+  setItemAsync: async (key: string, value: string) => {
+    mockSecureStore.set(key, value);
+  },
+  deleteItemAsync: async (key: string) => {
+    mockSecureStore.delete(key);
+  },
+}));
+
+jest.mock('expo-crypto', () => {
+  const { randomBytes } = jest.requireActual('crypto');
+  return { getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)) };
+});
+
+type Storage = typeof import('../storage').storage;
+
+const LONG_VALUE = 'signature '.repeat(1000);
+
+// A fresh copy of the module, as after the app restarts
+function startApp(): Storage {
+  let storage!: Storage;
+  jest.isolateModules(() => {
+    storage = require('../storage').storage;
+  });
+  return storage;
+}
+
+function chunkKeys(key: string): string[] {
+  return [...mockSecureStore.keys()].filter(k => k.startsWith(`${key}.chunk`)).sort();
+}
+
+beforeEach(() => {
+  mockSecureStore.clear();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('storage', () => {
+  it('splits long values across chunks and reads them back after a restart', async () => {
+    await startApp().setItem('session', LONG_VALUE);
+
+    const chunks = chunkKeys('session');
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(mockSecureStore.get(chunk)!.length).toBeLessThanOrEqual(1800);
+    }
+    expect(mockSecureStore.get('session')).toBeUndefined();
+    expect(await startApp().getItem('session')).toBe(LONG_VALUE);
+  });
+
+  it('deletes the chunks a shorter value no longer needs', async () => {
+    const storage = startApp();
+    await storage.setItem('session', LONG_VALUE);
+    await storage.setItem('session', 'short');
+
+    expect(chunkKeys('session')).toEqual(['session.chunk0']);
+    expect(JSON.parse(mockSecureStore.get('pmy_storage_index')!)).toEqual({ session: 1 });
+    expect(await startApp().getItem('session')).toBe('short');
+  });
+
+  it('reads a missing chunk as no value', async () => {
+    await startApp().setItem('session', LONG_VALUE);
+    mockSecureStore.delete('session.chunk1');
+
+    expect(await startApp().getItem('session')).toBeNull();
+  });
+
+  it('reads a corrupted chunk as no value', async () => {
+    await startApp().setItem('session', LONG_VALUE);
+    const chunk = mockSecureStore.get('session.chunk0')!;
+    mockSecureStore.set('session.chunk0', chunk.slice(0, 40) + (chunk[40] === 'A' ? 'B' : 'A') + chunk.slice(41));
+
+    expect(await startApp().getItem('session')).toBeNull();
+  });
+
+  it('reads values written before chunking and replaces them on the next write', async () => {
+    mockSecureStore.set('theme', 'dark');
+    const storage = startApp();
+
+    expect(await storage.getItem('theme')).toBe('dark');
+
+    await storage.setItem('theme', 'light');
+
+    expect(mockSecureStore.get('theme')).toBeUndefined();
+    expect(await startApp().getItem('theme')).toBe('light');
+  });
+
+  it('clears every chunk, the index and the key that sealed them', async () => {
+    const storage = startApp();
+    await storage.setItem('session', LONG_VALUE);
+    await storage.setItem('theme', 'dark');
+
+    await storage.clear();
+
+    expect([...mockSecureStore.keys()]).toEqual([]);
+    expect(await storage.getItem('session')).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import { UploadError, uploadFileResumable } from '../api';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {},
+  getSession: async () => ({ access_token: 'token' }),
+}));
+
+jest.mock('../../lib/utils', () => ({
+  ...jest.requireActual('../../lib/utils'),
+  sleep: async () => {},
+}));
+
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const UPLOAD_URL = 'https://storage.example/upload/resumable/1';
+
+// A TUS server holding one upload
+const server = {
+  offset: 0,
+  known: true,
+  created: 0,
+  // Status for each PATCH in turn; undefined accepts the chunk, 0 drops the connection
+  patchStatuses: [] as (number | undefined)[],
+  // Bytes of a dropped chunk that still arrived
+  partialBytes: 0,
+  patchOffsets: [] as number[],
+};
+
+function response(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name] ?? null },
+    text: async () => `status ${status}`,
+  };
+}
+
+const fetchMock = jest.fn(async (_url: string, init: { method: string; headers: Record<string, string> }) => {
+  if (init.method === 'POST') {
+    server.created++;
+    server.offset = 0;
+    server.known = true;
+    return response(201, { Location: `${UPLOAD_URL}-${server.created}` });
+  }
+  return server.known ? response(200, { 'Upload-Offset': String(server.offset) }) : response(404);
+});
+
+class FakeXMLHttpRequest {
+  status = 0;
+  responseText = '';
+  upload: { onprogress?: (event: { loaded: number }) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  ontimeout?: () => void;
+  private headers: Record<string, string> = {};
+
+  open() {}
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  getResponseHeader(name: string) {
+    return name === 'Upload-Offset' ? String(server.offset) : null;
+  }
+
+  send(chunk: Uint8Array) {
+    const offset = Number(this.headers['Upload-Offset']);
+    server.patchOffsets.push(offset);
+    const status = server.patchStatuses.shift();
+
+    setTimeout(() => {
+      if (status === 0) {
+        server.offset = offset + server.partialBytes;
+        this.onerror?.();
+        return;
+      }
+      if (status !== undefined) {
+        this.status = status;
+        this.onload?.();
+        return;
+      }
+      if (offset !== server.offset) {
+        this.status = 409;
+        this.onload?.();
+        return;
+      }
+      this.upload.onprogress?.({ loaded: chunk.length });
+      server.offset += chunk.length;
+      this.status = 204;
+      this.onload?.();
+    });
+  }
+}
+
+const bytes = new Uint8Array(CHUNK_SIZE * 2 + 1000);
+
+beforeEach(() => {
+  Object.assign(server, { offset: 0, known: true, created: 0, patchStatuses: [], partialBytes: 0, patchOffsets: [] });
+  fetchMock.mockClear();
+  global.fetch = fetchMock as any;
+  global.XMLHttpRequest = FakeXMLHttpRequest as any;
+});
+
+describe('uploadFileResumable', () => {
+  it('creates an upload, reports its URL and sends every chunk', async () => {
+    const onUploadUrl = jest.fn();
+    const onProgress = jest.fn();
+
+    const path = await uploadFileResumable('photos', 'user-1/photos/a.enc', bytes, { onUploadUrl, onProgress });
+
+    expect(path).toBe('user-1/photos/a.enc');
+    expect(onUploadUrl).toHaveBeenCalledWith(`${UPLOAD_URL}-1`);
+    expect(server.patchOffsets).toEqual([0, CHUNK_SIZE, CHUNK_SIZE * 2]);
+    expect(server.offset).toBe(bytes.length);
+    expect(onProgress).toHaveBeenLastCalledWith(bytes.length, bytes.length);
+
+    const [, create] = fetchMock.mock.calls[0];
+    expect(create.headers['Upload-Length']).toBe(String(bytes.length));
+    expect(create.headers['Upload-Metadata']).toContain(`objectName ${btoa('user-1/photos/a.enc')}`);
+  });
+
+  it('continues an interrupted upload from the offset the server reports', async () => {
+    server.offset = CHUNK_SIZE;
+    const onUploadUrl = jest.fn();
+
+    await uploadFileResumable('photos', 'user-1/photos/a.enc', bytes, { uploadUrl: UPLOAD_URL, onUploadUrl });
+
+    expect(server.created).toBe(0);
+    expect(onUploadUrl).not.toHaveBeenCalled();
+    expect(server.patchOffsets).toEqual([CHUNK_SIZE, CHUNK_SIZE * 2]);
+  });
+
+  it('starts over when the server no longer knows the upload', async () => {
+    server.known = false;
+    const onUploadUrl = jest.fn();
+
+    await uploadFileResumable('photos', 'user-1/photos/a.enc', bytes, { uploadUrl: UPLOAD_URL, onUploadUrl });
+
+    expect(onUploadUrl).toHaveBeenCalledWith(`${UPLOAD_URL}-1`);
+    expect(server.patchOffsets[0]).toBe(0);
+    expect(server.offset).toBe(bytes.length);
+  });
+
+  it('retries a dropped chunk from where the server got to', async () => {
+    server.patchStatuses = [undefined, 0];
+    server.partialBytes = 1024;
+
+    await uploadFileResumable('photos', 'user-1/photos/a.enc', bytes);
+
+    expect(server.patchOffsets).toEqual([0, CHUNK_SIZE, CHUNK_SIZE + 1024]);
+    expect(server.offset).toBe(bytes.length);
+  });
+
+  it("gives up on errors a retry won't fix", async () => {
+    server.patchStatuses = [403];
+
+    const upload = uploadFileResumable('photos', 'user-1/photos/a.enc', bytes);
+
+    await expect(upload).rejects.toBeInstanceOf(UploadError);
+    await expect(upload).rejects.toMatchObject({ status: 403 });
+    expect(server.patchOffsets).toEqual([0]);
+  });
+
+  it('gives up after repeated failures', async () => {
+    server.patchStatuses = [500, 500, 500, 500];
+
+    await expect(uploadFileResumable('photos', 'user-1/photos/a.enc', bytes)).rejects.toMatchObject({ status: 500 });
+    expect(server.patchOffsets).toHaveLength(4);
+  });
+});
@@ -6,50 +6,59 @@
  */
 
 import { supabase, getSession } from '../lib/supabase';
+import { verifyContractChain, type ChainVerificationResult } from '../lib/contractChain';
+import { bytesToBase64 } from '../lib/encoding';
+import { sleep } from '../lib/utils';
+import { utf8ToBytes } from '@noble/hashes/utils';
 import type {
   University,
   StateLaw,
   ConsentContract,
+  InsertConsentContract,
+  UpdateConsentContract,
+  ContractVersion,
   ConsentRecording,
+  InsertConsentRecording,
   UserProfile,
+  UpdateUserProfile,
+  UserPreferences,
+  AccountVerification,
+  AccountDeletionRequest,
+  DataExport,
+  ContractCollaborator,
+  PendingCollaboration,
+  ContractInvitation,
   ContractAmendment,
+  InsertContractAmendment,
   Notification,
+  NotificationPreferences,
+  UpdateNotificationPreferences,
   UserContact,
+  InsertUserContact,
 } from '@shared/types';
-
-// ================================================================
-// Data Transformation Helpers
-// ================================================================
-
-function transformUniversity(data: any): University {
-  return {
-    id: data.id,
-    name: data.name,
-    state: data.state,
-    domain: data.domain,
-    titleIXInfo: data.title_ix_info,
-    titleIXUrl: data.title_ix_url,
-    logoUrl: data.logo_url,
-    lastUpdated: data.last_updated,
-    verifiedAt: data.verified_at,
-  };
-}
-
-function transformStateLaw(data: any): StateLaw {
-  return {
-    id: data.id,
-    stateCode: data.state_code,
-    stateName: data.state_name,
-    consentLawInfo: data.consent_law_info,
-    ageOfConsent: data.age_of_consent,
-    romeoJulietLaw: data.romeo_juliet_law,
-    affirmativeConsentRequired: data.affirmative_consent_required,
-    reportingRequirements: data.reporting_requirements,
-    sourceUrl: data.source_url,
-    lastUpdated: data.last_updated,
-    verifiedAt: data.verified_at,
-  };
-}
+import {
+  transformUniversity,
+  transformStateLaw,
+  transformUserProfile,
+  toUserProfileRow,
+  transformAccountVerification,
+  transformAccountDeletionRequest,
+  transformDataExport,
+  transformUserContact,
+  toUserContactRow,
+  transformConsentRecording,
+  toConsentRecordingRow,
+  transformConsentContract,
+  toConsentContractRow,
+  transformContractVersion,
+  transformContractCollaborator,
+  transformPendingCollaboration,
+  transformContractInvitation,
+  transformContractAmendment,
+  toContractAmendmentRow,
+  transformNotification,
+  transformNotificationPreferences,
+} from './mappers';
 
 // ================================================================
 // Universities
@@ -119,39 +128,43 @@ export async function getContracts(userId: string): Promise<ConsentContract[]> {
     .order('created_at', { ascending: false });
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformConsentContract);
 }
 
-export async function getContract(id: string, userId: string): Promise<ConsentContract | null> {
+// RLS limits this to contracts the current user is a party to (owner or collaborator)
+export async function getContract(id: string): Promise<ConsentContract | null> {
   const { data, error } = await supabase
     .from('consent_contracts')
     .select('*')
     .eq('id', id)
-    .eq('user_id', userId)
     .single();
   
   if (error) {
     if (error.code === 'PGRST116') return null;
     throw error;
   }
-  return data;
+  return data ? transformConsentContract(data) : null;
 }
 
-export async function createContract(contract: any): Promise<ConsentContract> {
+export async function createContract(contract: InsertConsentContract): Promise<ConsentContract> {
   const { data, error } = await supabase
     .from('consent_contracts')
-    .insert(contract)
+    .insert(toConsentContractRow(contract))
     .select()
     .single();
   
   if (error) throw error;
-  return data;
+  return transformConsentContract(data);
 }
 
-export async function updateContract(id: string, userId: string, updates: any): Promise<ConsentContract | null> {
+export async function updateContract(
+  id: string,
+  userId: string,
+  updates: UpdateConsentContract
+): Promise<ConsentContract | null> {
   const { data, error } = await supabase
     .from('consent_contracts')
-    .update(updates)
+    .update({ ...toConsentContractRow(updates), updated_at: new Date().toISOString() })
     .eq('id', id)
     .eq('user_id', userId)
     .select()
@@ -161,7 +174,7 @@ export async function updateContract(id: string, userId: string, updates: any):
     if (error.code === 'PGRST116') return null;
     throw error;
   }
-  return data;
+  return transformConsentContract(data);
 }
 
 export async function deleteContract(id: string, userId: string): Promise<boolean> {
@@ -176,11 +189,30 @@ export async function deleteContract(id: string, userId: string): Promise<boolea
 }
 
 export async function pauseContract(id: string, userId: string): Promise<ConsentContract | null> {
-  return updateContract(id, userId, { status: 'paused', updated_at: new Date().toISOString() });
+  return updateContract(id, userId, { status: 'paused' });
 }
 
 export async function resumeContract(id: string, userId: string): Promise<ConsentContract | null> {
-  return updateContract(id, userId, { status: 'active', updated_at: new Date().toISOString() });
+  return updateContract(id, userId, { status: 'active' });
+}
+
+/**
+ * Withdraw consent. Any party can revoke; the server records who revoked and
+ * when, locks the contract against amendments and notifies the other parties.
+ */
+export async function revokeContract(id: string, reason?: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('revoke-contract', {
+    body: { contractId: id, reason },
+  });
+
+  if (error) {
+    console.error('Failed to revoke contract:', error);
+    throw new Error(`Failed to withdraw consent: ${error.message}`);
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to withdraw consent');
+  }
 }
 
 export async function getDrafts(userId: string): Promise<ConsentContract[]> {
@@ -192,7 +224,65 @@ export async function getDrafts(userId: string): Promise<ConsentContract[]> {
     .order('created_at', { ascending: false });
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformConsentContract);
+}
+
+// ================================================================
+// Contract History (tamper-evident hash chain)
+// ================================================================
+
+export async function getContractVersions(contractId: string): Promise<ContractVersion[]> {
+  const { data, error } = await supabase
+    .from('contract_versions')
+    .select('*')
+    .eq('contract_id', contractId)
+    .order('version', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(transformContractVersion);
+}
+
+export interface ContractIntegrity {
+  chain: ChainVerificationResult;
+  // False when the contract row no longer matches the newest recorded version
+  headMatches: boolean;
+  versions: ContractVersion[];
+}
+
+/**
+ * Re-walk the contract's version chain and check the live row against its head
+ */
+export async function verifyContractIntegrity(contractId: string): Promise<ContractIntegrity> {
+  const versions = await getContractVersions(contractId);
+  const chain = verifyContractChain(contractId, versions);
+
+  const { data: headMatches, error } = await supabase
+    .rpc('contract_chain_head_matches', { p_contract_id: contractId });
+
+  if (error) throw error;
+  return { chain, headMatches: headMatches !== false, versions };
+}
+
+export interface ContractExportVerification {
+  version: number;
+  recordedAt: string;
+  // False when the contract has changed since the export was made
+  isCurrent: boolean;
+}
+
+/**
+ * Look up the version a PDF export's verification code was taken from
+ */
+export async function verifyContractExportCode(
+  contractId: string,
+  code: string
+): Promise<ContractExportVerification | null> {
+  const { data, error } = await supabase
+    .rpc('verify_contract_export', { p_contract_id: contractId, p_code: code });
+
+  if (error) throw error;
+  const row = data?.[0];
+  return row ? { version: row.version, recordedAt: row.recorded_at, isCurrent: row.is_current } : null;
 }
 
 // ================================================================
@@ -207,7 +297,7 @@ export async function getRecordings(userId: string): Promise<ConsentRecording[]>
     .order('created_at', { ascending: false });
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformConsentRecording);
 }
 
 export async function getRecording(id: string, userId: string): Promise<ConsentRecording | null> {
@@ -222,18 +312,18 @@ export async function getRecording(id: string, userId: string): Promise<ConsentR
     if (error.code === 'PGRST116') return null;
     throw error;
   }
-  return data;
+  return data ? transformConsentRecording(data) : null;
 }
 
-export async function createRecording(recording: any): Promise<ConsentRecording> {
+export async function createRecording(recording: InsertConsentRecording): Promise<ConsentRecording> {
   const { data, error } = await supabase
     .from('consent_recordings')
-    .insert(recording)
+    .insert(toConsentRecordingRow(recording))
     .select()
     .single();
   
   if (error) throw error;
-  return data;
+  return transformConsentRecording(data);
 }
 
 export async function deleteRecording(id: string, userId: string): Promise<boolean> {
@@ -251,7 +341,7 @@ export async function deleteRecording(id: string, userId: string): Promise<boole
 // User Profile
 // ================================================================
 
-export async function getUserProfile(userId: string): Promise<any> {
+export async function getUserProfile(userId: string): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('user_profiles')
     .select('*')
@@ -263,13 +353,13 @@ export async function getUserProfile(userId: string): Promise<any> {
     throw error;
   }
   
-  return data;
+  return data ? transformUserProfile(data) : null;
 }
 
-export async function updateUserProfile(userId: string, updates: any): Promise<any> {
+export async function updateUserProfile(userId: string, updates: UpdateUserProfile): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('user_profiles')
-    .update({ ...updates, updated_at: new Date().toISOString() })
+    .update({ ...toUserProfileRow(updates), updated_at: new Date().toISOString() })
     .eq('id', userId)
     .select()
     .single();
@@ -279,21 +369,123 @@ export async function updateUserProfile(userId: string, updates: any): Promise<a
     throw error;
   }
   
-  return data;
+  return transformUserProfile(data);
 }
 
-export async function getUserPreferences(userId: string) {
+export async function getUserPreferences(userId: string): Promise<UserPreferences | null> {
   const profile = await getUserProfile(userId);
   if (!profile) return null;
   
   return {
-    default_university_id: profile.default_university_id ?? null,
-    state_of_residence: profile.state_of_residence ?? null,
-    default_encounter_type: profile.default_encounter_type ?? null,
-    default_contract_duration: profile.default_contract_duration ?? null,
+    defaultUniversityId: profile.defaultUniversityId,
+    stateOfResidence: profile.stateOfResidence,
+    defaultEncounterType: profile.defaultEncounterType,
+    defaultContractDuration: profile.defaultContractDuration,
   };
 }
 
+// The open request, if the account is in its deletion grace period
+export async function getAccountDeletionRequest(userId: string): Promise<AccountDeletionRequest | null> {
+  const { data, error } = await supabase
+    .from('account_deletion_requests')
+    .select('*')
+    .eq('user_id', userId)
+    .is('cancelled_at', null)
+    .is('completed_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? transformAccountDeletionRequest(data) : null;
+}
+
+/**
+ * Schedule the signed-in user's account for deletion after a 30-day grace
+ * period. The password is checked again server-side.
+ */
+export async function requestAccountDeletion(password: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('account-deletion', {
+    body: { action: 'request', password },
+  });
+
+  if (error) {
+    console.error('Error requesting account deletion:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to delete account'));
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to delete account');
+  }
+
+  return data.scheduledFor;
+}
+
+export async function cancelAccountDeletion(): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('account-deletion', {
+    body: { action: 'cancel' },
+  });
+
+  if (error) {
+    console.error('Error cancelling account deletion:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to cancel account deletion'));
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to cancel account deletion');
+  }
+}
+
+// ================================================================
+// Data Export (see 20261019118000_data_exports.sql)
+// ================================================================
+
+export async function getDataExports(userId: string): Promise<DataExport[]> {
+  const { data, error } = await supabase
+    .from('data_exports')
+    .select('*')
+    .eq('user_id', userId)
+    .order('requested_at', { ascending: false })
+    .limit(5);
+
+  if (error) throw error;
+  return (data || []).map(transformDataExport);
+}
+
+// The archive is built server-side; a notification follows when it's ready
+export async function requestDataExport(): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('data-export', {
+    body: { action: 'request' },
+  });
+
+  if (error) {
+    console.error('Error requesting data export:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to request data export'));
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to request data export');
+  }
+
+  return data.exportId;
+}
+
+// Signed URLs are valid for an hour, so fetch one right before opening it
+export async function getDataExportDownloadUrl(exportId: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('data-export', {
+    body: { action: 'download', exportId },
+  });
+
+  if (error) {
+    console.error('Error getting data export link:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to download data export'));
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to download data export');
+  }
+
+  return data.url;
+}
+
 // ================================================================
 // Notifications
 // ================================================================
@@ -307,7 +499,7 @@ export async function getNotifications(userId: string, limit: number = 50): Prom
     .limit(limit);
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformNotification);
 }
 
 export async function getUnreadNotificationCount(userId: string): Promise<number> {
@@ -342,6 +534,54 @@ export async function markAllNotificationsAsRead(userId: string): Promise<boolea
   return true;
 }
 
+// ================================================================
+// Notification Preferences
+// ================================================================
+
+// The server applies these to in-app, email and push delivery (notification_allowed()).
+// Users who never saved preferences get everything, with no quiet hours.
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return transformNotificationPreferences(data);
+
+  return {
+    userId,
+    channels: {},
+    quietHoursEnabled: false,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '07:00',
+    timeZone: 'UTC',
+    updatedAt: null,
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: UpdateNotificationPreferences
+): Promise<NotificationPreferences> {
+  const row: Record<string, unknown> = { user_id: userId };
+  if (updates.channels !== undefined) row.channels = updates.channels;
+  if (updates.quietHoursEnabled !== undefined) row.quiet_hours_enabled = updates.quietHoursEnabled;
+  if (updates.quietHoursStart !== undefined) row.quiet_hours_start = updates.quietHoursStart;
+  if (updates.quietHoursEnd !== undefined) row.quiet_hours_end = updates.quietHoursEnd;
+  if (updates.timeZone !== undefined) row.time_zone = updates.timeZone;
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert(row, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return transformNotificationPreferences(data);
+}
+
 // ================================================================
 // Amendments
 // ================================================================
@@ -354,54 +594,47 @@ export async function getContractAmendments(contractId: string): Promise<Contrac
     .order('created_at', { ascending: false });
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformContractAmendment);
 }
 
-export async function createAmendment(amendment: any): Promise<ContractAmendment> {
+export async function createAmendment(amendment: InsertContractAmendment): Promise<ContractAmendment> {
   const { data, error } = await supabase
     .from('contract_amendments')
-    .insert(amendment)
+    .insert(toContractAmendmentRow(amendment))
     .select()
     .single();
 
   if (error) throw error;
-  return data;
+  return transformContractAmendment(data);
+}
+
+/**
+ * Approve an amendment. The server rejects approvals from the requester and
+ * applies the amendment once every other party has approved.
+ */
+export async function approveAmendment(amendmentId: string): Promise<ContractAmendment> {
+  const { data, error } = await supabase
+    .rpc('approve_contract_amendment', { p_amendment_id: amendmentId });
+
+  if (error) throw error;
+  return transformContractAmendment(data);
+}
+
+/**
+ * Reject an amendment, or withdraw it if you requested it
+ */
+export async function rejectAmendment(amendmentId: string, reason?: string): Promise<ContractAmendment> {
+  const { data, error } = await supabase
+    .rpc('reject_contract_amendment', { p_amendment_id: amendmentId, p_reason: reason ?? null });
+
+  if (error) throw error;
+  return transformContractAmendment(data);
 }
 
 // ================================================================
 // Contract Sharing / Collaboration
 // ================================================================
 
-export interface ContractCollaborator {
-  id: string;
-  contract_id: string;
-  user_id: string | null;
-  legal_name: string | null;
-  contact_info: string | null;
-  participant_type: string;
-  role: string;
-  status: string;
-  last_viewed_at: string | null;
-  approved_at: string | null;
-  rejected_at: string | null;
-  rejection_reason: string | null;
-  confirmed_at: string | null;
-  created_at: string;
-}
-
-export interface ContractInvitation {
-  id: string;
-  contract_id: string;
-  sender_id: string;
-  recipient_email: string;
-  recipient_user_id: string | null;
-  invitation_code: string;
-  status: string;
-  expires_at: string;
-  accepted_at: string | null;
-  created_at: string;
-}
-
 // Share contract with a PMY user (by user ID)
 export async function shareContractWithUser(
   contractId: string,
@@ -429,63 +662,77 @@ export async function shareContractWithUser(
     .single();
 
   if (error) throw error;
+  // The recipient's notification comes from the collaborator insert trigger
+  return transformContractCollaborator(data);
+}
 
-  // Create a notification for the recipient
-  await supabase
-    .from('notifications')
-    .insert({
-      user_id: recipientUserId,
-      type: 'contract_invitation',
-      title: 'New Contract Invitation',
-      message: 'You have been invited to collaborate on a consent contract.',
-      related_contract_id: contractId,
-      is_read: 'false',
-    });
-
-  return data;
+// Edge functions put the reason for a rejected request in the response body
+async function getFunctionErrorMessage(error: any, fallback: string): Promise<string> {
+  try {
+    const body = await error?.context?.json();
+    return body?.error || fallback;
+  } catch {
+    return fallback;
+  }
 }
 
-// Share contract via email (external invitation)
+// Share contract via email (external invitation). The invitation code is generated
+// and emailed by the send-invitation edge function; only its hash is stored, so the
+// returned code can't be retrieved again.
+// inviteUrl is set when no email went out (the recipient has invitation emails
+// off), for the sender to pass the link on themselves
 export async function shareContractViaEmail(
   contractId: string,
-  senderId: string,
   recipientEmail: string
-): Promise<ContractInvitation> {
-  // Generate a unique invitation code
-  const invitationCode = Math.random().toString(36).substring(2, 15) +
-                         Math.random().toString(36).substring(2, 15);
+): Promise<{ invitation: ContractInvitation; code: string; inviteUrl: string | null }> {
+  const { data, error } = await supabase.functions.invoke('send-invitation', {
+    body: { contractId, recipientEmail },
+  });
 
-  // Set expiration to 7 days from now
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + 7);
+  if (error) {
+    console.error('Error sending invitation:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to send invitation'));
+  }
 
-  // Update contract to be collaborative
-  await supabase
-    .from('consent_contracts')
-    .update({ is_collaborative: 'true' })
-    .eq('id', contractId)
-    .eq('user_id', senderId);
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to send invitation');
+  }
+
+  return {
+    invitation: transformContractInvitation(data.invitation),
+    code: data.code,
+    inviteUrl: data.emailSkipped ? data.inviteUrl : null,
+  };
+}
 
-  // Create the invitation
+// Get email invitations sent for a contract
+export async function getContractInvitations(contractId: string): Promise<ContractInvitation[]> {
   const { data, error } = await supabase
     .from('contract_invitations')
-    .insert({
-      contract_id: contractId,
-      sender_id: senderId,
-      recipient_email: recipientEmail,
-      invitation_code: invitationCode,
-      status: 'pending',
-      expires_at: expiresAt.toISOString(),
-    })
-    .select()
-    .single();
+    .select('*')
+    .eq('contract_id', contractId)
+    .order('created_at', { ascending: false });
 
   if (error) throw error;
+  return (data || []).map(transformContractInvitation);
+}
 
-  // TODO: Send email via Supabase Edge Function
-  // For now, we just create the invitation record
+// Send a pending invitation's email again (rate limited server-side). Returns
+// the new invite link when the email was skipped, as for shareContractViaEmail.
+export async function resendInvitation(invitationId: string): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke('send-invitation', {
+    body: { invitationId },
+  });
 
-  return data;
+  if (error) {
+    console.error('Error resending invitation:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to resend invitation'));
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to resend invitation');
+  }
+  return data.emailSkipped ? data.inviteUrl : null;
 }
 
 // Get collaborators for a contract
@@ -497,7 +744,7 @@ export async function getContractCollaborators(contractId: string): Promise<Cont
     .order('created_at', { ascending: true });
 
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformContractCollaborator);
 }
 
 // Get pending invitations for a user (by email or user ID)
@@ -518,11 +765,11 @@ export async function getPendingInvitations(userId: string, userEmail?: string):
   const { data, error } = await query.order('created_at', { ascending: false });
 
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformContractInvitation);
 }
 
 // Get pending collaborations for a user
-export async function getPendingCollaborations(userId: string): Promise<ContractCollaborator[]> {
+export async function getPendingCollaborations(userId: string): Promise<PendingCollaboration[]> {
   const { data, error } = await supabase
     .from('contract_collaborators')
     .select('*, consent_contracts(*)')
@@ -531,41 +778,57 @@ export async function getPendingCollaborations(userId: string): Promise<Contract
     .order('created_at', { ascending: false });
 
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformPendingCollaboration);
 }
 
-// Accept a contract invitation
-export async function acceptInvitation(invitationId: string, userId: string): Promise<void> {
-  const { data: invitation, error: fetchError } = await supabase
-    .from('contract_invitations')
-    .select('*')
-    .eq('id', invitationId)
-    .single();
+export type InvitationState = 'pending' | 'accepted' | 'expired' | 'closed' | 'invalid';
 
-  if (fetchError) throw fetchError;
+export interface InvitationPreview {
+  state: InvitationState;
+  senderName: string;
+  recipientEmail: string;
+  expiresAt: string;
+  contract: {
+    encounterType: string | null;
+    contractStartTime: string | null;
+    contractDuration: number | null;
+  } | null;
+}
 
-  // Update invitation status
-  const { error: updateError } = await supabase
-    .from('contract_invitations')
-    .update({
-      status: 'accepted',
-      accepted_at: new Date().toISOString(),
-      recipient_user_id: userId,
-    })
-    .eq('id', invitationId);
+// Look up an invitation by the code in its link; works without signing in
+export async function getInvitationPreview(code: string): Promise<InvitationPreview> {
+  const { data, error } = await supabase.functions.invoke('invitation', {
+    body: { action: 'preview', code },
+  });
 
-  if (updateError) throw updateError;
+  if (error) {
+    console.error('Error loading invitation:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to load invitation'));
+  }
 
-  // Create collaborator record
-  await supabase
-    .from('contract_collaborators')
-    .insert({
-      contract_id: invitation.contract_id,
-      user_id: userId,
-      participant_type: 'pmy_user',
-      role: 'recipient',
-      status: 'reviewing',
-    });
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to load invitation');
+  }
+
+  return data.invitation;
+}
+
+// Accept a contract invitation; the code is validated server-side. Returns the contract ID.
+export async function acceptInvitation(code: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('invitation', {
+    body: { action: 'accept', code },
+  });
+
+  if (error) {
+    console.error('Error accepting invitation:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to accept invitation'));
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to accept invitation');
+  }
+
+  return data.contractId;
 }
 
 // Accept/approve collaboration
@@ -601,6 +864,120 @@ export async function rejectCollaboration(
   if (error) throw error;
 }
 
+// ================================================================
+// Encryption Keys (see src/lib/contractKeys.ts)
+// ================================================================
+
+export type DeviceKeyKind = 'device' | 'recovery';
+
+export interface DeviceKey {
+  id: string;
+  user_id: string;
+  kind: DeviceKeyKind;
+  public_key: string;
+  label?: string | null;
+  created_at?: string;
+  revoked_at?: string | null;
+}
+
+export interface PartyDeviceKey {
+  id: string;
+  user_id: string;
+  kind: DeviceKeyKind;
+  public_key: string;
+  has_envelope: boolean;
+}
+
+export interface ContractKeyEnvelope {
+  id: string;
+  contract_id: string;
+  device_key_id: string;
+  user_id: string;
+  wrapped_key: string;
+}
+
+export async function registerDeviceKey(
+  userId: string,
+  publicKey: string,
+  kind: DeviceKeyKind = 'device',
+  label?: string
+): Promise<DeviceKey> {
+  const { data, error } = await supabase
+    .from('user_device_keys')
+    .insert({ user_id: userId, public_key: publicKey, kind, label: label ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Active keys only
+export async function getDeviceKeys(userId: string): Promise<DeviceKey[]> {
+  const { data, error } = await supabase
+    .from('user_device_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function revokeDeviceKey(id: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_device_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+// Active device keys of every party to the contract
+export async function getContractPartyDeviceKeys(contractId: string): Promise<PartyDeviceKey[]> {
+  const { data, error } = await supabase
+    .rpc('contract_party_device_keys', { p_contract_id: contractId });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The current user's envelopes for a contract (RLS hides everyone else's)
+export async function getContractKeyEnvelopes(contractId: string): Promise<ContractKeyEnvelope[]> {
+  const { data, error } = await supabase
+    .from('contract_key_envelopes')
+    .select('*')
+    .eq('contract_id', contractId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getKeyEnvelopesForDevice(deviceKeyId: string): Promise<ContractKeyEnvelope[]> {
+  const { data, error } = await supabase
+    .from('contract_key_envelopes')
+    .select('*')
+    .eq('device_key_id', deviceKeyId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Envelopes another party already wrote for the same device are left alone
+export async function insertKeyEnvelopes(
+  envelopes: Pick<ContractKeyEnvelope, 'contract_id' | 'device_key_id' | 'user_id' | 'wrapped_key'>[]
+): Promise<void> {
+  if (envelopes.length === 0) return;
+
+  const { error } = await supabase
+    .from('contract_key_envelopes')
+    .upsert(envelopes, { onConflict: 'contract_id,device_key_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
 // ================================================================
 // User Contacts
 // ================================================================
@@ -613,18 +990,18 @@ export async function getUserContacts(userId: string): Promise<UserContact[]> {
     .order('created_at', { ascending: false });
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformUserContact);
 }
 
-export async function addUserContact(userId: string, contact: any): Promise<UserContact> {
+export async function addUserContact(userId: string, contact: InsertUserContact): Promise<UserContact> {
   const { data, error } = await supabase
     .from('user_contacts')
-    .insert({ ...contact, user_id: userId })
+    .insert({ ...toUserContactRow(contact), user_id: userId })
     .select()
     .single();
   
   if (error) throw error;
-  return data;
+  return transformUserContact(data);
 }
 
 export async function deleteUserContact(id: string, userId: string): Promise<boolean> {
@@ -638,6 +1015,34 @@ export async function deleteUserContact(id: string, userId: string): Promise<boo
   return true;
 }
 
+// ================================================================
+// Push Notifications (see src/lib/pushNotifications.ts)
+// ================================================================
+
+// Moves the token to the current user if another account registered it on this device
+export async function registerPushToken(
+  token: string,
+  platform: 'ios' | 'android',
+  deviceName: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('register_push_token', {
+    p_token: token,
+    p_platform: platform,
+    p_device_name: deviceName,
+  });
+
+  if (error) throw error;
+}
+
+export async function deletePushToken(token: string): Promise<void> {
+  const { error } = await supabase
+    .from('push_tokens')
+    .delete()
+    .eq('token', token);
+
+  if (error) throw error;
+}
+
 // ================================================================
 // File Uploads (Supabase Storage)
 // ================================================================
@@ -645,6 +1050,7 @@ export async function deleteUserContact(id: string, userId: string): Promise<boo
 // React Native compatible file upload types
 type UploadableFile = File | Blob | ArrayBuffer | Uint8Array | string; // string for React Native file URIs
 
+// Returns the object path within the bucket
 export async function uploadFile(
   bucket: string,
   path: string,
@@ -681,11 +1087,7 @@ export async function uploadFile(
       throw new Error(`Upload failed: ${error}`);
     }
 
-    const { data: urlData } = supabase.storage
-      .from(bucket)
-      .getPublicUrl(path);
-    
-    return urlData.publicUrl;
+    return path;
   }
 
   // For web (File/Blob)
@@ -697,30 +1099,235 @@ export async function uploadFile(
     });
   
   if (error) throw error;
-  
-  const { data: urlData } = supabase.storage
+  return data.path;
+}
+
+// Resumable uploads use the TUS protocol. Supabase's endpoint only accepts 6 MB
+// chunks (the last one may be shorter).
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+const RESUMABLE_MAX_RETRIES = 3;
+
+export interface ResumableUploadOptions {
+  contentType?: string;
+  // Upload URL from an earlier, interrupted attempt; the upload continues from
+  // wherever the server got to
+  uploadUrl?: string | null;
+  // Called once the server has created the upload, so the URL can be persisted
+  onUploadUrl?: (uploadUrl: string) => void | Promise<void>;
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+// status is the HTTP status, or 0 when the request never got a response
+export class UploadError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(`Upload failed: ${message}`);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+async function getResumableHeaders(): Promise<Record<string, string>> {
+  const session = await getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  return {
+    'Authorization': `Bearer ${session.access_token}`,
+    'apikey': process.env.EXPO_PUBLIC_SUPABASE_ANON_PUBLIC || '',
+    'Tus-Resumable': '1.0.0',
+  };
+}
+
+async function createResumableUpload(bucket: string, path: string, size: number, contentType: string): Promise<string> {
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_PROJECT_URL;
+  const metadata = { bucketName: bucket, objectName: path, contentType, cacheControl: '3600' };
+
+  const response = await fetch(`${supabaseUrl}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...await getResumableHeaders(),
+      'Upload-Length': String(size),
+      'Upload-Metadata': Object.entries(metadata)
+        .map(([key, value]) => `${key} ${bytesToBase64(utf8ToBytes(value))}`)
+        .join(','),
+      'x-upsert': 'false',
+    },
+  });
+
+  if (!response.ok) {
+    throw new UploadError(response.status, await response.text());
+  }
+
+  const location = response.headers.get('Location');
+  if (!location) throw new UploadError(response.status, 'no upload URL returned');
+  return new URL(location, supabaseUrl).toString();
+}
+
+// Returns null once the server no longer knows the upload (they expire after a day)
+async function getResumableOffset(uploadUrl: string): Promise<number | null> {
+  const response = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: await getResumableHeaders(),
+  });
+
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) throw new UploadError(response.status, `status ${response.status}`);
+  return Number(response.headers.get('Upload-Offset') ?? 0);
+}
+
+// XMLHttpRequest rather than fetch, for upload progress within a chunk
+function sendResumableChunk(
+  uploadUrl: string,
+  offset: number,
+  chunk: Uint8Array,
+  headers: Record<string, string>,
+  onProgress: (sent: number) => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    for (const [key, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(key, value);
+    }
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+    xhr.upload.onprogress = event => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status === 204 || xhr.status === 200) {
+        resolve(Number(xhr.getResponseHeader('Upload-Offset') ?? offset + chunk.length));
+      } else {
+        reject(new UploadError(xhr.status, xhr.responseText || `status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new UploadError(0, 'network error'));
+    xhr.ontimeout = () => reject(new UploadError(0, 'timed out'));
+
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Upload bytes in chunks over Supabase's TUS endpoint. Failed chunks are
+ * retried with backoff from the offset the server reports; pass the URL given
+ * to onUploadUrl back as uploadUrl to resume after the app restarts. Returns
+ * the object path within the bucket.
+ */
+export async function uploadFileResumable(
+  bucket: string,
+  path: string,
+  bytes: Uint8Array,
+  options: ResumableUploadOptions = {}
+): Promise<string> {
+  const total = bytes.length;
+  let uploadUrl = options.uploadUrl ?? null;
+  let offset = uploadUrl ? await getResumableOffset(uploadUrl) : null;
+
+  if (!uploadUrl || offset === null) {
+    uploadUrl = await createResumableUpload(bucket, path, total, options.contentType || 'application/octet-stream');
+    await options.onUploadUrl?.(uploadUrl);
+    offset = 0;
+  }
+
+  options.onProgress?.(offset, total);
+
+  let retries = 0;
+  while (offset < total) {
+    const start: number = offset;
+    try {
+      offset = await sendResumableChunk(
+        uploadUrl,
+        start,
+        bytes.slice(start, start + RESUMABLE_CHUNK_SIZE),
+        await getResumableHeaders(),
+        sent => options.onProgress?.(start + sent, total)
+      );
+      retries = 0;
+      options.onProgress?.(offset, total);
+    } catch (error) {
+      // Other client errors won't go away on retry; 409 means our offset was stale
+      const status = error instanceof UploadError ? error.status : 0;
+      const retryable = !status || status >= 500 || status === 409;
+      if (!retryable || retries >= RESUMABLE_MAX_RETRIES) throw error;
+
+      retries++;
+      await sleep(1000 * 2 ** retries);
+
+      const serverOffset = await getResumableOffset(uploadUrl);
+      if (serverOffset === null) throw error;
+      offset = serverOffset;
+    }
+  }
+
+  return path;
+}
+
+// Consent media lives in private buckets; links are minted per view and expire quickly
+export type ConsentMediaBucket = 'recordings' | 'photos';
+
+const CONSENT_MEDIA_URL_TTL_SECONDS = 5 * 60;
+
+export async function getConsentMediaUrl(
+  bucket: ConsentMediaBucket,
+  path: string,
+  expiresIn: number = CONSENT_MEDIA_URL_TTL_SECONDS
+): Promise<string> {
+  const { data, error } = await supabase.storage
     .from(bucket)
-    .getPublicUrl(data.path);
-  
-  return urlData.publicUrl;
+    .createSignedUrl(path, expiresIn);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// Consent media uploads return the object path; store it on the contract and use
+// getConsentMediaUrl() to view it. Encrypted media (see src/lib/consentMedia.ts)
+// is passed as bytes, sent as a resumable upload and stored as an opaque .enc
+// object.
+//
+// Uploads replayed by the outbox pass their item id, which makes the path
+// deterministic. Consent media can't be overwritten, so an object already at
+// that path was uploaded by an earlier attempt and its path is returned.
+async function uploadConsentMedia(
+  bucket: ConsentMediaBucket,
+  path: string,
+  file: string | Uint8Array,
+  contentType: string,
+  idempotent: boolean,
+  resumable?: ResumableUploadOptions
+): Promise<string> {
+  try {
+    return typeof file === 'string'
+      ? await uploadFile(bucket, path, file, { contentType })
+      : await uploadFileResumable(bucket, path, file, { ...resumable, contentType });
+  } catch (error: any) {
+    const exists = error?.status === 409 || error?.statusCode === '409' || /already exists/i.test(error?.message ?? '');
+    if (idempotent && exists) return path;
+    throw error;
+  }
 }
 
 export async function uploadAudioRecording(
   userId: string,
-  fileUri: string,
-  metadata: { filename: string; duration: string }
+  file: string | Uint8Array,
+  metadata: { filename: string; duration: string; id?: string },
+  resumable?: ResumableUploadOptions
 ): Promise<string> {
-  const path = `${userId}/recordings/${Date.now()}-${metadata.filename}`;
-  return uploadFile('recordings', path, fileUri, { contentType: 'audio/webm' });
+  const encrypted = typeof file !== 'string';
+  const path = `${userId}/recordings/${metadata.id ?? Date.now()}-${metadata.filename}${encrypted ? '.enc' : ''}`;
+  return uploadConsentMedia('recordings', path, file, encrypted ? 'application/octet-stream' : 'audio/webm', !!metadata.id, resumable);
 }
 
 export async function uploadPhoto(
   userId: string,
-  fileUri: string,
-  metadata: { filename: string }
+  file: string | Uint8Array,
+  metadata: { filename: string; id?: string },
+  resumable?: ResumableUploadOptions
 ): Promise<string> {
-  const path = `${userId}/photos/${Date.now()}-${metadata.filename}`;
-  return uploadFile('photos', path, fileUri, { contentType: 'image/jpeg' });
+  const encrypted = typeof file !== 'string';
+  const path = `${userId}/photos/${metadata.id ?? Date.now()}-${metadata.filename}${encrypted ? '.enc' : ''}`;
+  return uploadConsentMedia('photos', path, file, encrypted ? 'application/octet-stream' : 'image/jpeg', !!metadata.id, resumable);
 }
 
 export async function uploadProfilePicture(
@@ -732,10 +1339,17 @@ export async function uploadProfilePicture(
   const path = `${userId}/avatar.${extension}`;
 
   // Use upsert to replace existing avatar
-  return uploadFile('avatars', path, fileUri, {
+  await uploadFile('avatars', path, fileUri, {
     contentType,
     upsert: true
   });
+
+  // Avatars are the only public bucket
+  const { data: urlData } = supabase.storage
+    .from('avatars')
+    .getPublicUrl(path);
+
+  return urlData.publicUrl;
 }
 
 export async function deleteProfilePicture(userId: string): Promise<boolean> {
@@ -849,6 +1463,54 @@ export async function sendAmendmentNotificationEmail(
   });
 }
 
+// ================================================================
+// Biometric Consent Credentials (via Supabase Edge Functions)
+// ================================================================
+
+/**
+ * Register this device's public key for biometric consent
+ */
+export async function registerBiometricCredential(
+  credentialId: string,
+  publicKey: string,
+  deviceName?: string
+): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('biometric-credential', {
+    body: { action: 'register', credentialId, publicKey, deviceName },
+  });
+
+  if (error) {
+    console.error('Failed to register biometric credential:', error);
+    throw new Error(`Failed to register biometric credential: ${error.message}`);
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to register biometric credential');
+  }
+}
+
+/**
+ * Submit a signed consent assertion. The server verifies the signature and
+ * counter, records the credential on the contract and activates it.
+ */
+export async function verifyBiometricConsent(
+  contractId: string,
+  assertion: { credentialId: string; counter: number; signature: string }
+): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('biometric-credential', {
+    body: { action: 'verify_consent', contractId, ...assertion },
+  });
+
+  if (error) {
+    console.error('Failed to verify biometric consent:', error);
+    throw new Error(`Biometric verification failed: ${error.message}`);
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || 'Biometric verification failed');
+  }
+}
+
 // ================================================================
 // Identity Verification (Stripe Identity)
 // ================================================================
@@ -971,7 +1633,7 @@ export async function confirmVerificationPayment(paymentIntentId: string): Promi
 /**
  * Get user's verification history
  */
-export async function getVerificationHistory(userId: string): Promise<any[]> {
+export async function getVerificationHistory(userId: string): Promise<AccountVerification[]> {
   const { data, error } = await supabase
     .from('account_verifications')
     .select('*')
@@ -979,6 +1641,6 @@ export async function getVerificationHistory(userId: string): Promise<any[]> {
     .order('created_at', { ascending: false });
 
   if (error) throw error;
-  return data || [];
+  return (data || []).map(transformAccountVerification);
 }
 
@@ -0,0 +1,476 @@
+/**
+ * Row Mappers
+ *
+ * Convert between the rows Supabase stores (snake_case columns) and the
+ * camelCase types in shared/types.ts. Every getter in api.ts returns mapped
+ * values and every insert/update is mapped back to columns here, so screens
+ * never see column names.
+ *
+ * Flags stored as TEXT 'true'/'false' (is_verified, is_read, is_collaborative,
+ * ...) become booleans.
+ */
+
+import type {
+  University,
+  StateLaw,
+  UserProfile,
+  UpdateUserProfile,
+  AccountVerification,
+  AccountDeletionRequest,
+  DataExport,
+  ConsentRecording,
+  InsertConsentRecording,
+  ConsentContract,
+  InsertConsentContract,
+  UpdateConsentContract,
+  ContractCollaborator,
+  PendingCollaboration,
+  ContractInvitation,
+  ContractVersion,
+  ContractAmendment,
+  InsertContractAmendment,
+  Notification,
+  NotificationPreferences,
+  UserContact,
+  InsertUserContact,
+} from '@shared/types';
+
+type Row = Record<string, any>;
+
+// Realtime payloads may already carry real booleans
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+function fromBoolean(value: boolean): 'true' | 'false' {
+  return value ? 'true' : 'false';
+}
+
+// Field to column, for every field of T; listing them all is what keeps a new
+// field from being dropped silently
+type Columns<T> = Record<keyof Required<T>, string>;
+
+// Copy the fields that are set onto their columns
+function toRow<T extends object>(values: T, columns: Columns<T>): Row {
+  const row: Row = {};
+  for (const [field, column] of Object.entries(columns) as [keyof T, string][]) {
+    if (values[field] !== undefined) row[column] = values[field];
+  }
+  return row;
+}
+
+function fromRow<T extends object>(row: Row, columns: Columns<T>): T {
+  const values: Partial<T> = {};
+  for (const [field, column] of Object.entries(columns) as [keyof T, string][]) {
+    if (row[column] !== undefined) values[field] = row[column];
+  }
+  return values as T;
+}
+
+// ================================================================
+// Reference Data
+// ================================================================
+
+export function transformUniversity(data: Row): University {
+  return {
+    id: data.id,
+    name: data.name,
+    state: data.state,
+    domain: data.domain,
+    titleIXInfo: data.title_ix_info,
+    titleIXUrl: data.title_ix_url,
+    logoUrl: data.logo_url,
+    lastUpdated: data.last_updated,
+    verifiedAt: data.verified_at,
+  };
+}
+
+export function transformStateLaw(data: Row): StateLaw {
+  return {
+    id: data.id,
+    stateCode: data.state_code,
+    stateName: data.state_name,
+    consentLawInfo: data.consent_law_info,
+    ageOfConsent: data.age_of_consent,
+    romeoJulietLaw: data.romeo_juliet_law,
+    affirmativeConsentRequired: data.affirmative_consent_required,
+    reportingRequirements: data.reporting_requirements,
+    sourceUrl: data.source_url,
+    lastUpdated: data.last_updated,
+    verifiedAt: data.verified_at,
+  };
+}
+
+// ================================================================
+// Accounts
+// ================================================================
+
+export function transformUserProfile(data: Row): UserProfile {
+  return {
+    id: data.id,
+    username: data.username,
+    firstName: data.first_name,
+    lastName: data.last_name,
+    profilePictureUrl: data.profile_picture_url,
+    bio: data.bio,
+    websiteUrl: data.website_url,
+    savedSignature: data.saved_signature,
+    savedSignatureType: data.saved_signature_type,
+    savedSignatureText: data.saved_signature_text,
+    dataRetentionPolicy: data.data_retention_policy,
+    stripeCustomerId: data.stripe_customer_id,
+    referralCode: data.referral_code,
+    referralCount: data.referral_count,
+    referredBy: data.referred_by,
+    defaultUniversityId: data.default_university_id,
+    stateOfResidence: data.state_of_residence,
+    defaultEncounterType: data.default_encounter_type,
+    defaultContractDuration: data.default_contract_duration,
+    isVerified: toBoolean(data.is_verified),
+    verificationProvider: data.verification_provider,
+    verifiedAt: data.verified_at,
+    verificationLevel: data.verification_level,
+    emailNotificationsEnabled: toBoolean(data.email_notifications_enabled),
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+export function toUserProfileRow(updates: UpdateUserProfile): Row {
+  const row = toRow(updates, {
+    username: 'username',
+    firstName: 'first_name',
+    lastName: 'last_name',
+    profilePictureUrl: 'profile_picture_url',
+    bio: 'bio',
+    websiteUrl: 'website_url',
+    savedSignature: 'saved_signature',
+    savedSignatureType: 'saved_signature_type',
+    savedSignatureText: 'saved_signature_text',
+    dataRetentionPolicy: 'data_retention_policy',
+    defaultUniversityId: 'default_university_id',
+    stateOfResidence: 'state_of_residence',
+    defaultEncounterType: 'default_encounter_type',
+    defaultContractDuration: 'default_contract_duration',
+    emailNotificationsEnabled: 'email_notifications_enabled',
+  });
+  if (updates.emailNotificationsEnabled !== undefined) {
+    row.email_notifications_enabled = fromBoolean(updates.emailNotificationsEnabled);
+  }
+  return row;
+}
+
+export function transformAccountVerification(data: Row): AccountVerification {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    provider: data.provider,
+    sessionId: data.session_id,
+    status: data.status,
+    paymentStatus: data.payment_status,
+    amount: data.amount,
+    failureReason: data.failure_reason,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+    completedAt: data.completed_at,
+  };
+}
+
+export function transformAccountDeletionRequest(data: Row): AccountDeletionRequest {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    requestedAt: data.requested_at,
+    scheduledFor: data.scheduled_for,
+  };
+}
+
+export function transformDataExport(data: Row): DataExport {
+  return {
+    id: data.id,
+    status: data.status,
+    sizeBytes: data.size_bytes,
+    error: data.error,
+    requestedAt: data.requested_at,
+    completedAt: data.completed_at,
+    expiresAt: data.expires_at,
+  };
+}
+
+export function transformUserContact(data: Row): UserContact {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    contactUsername: data.contact_username,
+    nickname: data.nickname,
+    createdAt: data.created_at,
+  };
+}
+
+export function toUserContactRow(contact: InsertUserContact): Row {
+  return toRow(contact, {
+    contactUsername: 'contact_username',
+    nickname: 'nickname',
+  });
+}
+
+// ================================================================
+// Recordings
+// ================================================================
+
+export function transformConsentRecording(data: Row): ConsentRecording {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    universityId: data.university_id,
+    encounterType: data.encounter_type,
+    parties: data.parties,
+    filename: data.filename,
+    fileUrl: data.file_url,
+    duration: data.duration,
+    createdAt: data.created_at,
+  };
+}
+
+export function toConsentRecordingRow(recording: InsertConsentRecording): Row {
+  return toRow(recording, {
+    userId: 'user_id',
+    universityId: 'university_id',
+    encounterType: 'encounter_type',
+    parties: 'parties',
+    filename: 'filename',
+    fileUrl: 'file_url',
+    duration: 'duration',
+  });
+}
+
+// ================================================================
+// Contracts
+// ================================================================
+
+export function transformConsentContract(data: Row): ConsentContract {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    universityId: data.university_id,
+    encounterType: data.encounter_type,
+    parties: data.parties,
+    contractStartTime: data.contract_start_time,
+    contractDuration: data.contract_duration,
+    contractEndTime: data.contract_end_time,
+    method: data.method,
+    contractText: data.contract_text,
+    signature1: data.signature_1,
+    signature2: data.signature_2,
+    photoUrl: data.photo_url ?? null,
+    audioUrl: data.audio_url ?? null,
+    credentialId: data.credential_id,
+    credentialPublicKey: data.credential_public_key,
+    credentialCounter: data.credential_counter,
+    credentialDeviceType: data.credential_device_type,
+    credentialBackedUp: data.credential_backed_up == null ? null : toBoolean(data.credential_backed_up),
+    credentialSignature: data.credential_signature ?? null,
+    credentialSignedVersion: data.credential_signed_version ?? null,
+    authenticatedAt: data.authenticated_at,
+    verifiedAt: data.verified_at,
+    status: data.status,
+    revokedAt: data.revoked_at ?? null,
+    revokedBy: data.revoked_by ?? null,
+    revocationReason: data.revocation_reason ?? null,
+    isCollaborative: toBoolean(data.is_collaborative),
+    lastEditedBy: data.last_edited_by,
+    intimateActs: data.intimate_acts,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+const CONSENT_CONTRACT_COLUMNS: Columns<InsertConsentContract> = {
+  id: 'id',
+  userId: 'user_id',
+  universityId: 'university_id',
+  encounterType: 'encounter_type',
+  parties: 'parties',
+  contractStartTime: 'contract_start_time',
+  contractDuration: 'contract_duration',
+  contractEndTime: 'contract_end_time',
+  method: 'method',
+  contractText: 'contract_text',
+  signature1: 'signature_1',
+  signature2: 'signature_2',
+  photoUrl: 'photo_url',
+  audioUrl: 'audio_url',
+  credentialId: 'credential_id',
+  credentialPublicKey: 'credential_public_key',
+  credentialCounter: 'credential_counter',
+  credentialDeviceType: 'credential_device_type',
+  credentialBackedUp: 'credential_backed_up',
+  authenticatedAt: 'authenticated_at',
+  verifiedAt: 'verified_at',
+  status: 'status',
+  isCollaborative: 'is_collaborative',
+  intimateActs: 'intimate_acts',
+};
+
+export function toConsentContractRow(contract: InsertConsentContract | UpdateConsentContract): Row {
+  const row = toRow<InsertConsentContract>(contract, CONSENT_CONTRACT_COLUMNS);
+  if (contract.isCollaborative !== undefined) {
+    row.is_collaborative = fromBoolean(contract.isCollaborative);
+  }
+  if (contract.credentialBackedUp != null) {
+    row.credential_backed_up = fromBoolean(contract.credentialBackedUp);
+  }
+  return row;
+}
+
+// For inserts queued as rows by earlier versions of the outbox
+export function toConsentContractInsert(row: Row): InsertConsentContract {
+  const contract = fromRow<InsertConsentContract>(row, CONSENT_CONTRACT_COLUMNS);
+  if (row.is_collaborative !== undefined) {
+    contract.isCollaborative = toBoolean(row.is_collaborative);
+  }
+  if (row.credential_backed_up != null) {
+    contract.credentialBackedUp = toBoolean(row.credential_backed_up);
+  }
+  return contract;
+}
+
+export function transformContractVersion(data: Row): ContractVersion {
+  return {
+    id: data.id,
+    contractId: data.contract_id,
+    version: data.version,
+    event: data.event,
+    snapshot: data.snapshot,
+    previousHash: data.previous_hash,
+    contentHash: data.content_hash,
+    createdBy: data.created_by,
+    createdAt: data.created_at,
+  };
+}
+
+// ================================================================
+// Collaboration
+// ================================================================
+
+export function transformContractCollaborator(data: Row): ContractCollaborator {
+  return {
+    id: data.id,
+    contractId: data.contract_id,
+    userId: data.user_id,
+    legalName: data.legal_name,
+    contactInfo: data.contact_info,
+    participantType: data.participant_type,
+    role: data.role,
+    status: data.status,
+    lastViewedAt: data.last_viewed_at,
+    approvedAt: data.approved_at,
+    rejectedAt: data.rejected_at,
+    rejectionReason: data.rejection_reason,
+    confirmedAt: data.confirmed_at,
+    createdAt: data.created_at,
+  };
+}
+
+// Collaborator rows selected with the contract embedded as consent_contracts
+export function transformPendingCollaboration(data: Row): PendingCollaboration {
+  return {
+    ...transformContractCollaborator(data),
+    contract: data.consent_contracts ? transformConsentContract(data.consent_contracts) : null,
+  };
+}
+
+export function transformContractInvitation(data: Row): ContractInvitation {
+  return {
+    id: data.id,
+    contractId: data.contract_id,
+    senderId: data.sender_id,
+    recipientEmail: data.recipient_email,
+    recipientUserId: data.recipient_user_id,
+    status: data.status,
+    expiresAt: data.expires_at,
+    acceptedAt: data.accepted_at,
+    deliveryStatus: data.delivery_status,
+    deliveryError: data.delivery_error,
+    sendCount: data.send_count,
+    lastSentAt: data.last_sent_at,
+    deliveredAt: data.delivered_at,
+    bouncedAt: data.bounced_at,
+    createdAt: data.created_at,
+  };
+}
+
+// ================================================================
+// Amendments
+// ================================================================
+
+export function transformContractAmendment(data: Row): ContractAmendment {
+  return {
+    id: data.id,
+    contractId: data.contract_id,
+    requestedBy: data.requested_by,
+    type: data.type,
+    description: data.description,
+    newValue: data.new_value,
+    status: data.status,
+    approvers: data.approvers ?? [],
+    approvedAt: data.approved_at,
+    rejectedAt: data.rejected_at,
+    rejectedBy: data.rejected_by,
+    rejectionReason: data.rejection_reason,
+    previousValue: data.previous_value,
+    appliedValue: data.applied_value,
+    appliedAt: data.applied_at,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+const CONTRACT_AMENDMENT_COLUMNS: Columns<InsertContractAmendment> = {
+  id: 'id',
+  contractId: 'contract_id',
+  requestedBy: 'requested_by',
+  type: 'type',
+  description: 'description',
+  newValue: 'new_value',
+};
+
+export function toContractAmendmentRow(amendment: InsertContractAmendment): Row {
+  return toRow(amendment, CONTRACT_AMENDMENT_COLUMNS);
+}
+
+// For requests queued as rows by earlier versions of the outbox
+export function toContractAmendmentInsert(row: Row): InsertContractAmendment {
+  return fromRow<InsertContractAmendment>(row, CONTRACT_AMENDMENT_COLUMNS);
+}
+
+// ================================================================
+// Notifications
+// ================================================================
+
+export function transformNotification(data: Row): Notification {
+  return {
+    id: data.id,
+    userId: data.user_id,
+    type: data.type,
+    title: data.title,
+    message: data.message,
+    isRead: toBoolean(data.is_read),
+    relatedContractId: data.related_contract_id,
+    relatedAmendmentId: data.related_amendment_id,
+    createdAt: data.created_at,
+  };
+}
+
+export function transformNotificationPreferences(data: Row): NotificationPreferences {
+  return {
+    userId: data.user_id,
+    channels: data.channels ?? {},
+    quietHoursEnabled: data.quiet_hours_enabled,
+    // Postgres returns TIME as HH:MM:SS
+    quietHoursStart: data.quiet_hours_start.slice(0, 5),
+    quietHoursEnd: data.quiet_hours_end.slice(0, 5),
+    timeZone: data.time_zone,
+    updatedAt: data.updated_at,
+  };
+}
@@ -1,10 +1,22 @@
 /**
  * Storage Service for Expo
- * 
- * Uses Expo SecureStore for encrypted storage on iOS/Android
+ *
+ * Uses Expo SecureStore for encrypted storage on iOS/Android.
+ *
+ * SecureStore rejects (Android) or warns about (iOS) values over 2048 bytes, and
+ * the consent flow state (SVG signatures) and the Supabase session both outgrow
+ * that. Values are therefore sealed with a per-install key (XChaCha20-Poly1305,
+ * bound to the storage key) and split across numbered SecureStore entries. An
+ * index of stored keys and their chunk counts makes clear() possible. A torn
+ * write leaves chunks that fail to authenticate, which reads back as missing
+ * rather than as a corrupted value.
  */
 
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { base64ToBytes, bytesToBase64 } from '../lib/encoding';
 
 export interface StorageService {
   getItem(key: string): Promise<string | null>;
@@ -13,10 +25,91 @@ export interface StorageService {
   clear(): Promise<void>;
 }
 
-class ExpoSecureStorageService implements StorageService {
+const INDEX_KEY = 'pmy_storage_index';
+const DATA_KEY = 'pmy_storage_key';
+// Base64 characters per SecureStore entry, safely under the 2048-byte limit
+const CHUNK_SIZE = 1800;
+const NONCE_LENGTH = 24;
+
+// Logical key -> number of chunks
+type StorageIndex = Record<string, number>;
+
+function chunkKey(key: string, index: number): string {
+  return `${key}.chunk${index}`;
+}
+
+class ChunkedSecureStorageService implements StorageService {
+  private dataKey: Uint8Array | null = null;
+  private index: StorageIndex | null = null;
+  // Operations are serialized so reads never see half a write and writes can't clobber the index
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async getDataKey(): Promise<Uint8Array> {
+    if (this.dataKey) return this.dataKey;
+
+    const stored = await SecureStore.getItemAsync(DATA_KEY);
+    if (stored) {
+      this.dataKey = hexToBytes(stored);
+    } else {
+      this.dataKey = Crypto.getRandomBytes(32);
+      await SecureStore.setItemAsync(DATA_KEY, bytesToHex(this.dataKey));
+    }
+    return this.dataKey;
+  }
+
+  private async getIndex(): Promise<StorageIndex> {
+    if (this.index) return this.index;
+
+    const raw = await SecureStore.getItemAsync(INDEX_KEY);
+    try {
+      this.index = raw ? JSON.parse(raw) as StorageIndex : {};
+    } catch {
+      this.index = {};
+    }
+    return this.index;
+  }
+
+  private async saveIndex(index: StorageIndex): Promise<void> {
+    this.index = index;
+    await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify(index));
+  }
+
+  private async deleteChunks(key: string, from: number, to: number): Promise<void> {
+    for (let i = from; i < to; i++) {
+      await SecureStore.deleteItemAsync(chunkKey(key, i));
+    }
+  }
+
   async getItem(key: string): Promise<string | null> {
+    return this.enqueue(() => this.read(key));
+  }
+
+  private async read(key: string): Promise<string | null> {
     try {
-      return await SecureStore.getItemAsync(key);
+      const index = await this.getIndex();
+      const count = index[key];
+
+      // Written before values were chunked
+      if (count === undefined) {
+        return await SecureStore.getItemAsync(key);
+      }
+
+      let sealed = '';
+      for (let i = 0; i < count; i++) {
+        const chunk = await SecureStore.getItemAsync(chunkKey(key, i));
+        if (chunk === null) return null;
+        sealed += chunk;
+      }
+
+      const bytes = base64ToBytes(sealed);
+      const cipher = xchacha20poly1305(await this.getDataKey(), bytes.subarray(0, NONCE_LENGTH), utf8ToBytes(key));
+      return bytesToUtf8(cipher.decrypt(bytes.subarray(NONCE_LENGTH)));
     } catch (e) {
       console.error('[SecureStore] getItem failed:', e);
       return null;
@@ -24,28 +117,74 @@ class ExpoSecureStorageService implements StorageService {
   }
 
   async setItem(key: string, value: string): Promise<void> {
-    try {
-      await SecureStore.setItemAsync(key, value);
-    } catch (e) {
-      console.error('[SecureStore] setItem failed:', e);
-      throw e;
-    }
+    return this.enqueue(async () => {
+      try {
+        const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+        const cipher = xchacha20poly1305(await this.getDataKey(), nonce, utf8ToBytes(key));
+        const sealed = bytesToBase64(concatBytes(nonce, cipher.encrypt(utf8ToBytes(value))));
+
+        const chunks: string[] = [];
+        for (let i = 0; i < sealed.length; i += CHUNK_SIZE) {
+          chunks.push(sealed.slice(i, i + CHUNK_SIZE));
+        }
+
+        for (let i = 0; i < chunks.length; i++) {
+          await SecureStore.setItemAsync(chunkKey(key, i), chunks[i]);
+        }
+
+        const index = await this.getIndex();
+        const previousCount = index[key];
+        await this.saveIndex({ ...index, [key]: chunks.length });
+
+        if (previousCount === undefined) {
+          await SecureStore.deleteItemAsync(key);
+        } else {
+          await this.deleteChunks(key, chunks.length, previousCount);
+        }
+      } catch (e) {
+        console.error('[SecureStore] setItem failed:', e);
+        throw e;
+      }
+    });
   }
 
   async removeItem(key: string): Promise<void> {
-    try {
-      await SecureStore.deleteItemAsync(key);
-    } catch (e) {
-      console.error('[SecureStore] removeItem failed:', e);
-    }
+    return this.enqueue(async () => {
+      try {
+        const index = await this.getIndex();
+        const count = index[key];
+        if (count !== undefined) {
+          const { [key]: _removed, ...rest } = index;
+          await this.saveIndex(rest);
+          await this.deleteChunks(key, 0, count);
+        }
+        await SecureStore.deleteItemAsync(key);
+      } catch (e) {
+        console.error('[SecureStore] removeItem failed:', e);
+      }
+    });
   }
 
+  // Removes every value written through this service, and the key that sealed them
   async clear(): Promise<void> {
-    // SecureStore doesn't have a clear method, so we'd need to track keys
-    // For now, just log a warning
-    console.warn('[SecureStore] clear() not implemented - use removeItem for specific keys');
+    return this.enqueue(async () => {
+      try {
+        const index = await this.getIndex();
+        await this.saveIndex({});
+        for (const [key, count] of Object.entries(index)) {
+          await this.deleteChunks(key, 0, count);
+          await SecureStore.deleteItemAsync(key);
+        }
+        await SecureStore.deleteItemAsync(INDEX_KEY);
+        await SecureStore.deleteItemAsync(DATA_KEY);
+        this.index = null;
+        this.dataKey = null;
+      } catch (e) {
+        console.error('[SecureStore] clear failed:', e);
+        throw e;
+      }
+    });
   }
 }
 
-export const storage: StorageService = new ExpoSecureStorageService();
-
+export const storage: StorageService = new ChunkedSecureStorageService();
@@ -0,0 +1,80 @@
+// Shared email delivery for edge functions
+// Supports SendGrid or Resend as the email provider, chosen by EMAIL_PROVIDER
+
+export interface EmailRequest {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  from?: string;
+  replyTo?: string;
+}
+
+export async function sendWithResend(email: EmailRequest): Promise<Response> {
+  const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  if (!RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY not configured");
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+    },
+    body: JSON.stringify({
+      from: email.from || "PMY <noreply@pmy.app>",
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      reply_to: email.replyTo,
+    }),
+  });
+
+  return response;
+}
+
+export async function sendWithSendGrid(email: EmailRequest): Promise<Response> {
+  const SENDGRID_API_KEY = Deno.env.get("SENDGRID_API_KEY");
+  if (!SENDGRID_API_KEY) {
+    throw new Error("SENDGRID_API_KEY not configured");
+  }
+
+  const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${SENDGRID_API_KEY}`,
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: email.to }] }],
+      from: { email: email.from || "noreply@pmy.app", name: "PMY" },
+      subject: email.subject,
+      content: [
+        { type: "text/plain", value: email.text || "" },
+        { type: "text/html", value: email.html },
+      ],
+      reply_to: email.replyTo ? { email: email.replyTo } : undefined,
+    }),
+  });
+
+  return response;
+}
+
+/**
+ * Send with the configured provider (prefer Resend, fallback to SendGrid)
+ */
+export function sendEmail(email: EmailRequest): Promise<Response> {
+  const emailProvider = Deno.env.get("EMAIL_PROVIDER") || "resend";
+  return emailProvider === "sendgrid" ? sendWithSendGrid(email) : sendWithResend(email);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,18 @@
+// Invitation codes for email invite links
+// Codes are 256 bits from the platform CSPRNG, base64url encoded. Only the hex
+// SHA-256 of a code is stored (contract_invitations.invitation_code_hash).
+
+import { encodeBase64Url } from "jsr:@std/encoding@1/base64url";
+import { encodeHex } from "jsr:@std/encoding@1/hex";
+
+const CODE_BYTES = 32;
+
+export function generateInvitationCode(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(CODE_BYTES)));
+}
+
+// Must match the hash accept_contract_invitation() computes in SQL
+export async function hashInvitationCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(code));
+  return encodeHex(new Uint8Array(digest));
+}
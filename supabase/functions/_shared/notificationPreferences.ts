@@ -0,0 +1,50 @@
+// Shared checks against users' notification preferences and quiet hours
+// The rules live in notification_allowed() (see 20261019114000_notification_preferences.sql);
+// these ask the database so every dispatcher applies them the same way.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type NotificationChannel = "in_app" | "email" | "push";
+
+/**
+ * Whether a notification of this type may reach the user on this channel now.
+ * Fails open: a consent event going out is better than one silently dropped.
+ */
+export async function isNotificationAllowed(
+  supabase: SupabaseClient,
+  userId: string,
+  type: string,
+  channel: NotificationChannel,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("notification_allowed", {
+    p_user_id: userId,
+    p_type: type,
+    p_channel: channel,
+  });
+
+  if (error) {
+    console.error("Failed to check notification preferences:", error);
+    return true;
+  }
+  return data !== false;
+}
+
+/**
+ * Same check for an email address, which may not belong to an account
+ */
+export async function isEmailAllowed(
+  supabase: SupabaseClient,
+  email: string,
+  type: string,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("notification_allowed_for_email", {
+    p_email: email,
+    p_type: type,
+  });
+
+  if (error) {
+    console.error("Failed to check notification preferences:", error);
+    return true;
+  }
+  return data !== false;
+}
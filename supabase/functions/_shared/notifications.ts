@@ -0,0 +1,96 @@
+// Shared helpers for creating in-app notifications from edge functions
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Template variables for each notification type, matching required_vars in the
+// notification_templates table (20261019115000_server_side_notifications.sql
+// and later migrations). Most notifications are
+// created by database triggers; edge functions use notifyUsers() for events
+// the database doesn't see.
+export interface NotificationVars {
+  contract_invitation: { sender_name: string };
+  invitation_accepted: { recipient: string };
+  contract_approved: { party_name: string };
+  contract_rejected: { party_name: string; reason?: string | null };
+  amendment_requested: { requester_name: string };
+  amendment_approved: Record<string, never>;
+  amendment_rejected: { rejecter_name: string; reason?: string | null };
+  contract_paused: { actor_name: string };
+  contract_resumed: { actor_name: string };
+  contract_revoked: { revoker_name: string };
+  contract_expired: Record<string, never>;
+  verification_complete: Record<string, never>;
+  verification_failed: { reason: string };
+  retention_warning: { summary: string; purge_date: string };
+  party_account_deleted: { party_name: string };
+  data_export_ready: { expires_on: string };
+  data_export_failed: Record<string, never>;
+}
+
+export type NotificationType = keyof NotificationVars;
+
+export interface NotificationRelations {
+  contractId?: string | null;
+  amendmentId?: string | null;
+}
+
+/**
+ * Users who are party to a contract: the owner plus every collaborator who has
+ * joined it. Mirrors is_contract_party() in the database.
+ */
+export async function getContractPartyIds(
+  supabase: SupabaseClient,
+  contractId: string,
+  ownerId?: string,
+): Promise<string[]> {
+  let owner = ownerId;
+  if (!owner) {
+    const { data: contract } = await supabase
+      .from("consent_contracts")
+      .select("user_id")
+      .eq("id", contractId)
+      .single();
+    owner = contract?.user_id;
+  }
+
+  const { data: collaborators } = await supabase
+    .from("contract_collaborators")
+    .select("user_id")
+    .eq("contract_id", contractId)
+    .in("status", ["reviewing", "approved"])
+    .not("user_id", "is", null);
+
+  const ids = new Set<string>();
+  if (owner) ids.add(owner);
+  for (const collaborator of collaborators || []) {
+    ids.add(collaborator.user_id);
+  }
+  return [...ids];
+}
+
+/**
+ * Create the same notification for each user; the database renders the title
+ * and message from the type's template
+ */
+export async function notifyUsers<T extends NotificationType>(
+  supabase: SupabaseClient,
+  userIds: string[],
+  type: T,
+  vars: NotificationVars[T],
+  related: NotificationRelations = {},
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { error } = await supabase.rpc("notify_users", {
+    p_user_ids: userIds,
+    p_type: type,
+    p_vars: vars,
+    p_contract_id: related.contractId ?? null,
+    p_amendment_id: related.amendmentId ?? null,
+  });
+
+  if (error) {
+    console.error("Failed to create notifications:", error);
+    throw error;
+  }
+}
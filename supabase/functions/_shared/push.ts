@@ -0,0 +1,77 @@
+// Shared push delivery for edge functions
+// Sends through the Expo push service, or logs the messages instead when
+// PUSH_PROVIDER=log (the local stand-in for development, where devices and
+// Expo credentials usually aren't available)
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  sound?: "default" | null;
+  channelId?: string;
+  categoryId?: string;
+}
+
+// One ticket per message, in the same order
+export interface PushTicket {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Expo accepts at most 100 messages per request
+const EXPO_BATCH_SIZE = 100;
+
+export async function sendWithExpo(messages: PushMessage[]): Promise<PushTicket[]> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+  // Only needed when enhanced push security is enabled for the project
+  const accessToken = Deno.env.get("EXPO_ACCESS_TOKEN");
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  const tickets: PushTicket[] = [];
+  for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+    const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(batch),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Expo push request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    tickets.push(...(result.data as PushTicket[]));
+  }
+  return tickets;
+}
+
+export function sendWithLog(messages: PushMessage[]): Promise<PushTicket[]> {
+  for (const message of messages) {
+    console.log(`[push:log] to=${message.to} title="${message.title}" data=${JSON.stringify(message.data)}`);
+  }
+  return Promise.resolve(messages.map(() => ({ status: "ok" as const, id: crypto.randomUUID() })));
+}
+
+/**
+ * Send with the configured provider (Expo unless PUSH_PROVIDER=log)
+ */
+export function sendPush(messages: PushMessage[]): Promise<PushTicket[]> {
+  if (messages.length === 0) return Promise.resolve([]);
+  const provider = Deno.env.get("PUSH_PROVIDER") || "expo";
+  return provider === "log" ? sendWithLog(messages) : sendWithExpo(messages);
+}
+
+// The device uninstalled the app or revoked permission; its token is dead
+export function isUnregisteredDevice(ticket: PushTicket): boolean {
+  return ticket.status === "error" && ticket.details?.error === "DeviceNotRegistered";
+}
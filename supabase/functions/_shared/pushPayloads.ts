@@ -0,0 +1,161 @@
+// Push payloads for each notification type
+// Pushes pass through Apple and Google, so they carry no contract content: a
+// fixed title and body per type, plus a deep link into the app. The app opens
+// data.url when the push is tapped; amendments are reviewed on their contract's
+// screen, so amendment pushes open the contract.
+
+export interface NotificationRow {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  related_contract_id: string | null;
+  related_amendment_id: string | null;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  data: {
+    url: string;
+    type: string;
+    notificationId: string;
+    contractId: string | null;
+    amendmentId: string | null;
+  };
+  // Android notification channel (see src/lib/pushNotifications.ts)
+  channelId: string;
+}
+
+type LinkTarget = "contract" | "inbox" | "notifications" | "data-export";
+
+interface PushTemplate {
+  title: string;
+  body: string;
+  link: LinkTarget;
+}
+
+const APP_SCHEME = "pmy://";
+
+const PUSH_TEMPLATES: Record<string, PushTemplate> = {
+  contract_invitation: {
+    title: "New Contract Invitation",
+    body: "You've been invited to review a consent contract.",
+    link: "inbox",
+  },
+  invitation_accepted: {
+    title: "Invitation Accepted",
+    body: "Someone joined a consent contract you shared.",
+    link: "contract",
+  },
+  contract_approved: {
+    title: "Contract Approved",
+    body: "A party approved a consent contract you shared.",
+    link: "contract",
+  },
+  contract_rejected: {
+    title: "Contract Declined",
+    body: "A party declined a consent contract you shared.",
+    link: "contract",
+  },
+  amendment_requested: {
+    title: "Amendment Requested",
+    body: "A change to one of your consent contracts needs your approval.",
+    link: "contract",
+  },
+  amendment_approved: {
+    title: "Amendment Approved",
+    body: "An amendment was approved and applied to your contract.",
+    link: "contract",
+  },
+  amendment_rejected: {
+    title: "Amendment Rejected",
+    body: "An amendment to one of your consent contracts was rejected.",
+    link: "contract",
+  },
+  contract_paused: {
+    title: "Contract Paused",
+    body: "A consent contract you're part of has been paused.",
+    link: "contract",
+  },
+  contract_resumed: {
+    title: "Contract Resumed",
+    body: "A consent contract you're part of has been resumed.",
+    link: "contract",
+  },
+  contract_revoked: {
+    title: "Consent Withdrawn",
+    body: "A party has withdrawn consent on one of your contracts.",
+    link: "contract",
+  },
+  contract_expired: {
+    title: "Contract Completed",
+    body: "A consent contract you're part of has reached its end time.",
+    link: "contract",
+  },
+  verification_complete: {
+    title: "Identity Verified",
+    body: "Your identity has been verified.",
+    link: "notifications",
+  },
+  verification_failed: {
+    title: "Verification Failed",
+    body: "Your identity verification didn't go through.",
+    link: "notifications",
+  },
+  retention_warning: {
+    title: "Data Scheduled for Deletion",
+    body: "Some of your consent data will soon be deleted under its retention policy.",
+    link: "notifications",
+  },
+  party_account_deleted: {
+    title: "Account Deleted",
+    body: "Someone you shared contracts with has deleted their account.",
+    link: "notifications",
+  },
+  data_export_ready: {
+    title: "Data Export Ready",
+    body: "Your data export is ready to download.",
+    link: "data-export",
+  },
+  data_export_failed: {
+    title: "Data Export Failed",
+    body: "We couldn't create your data export. Please try again.",
+    link: "data-export",
+  },
+};
+
+function buildUrl(link: LinkTarget, notification: NotificationRow): string {
+  if (link === "contract" && notification.related_contract_id) {
+    return `${APP_SCHEME}contracts/${notification.related_contract_id}`;
+  }
+  if (link === "inbox") {
+    return `${APP_SCHEME}contracts?tab=inbox`;
+  }
+  if (link === "data-export") {
+    return `${APP_SCHEME}profile/data-export`;
+  }
+  return `${APP_SCHEME}profile/notifications`;
+}
+
+export function buildPushPayload(notification: NotificationRow): PushPayload {
+  // Unknown types fall back to the notification's own (server-written) text
+  const template = PUSH_TEMPLATES[notification.type] ?? {
+    title: notification.title,
+    body: notification.message,
+    link: notification.related_contract_id ? "contract" : "notifications",
+  };
+
+  return {
+    title: template.title,
+    body: template.body,
+    data: {
+      url: buildUrl(template.link, notification),
+      type: notification.type,
+      notificationId: notification.id,
+      contractId: notification.related_contract_id,
+      amendmentId: notification.related_amendment_id,
+    },
+    channelId: "contract-events",
+  };
+}
@@ -0,0 +1,68 @@
+// Removes storage objects queued in storage_deletion_queue
+// (see 20261019116000_data_retention.sql). Database jobs can't call the
+// Storage API, so they queue object paths and an edge function drains them.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface QueuedObject {
+  id: string;
+  bucket: string;
+  path: string;
+  attempts: number;
+}
+
+// Objects that keep failing are left in the queue for someone to look at
+const MAX_ATTEMPTS = 5;
+
+export async function processStorageDeletions(
+  supabase: SupabaseClient,
+  limit = 500,
+): Promise<{ removed: number; failed: number }> {
+  const { data, error } = await supabase
+    .from("storage_deletion_queue")
+    .select("id, bucket, path, attempts")
+    .lt("attempts", MAX_ATTEMPTS)
+    .order("created_at")
+    .limit(limit);
+
+  if (error) throw error;
+
+  const byBucket = new Map<string, QueuedObject[]>();
+  for (const object of (data || []) as QueuedObject[]) {
+    byBucket.set(object.bucket, [...(byBucket.get(object.bucket) || []), object]);
+  }
+
+  let removed = 0;
+  let failed = 0;
+
+  for (const [bucket, objects] of byBucket) {
+    // Removing an object that's already gone isn't an error
+    const { error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(objects.map((object) => object.path));
+
+    if (removeError) {
+      console.error(`Failed to remove objects from ${bucket}:`, removeError);
+      failed += objects.length;
+      await Promise.all(
+        objects.map((object) =>
+          supabase
+            .from("storage_deletion_queue")
+            .update({ attempts: object.attempts + 1, last_error: removeError.message })
+            .eq("id", object.id)
+        ),
+      );
+      continue;
+    }
+
+    const { error: deleteError } = await supabase
+      .from("storage_deletion_queue")
+      .delete()
+      .in("id", objects.map((object) => object.id));
+    if (deleteError) console.error("Failed to clear storage deletion queue:", deleteError);
+
+    removed += objects.length;
+  }
+
+  return { removed, failed };
+}
@@ -0,0 +1,101 @@
+// Supabase Edge Function for account deletion requests
+// request: re-checks the user's password, then schedules their account for
+//          deletion at the end of a 30-day grace period
+// cancel:  withdraws the request while the grace period lasts
+// The purge-accounts job does the deleting (see 20261019117000_account_deletion.sql).
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface AccountDeletionRequest {
+  action: "request" | "cancel";
+  password?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  try {
+    const { action, password } = await req.json() as AccountDeletionRequest;
+
+    if (action === "request") {
+      if (!password || !user.email) {
+        return json({ error: "Enter your password to delete your account" }, 400);
+      }
+
+      // A stolen session alone shouldn't be enough to delete the account.
+      // Signing in on a throwaway client leaves the caller's session alone.
+      const authClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+      const { error: signInError } = await authClient.auth.signInWithPassword({
+        email: user.email,
+        password,
+      });
+      if (signInError) {
+        return json({ error: "Incorrect password" }, 403);
+      }
+
+      const { data: request, error } = await supabase
+        .from("account_deletion_requests")
+        .insert({ user_id: user.id })
+        .select("id, scheduled_for")
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          return json({ error: "Your account is already scheduled for deletion" }, 409);
+        }
+        throw error;
+      }
+
+      return json({ success: true, scheduledFor: request.scheduled_for });
+    }
+
+    if (action === "cancel") {
+      const { data: cancelled, error } = await supabase
+        .from("account_deletion_requests")
+        .update({ cancelled_at: new Date().toISOString() })
+        .eq("user_id", user.id)
+        .is("cancelled_at", null)
+        .is("data_purged_at", null)
+        .select("id");
+
+      if (error) throw error;
+      if (!cancelled || cancelled.length === 0) {
+        return json({ error: "There is no deletion request to cancel" }, 404);
+      }
+
+      return json({ success: true });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error in account-deletion function:", error);
+    return json({ error: error.message || "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,192 @@
+// Supabase Edge Function for biometric consent credentials
+// Registers per-device Ed25519 public keys and verifies signed consent assertions.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ed25519 } from "https://esm.sh/@noble/curves@1.9.7/ed25519";
+import { hexToBytes } from "https://esm.sh/@noble/hashes@1.8.0/utils";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface RegisterRequest {
+  action: "register";
+  credentialId: string;
+  publicKey: string;
+  deviceName?: string;
+}
+
+interface VerifyConsentRequest {
+  action: "verify_consent";
+  contractId: string;
+  credentialId: string;
+  counter: number;
+  signature: string;
+}
+
+type CredentialRequest = RegisterRequest | VerifyConsentRequest;
+
+// Must match buildConsentChallenge in src/lib/biometricCredential.ts
+function buildConsentChallenge(contractId: string, contentHash: string, counter: number): string {
+  return [
+    "pmy-biometric-consent/v1",
+    `contract_id=${contractId}`,
+    `content_hash=${contentHash}`,
+    `counter=${counter}`,
+  ].join("\n");
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const HEX_PATTERN = /^[0-9a-f]+$/;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  try {
+    const body = await req.json() as CredentialRequest;
+
+    if (body.action === "register") {
+      if (!HEX_PATTERN.test(body.publicKey) || body.publicKey.length !== 64 || !HEX_PATTERN.test(body.credentialId)) {
+        return json({ error: "Invalid credential" }, 400);
+      }
+
+      const { error } = await supabase
+        .from("biometric_credentials")
+        .insert({
+          id: body.credentialId,
+          user_id: user.id,
+          public_key: body.publicKey,
+          device_name: body.deviceName || null,
+        });
+
+      if (error) {
+        console.error("Credential registration failed:", error);
+        return json({ error: "Failed to register credential" }, 400);
+      }
+
+      return json({ success: true });
+    }
+
+    if (body.action === "verify_consent") {
+      const { data: credential } = await supabase
+        .from("biometric_credentials")
+        .select("*")
+        .eq("id", body.credentialId)
+        .eq("user_id", user.id)
+        .is("revoked_at", null)
+        .single();
+
+      if (!credential) {
+        return json({ error: "Unknown biometric credential" }, 404);
+      }
+
+      // Replay protection: every assertion must use a strictly higher counter
+      if (!Number.isInteger(body.counter) || body.counter <= Number(credential.counter)) {
+        return json({ error: "Replayed biometric assertion" }, 409);
+      }
+
+      const { data: contract } = await supabase
+        .from("consent_contracts")
+        .select("id, user_id, method, status")
+        .eq("id", body.contractId)
+        .single();
+
+      if (!contract || contract.user_id !== user.id) {
+        return json({ error: "Contract not found" }, 404);
+      }
+      if (contract.method !== "biometric" || contract.status !== "pending_approval") {
+        return json({ error: "Contract is not awaiting biometric consent" }, 409);
+      }
+
+      const { data: head } = await supabase
+        .from("contract_versions")
+        .select("version, content_hash")
+        .eq("contract_id", contract.id)
+        .order("version", { ascending: false })
+        .limit(1)
+        .single();
+
+      if (!head) {
+        return json({ error: "Contract history not found" }, 409);
+      }
+
+      const challenge = buildConsentChallenge(contract.id, head.content_hash, body.counter);
+      let valid = false;
+      try {
+        valid = ed25519.verify(
+          hexToBytes(body.signature),
+          new TextEncoder().encode(challenge),
+          hexToBytes(credential.public_key),
+        );
+      } catch {
+        valid = false;
+      }
+
+      if (!valid) {
+        return json({ error: "Invalid biometric signature" }, 401);
+      }
+
+      // Only advance if nobody else advanced it first
+      const { data: advanced } = await supabase
+        .from("biometric_credentials")
+        .update({ counter: body.counter, last_used_at: new Date().toISOString() })
+        .eq("id", credential.id)
+        .eq("counter", credential.counter)
+        .select("id");
+
+      if (!advanced || advanced.length === 0) {
+        return json({ error: "Replayed biometric assertion" }, 409);
+      }
+
+      const now = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from("consent_contracts")
+        .update({
+          credential_id: credential.id,
+          credential_public_key: credential.public_key,
+          credential_counter: String(body.counter),
+          credential_device_type: credential.device_type,
+          credential_backed_up: credential.backed_up ? "true" : "false",
+          credential_signature: body.signature,
+          credential_signed_version: head.version,
+          authenticated_at: now,
+          verified_at: now,
+          status: "active",
+          updated_at: now,
+        })
+        .eq("id", contract.id);
+
+      if (updateError) {
+        console.error("Failed to record biometric consent:", updateError);
+        return json({ error: "Failed to record consent" }, 500);
+      }
+
+      return json({ success: true, verifiedAt: now });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error in biometric-credential function:", error);
+    return json({ error: error.message || "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,314 @@
+// Supabase Edge Function for building personal data exports
+// Invoked by the data_exports insert trigger (see 20261019118000_data_exports.sql)
+// to gather everything stored about the user into a zip archive:
+//   manifest.json       format, contents and checksums of every file
+//   account.json        sign-in details and profile
+//   preferences.json    notification preferences
+//   contracts.json      contracts owned or joined, with amendments,
+//                       collaborators and status history
+//   recordings.json, notifications.json, contacts.json, verifications.json
+//   media/<bucket>/...  contract photos and recordings, up to MAX_MEDIA_BYTES
+// The archive is stored in the exports bucket and the user is notified.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { strToU8, zipSync } from "https://esm.sh/fflate@0.8.2";
+import { encodeHex } from "jsr:@std/encoding@1/hex";
+import { notifyUsers } from "../_shared/notifications.ts";
+
+const EXPORT_TTL_DAYS = 7;
+const PAGE_SIZE = 1000;
+// The archive is built in memory, and zipSync copies the media into it, so
+// peak use is at least twice this. It's kept well under half the functions'
+// 256 MB memory limit. Media past it is listed in the manifest instead of
+// copied; it stays available in the app.
+const MAX_MEDIA_BYTES = 40 * 1024 * 1024;
+
+interface BuildRequest {
+  exportId: string;
+}
+
+interface ManifestFile {
+  path: string;
+  description: string;
+  records?: number;
+  bytes: number;
+  sha256: string;
+}
+
+interface MediaReference {
+  bucket: string;
+  path: string;
+  contractId?: string;
+  recordingId?: string;
+}
+
+type Row = Record<string, any>;
+
+// PostgREST caps each response, so page through anything that can grow
+async function selectAll(
+  supabase: SupabaseClient,
+  table: string,
+  column: string,
+  values: string | string[],
+): Promise<Row[]> {
+  const ids = Array.isArray(values) ? values : [values];
+  if (ids.length === 0) return [];
+
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .in(column, ids)
+      .order("created_at")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  return encodeHex(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)));
+}
+
+function groupBy(rows: Row[], key: string): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    groups.set(row[key], [...(groups.get(row[key]) || []), row]);
+  }
+  return groups;
+}
+
+async function buildArchive(supabase: SupabaseClient, exportId: string, userId: string): Promise<Uint8Array> {
+  const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(userId);
+  if (userError || !user) throw userError || new Error("User not found");
+
+  const [profile, preferences, ownedContracts, memberships, recordings, notifications, contacts, verifications] =
+    await Promise.all([
+      supabase.from("user_profiles").select("*").eq("id", userId).maybeSingle().then(({ data, error }) => {
+        if (error) throw error;
+        return data;
+      }),
+      supabase.from("notification_preferences").select("*").eq("user_id", userId).maybeSingle().then(({ data, error }) => {
+        if (error) throw error;
+        return data;
+      }),
+      selectAll(supabase, "consent_contracts", "user_id", userId),
+      selectAll(supabase, "contract_collaborators", "user_id", userId),
+      selectAll(supabase, "consent_recordings", "user_id", userId),
+      selectAll(supabase, "notifications", "user_id", userId),
+      selectAll(supabase, "user_contacts", "user_id", userId),
+      selectAll(supabase, "account_verifications", "user_id", userId),
+    ]);
+
+  const ownedIds = new Set(ownedContracts.map((contract) => contract.id));
+  const joinedIds = [...new Set(memberships.map((membership) => membership.contract_id))]
+    .filter((id) => !ownedIds.has(id));
+  const joinedContracts = await selectAll(supabase, "consent_contracts", "id", joinedIds);
+  const contractIds = [...ownedIds, ...joinedContracts.map((contract) => contract.id)];
+
+  const [amendments, collaborators, statusHistory] = await Promise.all([
+    selectAll(supabase, "contract_amendments", "contract_id", contractIds),
+    selectAll(supabase, "contract_collaborators", "contract_id", contractIds),
+    selectAll(supabase, "contract_status_history", "contract_id", contractIds),
+  ]);
+
+  const amendmentsByContract = groupBy(amendments, "contract_id");
+  const collaboratorsByContract = groupBy(collaborators, "contract_id");
+  const historyByContract = groupBy(statusHistory, "contract_id");
+
+  const contracts = [
+    ...ownedContracts.map((contract) => ({ role: "owner", contract })),
+    ...joinedContracts.map((contract) => ({ role: "collaborator", contract })),
+  ].map(({ role, contract }) => ({
+    role,
+    ...contract,
+    amendments: amendmentsByContract.get(contract.id) || [],
+    collaborators: collaboratorsByContract.get(contract.id) || [],
+    status_history: historyByContract.get(contract.id) || [],
+  }));
+
+  // Media columns hold bucket paths; legacy rows may still hold public URLs,
+  // which are listed in the manifest rather than copied
+  const media: MediaReference[] = [];
+  const legacyUrls: string[] = [];
+  const addMedia = (reference: MediaReference) => {
+    if (/^https?:\/\//.test(reference.path)) {
+      legacyUrls.push(reference.path);
+    } else if (!media.some((item) => item.bucket === reference.bucket && item.path === reference.path)) {
+      media.push(reference);
+    }
+  };
+  for (const contract of [...ownedContracts, ...joinedContracts]) {
+    if (contract.photo_url) addMedia({ bucket: "photos", path: contract.photo_url, contractId: contract.id });
+    if (contract.audio_url) addMedia({ bucket: "recordings", path: contract.audio_url, contractId: contract.id });
+  }
+  for (const recording of recordings) {
+    if (recording.file_url) addMedia({ bucket: "recordings", path: recording.file_url, recordingId: recording.id });
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const manifestFiles: ManifestFile[] = [];
+
+  const addFile = async (path: string, bytes: Uint8Array, description: string, records?: number) => {
+    files[path] = bytes;
+    manifestFiles.push({ path, description, records, bytes: bytes.length, sha256: await sha256(bytes) });
+  };
+  const addJson = (path: string, value: unknown, description: string, records?: number) =>
+    addFile(path, strToU8(JSON.stringify(value, null, 2)), description, records);
+
+  await addJson("account.json", {
+    account: { id: user.id, email: user.email, created_at: user.created_at, last_sign_in_at: user.last_sign_in_at },
+    profile,
+  }, "Sign-in details and profile");
+  await addJson("preferences.json", { notification_preferences: preferences }, "Notification preferences");
+  await addJson("contracts.json", contracts, "Contracts you created or joined, with amendments, collaborators and status history", contracts.length);
+  await addJson("recordings.json", recordings, "Consent recordings", recordings.length);
+  await addJson("notifications.json", notifications, "Notifications", notifications.length);
+  await addJson("contacts.json", contacts, "Saved contacts", contacts.length);
+  await addJson("verifications.json", verifications, "Identity verification history", verifications.length);
+
+  const missingFiles: MediaReference[] = [];
+  const omittedFiles: (MediaReference & { bytes: number })[] = [];
+  let mediaBytes = 0;
+  for (const reference of media) {
+    const { data, error } = await supabase.storage.from(reference.bucket).download(reference.path);
+    if (error || !data) {
+      console.error(`Export ${exportId}: failed to download ${reference.bucket}/${reference.path}:`, error);
+      missingFiles.push(reference);
+      continue;
+    }
+    if (mediaBytes + data.size > MAX_MEDIA_BYTES) {
+      omittedFiles.push({ ...reference, bytes: data.size });
+      continue;
+    }
+    mediaBytes += data.size;
+
+    const source = reference.contractId ? `contract ${reference.contractId}` : `recording ${reference.recordingId}`;
+    await addFile(
+      `media/${reference.bucket}/${reference.path}`,
+      new Uint8Array(await data.arrayBuffer()),
+      `${reference.bucket === "photos" ? "Photo" : "Recording"} for ${source}`,
+    );
+  }
+
+  const manifest = {
+    format: "pmy-data-export",
+    version: 1,
+    export_id: exportId,
+    user_id: userId,
+    generated_at: new Date().toISOString(),
+    encryption:
+      "Contract text, signatures and media are end-to-end encrypted on your devices. Values starting with " +
+      "'pmy-e2e:v1:', and media files of encrypted contracts, can only be read in the PMY app with your " +
+      "recovery code; PMY cannot decrypt them.",
+    files: manifestFiles,
+    missing_files: missingFiles,
+    omitted_files: omittedFiles,
+    legacy_media_urls: legacyUrls,
+  };
+  files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(files, { level: 6 });
+}
+
+Deno.serve(async (req: Request) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the database trigger (holding the service role key) may build exports
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== supabaseServiceKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let exportId: string | undefined;
+  let userId: string | undefined;
+
+  try {
+    ({ exportId } = await req.json() as BuildRequest);
+    if (!exportId) {
+      return new Response(
+        JSON.stringify({ error: "exportId is required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    // Claim the export so a repeated call doesn't build it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from("data_exports")
+      .update({ status: "processing" })
+      .eq("id", exportId)
+      .eq("status", "pending")
+      .select("user_id")
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claimed) {
+      return new Response(
+        JSON.stringify({ error: "Export is not pending" }),
+        { status: 409, headers: { "Content-Type": "application/json" } },
+      );
+    }
+    userId = claimed.user_id as string;
+
+    const archive = await buildArchive(supabase, exportId, userId);
+    const storagePath = `${userId}/${exportId}.zip`;
+
+    const { error: uploadError } = await supabase.storage
+      .from("exports")
+      .upload(storagePath, archive, { contentType: "application/zip", upsert: true });
+    if (uploadError) throw uploadError;
+
+    const expiresAt = new Date(Date.now() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const { error: updateError } = await supabase
+      .from("data_exports")
+      .update({
+        status: "ready",
+        storage_path: storagePath,
+        size_bytes: archive.length,
+        completed_at: new Date().toISOString(),
+        expires_at: expiresAt.toISOString(),
+      })
+      .eq("id", exportId);
+    if (updateError) throw updateError;
+
+    await notifyUsers(supabase, [userId], "data_export_ready", {
+      expires_on: expiresAt.toLocaleDateString("en-US", {
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+      }),
+    }).catch((notifyError) => console.error("Failed to notify user of ready export:", notifyError));
+
+    return new Response(
+      JSON.stringify({ success: true, bytes: archive.length }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Error in build-data-export function:", error);
+
+    if (exportId && userId) {
+      await supabase
+        .from("data_exports")
+        .update({ status: "failed", error: error.message, completed_at: new Date().toISOString() })
+        .eq("id", exportId);
+      await notifyUsers(supabase, [userId], "data_export_failed", {})
+        .catch((notifyError) => console.error("Failed to notify user of failed export:", notifyError));
+    }
+
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+});
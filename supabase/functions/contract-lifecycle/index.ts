@@ -0,0 +1,48 @@
+// Supabase Edge Function for scheduled contract lifecycle transitions
+// Invoked by pg_cron (see 20261019103000_contract_lifecycle.sql) to complete
+// contracts whose end time has passed. The contract status trigger notifies
+// every party.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface ExpiredContract {
+  contract_id: string;
+  owner_id: string;
+  previous_status: string;
+}
+
+Deno.serve(async (req: Request) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the scheduler (holding the service role key) may run transitions
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== supabaseServiceKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data, error } = await supabase.rpc("complete_expired_contracts");
+    if (error) throw error;
+
+    const completed = (data || []) as ExpiredContract[];
+    console.log(`Completed ${completed.length} expired contracts`);
+
+    return new Response(
+      JSON.stringify({ completed: completed.length }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Error in contract-lifecycle function:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,104 @@
+// Supabase Edge Function for personal data exports
+// request:  starts building an archive of the user's data; build-data-export
+//           notifies them when it's ready
+// download: returns a signed URL for a ready archive, valid for an hour
+// See 20261019118000_data_exports.sql.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+interface DataExportRequest {
+  action: "request" | "download";
+  exportId?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  try {
+    const { action, exportId } = await req.json() as DataExportRequest;
+
+    if (action === "request") {
+      // A build that died would otherwise block a new request until the daily
+      // retention-purge job fails it
+      const { error: staleError } = await supabase.rpc("fail_stale_data_exports", { p_user_id: user.id });
+      if (staleError) throw staleError;
+
+      // Inserting the row starts the build (see the data_exports_build trigger)
+      const { data: dataExport, error } = await supabase
+        .from("data_exports")
+        .insert({ user_id: user.id })
+        .select("id")
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          return json({ error: "Your data export is already being prepared" }, 409);
+        }
+        throw error;
+      }
+
+      return json({ success: true, exportId: dataExport.id });
+    }
+
+    if (action === "download") {
+      if (!exportId) {
+        return json({ error: "Missing exportId" }, 400);
+      }
+
+      const { data: dataExport } = await supabase
+        .from("data_exports")
+        .select("status, storage_path, requested_at, expires_at")
+        .eq("id", exportId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!dataExport || dataExport.status !== "ready" || !dataExport.storage_path) {
+        return json({ error: "This export isn't available" }, 404);
+      }
+      if (new Date(dataExport.expires_at) <= new Date()) {
+        return json({ error: "This export has expired. Please request a new one." }, 410);
+      }
+
+      const filename = `pmy-data-export-${dataExport.requested_at.slice(0, 10)}.zip`;
+      const { data: signed, error } = await supabase.storage
+        .from("exports")
+        .createSignedUrl(dataExport.storage_path, DOWNLOAD_URL_TTL_SECONDS, { download: filename });
+
+      if (error) throw error;
+
+      return json({ success: true, url: signed.signedUrl });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error in data-export function:", error);
+    return json({ error: error.message || "Internal server error" }, 500);
+  }
+});
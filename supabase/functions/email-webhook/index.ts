@@ -0,0 +1,158 @@
+// Supabase Edge Function for email provider webhooks
+// Records delivery, bounce and complaint events against invitation_deliveries and
+// mirrors the latest state onto the invitation.
+//
+// Resend: signed with Svix; set RESEND_WEBHOOK_SECRET to the endpoint's signing secret.
+// SendGrid: add ?token=<EMAIL_WEBHOOK_TOKEN> to the Event Webhook URL.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decodeBase64, encodeBase64 } from "jsr:@std/encoding@1/base64";
+
+type DeliveryStatus = "delivered" | "bounced" | "complained" | "failed";
+
+interface DeliveryEvent {
+  messageId: string;
+  status: DeliveryStatus;
+  error: string | null;
+}
+
+// Svix rejects messages older than five minutes to prevent replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+async function verifySvixSignature(req: Request, body: string): Promise<boolean> {
+  const secret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+  const id = req.headers.get("svix-id");
+  const timestamp = req.headers.get("svix-timestamp");
+  const signatures = req.headers.get("svix-signature");
+  if (!secret || !id || !timestamp || !signatures) return false;
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase64(secret.replace(/^whsec_/, "")),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const expected = encodeBase64(new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`)),
+  ));
+
+  return signatures.split(" ").some((entry) => entry.split(",")[1] === expected);
+}
+
+function parseResendEvent(payload: any): DeliveryEvent[] {
+  const messageId = payload?.data?.email_id;
+  if (!messageId) return [];
+
+  switch (payload.type) {
+    case "email.delivered":
+      return [{ messageId, status: "delivered", error: null }];
+    case "email.bounced":
+      return [{ messageId, status: "bounced", error: payload.data.bounce?.message ?? "Bounced" }];
+    case "email.complained":
+      return [{ messageId, status: "complained", error: "Marked as spam" }];
+    default:
+      return [];
+  }
+}
+
+function parseSendGridEvents(payload: any): DeliveryEvent[] {
+  if (!Array.isArray(payload)) return [];
+
+  return payload.flatMap((event: any): DeliveryEvent[] => {
+    // sg_message_id is the X-Message-Id we stored plus a ".filter..." suffix
+    const messageId = String(event.sg_message_id || "").split(".")[0];
+    if (!messageId) return [];
+
+    switch (event.event) {
+      case "delivered":
+        return [{ messageId, status: "delivered", error: null }];
+      case "bounce":
+        return [{ messageId, status: "bounced", error: event.reason ?? "Bounced" }];
+      case "dropped":
+        return [{ messageId, status: "failed", error: event.reason ?? "Dropped" }];
+      case "spamreport":
+        return [{ messageId, status: "complained", error: "Marked as spam" }];
+      default:
+        return [];
+    }
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const body = await req.text();
+  const provider = Deno.env.get("EMAIL_PROVIDER") || "resend";
+
+  let events: DeliveryEvent[];
+  if (provider === "sendgrid") {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token || token !== Deno.env.get("EMAIL_WEBHOOK_TOKEN")) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    events = parseSendGridEvents(JSON.parse(body));
+  } else {
+    if (!(await verifySvixSignature(req, body))) {
+      return new Response("Invalid signature", { status: 401 });
+    }
+    events = parseResendEvent(JSON.parse(body));
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  try {
+    for (const event of events) {
+      const now = new Date().toISOString();
+      const { data: delivery } = await supabase
+        .from("invitation_deliveries")
+        .update({ status: event.status, error: event.error, updated_at: now })
+        .eq("provider_message_id", event.messageId)
+        .select("id, invitation_id")
+        .maybeSingle();
+
+      if (!delivery) continue;
+
+      // Only the most recent send reflects the invitation's current state
+      const { data: latest } = await supabase
+        .from("invitation_deliveries")
+        .select("id")
+        .eq("invitation_id", delivery.invitation_id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .single();
+
+      if (latest?.id !== delivery.id) continue;
+
+      await supabase
+        .from("contract_invitations")
+        .update({
+          delivery_status: event.status,
+          delivery_error: event.error,
+          ...(event.status === "delivered" ? { delivered_at: now } : {}),
+          ...(event.status === "bounced" ? { bounced_at: now } : {}),
+        })
+        .eq("id", delivery.invitation_id);
+    }
+
+    return new Response(JSON.stringify({ received: events.length }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in email-webhook function:", error);
+    return new Response(JSON.stringify({ error: error.message || "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+});
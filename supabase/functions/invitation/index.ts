@@ -0,0 +1,128 @@
+// Supabase Edge Function for invitation links (pmy://invite/<code>)
+// preview: anyone holding the code can see who sent it and a summary of the contract,
+//          so the invite screen works before the recipient signs in
+// accept:  signed-in users only; the code is validated by accept_contract_invitation()
+// Only hashes of codes are stored, so codes are looked up by hash
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashInvitationCode } from "../_shared/invitationCodes.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface InvitationRequest {
+  action: "preview" | "accept";
+  code: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Shows enough of the address for the recipient to recognise it, e.g. "j***@example.com"
+function maskEmail(email: string): string {
+  const [local, domain] = email.split("@");
+  if (!domain) return email;
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { action, code } = await req.json() as InvitationRequest;
+    if (!code || typeof code !== "string") {
+      return json({ error: "Missing invitation code" }, 400);
+    }
+
+    if (action === "preview") {
+      const { data: invitation } = await supabase
+        .from("contract_invitations")
+        .select("id, contract_id, sender_id, recipient_email, status, expires_at")
+        .eq("invitation_code_hash", await hashInvitationCode(code))
+        .maybeSingle();
+
+      if (!invitation) {
+        return json({ error: "This invitation link is not valid" }, 404);
+      }
+
+      const [{ data: contract }, { data: profile }] = await Promise.all([
+        supabase
+          .from("consent_contracts")
+          .select("encounter_type, contract_start_time, contract_duration, status")
+          .eq("id", invitation.contract_id)
+          .single(),
+        supabase
+          .from("user_profiles")
+          .select("first_name, last_name, username")
+          .eq("id", invitation.sender_id)
+          .single(),
+      ]);
+
+      const state = invitation.status === "accepted" ? "accepted"
+        : invitation.status !== "pending" ? "invalid"
+        : new Date(invitation.expires_at) <= new Date() ? "expired"
+        : !contract || !["draft", "pending_approval", "active", "paused"].includes(contract.status) ? "closed"
+        : "pending";
+
+      return json({
+        success: true,
+        invitation: {
+          state,
+          senderName: [profile?.first_name, profile?.last_name].filter(Boolean).join(" ")
+            || profile?.username
+            || "A PMY user",
+          recipientEmail: maskEmail(invitation.recipient_email),
+          expiresAt: invitation.expires_at,
+          contract: contract
+            ? {
+              encounterType: contract.encounter_type,
+              contractStartTime: contract.contract_start_time,
+              contractDuration: contract.contract_duration,
+            }
+            : null,
+        },
+      });
+    }
+
+    if (action === "accept") {
+      const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) {
+        return json({ error: "Sign in to accept this invitation" }, 401);
+      }
+
+      const { data: invitation, error } = await supabase.rpc("accept_contract_invitation", {
+        p_code: code,
+        p_user_id: user.id,
+      });
+
+      if (error) {
+        const status = error.code === "P0002" ? 404
+          : error.code === "42501" ? 403
+          : error.code === "23514" ? 409
+          : 500;
+        return json({ error: error.message }, status);
+      }
+
+      return json({ success: true, contractId: invitation.contract_id });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error in invitation function:", error);
+    return json({ error: error.message || "Internal server error" }, 500);
+  }
+});
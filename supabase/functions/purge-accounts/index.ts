@@ -0,0 +1,68 @@
+// Supabase Edge Function for deleting accounts
+// Invoked daily by pg_cron (see 20261019117000_account_deletion.sql) to purge
+// the data of accounts whose deletion grace period has ended, delete their auth
+// users and remove their files.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { processStorageDeletions } from "../_shared/storageDeletion.ts";
+
+interface PurgedAccount {
+  user_id: string;
+}
+
+Deno.serve(async (req: Request) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the scheduler (holding the service role key) may delete accounts
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== supabaseServiceKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data, error } = await supabase.rpc("purge_due_accounts");
+    if (error) throw error;
+
+    // Failures stay pending and are retried on the next run
+    let deleted = 0;
+    for (const { user_id } of (data || []) as PurgedAccount[]) {
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(user_id);
+      if (deleteError && deleteError.status !== 404) {
+        console.error(`Failed to delete auth user ${user_id}:`, deleteError);
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("account_deletion_requests")
+        .update({ completed_at: new Date().toISOString() })
+        .eq("user_id", user_id)
+        .not("data_purged_at", "is", null)
+        .is("completed_at", null);
+      if (updateError) console.error(`Failed to complete deletion of ${user_id}:`, updateError);
+
+      deleted++;
+    }
+
+    const storage = await processStorageDeletions(supabase);
+
+    console.log(`Deleted ${deleted} accounts, removed ${storage.removed} files (${storage.failed} failed)`);
+
+    return new Response(
+      JSON.stringify({ deleted, ...storage }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Error in purge-accounts function:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+});
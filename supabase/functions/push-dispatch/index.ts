@@ -0,0 +1,119 @@
+// Supabase Edge Function for push notification delivery
+// Invoked by the notifications insert trigger (see 20261019114000_notification_preferences.sql)
+// to send a new notification to each of the user's registered devices, unless
+// they turned push off for its category or it's their quiet hours. Either way a
+// skipped push is dropped, not sent later; the notification is still in-app.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isUnregisteredDevice, sendPush } from "../_shared/push.ts";
+import { buildPushPayload, type NotificationRow } from "../_shared/pushPayloads.ts";
+import { isNotificationAllowed } from "../_shared/notificationPreferences.ts";
+
+// The whole row is sent: it isn't stored when in-app is off for its category
+interface DispatchRequest {
+  notification: NotificationRow & { user_id: string };
+}
+
+interface PushTokenRow {
+  id: string;
+  token: string;
+}
+
+Deno.serve(async (req: Request) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the database trigger (holding the service role key) may dispatch
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== supabaseServiceKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { notification }: DispatchRequest = await req.json();
+    if (!notification?.id || !notification.user_id) {
+      return new Response(
+        JSON.stringify({ error: "notification is required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (!(await isNotificationAllowed(supabase, notification.user_id, notification.type, "push"))) {
+      return new Response(
+        JSON.stringify({ sent: 0, skipped: true }),
+        { headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const { data: tokens, error: tokensError } = await supabase
+      .from("push_tokens")
+      .select("id, token")
+      .eq("user_id", notification.user_id);
+
+    if (tokensError) throw tokensError;
+
+    const devices = (tokens || []) as PushTokenRow[];
+    if (devices.length === 0) {
+      return new Response(
+        JSON.stringify({ sent: 0 }),
+        { headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const payload = buildPushPayload(notification);
+    const tickets = await sendPush(
+      devices.map((device) => ({
+        to: device.token,
+        title: payload.title,
+        body: payload.body,
+        data: payload.data,
+        sound: "default",
+        channelId: payload.channelId,
+      })),
+    );
+
+    const sentIds: string[] = [];
+    const staleIds: string[] = [];
+    tickets.forEach((ticket, index) => {
+      const device = devices[index];
+      if (ticket.status === "ok") {
+        sentIds.push(device.id);
+      } else if (isUnregisteredDevice(ticket)) {
+        staleIds.push(device.id);
+      } else {
+        console.error(`Push to ${device.id} failed:`, ticket.message);
+      }
+    });
+
+    // The app was uninstalled or notifications turned off; stop sending to it
+    if (staleIds.length > 0) {
+      const { error } = await supabase.from("push_tokens").delete().in("id", staleIds);
+      if (error) console.error("Failed to remove stale push tokens:", error);
+    }
+
+    if (sentIds.length > 0) {
+      const { error } = await supabase
+        .from("push_tokens")
+        .update({ last_sent_at: new Date().toISOString() })
+        .in("id", sentIds);
+      if (error) console.error("Failed to record push delivery:", error);
+    }
+
+    return new Response(
+      JSON.stringify({ sent: sentIds.length, removed: staleIds.length }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Error in push-dispatch function:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,54 @@
+// Supabase Edge Function for data retention
+// Invoked daily by pg_cron (see 20261019116000_data_retention.sql) to warn users
+// about contracts and recordings reaching the end of their retention period,
+// purge the ones whose warning period has passed, remove expired data exports
+// (see 20261019118000_data_exports.sql) and remove their files.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { processStorageDeletions } from "../_shared/storageDeletion.ts";
+
+Deno.serve(async (req: Request) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Only the scheduler (holding the service role key) may purge
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== supabaseServiceKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data: scheduled, error: scheduleError } = await supabase.rpc("schedule_retention_purges");
+    if (scheduleError) throw scheduleError;
+
+    const { data: purged, error: purgeError } = await supabase.rpc("purge_due_retention");
+    if (purgeError) throw purgeError;
+
+    const { data: expiredExports, error: exportsError } = await supabase.rpc("expire_data_exports");
+    if (exportsError) throw exportsError;
+
+    const storage = await processStorageDeletions(supabase);
+
+    console.log(
+      `Scheduled ${scheduled} items, purged ${purged}, expired ${expiredExports} exports, ` +
+        `removed ${storage.removed} files (${storage.failed} failed)`,
+    );
+
+    return new Response(
+      JSON.stringify({ scheduled, purged, expiredExports, ...storage }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Error in retention-purge function:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Internal server error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,129 @@
+// Supabase Edge Function for withdrawing consent
+// Lets any party revoke a contract, then notifies every other party in-app and by email.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getContractPartyIds } from "../_shared/notifications.ts";
+import { escapeHtml, sendEmail } from "../_shared/email.ts";
+import { isNotificationAllowed } from "../_shared/notificationPreferences.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface RevokeRequest {
+  contractId: string;
+  reason?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function revocationEmail(revokerName: string, revokedAt: string) {
+  const name = escapeHtml(revokerName);
+  const when = new Date(revokedAt).toUTCString();
+  return {
+    subject: "Consent Withdrawn for a PMY Contract",
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Consent Withdrawn</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #FF3B30 0%, #D70015 100%); padding: 30px; text-align: center; border-radius: 12px 12px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">Consent Withdrawn</h1>
+          </div>
+          <div style="background: #fff; padding: 30px; border: 1px solid #e5e5ea; border-top: none; border-radius: 0 0 12px 12px;">
+            <p style="font-size: 16px;">Hi,</p>
+            <p style="font-size: 16px;"><strong>${name}</strong> has withdrawn consent for a contract you are part of.</p>
+            <p style="font-size: 16px;">Consent was withdrawn at <strong>${when}</strong>. The contract is no longer in effect and cannot be amended. Please respect this decision immediately.</p>
+            <p style="font-size: 16px;">You can view the revoked contract in PMY.</p>
+            <hr style="border: none; border-top: 1px solid #e5e5ea; margin: 20px 0;">
+            <p style="font-size: 12px; color: #999; text-align: center;">
+              This is an automated notification from PMY (Press Means Yes).
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Consent Withdrawn\n\n${revokerName} has withdrawn consent for a contract you are part of at ${when}.\n\nThe contract is no longer in effect and cannot be amended. Please respect this decision immediately.`,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  try {
+    const { contractId, reason } = await req.json() as RevokeRequest;
+    if (!contractId) {
+      return json({ error: "Missing contractId" }, 400);
+    }
+
+    const { data: contract, error } = await supabase.rpc("revoke_contract", {
+      p_contract_id: contractId,
+      p_user_id: user.id,
+      p_reason: reason ?? null,
+    });
+
+    if (error) {
+      const status = error.code === "42501" ? 403 : error.code === "23514" ? 409 : 500;
+      return json({ error: error.message }, status);
+    }
+
+    // Revocation is already recorded; email failures are logged, not returned.
+    // The in-app notification comes from the contract status trigger.
+    const otherPartyIds = (await getContractPartyIds(supabase, contractId, contract.user_id))
+      .filter((id) => id !== user.id);
+
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("first_name, last_name, username")
+      .eq("id", user.id)
+      .single();
+    const revokerName = [profile?.first_name, profile?.last_name].filter(Boolean).join(" ")
+      || profile?.username
+      || user.email
+      || "A party";
+
+    const email = revocationEmail(revokerName, contract.revoked_at);
+    await Promise.all(otherPartyIds.map(async (partyId) => {
+      const { data: { user: party } } = await supabase.auth.admin.getUserById(partyId);
+      if (!party?.email) return;
+      if (!(await isNotificationAllowed(supabase, partyId, "contract_revoked", "email"))) return;
+
+      try {
+        const response = await sendEmail({ to: party.email, ...email });
+        if (!response.ok) {
+          console.error("Revocation email failed:", await response.text());
+        }
+      } catch (emailError) {
+        console.error("Revocation email failed:", emailError);
+      }
+    }));
+
+    return json({ success: true, revokedAt: contract.revoked_at });
+  } catch (error) {
+    console.error("Error in revoke-contract function:", error);
+    return json({ error: error.message || "Internal server error" }, 500);
+  }
+});
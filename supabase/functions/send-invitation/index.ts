@@ -0,0 +1,262 @@
+// Supabase Edge Function for contract invitation emails
+// Issues email invitations for the contract owner: creates the invitation with a
+// fresh code, or issues a new code for an existing one when it is resent (the old
+// link stops working). Only the code's hash is stored; the raw code goes out in
+// the email and is returned once in the response. Every send is rate limited and
+// logged in invitation_deliveries. Quiet hours don't hold invitations back; when
+// the recipient has invitation emails off, no email goes out, the invitation is
+// still created and its link is returned for the sender to pass on.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendEmail } from "../_shared/email.ts";
+import { templates } from "../_shared/emailTemplates.ts";
+import { generateInvitationCode, hashInvitationCode } from "../_shared/invitationCodes.ts";
+import { isEmailAllowed } from "../_shared/notificationPreferences.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Per invitation
+const MAX_SENDS_PER_INVITATION = 5;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+// Per sender, across all invitations
+const MAX_SENDS_PER_SENDER_PER_HOUR = 20;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Either a new invitation (contractId + recipientEmail) or a resend (invitationId)
+interface SendInvitationRequest {
+  contractId?: string;
+  recipientEmail?: string;
+  invitationId?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function getInviteUrl(invitationCode: string): string {
+  const baseUrl = Deno.env.get("INVITE_BASE_URL") || "pmy://invite";
+  return `${baseUrl.replace(/\/$/, "")}/${encodeURIComponent(invitationCode)}`;
+}
+
+// Never hand the stored hash back to the client
+function toPublicInvitation(invitation: Record<string, unknown>) {
+  const { invitation_code: _code, invitation_code_hash: _hash, ...rest } = invitation;
+  return rest;
+}
+
+async function sendInvitationEmail(
+  supabase: SupabaseClient,
+  invitation: any,
+  code: string,
+): Promise<{ ok: boolean; skipped: boolean; sentAt: string }> {
+  if (!(await isEmailAllowed(supabase, invitation.recipient_email, "contract_invitation"))) {
+    return { ok: true, skipped: true, sentAt: new Date().toISOString() };
+  }
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("first_name, last_name, username")
+    .eq("id", invitation.sender_id)
+    .single();
+  const senderName = [profile?.first_name, profile?.last_name].filter(Boolean).join(" ")
+    || profile?.username
+    || "A PMY user";
+
+  const template = templates.contract_invite({
+    type: "contract_invite",
+    recipientEmail: invitation.recipient_email,
+    senderName,
+    contractId: invitation.contract_id,
+    inviteUrl: getInviteUrl(code),
+  });
+
+  const provider = Deno.env.get("EMAIL_PROVIDER") || "resend";
+  const response = await sendEmail({
+    to: invitation.recipient_email,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+
+  const sentAt = new Date().toISOString();
+  let providerMessageId: string | null = null;
+  let deliveryError: string | null = null;
+
+  if (response.ok) {
+    providerMessageId = provider === "sendgrid"
+      ? response.headers.get("X-Message-Id")
+      : (await response.json().catch(() => null))?.id ?? null;
+  } else {
+    deliveryError = await response.text();
+    console.error("Invitation email failed:", deliveryError);
+  }
+
+  await supabase.from("invitation_deliveries").insert({
+    invitation_id: invitation.id,
+    sender_id: invitation.sender_id,
+    provider,
+    provider_message_id: providerMessageId,
+    status: response.ok ? "sent" : "failed",
+    error: deliveryError,
+  });
+
+  await supabase
+    .from("contract_invitations")
+    .update({
+      delivery_status: response.ok ? "sent" : "failed",
+      delivery_error: deliveryError,
+      send_count: invitation.send_count + 1,
+      last_sent_at: sentAt,
+      delivered_at: null,
+      bounced_at: null,
+    })
+    .eq("id", invitation.id);
+
+  return { ok: response.ok, skipped: false, sentAt };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return json({ error: "Not authenticated" }, 401);
+  }
+
+  try {
+    const { contractId, recipientEmail, invitationId } = await req.json() as SendInvitationRequest;
+
+    const { count: recentSends } = await supabase
+      .from("invitation_deliveries")
+      .select("id", { count: "exact", head: true })
+      .eq("sender_id", user.id)
+      .gte("created_at", new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+    if ((recentSends ?? 0) >= MAX_SENDS_PER_SENDER_PER_HOUR) {
+      return json({ error: "Too many invitations sent recently. Please try again later." }, 429);
+    }
+
+    const code = generateInvitationCode();
+    const codeHash = await hashInvitationCode(code);
+    let invitation;
+
+    if (invitationId) {
+      const { data: existing } = await supabase
+        .from("contract_invitations")
+        .select("*")
+        .eq("id", invitationId)
+        .single();
+
+      if (!existing || existing.sender_id !== user.id) {
+        return json({ error: "Invitation not found" }, 404);
+      }
+      if (existing.status !== "pending") {
+        return json({ error: "This invitation has already been used" }, 409);
+      }
+      if (new Date(existing.expires_at) <= new Date()) {
+        return json({ error: "This invitation has expired" }, 410);
+      }
+      if (existing.send_count >= MAX_SENDS_PER_INVITATION) {
+        return json({ error: "This invitation has been sent too many times" }, 429);
+      }
+      if (existing.last_sent_at && Date.now() - new Date(existing.last_sent_at).getTime() < RESEND_COOLDOWN_MS) {
+        return json({ error: "Please wait a minute before resending" }, 429);
+      }
+
+      const { data: updated, error: updateError } = await supabase
+        .from("contract_invitations")
+        .update({ invitation_code_hash: codeHash })
+        .eq("id", existing.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+      invitation = updated;
+    } else {
+      const email = recipientEmail?.trim().toLowerCase();
+      if (!contractId || !email || !EMAIL_PATTERN.test(email)) {
+        return json({ error: "A contract and a valid email address are required" }, 400);
+      }
+
+      const { data: contract } = await supabase
+        .from("consent_contracts")
+        .select("id, user_id, status")
+        .eq("id", contractId)
+        .single();
+
+      if (!contract || contract.user_id !== user.id) {
+        return json({ error: "Contract not found" }, 404);
+      }
+      if (!["draft", "pending_approval", "active", "paused"].includes(contract.status)) {
+        return json({ error: "This contract is no longer accepting parties" }, 409);
+      }
+
+      const { data: created, error: insertError } = await supabase
+        .from("contract_invitations")
+        .insert({
+          contract_id: contractId,
+          sender_id: user.id,
+          recipient_email: email,
+          invitation_code_hash: codeHash,
+          status: "pending",
+          expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+        })
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+      invitation = created;
+
+      await supabase
+        .from("consent_contracts")
+        .update({ is_collaborative: "true" })
+        .eq("id", contractId);
+    }
+
+    const { ok, skipped, sentAt } = await sendInvitationEmail(supabase, invitation, code);
+    if (!ok) {
+      return json({ error: "The invitation email could not be sent. Try resending it." }, 502);
+    }
+
+    if (skipped) {
+      return json({
+        success: true,
+        emailSkipped: true,
+        code,
+        inviteUrl: getInviteUrl(code),
+        invitation: toPublicInvitation(invitation),
+      });
+    }
+
+    return json({
+      success: true,
+      sentAt,
+      code,
+      invitation: toPublicInvitation({
+        ...invitation,
+        delivery_status: "sent",
+        send_count: invitation.send_count + 1,
+        last_sent_at: sentAt,
+      }),
+    });
+  } catch (error) {
+    console.error("Error in send-invitation function:", error);
+    return json({ error: error.message || "Internal server error" }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import Stripe from "https://esm.sh/stripe@14.14.0?target=deno";
+import { notifyUsers } from "../_shared/notifications.ts";
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
   apiVersion: '2023-10-16',
@@ -56,16 +57,9 @@ Deno.serve(async (req: Request) => {
           })
           .eq('id', userId);
 
-        // Create notification
-        await supabase
-          .from('notifications')
-          .insert({
-            user_id: userId,
-            type: 'verification_complete',
-            title: 'Identity Verified!',
-            message: 'Your identity has been successfully verified. You now have a verified badge on your profile.',
-            is_read: 'false',
-          });
+        // The verification is recorded; don't have Stripe retry over the notification
+        await notifyUsers(supabase, [userId], 'verification_complete', {})
+          .catch((notifyError) => console.error('Failed to notify verified user:', notifyError));
 
         console.log('User verified:', userId);
       }
@@ -98,15 +92,8 @@ Deno.serve(async (req: Request) => {
         .eq('session_id', session.id);
 
       if (userId) {
-        await supabase
-          .from('notifications')
-          .insert({
-            user_id: userId,
-            type: 'verification_failed',
-            title: 'Verification Canceled',
-            message: 'Your identity verification was canceled. You can try again from your profile settings.',
-            is_read: 'false',
-          });
+        await notifyUsers(supabase, [userId], 'verification_failed', { reason: 'it was canceled' })
+          .catch((notifyError) => console.error('Failed to notify user of canceled verification:', notifyError));
       }
     }
 
@@ -144,15 +131,8 @@ Deno.serve(async (req: Request) => {
           .eq('stripe_payment_intent_id', paymentIntent.id);
 
         if (userId) {
-          await supabase
-            .from('notifications')
-            .insert({
-              user_id: userId,
-              type: 'verification_failed',
-              title: 'Payment Failed',
-              message: 'Your payment for identity verification failed. Please try again.',
-              is_read: 'false',
-            });
+          await notifyUsers(supabase, [userId], 'verification_failed', { reason: 'the payment failed' })
+            .catch((notifyError) => console.error('Failed to notify user of failed payment:', notifyError));
         }
       }
     }
@@ -0,0 +1,294 @@
+-- Migration: Initial schema
+-- The tables the app started with, as they were created in the hosted project
+-- before migrations were kept in the repo. Columns added since then come from the
+-- later migrations (universities.domain / logo_url from 20241127, contract,
+-- amendment and invitation columns from the 20261019 series), so a fresh local
+-- database built from this directory ends up with the production schema.
+--
+-- Row level security is enabled here; the policies themselves are (re)created by
+-- 20261019120000_row_level_security.sql so they apply to the hosted project too.
+--
+-- The hosted project already has these tables. Record this migration as applied
+-- there instead of running it:
+--   supabase migration repair --status applied 20241101000000
+--
+-- Booleans that came from the original Drizzle schema are TEXT 'true' / 'false'.
+
+-- ================================================================
+-- Reference data
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.universities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  state TEXT NOT NULL,
+  title_ix_info TEXT NOT NULL,
+  title_ix_url TEXT,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT now(),
+  verified_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_universities_state ON public.universities(state);
+
+CREATE TABLE IF NOT EXISTS public.state_laws (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  state_code TEXT NOT NULL UNIQUE,
+  state_name TEXT NOT NULL,
+  consent_law_info TEXT NOT NULL,
+  age_of_consent INTEGER NOT NULL,
+  romeo_juliet_law TEXT,
+  affirmative_consent_required TEXT,
+  reporting_requirements TEXT,
+  source_url TEXT,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT now(),
+  verified_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.universities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.state_laws ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- Profiles
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL UNIQUE,
+  first_name TEXT,
+  last_name TEXT,
+  profile_picture_url TEXT,
+  bio TEXT,
+  website_url TEXT,
+  saved_signature TEXT,
+  saved_signature_type TEXT,
+  saved_signature_text TEXT,
+  data_retention_policy TEXT NOT NULL DEFAULT 'forever',
+  stripe_customer_id TEXT,
+  referral_code TEXT UNIQUE,
+  referral_count INTEGER NOT NULL DEFAULT 0,
+  referred_by TEXT,
+  default_university_id UUID REFERENCES public.universities(id) ON DELETE SET NULL,
+  state_of_residence TEXT,
+  default_encounter_type TEXT,
+  default_contract_duration INTEGER,
+  is_verified TEXT NOT NULL DEFAULT 'false',
+  verification_provider TEXT,
+  verified_at TIMESTAMPTZ,
+  verification_level TEXT,
+  email_notifications_enabled TEXT NOT NULL DEFAULT 'true',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Sign up only sends an email and password, so every account starts with a
+-- generated username the user can change later
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_profiles (id, username)
+  VALUES (NEW.id, 'user_' || replace(NEW.id::text, '-', ''))
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handle_new_user() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+CREATE TABLE IF NOT EXISTS public.user_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_username TEXT NOT NULL,
+  nickname TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, contact_username)
+);
+
+ALTER TABLE public.user_contacts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the Stripe Identity functions with the service role
+CREATE TABLE IF NOT EXISTS public.account_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'stripe_identity',
+  session_id TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  payment_status TEXT NOT NULL DEFAULT 'pending',
+  stripe_payment_intent_id TEXT,
+  amount INTEGER,
+  failure_reason TEXT,
+  verified_data TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_verifications_user ON public.account_verifications(user_id);
+CREATE INDEX IF NOT EXISTS idx_account_verifications_payment_intent
+  ON public.account_verifications(stripe_payment_intent_id);
+
+ALTER TABLE public.account_verifications ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- Recordings and contracts
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.consent_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  university_id UUID REFERENCES public.universities(id) ON DELETE SET NULL,
+  encounter_type TEXT,
+  parties TEXT[],
+  filename TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  duration TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_recordings_user ON public.consent_recordings(user_id);
+
+ALTER TABLE public.consent_recordings ENABLE ROW LEVEL SECURITY;
+
+-- status: draft | pending_approval | active | paused | completed | rejected
+-- (transitions are enforced by 20261019103000_contract_lifecycle.sql)
+CREATE TABLE IF NOT EXISTS public.consent_contracts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  university_id UUID REFERENCES public.universities(id) ON DELETE SET NULL,
+  encounter_type TEXT,
+  parties TEXT[],
+  contract_start_time TIMESTAMPTZ,
+  contract_duration INTEGER,
+  contract_end_time TIMESTAMPTZ,
+  method TEXT,
+  contract_text TEXT,
+  signature_1 TEXT,
+  signature_2 TEXT,
+  photo_url TEXT,
+  credential_id TEXT,
+  credential_public_key TEXT,
+  credential_counter TEXT,
+  credential_device_type TEXT,
+  credential_backed_up TEXT,
+  authenticated_at TIMESTAMPTZ,
+  verified_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'draft',
+  is_collaborative TEXT NOT NULL DEFAULT 'false',
+  last_edited_by UUID,
+  intimate_acts TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_contracts_user ON public.consent_contracts(user_id);
+CREATE INDEX IF NOT EXISTS idx_consent_contracts_status ON public.consent_contracts(status);
+
+ALTER TABLE public.consent_contracts ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- Collaboration
+-- ================================================================
+
+-- user_id is NULL for participants without a PMY account.
+-- status: pending (shared in-app) | reviewing (joined by invitation) | approved | rejected
+CREATE TABLE IF NOT EXISTS public.contract_collaborators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.consent_contracts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  legal_name TEXT,
+  contact_info TEXT,
+  participant_type TEXT NOT NULL DEFAULT 'pmy_user',
+  role TEXT NOT NULL DEFAULT 'recipient',
+  status TEXT NOT NULL DEFAULT 'pending',
+  last_viewed_at TIMESTAMPTZ,
+  approved_at TIMESTAMPTZ,
+  rejected_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  confirmed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_collaborators_contract ON public.contract_collaborators(contract_id);
+CREATE INDEX IF NOT EXISTS idx_contract_collaborators_user ON public.contract_collaborators(user_id);
+
+ALTER TABLE public.contract_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.contract_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.consent_contracts(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  recipient_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  invitation_code TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_invitations_contract ON public.contract_invitations(contract_id);
+CREATE INDEX IF NOT EXISTS idx_contract_invitations_recipient ON public.contract_invitations(recipient_user_id);
+CREATE INDEX IF NOT EXISTS idx_contract_invitations_recipient_email ON public.contract_invitations(recipient_email);
+
+ALTER TABLE public.contract_invitations ENABLE ROW LEVEL SECURITY;
+
+-- new_value holds a JSON string; see 20261019105000_contract_amendment_engine.sql.
+-- requested_by has no foreign key: applied amendments are a historical record and
+-- can't be updated when the requester's account is deleted.
+CREATE TABLE IF NOT EXISTS public.contract_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.consent_contracts(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL,
+  type TEXT NOT NULL,
+  description TEXT,
+  new_value TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_amendments_contract ON public.contract_amendments(contract_id);
+
+ALTER TABLE public.contract_amendments ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- Notifications
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  is_read TEXT NOT NULL DEFAULT 'false',
+  related_contract_id UUID REFERENCES public.consent_contracts(id) ON DELETE SET NULL,
+  related_amendment_id UUID REFERENCES public.contract_amendments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- Storage
+-- ================================================================
+
+-- Recordings and photos started out public; 20261019110000_private_consent_media.sql
+-- makes them private
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true), ('recordings', 'recordings', true), ('photos', 'photos', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,277 @@
+-- Migration: Tamper-evident hash chain for consent contracts
+-- Every insert or content change on consent_contracts appends an immutable row to
+-- contract_versions. Each version hashes the contract snapshot together with the
+-- previous version's hash, so editing or deleting history breaks the chain.
+--
+-- The canonical form hashed here is mirrored in src/lib/contractChain.ts, which the
+-- app uses to re-walk the chain. Keep the field list in sync with CONTRACT_CHAIN_FIELDS.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Voice consent recordings were uploaded but never referenced from the contract
+ALTER TABLE public.consent_contracts
+ADD COLUMN IF NOT EXISTS audio_url TEXT;
+
+COMMENT ON COLUMN public.consent_contracts.audio_url IS 'Reference to the voice consent recording for method = voice';
+
+-- ================================================================
+-- Version table
+-- ================================================================
+
+-- contract_id is intentionally not a foreign key: history outlives the contract row
+CREATE TABLE IF NOT EXISTS public.contract_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  event TEXT NOT NULL CHECK (event IN ('baseline', 'created', 'updated', 'paused', 'resumed', 'status_changed')),
+  snapshot JSONB NOT NULL,
+  previous_hash TEXT,
+  content_hash TEXT NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_versions_contract ON public.contract_versions(contract_id, version);
+
+COMMENT ON TABLE public.contract_versions IS 'Append-only hash chain of consent contract versions';
+COMMENT ON COLUMN public.contract_versions.snapshot IS 'Hashed contract fields, each stored as text exactly as it was hashed';
+
+-- ================================================================
+-- Hashing
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.contract_chain_fields()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[
+    'university_id',
+    'encounter_type',
+    'parties',
+    'intimate_acts',
+    'contract_start_time',
+    'contract_duration',
+    'contract_end_time',
+    'method',
+    'contract_text',
+    'signature_1',
+    'signature_2',
+    'photo_url',
+    'audio_url',
+    'credential_id',
+    'credential_public_key',
+    'status'
+  ]
+$$;
+
+-- Timestamps are rendered in UTC so the snapshot doesn't depend on the session TimeZone
+CREATE OR REPLACE FUNCTION public.contract_chain_timestamp(p_value TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(p_value AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+$$;
+
+CREATE OR REPLACE FUNCTION public.contract_chain_snapshot(c public.consent_contracts)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'university_id', c.university_id::text,
+    'encounter_type', c.encounter_type::text,
+    'parties', c.parties::text,
+    'intimate_acts', c.intimate_acts::text,
+    'contract_start_time', public.contract_chain_timestamp(c.contract_start_time),
+    'contract_duration', c.contract_duration::text,
+    'contract_end_time', public.contract_chain_timestamp(c.contract_end_time),
+    'method', c.method::text,
+    'contract_text', c.contract_text::text,
+    'signature_1', c.signature_1::text,
+    'signature_2', c.signature_2::text,
+    'photo_url', c.photo_url::text,
+    'audio_url', c.audio_url::text,
+    'credential_id', c.credential_id::text,
+    'credential_public_key', c.credential_public_key::text,
+    'status', c.status::text
+  )
+$$;
+
+-- Each field is hashed on its own so values containing newlines cannot be
+-- shifted between fields without changing the digest.
+CREATE OR REPLACE FUNCTION public.contract_chain_hash(
+  p_contract_id UUID,
+  p_version INTEGER,
+  p_event TEXT,
+  p_previous_hash TEXT,
+  p_snapshot JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_canonical TEXT;
+  v_field TEXT;
+  v_value TEXT;
+BEGIN
+  v_canonical := 'pmy-contract-chain/v1'
+    || E'\ncontract_id=' || p_contract_id::text
+    || E'\nversion=' || p_version::text
+    || E'\nevent=' || p_event
+    || E'\nprevious_hash=' || COALESCE(p_previous_hash, 'genesis');
+
+  FOREACH v_field IN ARRAY public.contract_chain_fields() LOOP
+    v_value := p_snapshot ->> v_field;
+    v_canonical := v_canonical || E'\n' || v_field || '=' ||
+      CASE
+        WHEN v_value IS NULL THEN 'null'
+        ELSE encode(digest(convert_to(v_value, 'UTF8'), 'sha256'), 'hex')
+      END;
+  END LOOP;
+
+  RETURN encode(digest(convert_to(v_canonical, 'UTF8'), 'sha256'), 'hex');
+END;
+$$;
+
+-- ================================================================
+-- Append trigger
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.append_contract_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot JSONB;
+  v_head public.contract_versions%ROWTYPE;
+  v_event TEXT;
+  v_version INTEGER;
+BEGIN
+  v_snapshot := public.contract_chain_snapshot(NEW);
+
+  SELECT * INTO v_head
+  FROM public.contract_versions
+  WHERE contract_id = NEW.id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  -- Bookkeeping-only updates (updated_at, last_edited_by, ...) don't create a version
+  IF FOUND AND v_head.snapshot = v_snapshot THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_event := 'created';
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    v_event := CASE
+      WHEN OLD.status = 'active' AND NEW.status = 'paused' THEN 'paused'
+      WHEN OLD.status = 'paused' AND NEW.status = 'active' THEN 'resumed'
+      ELSE 'status_changed'
+    END;
+  ELSE
+    v_event := 'updated';
+  END IF;
+
+  v_version := COALESCE(v_head.version, 0) + 1;
+
+  INSERT INTO public.contract_versions (
+    contract_id, version, event, snapshot, previous_hash, content_hash, created_by
+  ) VALUES (
+    NEW.id,
+    v_version,
+    v_event,
+    v_snapshot,
+    v_head.content_hash,
+    public.contract_chain_hash(NEW.id, v_version, v_event, v_head.content_hash, v_snapshot),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consent_contracts_append_version ON public.consent_contracts;
+CREATE TRIGGER consent_contracts_append_version
+AFTER INSERT OR UPDATE ON public.consent_contracts
+FOR EACH ROW EXECUTE FUNCTION public.append_contract_version();
+
+-- ================================================================
+-- Immutability
+-- ================================================================
+
+-- History can only be removed by the purge jobs, which opt in per transaction
+CREATE OR REPLACE FUNCTION public.prevent_contract_version_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('pmy.allow_history_purge', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'contract_versions is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_versions_immutable ON public.contract_versions;
+CREATE TRIGGER contract_versions_immutable
+BEFORE UPDATE OR DELETE ON public.contract_versions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_contract_version_changes();
+
+ALTER TABLE public.contract_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contract owners can read versions" ON public.contract_versions;
+CREATE POLICY "Contract owners can read versions"
+ON public.contract_versions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.consent_contracts c
+    WHERE c.id = contract_versions.contract_id
+      AND c.user_id = auth.uid()
+  )
+);
+
+-- ================================================================
+-- Verification helpers
+-- ================================================================
+
+-- Detects edits that bypassed the trigger (e.g. a disabled trigger or a restore)
+CREATE OR REPLACE FUNCTION public.contract_chain_head_matches(p_contract_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.contract_chain_snapshot(c) = (
+    SELECT v.snapshot
+    FROM public.contract_versions v
+    WHERE v.contract_id = c.id
+    ORDER BY v.version DESC
+    LIMIT 1
+  )
+  FROM public.consent_contracts c
+  WHERE c.id = p_contract_id
+$$;
+
+-- ================================================================
+-- Backfill
+-- ================================================================
+
+-- Existing contracts start their chain from their current state
+INSERT INTO public.contract_versions (contract_id, version, event, snapshot, previous_hash, content_hash)
+SELECT
+  c.id,
+  1,
+  'baseline',
+  public.contract_chain_snapshot(c),
+  NULL,
+  public.contract_chain_hash(c.id, 1, 'baseline', NULL, public.contract_chain_snapshot(c))
+FROM public.consent_contracts c
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.contract_versions v WHERE v.contract_id = c.id
+);
@@ -0,0 +1,39 @@
+-- Migration: Server-verified biometric consent credentials
+-- Each device registers an Ed25519 public key per user. The private key never leaves
+-- the device's secure enclave/keystore and can only be read after biometric
+-- authentication. Consent is proven by signing a challenge derived from the
+-- contract's hash-chain head; the biometric-credential edge function verifies it.
+
+CREATE TABLE IF NOT EXISTS public.biometric_credentials (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key TEXT NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  device_type TEXT NOT NULL DEFAULT 'singleDevice',
+  backed_up BOOLEAN NOT NULL DEFAULT false,
+  device_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_biometric_credentials_user ON public.biometric_credentials(user_id);
+
+COMMENT ON TABLE public.biometric_credentials IS 'Per-device public keys used to verify biometric consent';
+COMMENT ON COLUMN public.biometric_credentials.counter IS 'Highest signature counter seen; lower or equal counters are rejected as replays';
+
+ALTER TABLE public.biometric_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Registration and counter updates go through the edge function (service role)
+DROP POLICY IF EXISTS "Users can read their own credentials" ON public.biometric_credentials;
+CREATE POLICY "Users can read their own credentials"
+ON public.biometric_credentials FOR SELECT
+USING (user_id = auth.uid());
+
+-- Keep the signed assertion on the contract so it can be re-verified later
+ALTER TABLE public.consent_contracts
+ADD COLUMN IF NOT EXISTS credential_signature TEXT,
+ADD COLUMN IF NOT EXISTS credential_signed_version INTEGER;
+
+COMMENT ON COLUMN public.consent_contracts.credential_signature IS 'Hex Ed25519 signature over the biometric consent challenge';
+COMMENT ON COLUMN public.consent_contracts.credential_signed_version IS 'contract_versions.version whose content_hash was signed';
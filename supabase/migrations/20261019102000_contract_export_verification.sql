@@ -0,0 +1,34 @@
+-- Migration: Verification codes for exported contracts
+-- A PDF export carries a code made of the first 16 hex characters of the hash-chain
+-- head at export time. This lets anyone holding the export and the contract ID check
+-- that the code matches a recorded version, without exposing the contract itself.
+
+CREATE OR REPLACE FUNCTION public.verify_contract_export(p_contract_id UUID, p_code TEXT)
+RETURNS TABLE (version INTEGER, recorded_at TIMESTAMPTZ, is_current BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix TEXT := lower(regexp_replace(coalesce(p_code, ''), '[^0-9a-fA-F]', '', 'g'));
+BEGIN
+  -- Short prefixes would make codes guessable
+  IF length(v_prefix) < 16 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.version,
+    v.created_at,
+    v.version = (SELECT max(h.version) FROM public.contract_versions h WHERE h.contract_id = p_contract_id)
+  FROM public.contract_versions v
+  WHERE v.contract_id = p_contract_id
+    AND left(v.content_hash, length(v_prefix)) = v_prefix
+  ORDER BY v.version DESC
+  LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_contract_export(UUID, TEXT) TO anon, authenticated;
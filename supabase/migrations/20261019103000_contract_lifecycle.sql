@@ -0,0 +1,189 @@
+-- Migration: Contract lifecycle
+-- Enforces the legal contract status transitions in the database, records every
+-- status change in contract_status_history, and schedules the contract-lifecycle
+-- edge function that completes contracts once contract_end_time has passed.
+--
+-- Legal transitions:
+--   draft            -> pending_approval
+--   pending_approval -> active | rejected
+--   active           -> paused | completed | rejected
+--   paused           -> active | completed | rejected
+-- completed and rejected are terminal.
+
+-- ================================================================
+-- Status history
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.contract_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.consent_contracts(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_status_history_contract
+ON public.contract_status_history(contract_id, created_at);
+
+COMMENT ON TABLE public.contract_status_history IS 'One row per contract status change, written by trigger';
+COMMENT ON COLUMN public.contract_status_history.changed_by IS 'User who made the change; NULL for system changes such as expiry';
+
+ALTER TABLE public.contract_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contract parties can read status history" ON public.contract_status_history;
+CREATE POLICY "Contract parties can read status history"
+ON public.contract_status_history FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.consent_contracts c
+    WHERE c.id = contract_status_history.contract_id
+      AND c.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.contract_collaborators cc
+    WHERE cc.contract_id = contract_status_history.contract_id
+      AND cc.user_id = auth.uid()
+  )
+);
+
+-- ================================================================
+-- Transition rules
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.is_legal_contract_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'draft' THEN p_to IN ('pending_approval')
+    WHEN 'pending_approval' THEN p_to IN ('active', 'rejected')
+    WHEN 'active' THEN p_to IN ('paused', 'completed', 'rejected')
+    WHEN 'paused' THEN p_to IN ('active', 'completed', 'rejected')
+    ELSE false
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_contract_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NOT public.is_legal_contract_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal contract status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consent_contracts_status_transition ON public.consent_contracts;
+CREATE TRIGGER consent_contracts_status_transition
+BEFORE UPDATE OF status ON public.consent_contracts
+FOR EACH ROW EXECUTE FUNCTION public.enforce_contract_status_transition();
+
+-- System callers pass a reason through the pmy.status_change_reason setting
+CREATE OR REPLACE FUNCTION public.record_contract_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.contract_status_history (contract_id, from_status, to_status, changed_by, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('pmy.status_change_reason', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consent_contracts_status_history ON public.consent_contracts;
+CREATE TRIGGER consent_contracts_status_history
+AFTER INSERT OR UPDATE OF status ON public.consent_contracts
+FOR EACH ROW EXECUTE FUNCTION public.record_contract_status_change();
+
+-- ================================================================
+-- Expiry
+-- ================================================================
+
+-- Called by the contract-lifecycle edge function with the service role.
+-- Returns the contracts that were completed so their parties can be notified.
+CREATE OR REPLACE FUNCTION public.complete_expired_contracts(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (contract_id UUID, owner_id UUID, previous_status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('pmy.status_change_reason', 'expired', true);
+
+  RETURN QUERY
+  WITH expired AS (
+    SELECT c.id, c.status
+    FROM public.consent_contracts c
+    WHERE c.status IN ('active', 'paused')
+      AND c.contract_end_time IS NOT NULL
+      AND c.contract_end_time <= now()
+    ORDER BY c.contract_end_time
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.consent_contracts c
+  SET status = 'completed', updated_at = now()
+  FROM expired e
+  WHERE c.id = e.id
+  RETURNING c.id, c.user_id, e.status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_expired_contracts(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_expired_contracts(INTEGER) TO service_role;
+
+-- Backfill the current status of existing contracts
+INSERT INTO public.contract_status_history (contract_id, from_status, to_status, reason, created_at)
+SELECT c.id, NULL, c.status, 'baseline', COALESCE(c.created_at, now())
+FROM public.consent_contracts c
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.contract_status_history h WHERE h.contract_id = c.id
+);
+
+-- ================================================================
+-- Schedule
+-- ================================================================
+
+-- Requires the project_url and service_role_key secrets in Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule('contract-lifecycle')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'contract-lifecycle');
+
+SELECT cron.schedule(
+  'contract-lifecycle',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/contract-lifecycle',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,180 @@
+-- Migration: Consent revocation
+-- Any party to a contract (the owner or a collaborator who joined it) can withdraw
+-- consent. Revocation is terminal, is recorded on the contract, and locks the
+-- contract against further amendments. The revoke-contract edge function calls
+-- revoke_contract() and then notifies the other parties.
+
+-- ================================================================
+-- Parties
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.is_contract_party(p_contract_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.consent_contracts c
+    WHERE c.id = p_contract_id AND c.user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.contract_collaborators cc
+    WHERE cc.contract_id = p_contract_id
+      AND cc.user_id = p_user_id
+      AND cc.status IN ('reviewing', 'approved')
+  )
+$$;
+
+-- Answers for any user, so it's kept for definer functions and the service role
+REVOKE EXECUTE ON FUNCTION public.is_contract_party(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_contract_party(UUID, UUID) TO service_role;
+
+-- Whether the caller is a party; what policies use
+CREATE OR REPLACE FUNCTION public.is_contract_party(p_contract_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_contract_party(p_contract_id, auth.uid())
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_contract_party(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_contract_party(UUID) TO authenticated;
+
+-- Collaborators can read the contracts they are party to
+DROP POLICY IF EXISTS "Contract parties can view contracts" ON public.consent_contracts;
+CREATE POLICY "Contract parties can view contracts"
+ON public.consent_contracts FOR SELECT TO authenticated
+USING (public.is_contract_party(id));
+
+DROP POLICY IF EXISTS "Contract owners can read versions" ON public.contract_versions;
+DROP POLICY IF EXISTS "Contract parties can read versions" ON public.contract_versions;
+CREATE POLICY "Contract parties can read versions"
+ON public.contract_versions FOR SELECT TO authenticated
+USING (public.is_contract_party(contract_id));
+
+DROP POLICY IF EXISTS "Contract parties can read status history" ON public.contract_status_history;
+CREATE POLICY "Contract parties can read status history"
+ON public.contract_status_history FOR SELECT TO authenticated
+USING (public.is_contract_party(contract_id));
+
+-- ================================================================
+-- Revocation
+-- ================================================================
+
+ALTER TABLE public.consent_contracts
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS revocation_reason TEXT;
+
+COMMENT ON COLUMN public.consent_contracts.revoked_by IS 'Party who withdrew consent';
+
+-- revoked is terminal; every non-terminal signed state can be revoked
+CREATE OR REPLACE FUNCTION public.is_legal_contract_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'draft' THEN p_to IN ('pending_approval')
+    WHEN 'pending_approval' THEN p_to IN ('active', 'rejected', 'revoked')
+    WHEN 'active' THEN p_to IN ('paused', 'completed', 'rejected', 'revoked')
+    WHEN 'paused' THEN p_to IN ('active', 'completed', 'rejected', 'revoked')
+    ELSE false
+  END
+$$;
+
+-- Called by the revoke-contract edge function with the service role
+CREATE OR REPLACE FUNCTION public.revoke_contract(
+  p_contract_id UUID,
+  p_user_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.consent_contracts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.consent_contracts;
+BEGIN
+  IF NOT public.is_contract_party(p_contract_id, p_user_id) THEN
+    RAISE EXCEPTION 'Only a party to this contract can withdraw consent'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('pmy.status_change_reason', 'revoked', true);
+
+  UPDATE public.consent_contracts
+  SET status = 'revoked',
+      revoked_at = now(),
+      revoked_by = p_user_id,
+      revocation_reason = NULLIF(trim(p_reason), ''),
+      updated_at = now()
+  WHERE id = p_contract_id
+    AND status IN ('pending_approval', 'active', 'paused')
+  RETURNING * INTO v_contract;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This contract can no longer be revoked'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN v_contract;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_contract(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_contract(UUID, UUID, TEXT) TO service_role;
+
+-- Revocation details can't be edited or cleared after the fact
+CREATE OR REPLACE FUNCTION public.protect_contract_revocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'revoked' AND (
+    NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+    OR NEW.revoked_by IS DISTINCT FROM OLD.revoked_by
+    OR NEW.revocation_reason IS DISTINCT FROM OLD.revocation_reason
+  ) THEN
+    RAISE EXCEPTION 'Revocation details cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consent_contracts_protect_revocation ON public.consent_contracts;
+CREATE TRIGGER consent_contracts_protect_revocation
+BEFORE UPDATE ON public.consent_contracts
+FOR EACH ROW EXECUTE FUNCTION public.protect_contract_revocation();
+
+-- ================================================================
+-- Amendment lock
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_amendments_on_revoked_contract()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.consent_contracts
+    WHERE id = NEW.contract_id AND status = 'revoked'
+  ) AND (TG_OP = 'INSERT' OR NEW.status = 'approved') THEN
+    RAISE EXCEPTION 'Consent has been withdrawn; this contract can no longer be amended'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_amendments_revocation_lock ON public.contract_amendments;
+CREATE TRIGGER contract_amendments_revocation_lock
+BEFORE INSERT OR UPDATE ON public.contract_amendments
+FOR EACH ROW EXECUTE FUNCTION public.prevent_amendments_on_revoked_contract();
@@ -0,0 +1,270 @@
+-- Migration: Amendment engine
+-- Applies an amendment to its contract when the amendment becomes approved. The
+-- change only goes through once every party other than the requester is in
+-- `approvers`, and it is applied in the same transaction as the status change.
+-- The contract's values before and after are kept on the amendment for diffs,
+-- and the contract's hash chain records the change as an 'amended' version.
+--
+-- new_value by type:
+--   add_acts / remove_acts  JSON array of act names
+--   change_duration         duration in minutes
+--   other                   nothing is applied
+
+ALTER TABLE public.contract_amendments
+ADD COLUMN IF NOT EXISTS approvers UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS rejected_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+ADD COLUMN IF NOT EXISTS previous_value JSONB,
+ADD COLUMN IF NOT EXISTS applied_value JSONB,
+ADD COLUMN IF NOT EXISTS applied_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.contract_amendments.previous_value IS 'Contract fields touched by the amendment, as they were before it was applied';
+COMMENT ON COLUMN public.contract_amendments.applied_value IS 'The same fields after the amendment was applied';
+
+-- ================================================================
+-- Parties
+-- ================================================================
+
+-- Same membership as is_contract_party(), as a list
+CREATE OR REPLACE FUNCTION public.contract_party_ids(p_contract_id UUID)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT party_id), '{}')
+  FROM (
+    SELECT c.user_id AS party_id
+    FROM public.consent_contracts c
+    WHERE c.id = p_contract_id
+    UNION
+    SELECT cc.user_id
+    FROM public.contract_collaborators cc
+    WHERE cc.contract_id = p_contract_id
+      AND cc.user_id IS NOT NULL
+      AND cc.status IN ('reviewing', 'approved')
+  ) parties
+$$;
+
+-- Lists any contract's parties, so like is_contract_party(UUID, UUID) it's kept
+-- for definer functions and the service role
+REVOKE EXECUTE ON FUNCTION public.contract_party_ids(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.contract_party_ids(UUID) TO service_role;
+
+-- ================================================================
+-- Hash chain: record amendments as their own event
+-- ================================================================
+
+ALTER TABLE public.contract_versions DROP CONSTRAINT IF EXISTS contract_versions_event_check;
+ALTER TABLE public.contract_versions ADD CONSTRAINT contract_versions_event_check
+CHECK (event IN ('baseline', 'created', 'updated', 'amended', 'paused', 'resumed', 'status_changed'));
+
+-- Same as 20261019100000_contract_version_chain.sql, plus the pmy.contract_version_event override
+CREATE OR REPLACE FUNCTION public.append_contract_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot JSONB;
+  v_head public.contract_versions%ROWTYPE;
+  v_event TEXT;
+  v_version INTEGER;
+BEGIN
+  v_snapshot := public.contract_chain_snapshot(NEW);
+
+  SELECT * INTO v_head
+  FROM public.contract_versions
+  WHERE contract_id = NEW.id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  -- Bookkeeping-only updates (updated_at, last_edited_by, ...) don't create a version
+  IF FOUND AND v_head.snapshot = v_snapshot THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_event := 'created';
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    v_event := CASE
+      WHEN OLD.status = 'active' AND NEW.status = 'paused' THEN 'paused'
+      WHEN OLD.status = 'paused' AND NEW.status = 'active' THEN 'resumed'
+      ELSE 'status_changed'
+    END;
+  ELSE
+    v_event := COALESCE(NULLIF(current_setting('pmy.contract_version_event', true), ''), 'updated');
+  END IF;
+
+  v_version := COALESCE(v_head.version, 0) + 1;
+
+  INSERT INTO public.contract_versions (
+    contract_id, version, event, snapshot, previous_hash, content_hash, created_by
+  ) VALUES (
+    NEW.id,
+    v_version,
+    v_event,
+    v_snapshot,
+    v_head.content_hash,
+    public.contract_chain_hash(NEW.id, v_version, v_event, v_head.content_hash, v_snapshot),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- ================================================================
+-- Apply
+-- ================================================================
+
+-- Values may be stored as JSON text or as JSONB holding a JSON string
+CREATE OR REPLACE FUNCTION public.parse_json_value(p_value JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_value IS NULL THEN NULL
+    WHEN jsonb_typeof(p_value) = 'string' THEN (p_value #>> '{}')::jsonb
+    ELSE p_value
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_contract_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.consent_contracts;
+  v_missing UUID[];
+  v_value JSONB;
+  v_acts JSONB;
+  v_act TEXT;
+  v_key TEXT;
+  v_duration INTEGER;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_contract
+  FROM public.consent_contracts
+  WHERE id = NEW.contract_id
+  FOR UPDATE;
+
+  IF v_contract.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'Amendments can only be applied to active or paused contracts'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT array_agg(party_id) INTO v_missing
+  FROM unnest(public.contract_party_ids(NEW.contract_id)) AS party_id
+  WHERE party_id <> NEW.requested_by
+    AND NOT (party_id = ANY (NEW.approvers));
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Amendment needs approval from every party (% outstanding)', array_length(v_missing, 1)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  BEGIN
+    v_value := public.parse_json_value(to_jsonb(NEW.new_value));
+  EXCEPTION WHEN invalid_text_representation THEN
+    RAISE EXCEPTION 'Amendment value is not valid JSON' USING ERRCODE = 'check_violation';
+  END;
+
+  PERFORM set_config('pmy.contract_version_event', 'amended', true);
+
+  IF NEW.type IN ('add_acts', 'remove_acts') THEN
+    IF jsonb_typeof(v_value) IS DISTINCT FROM 'array' THEN
+      RAISE EXCEPTION 'Amendment value must be a list of acts' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_acts := COALESCE(public.parse_json_value(to_jsonb(v_contract.intimate_acts)), '{}'::jsonb);
+    NEW.previous_value := jsonb_build_object('intimate_acts', v_acts);
+
+    FOR v_act IN SELECT trim(value) FROM jsonb_array_elements_text(v_value) LOOP
+      CONTINUE WHEN v_act = '';
+
+      -- Acts are typed free-form in AmendmentDialog; match existing keys case-insensitively
+      SELECT key INTO v_key
+      FROM jsonb_object_keys(v_acts) AS key
+      WHERE lower(key) = lower(v_act)
+      LIMIT 1;
+
+      -- Removed acts are kept as an explicit "no" rather than dropped
+      v_acts := jsonb_set(
+        v_acts,
+        ARRAY[COALESCE(v_key, v_act)],
+        to_jsonb(CASE WHEN NEW.type = 'add_acts' THEN 'yes' ELSE 'no' END)
+      );
+    END LOOP;
+
+    UPDATE public.consent_contracts
+    SET intimate_acts = v_acts::text, updated_at = now()
+    WHERE id = NEW.contract_id;
+
+    NEW.applied_value := jsonb_build_object('intimate_acts', v_acts);
+
+  ELSIF NEW.type = 'change_duration' THEN
+    IF jsonb_typeof(v_value) IS DISTINCT FROM 'number' OR (v_value #>> '{}')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Amendment value must be a positive duration in minutes' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_duration := round((v_value #>> '{}')::numeric)::integer;
+    v_end_time := COALESCE(v_contract.contract_start_time, now()) + make_interval(mins => v_duration);
+
+    NEW.previous_value := jsonb_build_object(
+      'contract_duration', v_contract.contract_duration,
+      'contract_end_time', v_contract.contract_end_time
+    );
+
+    UPDATE public.consent_contracts
+    SET contract_duration = v_duration,
+        contract_end_time = v_end_time,
+        updated_at = now()
+    WHERE id = NEW.contract_id;
+
+    NEW.applied_value := jsonb_build_object(
+      'contract_duration', v_duration,
+      'contract_end_time', v_end_time
+    );
+  END IF;
+
+  PERFORM set_config('pmy.contract_version_event', '', true);
+
+  NEW.approved_at := COALESCE(NEW.approved_at, now());
+  NEW.applied_at := now();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_amendments_apply ON public.contract_amendments;
+CREATE TRIGGER contract_amendments_apply
+BEFORE UPDATE OF status ON public.contract_amendments
+FOR EACH ROW
+WHEN (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved')
+EXECUTE FUNCTION public.apply_contract_amendment();
+
+-- Approved amendments are a historical record
+CREATE OR REPLACE FUNCTION public.prevent_applied_amendment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.applied_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Applied amendments cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_amendments_immutable_when_applied ON public.contract_amendments;
+CREATE TRIGGER contract_amendments_immutable_when_applied
+BEFORE UPDATE ON public.contract_amendments
+FOR EACH ROW EXECUTE FUNCTION public.prevent_applied_amendment_changes();
@@ -0,0 +1,293 @@
+-- Migration: Amendment approval and rejection
+-- approve_contract_amendment() and reject_contract_amendment() are the only way an
+-- amendment's approvers or status can change. Every party except the requester
+-- must approve; a single rejection resolves the amendment as rejected. Once the
+-- last approval is in, the amendment becomes approved and the apply trigger from
+-- 20261019105000_contract_amendment_engine.sql updates the contract. A contract
+-- with no other party has nobody to approve, so amendments to it are refused.
+-- resolve_contract_amendment() decides whether an amendment is settled; it runs
+-- after each approval and whenever a party leaves the contract, since the party
+-- who leaves may be the last one an amendment was waiting on.
+
+-- ================================================================
+-- Guard
+-- ================================================================
+
+-- Runs as the definer so it can list the contract's parties for any requester
+CREATE OR REPLACE FUNCTION public.guard_contract_amendment_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'pending' OR cardinality(NEW.approvers) > 0 THEN
+      RAISE EXCEPTION 'New amendments must be pending with no approvals';
+    END IF;
+    IF auth.uid() IS NOT NULL AND (
+      NEW.requested_by IS DISTINCT FROM auth.uid()
+      OR NOT public.is_contract_party(NEW.contract_id)
+    ) THEN
+      RAISE EXCEPTION 'Only a party to this contract can request an amendment'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM unnest(public.contract_party_ids(NEW.contract_id)) AS party_id
+      WHERE party_id IS DISTINCT FROM NEW.requested_by
+    ) THEN
+      RAISE EXCEPTION 'Amendments need another party to approve them'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('pmy.amendment_resolution', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.approvers IS DISTINCT FROM OLD.approvers
+     OR NEW.rejected_by IS DISTINCT FROM OLD.rejected_by
+     OR NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason THEN
+    RAISE EXCEPTION 'Use approve_contract_amendment or reject_contract_amendment to resolve amendments'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_amendments_guard_resolution ON public.contract_amendments;
+CREATE TRIGGER contract_amendments_guard_resolution
+BEFORE INSERT OR UPDATE ON public.contract_amendments
+FOR EACH ROW EXECUTE FUNCTION public.guard_contract_amendment_resolution();
+
+-- ================================================================
+-- Resolve
+-- ================================================================
+
+-- Approves a pending amendment once every other party has approved it. If the
+-- requester has left the contract, or nobody else is left to approve, it's
+-- rejected instead.
+CREATE OR REPLACE FUNCTION public.resolve_contract_amendment(p_amendment_id UUID)
+RETURNS public.contract_amendments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amendment public.contract_amendments;
+  v_parties UUID[];
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_amendment
+  FROM public.contract_amendments
+  WHERE id = p_amendment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_amendment.status <> 'pending' THEN
+    RETURN v_amendment;
+  END IF;
+
+  v_parties := public.contract_party_ids(v_amendment.contract_id);
+
+  IF NOT (v_amendment.requested_by = ANY (v_parties)) THEN
+    v_reason := 'The requester is no longer a party to this contract';
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM unnest(v_parties) AS party_id
+    WHERE party_id <> v_amendment.requested_by
+  ) THEN
+    v_reason := 'No other party is left to approve it';
+  ELSIF EXISTS (
+    SELECT 1 FROM unnest(v_parties) AS party_id
+    WHERE party_id <> v_amendment.requested_by
+      AND NOT (party_id = ANY (v_amendment.approvers))
+  ) THEN
+    RETURN v_amendment;
+  END IF;
+
+  PERFORM set_config('pmy.amendment_resolution', 'on', true);
+
+  UPDATE public.contract_amendments
+  SET status = CASE WHEN v_reason IS NULL THEN 'approved' ELSE 'rejected' END,
+      rejected_at = CASE WHEN v_reason IS NULL THEN rejected_at ELSE now() END,
+      rejection_reason = COALESCE(v_reason, rejection_reason),
+      updated_at = now()
+  WHERE id = p_amendment_id
+  RETURNING * INTO v_amendment;
+
+  PERFORM set_config('pmy.amendment_resolution', '', true);
+
+  RETURN v_amendment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_contract_amendment(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_contract_amendment(UUID) TO service_role;
+
+-- ================================================================
+-- Approve
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.approve_contract_amendment(p_amendment_id UUID)
+RETURNS public.contract_amendments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_amendment public.contract_amendments;
+BEGIN
+  SELECT * INTO v_amendment
+  FROM public.contract_amendments
+  WHERE id = p_amendment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_contract_party(v_amendment.contract_id, v_user_id) THEN
+    RAISE EXCEPTION 'Amendment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_amendment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This amendment has already been resolved' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_amendment.requested_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot approve your own amendment request' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF v_user_id = ANY (v_amendment.approvers) THEN
+    RETURN v_amendment;
+  END IF;
+
+  PERFORM set_config('pmy.amendment_resolution', 'on', true);
+
+  UPDATE public.contract_amendments
+  SET approvers = array_append(approvers, v_user_id),
+      updated_at = now()
+  WHERE id = p_amendment_id;
+
+  PERFORM set_config('pmy.amendment_resolution', '', true);
+
+  v_amendment := public.resolve_contract_amendment(p_amendment_id);
+
+  IF v_amendment.status = 'approved' THEN
+    INSERT INTO public.notifications (user_id, type, title, message, related_contract_id, related_amendment_id, is_read)
+    SELECT party_id, 'amendment_approved', 'Amendment Approved',
+           'All parties approved the amendment and it has been applied to the contract.',
+           v_amendment.contract_id, v_amendment.id, 'false'
+    FROM unnest(public.contract_party_ids(v_amendment.contract_id)) AS party_id
+    WHERE party_id <> v_user_id;
+  END IF;
+
+  RETURN v_amendment;
+END;
+$$;
+
+-- ================================================================
+-- Reject
+-- ================================================================
+
+-- Any party may reject, including the requester withdrawing their own request
+CREATE OR REPLACE FUNCTION public.reject_contract_amendment(p_amendment_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.contract_amendments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_amendment public.contract_amendments;
+BEGIN
+  SELECT * INTO v_amendment
+  FROM public.contract_amendments
+  WHERE id = p_amendment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_contract_party(v_amendment.contract_id, v_user_id) THEN
+    RAISE EXCEPTION 'Amendment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_amendment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This amendment has already been resolved' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('pmy.amendment_resolution', 'on', true);
+
+  UPDATE public.contract_amendments
+  SET status = 'rejected',
+      rejected_by = v_user_id,
+      rejected_at = now(),
+      rejection_reason = NULLIF(trim(p_reason), ''),
+      updated_at = now()
+  WHERE id = p_amendment_id
+  RETURNING * INTO v_amendment;
+
+  PERFORM set_config('pmy.amendment_resolution', '', true);
+
+  IF v_amendment.requested_by <> v_user_id THEN
+    INSERT INTO public.notifications (user_id, type, title, message, related_contract_id, related_amendment_id, is_read)
+    VALUES (
+      v_amendment.requested_by, 'amendment_rejected', 'Amendment Rejected',
+      COALESCE('Your amendment request was rejected: ' || v_amendment.rejection_reason, 'Your amendment request was rejected.'),
+      v_amendment.contract_id, v_amendment.id, 'false'
+    );
+  END IF;
+
+  RETURN v_amendment;
+END;
+$$;
+
+-- ================================================================
+-- Parties leaving
+-- ================================================================
+
+-- A collaborator who is removed or rejects the contract no longer has to
+-- approve its amendments, so one may now be settled. An amendment that can no
+-- longer apply (say the contract has ended) is rejected rather than blocking
+-- the change to the collaborator.
+CREATE OR REPLACE FUNCTION public.resolve_amendments_on_party_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amendment_id UUID;
+BEGIN
+  -- Deleting the contract takes its collaborators and amendments with it
+  IF NOT EXISTS (SELECT 1 FROM public.consent_contracts WHERE id = OLD.contract_id) THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE' AND (
+    NEW.status IN ('reviewing', 'approved')
+    OR OLD.status NOT IN ('reviewing', 'approved')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_amendment_id IN
+    SELECT id FROM public.contract_amendments
+    WHERE contract_id = OLD.contract_id AND status = 'pending'
+  LOOP
+    BEGIN
+      PERFORM public.resolve_contract_amendment(v_amendment_id);
+    EXCEPTION WHEN check_violation THEN
+      PERFORM set_config('pmy.amendment_resolution', 'on', true);
+      UPDATE public.contract_amendments
+      SET status = 'rejected', rejected_at = now(), rejection_reason = SQLERRM, updated_at = now()
+      WHERE id = v_amendment_id;
+      PERFORM set_config('pmy.amendment_resolution', '', true);
+    END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_collaborators_resolve_amendments ON public.contract_collaborators;
+CREATE TRIGGER contract_collaborators_resolve_amendments
+AFTER UPDATE OF status OR DELETE ON public.contract_collaborators
+FOR EACH ROW EXECUTE FUNCTION public.resolve_amendments_on_party_change();
+
+REVOKE EXECUTE ON FUNCTION public.approve_contract_amendment(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reject_contract_amendment(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_contract_amendment(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_contract_amendment(UUID, TEXT) TO authenticated;
@@ -0,0 +1,75 @@
+-- Migration: Invitation email delivery
+-- Inserting a contract_invitations row queues its email: a trigger calls the
+-- send-invitation edge function through pg_net. Each send attempt is logged in
+-- invitation_deliveries, and the email-webhook function records delivery and
+-- bounce events from the provider against it. The latest state is mirrored on the
+-- invitation so the sender can see it.
+--
+-- Requires the project_url and service_role_key secrets in Vault (see
+-- 20261019103000_contract_lifecycle.sql).
+
+ALTER TABLE public.contract_invitations
+ADD COLUMN IF NOT EXISTS delivery_status TEXT NOT NULL DEFAULT 'queued'
+  CHECK (delivery_status IN ('queued', 'sent', 'delivered', 'bounced', 'complained', 'failed')),
+ADD COLUMN IF NOT EXISTS delivery_error TEXT,
+ADD COLUMN IF NOT EXISTS send_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.invitation_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invitation_id UUID NOT NULL REFERENCES public.contract_invitations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL,
+  provider TEXT NOT NULL,
+  provider_message_id TEXT,
+  status TEXT NOT NULL DEFAULT 'sent'
+    CHECK (status IN ('sent', 'delivered', 'bounced', 'complained', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invitation_deliveries_invitation ON public.invitation_deliveries(invitation_id);
+CREATE INDEX IF NOT EXISTS idx_invitation_deliveries_sender ON public.invitation_deliveries(sender_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_invitation_deliveries_message ON public.invitation_deliveries(provider_message_id);
+
+COMMENT ON TABLE public.invitation_deliveries IS 'One row per invitation email sent; used for rate limiting and delivery tracking';
+
+-- Written only by edge functions (service role)
+ALTER TABLE public.invitation_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Senders can read their invitation deliveries" ON public.invitation_deliveries;
+CREATE POLICY "Senders can read their invitation deliveries"
+ON public.invitation_deliveries FOR SELECT
+USING (sender_id = auth.uid());
+
+-- ================================================================
+-- Queue on insert
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.queue_invitation_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-invitation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('invitationId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_invitations_queue_email ON public.contract_invitations;
+CREATE TRIGGER contract_invitations_queue_email
+AFTER INSERT ON public.contract_invitations
+FOR EACH ROW EXECUTE FUNCTION public.queue_invitation_email();
@@ -0,0 +1,114 @@
+-- Migration: Invitation acceptance
+-- Email invitations are accepted through the invitation edge function, which
+-- authenticates the user and calls accept_contract_invitation() with the code from
+-- the link. The code is checked, the invitation is marked accepted and the user
+-- joins the contract as a collaborator in one transaction. Clients can no longer
+-- mark invitations accepted themselves.
+
+-- ================================================================
+-- Guard
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_contract_invitation_acceptance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('pmy.invitation_acceptance', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.recipient_user_id IS DISTINCT FROM OLD.recipient_user_id
+     OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at
+     OR NEW.invitation_code IS DISTINCT FROM OLD.invitation_code THEN
+    RAISE EXCEPTION 'Invitations can only be accepted with their invitation code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_invitations_guard_acceptance ON public.contract_invitations;
+CREATE TRIGGER contract_invitations_guard_acceptance
+BEFORE UPDATE ON public.contract_invitations
+FOR EACH ROW EXECUTE FUNCTION public.guard_contract_invitation_acceptance();
+
+-- ================================================================
+-- Accept
+-- ================================================================
+
+-- Called by the invitation edge function with the service role
+CREATE OR REPLACE FUNCTION public.accept_contract_invitation(p_code TEXT, p_user_id UUID)
+RETURNS public.contract_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.contract_invitations;
+  v_contract_status TEXT;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.contract_invitations
+  WHERE invitation_code = p_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_invitation.status = 'accepted' THEN
+    RAISE EXCEPTION 'This invitation has already been accepted' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation is no longer valid' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.sender_id = p_user_id THEN
+    RAISE EXCEPTION 'You cannot accept your own invitation' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO v_contract_status
+  FROM public.consent_contracts
+  WHERE id = v_invitation.contract_id;
+
+  IF v_contract_status IS NULL OR v_contract_status NOT IN ('draft', 'pending_approval', 'active', 'paused') THEN
+    RAISE EXCEPTION 'This contract is no longer accepting parties' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('pmy.invitation_acceptance', 'on', true);
+
+  UPDATE public.contract_invitations
+  SET status = 'accepted',
+      accepted_at = now(),
+      recipient_user_id = p_user_id
+  WHERE id = v_invitation.id
+  RETURNING * INTO v_invitation;
+
+  PERFORM set_config('pmy.invitation_acceptance', '', true);
+
+  -- A user invited both in-app and by email keeps their existing collaborator row
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_collaborators
+    WHERE contract_id = v_invitation.contract_id AND user_id = p_user_id
+  ) THEN
+    INSERT INTO public.contract_collaborators (contract_id, user_id, participant_type, role, status)
+    VALUES (v_invitation.contract_id, p_user_id, 'pmy_user', 'recipient', 'reviewing');
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message, related_contract_id, is_read)
+  VALUES (
+    v_invitation.sender_id, 'invitation_accepted', 'Invitation Accepted',
+    v_invitation.recipient_email || ' accepted your invitation to review the contract.',
+    v_invitation.contract_id, 'false'
+  );
+
+  RETURN v_invitation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_contract_invitation(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_contract_invitation(TEXT, UUID) TO service_role;
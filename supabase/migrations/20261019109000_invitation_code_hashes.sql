@@ -0,0 +1,164 @@
+-- Migration: Hashed invitation codes
+-- Invitation codes are now generated by the send-invitation edge function with a
+-- CSPRNG and only their SHA-256 hash is stored. The raw code exists only in the
+-- email link (and the function's response), so a leaked table can't be used to
+-- accept invitations. Resending an invitation issues a new code, which invalidates
+-- the old link.
+--
+-- Because the code isn't stored, the database can no longer build the email link;
+-- send-invitation sends the first email itself and the insert trigger from
+-- 20261019107000_invitation_delivery.sql is dropped.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.contract_invitations
+ADD COLUMN IF NOT EXISTS invitation_code_hash TEXT;
+
+-- Codes are guarded by contract_invitations_guard_issuance below; the acceptance
+-- guard from 20261019108000_invitation_acceptance.sql no longer checks them
+CREATE OR REPLACE FUNCTION public.guard_contract_invitation_acceptance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('pmy.invitation_acceptance', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.recipient_user_id IS DISTINCT FROM OLD.recipient_user_id
+     OR NEW.accepted_at IS DISTINCT FROM OLD.accepted_at THEN
+    RAISE EXCEPTION 'Invitations can only be accepted with their invitation code'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Existing links keep working: their codes are hashed the same way
+UPDATE public.contract_invitations
+SET invitation_code_hash = encode(extensions.digest(convert_to(invitation_code, 'UTF8'), 'sha256'), 'hex')
+WHERE invitation_code IS NOT NULL AND invitation_code_hash IS NULL;
+
+ALTER TABLE public.contract_invitations ALTER COLUMN invitation_code DROP NOT NULL;
+UPDATE public.contract_invitations SET invitation_code = NULL WHERE invitation_code IS NOT NULL;
+
+ALTER TABLE public.contract_invitations ALTER COLUMN invitation_code_hash SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_invitations_code_hash ON public.contract_invitations(invitation_code_hash);
+
+COMMENT ON COLUMN public.contract_invitations.invitation_code IS 'Deprecated: raw codes are no longer stored';
+COMMENT ON COLUMN public.contract_invitations.invitation_code_hash IS 'Hex SHA-256 of the invitation code sent in the email link';
+
+DROP TRIGGER IF EXISTS contract_invitations_queue_email ON public.contract_invitations;
+DROP FUNCTION IF EXISTS public.queue_invitation_email();
+
+-- ================================================================
+-- Issuance
+-- ================================================================
+
+-- Only send-invitation (service role) creates invitations or changes their codes;
+-- auth.role() is NULL for migrations and other direct database sessions
+CREATE OR REPLACE FUNCTION public.guard_contract_invitation_issuance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS NULL OR auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Invitations are issued by the server'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.invitation_code_hash IS DISTINCT FROM OLD.invitation_code_hash
+     OR NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+    RAISE EXCEPTION 'Invitation codes are issued by the server'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_invitations_guard_issuance ON public.contract_invitations;
+CREATE TRIGGER contract_invitations_guard_issuance
+BEFORE INSERT OR UPDATE ON public.contract_invitations
+FOR EACH ROW EXECUTE FUNCTION public.guard_contract_invitation_issuance();
+
+-- ================================================================
+-- Accept
+-- ================================================================
+
+-- Same as 20261019108000_invitation_acceptance.sql, looking the code up by its hash
+CREATE OR REPLACE FUNCTION public.accept_contract_invitation(p_code TEXT, p_user_id UUID)
+RETURNS public.contract_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_invitation public.contract_invitations;
+  v_contract_status TEXT;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.contract_invitations
+  WHERE invitation_code_hash = encode(digest(convert_to(p_code, 'UTF8'), 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_invitation.status = 'accepted' THEN
+    RAISE EXCEPTION 'This invitation has already been accepted' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation is no longer valid' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.sender_id = p_user_id THEN
+    RAISE EXCEPTION 'You cannot accept your own invitation' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO v_contract_status
+  FROM public.consent_contracts
+  WHERE id = v_invitation.contract_id;
+
+  IF v_contract_status IS NULL OR v_contract_status NOT IN ('draft', 'pending_approval', 'active', 'paused') THEN
+    RAISE EXCEPTION 'This contract is no longer accepting parties' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('pmy.invitation_acceptance', 'on', true);
+
+  UPDATE public.contract_invitations
+  SET status = 'accepted',
+      accepted_at = now(),
+      recipient_user_id = p_user_id
+  WHERE id = v_invitation.id
+  RETURNING * INTO v_invitation;
+
+  PERFORM set_config('pmy.invitation_acceptance', '', true);
+
+  -- A user invited both in-app and by email keeps their existing collaborator row
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_collaborators
+    WHERE contract_id = v_invitation.contract_id AND user_id = p_user_id
+  ) THEN
+    INSERT INTO public.contract_collaborators (contract_id, user_id, participant_type, role, status)
+    VALUES (v_invitation.contract_id, p_user_id, 'pmy_user', 'recipient', 'reviewing');
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, message, related_contract_id, is_read)
+  VALUES (
+    v_invitation.sender_id, 'invitation_accepted', 'Invitation Accepted',
+    v_invitation.recipient_email || ' accepted your invitation to review the contract.',
+    v_invitation.contract_id, 'false'
+  );
+
+  RETURN v_invitation;
+END;
+$$;
@@ -0,0 +1,104 @@
+-- Migration: Private consent media
+-- Voice recordings and consent photos move to private storage buckets. The
+-- contract and recording rows keep only the object path (photo_url / audio_url /
+-- file_url hold the path inside the bucket, not a URL), and the app mints
+-- short-lived signed URLs when a party views or exports the media. Storage RLS
+-- decides who may mint them: the uploader, and parties to the contract that
+-- references the object.
+--
+-- Avatars stay in the public avatars bucket.
+
+-- ================================================================
+-- Buckets
+-- ================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('recordings', 'recordings', false), ('photos', 'photos', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Drop whatever policies previously exposed these buckets; only the ones below apply
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname
+    FROM pg_policies
+    WHERE schemaname = 'storage'
+      AND tablename = 'objects'
+      AND (
+        COALESCE(qual, '') ~ '''(recordings|photos)'''
+        OR COALESCE(with_check, '') ~ '''(recordings|photos)'''
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', v_policy.policyname);
+  END LOOP;
+END;
+$$;
+
+-- ================================================================
+-- Access
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.can_read_consent_media(p_bucket TEXT, p_path TEXT, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.consent_contracts c
+    WHERE ((p_bucket = 'photos' AND c.photo_url = p_path)
+        OR (p_bucket = 'recordings' AND c.audio_url = p_path))
+      AND public.is_contract_party(c.id, p_user_id)
+  )
+$$;
+
+-- Objects live under <user id>/...
+CREATE POLICY "Users can upload their own consent media"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id IN ('recordings', 'photos')
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own consent media"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id IN ('recordings', 'photos')
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- createSignedUrl() requires SELECT on the object
+CREATE POLICY "Contract parties can read consent media"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id IN ('recordings', 'photos')
+  AND (
+    (storage.foldername(name))[1] = auth.uid()::text
+    OR public.can_read_consent_media(bucket_id, name, auth.uid())
+  )
+);
+
+-- ================================================================
+-- Existing rows: public URLs -> object paths
+-- ================================================================
+
+-- Public URLs look like <project>/storage/v1/object/public/<bucket>/<path>.
+-- Rewriting a contract's media field appends an 'updated' version to its chain.
+UPDATE public.consent_contracts
+SET photo_url = regexp_replace(photo_url, '^.*/storage/v1/object/public/photos/', '')
+WHERE photo_url LIKE '%/storage/v1/object/public/photos/%';
+
+UPDATE public.consent_contracts
+SET audio_url = regexp_replace(audio_url, '^.*/storage/v1/object/public/recordings/', '')
+WHERE audio_url LIKE '%/storage/v1/object/public/recordings/%';
+
+UPDATE public.consent_recordings
+SET file_url = regexp_replace(file_url, '^.*/storage/v1/object/public/recordings/', '')
+WHERE file_url LIKE '%/storage/v1/object/public/recordings/%';
+
+COMMENT ON COLUMN public.consent_contracts.photo_url IS 'Object path in the private photos bucket';
+COMMENT ON COLUMN public.consent_contracts.audio_url IS 'Object path in the private recordings bucket';
+COMMENT ON COLUMN public.consent_recordings.file_url IS 'Object path in the private recordings bucket';
@@ -0,0 +1,283 @@
+-- Migration: End-to-end contract encryption
+-- Contract text, intimate acts, signatures and consent media are encrypted on the
+-- device with a random per-contract key before they are uploaded. The server
+-- never sees the contract key: each copy of it is wrapped (X25519 + HKDF +
+-- XChaCha20-Poly1305) for one device key, and stored in contract_key_envelopes.
+--
+-- user_device_keys holds the public half of every device key. A user's recovery
+-- key (derived from a recovery code shown once, kind = 'recovery') is a device key
+-- too, so a new device can unwrap every contract key with the code and re-wrap
+-- them for itself. Any party holding a contract key wraps it for the other
+-- parties' devices when they open the contract.
+--
+-- Encrypted values are stored as text prefixed with 'pmy-e2e:v1:'; rows written
+-- before this migration stay readable as plaintext. See src/lib/contractEncryption.ts.
+
+-- ================================================================
+-- Device keys
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_device_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'device' CHECK (kind IN ('device', 'recovery')),
+  public_key TEXT NOT NULL UNIQUE,
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_device_keys_user ON public.user_device_keys(user_id);
+
+-- One active recovery key per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_device_keys_recovery
+ON public.user_device_keys(user_id)
+WHERE kind = 'recovery' AND revoked_at IS NULL;
+
+COMMENT ON COLUMN public.user_device_keys.public_key IS 'Hex X25519 public key';
+
+ALTER TABLE public.user_device_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their device keys" ON public.user_device_keys;
+CREATE POLICY "Users can read their device keys"
+ON public.user_device_keys FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can register device keys" ON public.user_device_keys;
+CREATE POLICY "Users can register device keys"
+ON public.user_device_keys FOR INSERT
+WITH CHECK (user_id = auth.uid() AND revoked_at IS NULL);
+
+-- Keys are revoked, never edited
+DROP POLICY IF EXISTS "Users can revoke their device keys" ON public.user_device_keys;
+CREATE POLICY "Users can revoke their device keys"
+ON public.user_device_keys FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND revoked_at IS NOT NULL);
+
+-- ================================================================
+-- Key envelopes
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.contract_key_envelopes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES public.consent_contracts(id) ON DELETE CASCADE,
+  device_key_id UUID NOT NULL REFERENCES public.user_device_keys(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, device_key_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_key_envelopes_user ON public.contract_key_envelopes(user_id, device_key_id);
+
+COMMENT ON COLUMN public.contract_key_envelopes.wrapped_key IS 'Base64 of ephemeral public key || nonce || ciphertext of the contract key';
+
+ALTER TABLE public.contract_key_envelopes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their key envelopes" ON public.contract_key_envelopes;
+CREATE POLICY "Users can read their key envelopes"
+ON public.contract_key_envelopes FOR SELECT
+USING (user_id = auth.uid());
+
+-- Whether p_user_id is a party to a contract the caller is also party to
+CREATE OR REPLACE FUNCTION public.is_fellow_contract_party(p_contract_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_contract_party(p_contract_id, auth.uid())
+     AND public.is_contract_party(p_contract_id, p_user_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_fellow_contract_party(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_fellow_contract_party(UUID, UUID) TO authenticated;
+
+-- Parties wrap the key for other parties' active devices (including their own)
+DROP POLICY IF EXISTS "Contract parties can share keys with parties" ON public.contract_key_envelopes;
+CREATE POLICY "Contract parties can share keys with parties"
+ON public.contract_key_envelopes FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND public.is_fellow_contract_party(contract_id, user_id)
+  AND EXISTS (
+    SELECT 1 FROM public.user_device_keys k
+    WHERE k.id = device_key_id
+      AND k.user_id = contract_key_envelopes.user_id
+      AND k.revoked_at IS NULL
+  )
+);
+
+-- Active keys of every party to a contract, for wrapping its key. has_envelope
+-- tells the caller which keys already hold it (other parties' envelopes aren't
+-- readable directly).
+CREATE OR REPLACE FUNCTION public.contract_party_device_keys(p_contract_id UUID)
+RETURNS TABLE (id UUID, user_id UUID, kind TEXT, public_key TEXT, has_envelope BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_contract_party(p_contract_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Contract not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN QUERY
+  SELECT k.id, k.user_id, k.kind, k.public_key,
+         EXISTS (
+           SELECT 1 FROM public.contract_key_envelopes e
+           WHERE e.contract_id = p_contract_id AND e.device_key_id = k.id
+         )
+  FROM public.user_device_keys k
+  WHERE k.user_id = ANY (public.contract_party_ids(p_contract_id))
+    AND k.revoked_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.contract_party_device_keys(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.contract_party_device_keys(UUID) TO authenticated;
+
+-- ================================================================
+-- Amendments on encrypted contracts
+-- ================================================================
+
+-- The server can't merge acts it can't read. For an encrypted contract the
+-- requester sends the merged, re-encrypted acts along with the ciphertext they
+-- were computed from:
+--   add_acts / remove_acts  {"intimate_acts": <ciphertext>, "base": <ciphertext>, "acts": <ciphertext>}
+-- "acts" is the encrypted list of requested act names. The amendment only
+-- applies if the contract's acts are still "base"; that "intimate_acts" is what
+-- "acts" makes of "base" is checked on each approver's device (decryptAmendment()
+-- in src/lib/contractKeys.ts).
+CREATE OR REPLACE FUNCTION public.apply_contract_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract public.consent_contracts;
+  v_missing UUID[];
+  v_value JSONB;
+  v_acts JSONB;
+  v_act TEXT;
+  v_key TEXT;
+  v_duration INTEGER;
+  v_end_time TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_contract
+  FROM public.consent_contracts
+  WHERE id = NEW.contract_id
+  FOR UPDATE;
+
+  IF v_contract.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'Amendments can only be applied to active or paused contracts'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT array_agg(party_id) INTO v_missing
+  FROM unnest(public.contract_party_ids(NEW.contract_id)) AS party_id
+  WHERE party_id <> NEW.requested_by
+    AND NOT (party_id = ANY (NEW.approvers));
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Amendment needs approval from every party (% outstanding)', array_length(v_missing, 1)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  BEGIN
+    v_value := public.parse_json_value(to_jsonb(NEW.new_value));
+  EXCEPTION WHEN invalid_text_representation THEN
+    RAISE EXCEPTION 'Amendment value is not valid JSON' USING ERRCODE = 'check_violation';
+  END;
+
+  PERFORM set_config('pmy.contract_version_event', 'amended', true);
+
+  IF NEW.type IN ('add_acts', 'remove_acts') AND v_contract.intimate_acts LIKE 'pmy-e2e:%' THEN
+    IF jsonb_typeof(v_value) IS DISTINCT FROM 'object'
+       OR v_value->>'intimate_acts' IS NULL
+       OR v_value->>'intimate_acts' NOT LIKE 'pmy-e2e:%' THEN
+      RAISE EXCEPTION 'Amendments to an encrypted contract must carry encrypted acts'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF v_value->>'base' IS DISTINCT FROM v_contract.intimate_acts THEN
+      RAISE EXCEPTION 'The contract changed after this amendment was requested; please request it again'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.previous_value := jsonb_build_object('intimate_acts', v_contract.intimate_acts);
+
+    UPDATE public.consent_contracts
+    SET intimate_acts = v_value->>'intimate_acts', updated_at = now()
+    WHERE id = NEW.contract_id;
+
+    NEW.applied_value := jsonb_build_object('intimate_acts', v_value->>'intimate_acts');
+
+  ELSIF NEW.type IN ('add_acts', 'remove_acts') THEN
+    IF jsonb_typeof(v_value) IS DISTINCT FROM 'array' THEN
+      RAISE EXCEPTION 'Amendment value must be a list of acts' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_acts := COALESCE(public.parse_json_value(to_jsonb(v_contract.intimate_acts)), '{}'::jsonb);
+    NEW.previous_value := jsonb_build_object('intimate_acts', v_acts);
+
+    FOR v_act IN SELECT trim(value) FROM jsonb_array_elements_text(v_value) LOOP
+      CONTINUE WHEN v_act = '';
+
+      -- Acts are typed free-form in AmendmentDialog; match existing keys case-insensitively
+      SELECT key INTO v_key
+      FROM jsonb_object_keys(v_acts) AS key
+      WHERE lower(key) = lower(v_act)
+      LIMIT 1;
+
+      -- Removed acts are kept as an explicit "no" rather than dropped
+      v_acts := jsonb_set(
+        v_acts,
+        ARRAY[COALESCE(v_key, v_act)],
+        to_jsonb(CASE WHEN NEW.type = 'add_acts' THEN 'yes' ELSE 'no' END)
+      );
+    END LOOP;
+
+    UPDATE public.consent_contracts
+    SET intimate_acts = v_acts::text, updated_at = now()
+    WHERE id = NEW.contract_id;
+
+    NEW.applied_value := jsonb_build_object('intimate_acts', v_acts);
+
+  ELSIF NEW.type = 'change_duration' THEN
+    IF jsonb_typeof(v_value) IS DISTINCT FROM 'number' OR (v_value #>> '{}')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Amendment value must be a positive duration in minutes' USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_duration := round((v_value #>> '{}')::numeric)::integer;
+    v_end_time := COALESCE(v_contract.contract_start_time, now()) + make_interval(mins => v_duration);
+
+    NEW.previous_value := jsonb_build_object(
+      'contract_duration', v_contract.contract_duration,
+      'contract_end_time', v_contract.contract_end_time
+    );
+
+    UPDATE public.consent_contracts
+    SET contract_duration = v_duration,
+        contract_end_time = v_end_time,
+        updated_at = now()
+    WHERE id = NEW.contract_id;
+
+    NEW.applied_value := jsonb_build_object(
+      'contract_duration', v_duration,
+      'contract_end_time', v_end_time
+    );
+  END IF;
+
+  PERFORM set_config('pmy.contract_version_event', '', true);
+
+  NEW.approved_at := COALESCE(NEW.approved_at, now());
+  NEW.applied_at := now();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
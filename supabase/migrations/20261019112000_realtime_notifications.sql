@@ -0,0 +1,35 @@
+-- Migration: Realtime notifications
+-- The app subscribes to changes on notifications, contract_collaborators and
+-- contract_amendments instead of polling. Realtime only delivers a change to a
+-- subscriber whose RLS SELECT policies allow the row, so each user hears about
+-- their own notifications and the collaborators and amendments of contracts
+-- they are a party to.
+--
+-- Deletes carry only the primary key under RLS; the client drops the row from
+-- its caches by id.
+
+-- ================================================================
+-- Publication
+-- ================================================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['notifications', 'contract_collaborators', 'contract_amendments']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
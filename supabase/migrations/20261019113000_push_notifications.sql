@@ -0,0 +1,141 @@
+-- Migration: Push notifications
+-- Each signed-in device registers its Expo push token. Every new notifications
+-- row is handed to the push-dispatch edge function, which sends it to the
+-- user's devices with a deep link to the related contract or amendment, so
+-- invitations, amendment requests and revocations reach people with the app
+-- closed.
+--
+-- Amendment requests now create a notification for the other parties as well;
+-- until now only approvals and rejections did.
+--
+-- The dispatch trigger uses the same Vault secrets as the contract lifecycle
+-- schedule (project_url, service_role_key).
+
+-- ================================================================
+-- Push tokens
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.push_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  device_name TEXT,
+  last_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user ON public.push_tokens(user_id);
+
+COMMENT ON TABLE public.push_tokens IS 'Expo push tokens, one row per device; registered through register_push_token()';
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their push tokens" ON public.push_tokens;
+CREATE POLICY "Users can read their push tokens"
+ON public.push_tokens FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can remove their push tokens" ON public.push_tokens;
+CREATE POLICY "Users can remove their push tokens"
+ON public.push_tokens FOR DELETE
+USING (user_id = auth.uid());
+
+-- A token identifies a device, not a person: when someone else signs in on the
+-- device the token moves to them, which RLS wouldn't allow as a plain upsert
+CREATE OR REPLACE FUNCTION public.register_push_token(
+  p_token TEXT,
+  p_platform TEXT,
+  p_device_name TEXT DEFAULT NULL
+)
+RETURNS public.push_tokens
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_token public.push_tokens;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.push_tokens (user_id, token, platform, device_name)
+  VALUES (v_user_id, p_token, p_platform, p_device_name)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      device_name = EXCLUDED.device_name,
+      updated_at = now()
+  RETURNING * INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.register_push_token(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_push_token(TEXT, TEXT, TEXT) TO authenticated;
+
+-- ================================================================
+-- Dispatch on insert
+-- ================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.queue_push_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Nothing to send to
+  IF NOT EXISTS (SELECT 1 FROM public.push_tokens WHERE user_id = NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/push-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('notificationId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_queue_push ON public.notifications;
+CREATE TRIGGER notifications_queue_push
+AFTER INSERT ON public.notifications
+FOR EACH ROW EXECUTE FUNCTION public.queue_push_notification();
+
+-- ================================================================
+-- Amendment requests
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_amendment_requested()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, title, message, related_contract_id, related_amendment_id, is_read)
+  SELECT party_id, 'amendment_requested', 'Amendment Requested',
+         'A party to one of your consent contracts has requested a change and needs your approval.',
+         NEW.contract_id, NEW.id, 'false'
+  FROM unnest(public.contract_party_ids(NEW.contract_id)) AS party_id
+  WHERE party_id <> NEW.requested_by;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_amendments_notify_requested ON public.contract_amendments;
+CREATE TRIGGER contract_amendments_notify_requested
+AFTER INSERT ON public.contract_amendments
+FOR EACH ROW EXECUTE FUNCTION public.notify_amendment_requested();
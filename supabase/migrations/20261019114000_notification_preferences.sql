@@ -0,0 +1,236 @@
+-- Migration: Notification preferences and quiet hours
+-- Replaces the single user_profiles.email_notifications_enabled switch with a
+-- matrix of event category (invitation, amendment, revocation, expiry,
+-- verification) by channel (in_app, email, push), plus quiet hours in the
+-- user's own time zone. Email and push that come up during quiet hours are not
+-- sent, now or later; the in-app inbox still gets them. Invitation emails are
+-- the exception and always go out unless the recipient turned them off.
+--
+-- The decision lives in notification_allowed(), so every dispatcher applies
+-- the same rules:
+--   * in_app: the notifications insert trigger drops rows the user opted out of
+--   * push:   push-dispatch checks before sending
+--   * email:  revoke-contract and send-email check before sending
+--
+-- Anything not set in the matrix is on, so new categories and users without a
+-- row get everything. Users who had turned email notifications off keep email
+-- off for every category.
+
+-- ================================================================
+-- Preferences
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- { "<category>": { "<channel>": false } }; missing entries are on
+  channels JSONB NOT NULL DEFAULT '{}'::jsonb,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+  quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT notification_preferences_channels_object CHECK (jsonb_typeof(channels) = 'object')
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'Per-user notification channels by event category, and quiet hours';
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can read their notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can create their notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update their notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- An unknown zone would make every quiet-hours check fail
+CREATE OR REPLACE FUNCTION public.validate_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notification_preferences_validate ON public.notification_preferences;
+CREATE TRIGGER notification_preferences_validate
+BEFORE INSERT OR UPDATE ON public.notification_preferences
+FOR EACH ROW EXECUTE FUNCTION public.validate_notification_preferences();
+
+-- Carry over the old global email switch
+INSERT INTO public.notification_preferences (user_id, channels)
+SELECT p.id, jsonb_build_object(
+  'invitation', jsonb_build_object('email', false),
+  'amendment', jsonb_build_object('email', false),
+  'revocation', jsonb_build_object('email', false),
+  'expiry', jsonb_build_object('email', false),
+  'verification', jsonb_build_object('email', false)
+)
+FROM public.user_profiles p
+JOIN auth.users u ON u.id = p.id
+WHERE p.email_notifications_enabled = 'false'
+ON CONFLICT (user_id) DO NOTHING;
+
+-- ================================================================
+-- Delivery rules
+-- ================================================================
+
+-- Notification type -> preference category; NULL for types users can't turn off
+CREATE OR REPLACE FUNCTION public.notification_category(p_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_type IN ('contract_invitation', 'invitation_accepted') THEN 'invitation'
+    WHEN p_type LIKE 'amendment\_%' THEN 'amendment'
+    WHEN p_type = 'contract_revoked' THEN 'revocation'
+    WHEN p_type = 'contract_expired' THEN 'expiry'
+    WHEN p_type LIKE 'verification\_%' THEN 'verification'
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notification_allowed(
+  p_user_id UUID,
+  p_type TEXT,
+  p_channel TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefs public.notification_preferences;
+  v_category TEXT := public.notification_category(p_type);
+  v_local_time TIME;
+BEGIN
+  IF p_channel NOT IN ('in_app', 'email', 'push') THEN
+    RAISE EXCEPTION 'Unknown notification channel: %', p_channel USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_prefs FROM public.notification_preferences WHERE user_id = p_user_id;
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF v_category IS NOT NULL
+    AND COALESCE((v_prefs.channels -> v_category ->> p_channel)::BOOLEAN, true) = false THEN
+    RETURN false;
+  END IF;
+
+  -- Quiet hours drop interruptions; the in-app inbox still gets everything. An
+  -- invitation email carries the only link an invitee may get, so it's sent
+  -- whatever the time.
+  IF p_channel <> 'in_app'
+    AND NOT (p_channel = 'email' AND p_type = 'contract_invitation')
+    AND v_prefs.quiet_hours_enabled
+    AND v_prefs.quiet_hours_start <> v_prefs.quiet_hours_end THEN
+    v_local_time := (now() AT TIME ZONE v_prefs.time_zone)::TIME;
+
+    IF v_prefs.quiet_hours_start < v_prefs.quiet_hours_end THEN
+      -- Same-day window, e.g. 13:00-15:00
+      IF v_local_time >= v_prefs.quiet_hours_start AND v_local_time < v_prefs.quiet_hours_end THEN
+        RETURN false;
+      END IF;
+    ELSE
+      -- Overnight window, e.g. 22:00-07:00
+      IF v_local_time >= v_prefs.quiet_hours_start OR v_local_time < v_prefs.quiet_hours_end THEN
+        RETURN false;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Emails often go to an address rather than a user; people without an
+-- account have no preferences, so they are always allowed
+CREATE OR REPLACE FUNCTION public.notification_allowed_for_email(
+  p_email TEXT,
+  p_type TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(p_email);
+  IF v_user_id IS NULL THEN
+    RETURN true;
+  END IF;
+
+  RETURN public.notification_allowed(v_user_id, p_type, 'email');
+END;
+$$;
+
+-- Only dispatchers running with the service role ask
+REVOKE ALL ON FUNCTION public.notification_allowed(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.notification_allowed_for_email(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notification_allowed(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.notification_allowed_for_email(TEXT, TEXT) TO service_role;
+
+-- ================================================================
+-- Routing new notifications
+-- ================================================================
+
+-- Replaces the AFTER INSERT push trigger: push has to be queued before the
+-- row is dropped for users who turned in-app off for the category, so the
+-- whole row goes to push-dispatch rather than its id.
+DROP TRIGGER IF EXISTS notifications_queue_push ON public.notifications;
+DROP FUNCTION IF EXISTS public.queue_push_notification();
+
+CREATE OR REPLACE FUNCTION public.route_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- push-dispatch applies the push preferences and quiet hours
+  IF EXISTS (SELECT 1 FROM public.push_tokens WHERE user_id = NEW.user_id) THEN
+    PERFORM net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/push-dispatch',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('notification', to_jsonb(NEW))
+    );
+  END IF;
+
+  IF NOT public.notification_allowed(NEW.user_id, NEW.type, 'in_app') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_route ON public.notifications;
+CREATE TRIGGER notifications_route
+BEFORE INSERT ON public.notifications
+FOR EACH ROW EXECUTE FUNCTION public.route_notification();
@@ -0,0 +1,588 @@
+-- Migration: Server-side notifications
+-- Notifications were partly written by the client (shareContractWithUser
+-- inserted one for another user's id), so any signed-in user could send anyone
+-- a notification with any text. Now only the database creates them:
+--   * triggers on contract_collaborators, contract_invitations,
+--     contract_amendments and consent_contracts fire on the changes people
+--     need to hear about
+--   * edge functions (service role) call notify_users() for events outside
+--     the database, such as identity verification
+-- and every title and message comes from one template set, the
+-- notification_templates table, keyed by type. Later migrations add their types
+-- with an INSERT. The TypeScript side of the set is NotificationType in
+-- shared/types.ts and NotificationVars in
+-- supabase/functions/_shared/notifications.ts.
+--
+-- approve_contract_amendment(), reject_contract_amendment() and
+-- accept_contract_invitation() are redefined without their own inserts; the
+-- triggers below cover them.
+
+-- ================================================================
+-- Templates
+-- ================================================================
+
+-- Name shown to other parties: full name, else username
+CREATE OR REPLACE FUNCTION public.notification_display_name(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.username)
+      FROM public.user_profiles p
+      WHERE p.id = p_user_id
+    ),
+    'A party'
+  )
+$$;
+
+-- One row per notification type; notifications.type must name one. {name} in
+-- a title or message is replaced with that variable, and every variable in
+-- required_vars must be given. message_with_reason replaces message when the
+-- optional reason variable is set. Types without a category can't be turned off.
+CREATE TABLE IF NOT EXISTS public.notification_templates (
+  type TEXT PRIMARY KEY,
+  category TEXT CHECK (category IN ('invitation', 'amendment', 'revocation', 'expiry', 'verification')),
+  required_vars TEXT[] NOT NULL DEFAULT '{}',
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  message_with_reason TEXT
+);
+
+-- Read through render_notification() and notification_category()
+ALTER TABLE public.notification_templates ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.notification_templates FROM PUBLIC, anon, authenticated;
+
+INSERT INTO public.notification_templates (type, category, required_vars, title, message, message_with_reason)
+VALUES
+  ('contract_invitation', 'invitation', ARRAY['sender_name'], 'New Contract Invitation',
+   '{sender_name} invited you to review a consent contract.', NULL),
+  ('invitation_accepted', 'invitation', ARRAY['recipient'], 'Invitation Accepted',
+   '{recipient} accepted your invitation to review the contract.', NULL),
+  ('contract_approved', 'invitation', ARRAY['party_name'], 'Contract Approved',
+   '{party_name} approved the contract.', NULL),
+  ('contract_rejected', 'invitation', ARRAY['party_name'], 'Contract Declined',
+   '{party_name} declined the contract.', '{party_name} declined the contract: {reason}'),
+  ('amendment_requested', 'amendment', ARRAY['requester_name'], 'Amendment Requested',
+   '{requester_name} requested a change to the contract and needs your approval.', NULL),
+  ('amendment_approved', 'amendment', '{}', 'Amendment Approved',
+   'All parties approved the amendment and it has been applied to the contract.', NULL),
+  ('amendment_rejected', 'amendment', ARRAY['rejecter_name'], 'Amendment Rejected',
+   '{rejecter_name} rejected your amendment request.', '{rejecter_name} rejected your amendment request: {reason}'),
+  ('contract_paused', 'revocation', ARRAY['actor_name'], 'Contract Paused',
+   '{actor_name} paused the contract. Consent is on hold until it is resumed.', NULL),
+  ('contract_resumed', 'revocation', ARRAY['actor_name'], 'Contract Resumed',
+   '{actor_name} resumed the contract.', NULL),
+  ('contract_revoked', 'revocation', ARRAY['revoker_name'], 'Consent Withdrawn',
+   '{revoker_name} has withdrawn consent. This contract is no longer in effect.', NULL),
+  ('contract_expired', 'expiry', '{}', 'Contract Completed',
+   'A consent contract you are part of has reached its end time and is now complete.', NULL),
+  ('verification_complete', 'verification', '{}', 'Identity Verified',
+   'Your identity has been verified. You now have a verified badge on your profile.', NULL),
+  ('verification_failed', 'verification', ARRAY['reason'], 'Verification Failed',
+   'Your identity verification didn''t go through: {reason}. You can try again from your profile.', NULL)
+ON CONFLICT (type) DO NOTHING;
+
+-- Replaces each {name} in one pass, so a value is never read as a placeholder
+CREATE OR REPLACE FUNCTION public.fill_notification_template(p_template TEXT, p_vars JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_parts TEXT[] := regexp_split_to_array(p_template, '\{[a-z_]+\}');
+  v_names TEXT[] := ARRAY(
+    SELECT m.groups[1]
+    FROM regexp_matches(p_template, '\{([a-z_]+)\}', 'g') WITH ORDINALITY AS m(groups, n)
+    ORDER BY m.n
+  );
+  v_result TEXT := v_parts[1];
+BEGIN
+  FOR i IN 1 .. COALESCE(array_length(v_names, 1), 0)
+  LOOP
+    v_result := v_result || COALESCE(p_vars ->> v_names[i], '') || v_parts[i + 1];
+  END LOOP;
+  RETURN v_result;
+END;
+$$;
+
+-- A missing required variable is a bug in the caller
+CREATE OR REPLACE FUNCTION public.render_notification(
+  p_type TEXT,
+  p_vars JSONB,
+  OUT title TEXT,
+  OUT message TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.notification_templates;
+  v_var TEXT;
+BEGIN
+  SELECT * INTO v_template FROM public.notification_templates t WHERE t.type = p_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown notification type: %', p_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOREACH v_var IN ARRAY v_template.required_vars
+  LOOP
+    IF NULLIF(p_vars ->> v_var, '') IS NULL THEN
+      RAISE EXCEPTION 'Missing % for % notification', v_var, p_type USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+  END LOOP;
+
+  title := public.fill_notification_template(v_template.title, p_vars);
+  message := public.fill_notification_template(
+    CASE WHEN NULLIF(p_vars ->> 'reason', '') IS NOT NULL
+      THEN COALESCE(v_template.message_with_reason, v_template.message)
+      ELSE v_template.message
+    END,
+    p_vars
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.render_notification(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.render_notification(TEXT, JSONB) TO service_role;
+
+-- ================================================================
+-- Creating notifications
+-- ================================================================
+
+-- Returns how many were created; NULL and duplicate ids are skipped, and rows
+-- for users who turned in-app off are dropped by route_notification()
+CREATE OR REPLACE FUNCTION public.notify_users(
+  p_user_ids UUID[],
+  p_type TEXT,
+  p_vars JSONB DEFAULT '{}'::jsonb,
+  p_contract_id UUID DEFAULT NULL,
+  p_amendment_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_content RECORD;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_content FROM public.render_notification(p_type, COALESCE(p_vars, '{}'::jsonb));
+
+  INSERT INTO public.notifications (user_id, type, title, message, related_contract_id, related_amendment_id, is_read)
+  SELECT DISTINCT user_id, p_type, v_content.title, v_content.message, p_contract_id, p_amendment_id, 'false'
+  FROM unnest(p_user_ids) AS user_id
+  WHERE user_id IS NOT NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notify_users(UUID[], TEXT, JSONB, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_users(UUID[], TEXT, JSONB, UUID, UUID) TO service_role;
+
+-- Every party to the contract except one (usually whoever made the change)
+CREATE OR REPLACE FUNCTION public.contract_party_ids_except(p_contract_id UUID, p_user_id UUID)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(party_id), '{}')
+  FROM unnest(public.contract_party_ids(p_contract_id)) AS party_id
+  WHERE party_id IS DISTINCT FROM p_user_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.contract_party_ids_except(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.contract_party_ids_except(UUID, UUID) TO service_role;
+
+-- ================================================================
+-- Lock down inserts
+-- ================================================================
+
+DO $$
+DECLARE
+  v_policy TEXT;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'notifications' AND cmd = 'INSERT'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.notifications', v_policy);
+  END LOOP;
+END $$;
+
+REVOKE INSERT ON public.notifications FROM PUBLIC, anon, authenticated;
+
+-- Only types with a template; older rows may carry types from before the set
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_fkey;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_fkey
+FOREIGN KEY (type) REFERENCES public.notification_templates (type) NOT VALID;
+
+-- Replaces the fixed mapping from 20261019114000_notification_preferences.sql
+CREATE OR REPLACE FUNCTION public.notification_category(p_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT category FROM public.notification_templates WHERE type = p_type
+$$;
+
+-- ================================================================
+-- Collaborators
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_collaborator_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id UUID;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_owner_id FROM public.consent_contracts WHERE id = NEW.contract_id;
+
+  -- Shared in the app; email invitations are accepted straight into 'reviewing'
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' AND NEW.user_id IS DISTINCT FROM v_owner_id THEN
+      PERFORM public.notify_users(
+        ARRAY[NEW.user_id], 'contract_invitation',
+        jsonb_build_object('sender_name', public.notification_display_name(v_owner_id)),
+        NEW.contract_id
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.user_id = v_owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    PERFORM public.notify_users(
+      ARRAY[v_owner_id], 'contract_approved',
+      jsonb_build_object('party_name', public.notification_display_name(NEW.user_id)),
+      NEW.contract_id
+    );
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.notify_users(
+      ARRAY[v_owner_id], 'contract_rejected',
+      jsonb_build_object(
+        'party_name', public.notification_display_name(NEW.user_id),
+        'reason', NEW.rejection_reason
+      ),
+      NEW.contract_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_collaborators_notify ON public.contract_collaborators;
+CREATE TRIGGER contract_collaborators_notify
+AFTER INSERT OR UPDATE OF status ON public.contract_collaborators
+FOR EACH ROW EXECUTE FUNCTION public.notify_collaborator_change();
+
+-- ================================================================
+-- Invitations
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_invitation_accepted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    PERFORM public.notify_users(
+      ARRAY[NEW.sender_id], 'invitation_accepted',
+      jsonb_build_object('recipient', NEW.recipient_email),
+      NEW.contract_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_invitations_notify_accepted ON public.contract_invitations;
+CREATE TRIGGER contract_invitations_notify_accepted
+AFTER UPDATE OF status ON public.contract_invitations
+FOR EACH ROW EXECUTE FUNCTION public.notify_invitation_accepted();
+
+-- ================================================================
+-- Amendments
+-- ================================================================
+
+-- Same trigger as 20261019113000_push_notifications.sql, through the template set
+CREATE OR REPLACE FUNCTION public.notify_amendment_requested()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_users(
+    public.contract_party_ids_except(NEW.contract_id, NEW.requested_by), 'amendment_requested',
+    jsonb_build_object('requester_name', public.notification_display_name(NEW.requested_by)),
+    NEW.contract_id, NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Approval notifies everyone but the final approver; rejection notifies the
+-- requester unless they withdrew the request themselves. Amendments that
+-- resolve_contract_amendment() rejects have no rejecter and no notification;
+-- the reason shows on the amendment.
+CREATE OR REPLACE FUNCTION public.notify_amendment_resolved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    PERFORM public.notify_users(
+      public.contract_party_ids_except(NEW.contract_id, auth.uid()), 'amendment_approved',
+      '{}'::jsonb, NEW.contract_id, NEW.id
+    );
+  ELSIF NEW.status = 'rejected' AND NEW.rejected_by <> NEW.requested_by THEN
+    PERFORM public.notify_users(
+      ARRAY[NEW.requested_by], 'amendment_rejected',
+      jsonb_build_object(
+        'rejecter_name', public.notification_display_name(NEW.rejected_by),
+        'reason', NEW.rejection_reason
+      ),
+      NEW.contract_id, NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contract_amendments_notify_resolved ON public.contract_amendments;
+CREATE TRIGGER contract_amendments_notify_resolved
+AFTER UPDATE OF status ON public.contract_amendments
+FOR EACH ROW EXECUTE FUNCTION public.notify_amendment_resolved();
+
+-- ================================================================
+-- Contract status
+-- ================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_contract_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'revoked' THEN
+    PERFORM public.notify_users(
+      public.contract_party_ids_except(NEW.id, NEW.revoked_by), 'contract_revoked',
+      jsonb_build_object('revoker_name', public.notification_display_name(NEW.revoked_by)),
+      NEW.id
+    );
+  ELSIF NEW.status = 'completed' AND v_actor_id IS NULL THEN
+    -- Completed by the lifecycle job when the end time passed
+    PERFORM public.notify_users(public.contract_party_ids(NEW.id), 'contract_expired', '{}'::jsonb, NEW.id);
+  ELSIF NEW.status = 'paused' AND v_actor_id IS NOT NULL THEN
+    PERFORM public.notify_users(
+      public.contract_party_ids_except(NEW.id, v_actor_id), 'contract_paused',
+      jsonb_build_object('actor_name', public.notification_display_name(v_actor_id)),
+      NEW.id
+    );
+  ELSIF NEW.status = 'active' AND OLD.status = 'paused' AND v_actor_id IS NOT NULL THEN
+    PERFORM public.notify_users(
+      public.contract_party_ids_except(NEW.id, v_actor_id), 'contract_resumed',
+      jsonb_build_object('actor_name', public.notification_display_name(v_actor_id)),
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consent_contracts_notify_status ON public.consent_contracts;
+CREATE TRIGGER consent_contracts_notify_status
+AFTER UPDATE OF status ON public.consent_contracts
+FOR EACH ROW EXECUTE FUNCTION public.notify_contract_status_change();
+
+-- ================================================================
+-- Functions that used to insert their own notifications
+-- ================================================================
+
+-- Same as 20261019106000_amendment_approvals.sql; notify_amendment_resolved() notifies
+CREATE OR REPLACE FUNCTION public.approve_contract_amendment(p_amendment_id UUID)
+RETURNS public.contract_amendments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_amendment public.contract_amendments;
+BEGIN
+  SELECT * INTO v_amendment
+  FROM public.contract_amendments
+  WHERE id = p_amendment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_contract_party(v_amendment.contract_id, v_user_id) THEN
+    RAISE EXCEPTION 'Amendment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_amendment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This amendment has already been resolved' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_amendment.requested_by = v_user_id THEN
+    RAISE EXCEPTION 'You cannot approve your own amendment request' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF v_user_id = ANY (v_amendment.approvers) THEN
+    RETURN v_amendment;
+  END IF;
+
+  PERFORM set_config('pmy.amendment_resolution', 'on', true);
+
+  UPDATE public.contract_amendments
+  SET approvers = array_append(approvers, v_user_id),
+      updated_at = now()
+  WHERE id = p_amendment_id;
+
+  PERFORM set_config('pmy.amendment_resolution', '', true);
+
+  RETURN public.resolve_contract_amendment(p_amendment_id);
+END;
+$$;
+
+-- Same as 20261019106000_amendment_approvals.sql; notify_amendment_resolved() notifies
+CREATE OR REPLACE FUNCTION public.reject_contract_amendment(p_amendment_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.contract_amendments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_amendment public.contract_amendments;
+BEGIN
+  SELECT * INTO v_amendment
+  FROM public.contract_amendments
+  WHERE id = p_amendment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.is_contract_party(v_amendment.contract_id, v_user_id) THEN
+    RAISE EXCEPTION 'Amendment not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_amendment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This amendment has already been resolved' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('pmy.amendment_resolution', 'on', true);
+
+  UPDATE public.contract_amendments
+  SET status = 'rejected',
+      rejected_by = v_user_id,
+      rejected_at = now(),
+      rejection_reason = NULLIF(trim(p_reason), ''),
+      updated_at = now()
+  WHERE id = p_amendment_id
+  RETURNING * INTO v_amendment;
+
+  PERFORM set_config('pmy.amendment_resolution', '', true);
+
+  RETURN v_amendment;
+END;
+$$;
+
+-- Same as 20261019109000_invitation_code_hashes.sql; notify_invitation_accepted() notifies
+CREATE OR REPLACE FUNCTION public.accept_contract_invitation(p_code TEXT, p_user_id UUID)
+RETURNS public.contract_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_invitation public.contract_invitations;
+  v_contract_status TEXT;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.contract_invitations
+  WHERE invitation_code_hash = encode(digest(convert_to(p_code, 'UTF8'), 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_invitation.status = 'accepted' THEN
+    RAISE EXCEPTION 'This invitation has already been accepted' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation is no longer valid' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_invitation.sender_id = p_user_id THEN
+    RAISE EXCEPTION 'You cannot accept your own invitation' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT status INTO v_contract_status
+  FROM public.consent_contracts
+  WHERE id = v_invitation.contract_id;
+
+  IF v_contract_status IS NULL OR v_contract_status NOT IN ('draft', 'pending_approval', 'active', 'paused') THEN
+    RAISE EXCEPTION 'This contract is no longer accepting parties' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('pmy.invitation_acceptance', 'on', true);
+
+  UPDATE public.contract_invitations
+  SET status = 'accepted',
+      accepted_at = now(),
+      recipient_user_id = p_user_id
+  WHERE id = v_invitation.id
+  RETURNING * INTO v_invitation;
+
+  PERFORM set_config('pmy.invitation_acceptance', '', true);
+
+  -- A user invited both in-app and by email keeps their existing collaborator row
+  IF NOT EXISTS (
+    SELECT 1 FROM public.contract_collaborators
+    WHERE contract_id = v_invitation.contract_id AND user_id = p_user_id
+  ) THEN
+    INSERT INTO public.contract_collaborators (contract_id, user_id, participant_type, role, status)
+    VALUES (v_invitation.contract_id, p_user_id, 'pmy_user', 'recipient', 'reviewing');
+  END IF;
+
+  RETURN v_invitation;
+END;
+$$;
@@ -0,0 +1,423 @@
+-- Migration: Data retention
+-- Enforces each owner's data_retention_policy (30days | 90days | 1year | forever).
+-- A daily job (the retention-purge edge function) schedules every contract and
+-- recording whose retention period ends within a week, warns the people
+-- affected, and once the week has passed deletes the rows along with their
+-- amendments, notifications and storage objects. Each purge is recorded in
+-- retention_purges.
+--
+-- A contract's retention period starts when it reaches a terminal status
+-- (completed, revoked or rejected); contracts still in effect are never purged.
+-- A recording's starts when it was made, but it is kept while it is the audio
+-- of a contract still in effect. Nothing covered by a legal hold is purged.
+--
+-- contract_versions has no foreign key to its contract, so deleting a contract
+-- leaves its history behind. The history is scheduled when the contract is
+-- deleted and purged once the owner's retention period has passed since then.
+
+-- ================================================================
+-- Legal holds
+-- ================================================================
+
+-- No foreign keys: a hold must outlive changes to the data it protects.
+-- Placed and released by support with the service role; users can't see them.
+CREATE TABLE IF NOT EXISTS public.legal_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID,
+  contract_id UUID,
+  reason TEXT NOT NULL,
+  placed_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  released_at TIMESTAMPTZ,
+  CONSTRAINT legal_holds_target_check CHECK (user_id IS NOT NULL OR contract_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_holds_user
+  ON public.legal_holds(user_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_legal_holds_contract
+  ON public.legal_holds(contract_id) WHERE released_at IS NULL;
+
+ALTER TABLE public.legal_holds ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.legal_holds IS 'Data that must not be purged; a hold on a user covers their recordings and every contract they are a party to';
+
+CREATE OR REPLACE FUNCTION public.is_user_on_legal_hold(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM legal_holds
+    WHERE user_id = p_user_id AND released_at IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_contract_on_legal_hold(p_contract_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM legal_holds
+    WHERE released_at IS NULL
+      AND (contract_id = p_contract_id OR user_id = ANY (contract_party_ids(p_contract_id)))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_user_on_legal_hold(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_contract_on_legal_hold(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_user_on_legal_hold(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.is_contract_on_legal_hold(UUID) TO service_role;
+
+-- ================================================================
+-- Retention periods
+-- ================================================================
+
+-- NULL means keep forever
+CREATE OR REPLACE FUNCTION public.retention_interval(p_policy TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_policy
+    WHEN '30days' THEN INTERVAL '30 days'
+    WHEN '90days' THEN INTERVAL '90 days'
+    WHEN '1year' THEN INTERVAL '1 year'
+    ELSE NULL
+  END;
+$$;
+
+-- When the contract may be purged under its owner's policy, or NULL if it is
+-- still in effect, kept forever or on hold
+CREATE OR REPLACE FUNCTION public.contract_retention_expires_at(p_contract_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+      (SELECT max(h.created_at)
+       FROM contract_status_history h
+       WHERE h.contract_id = c.id AND h.to_status = c.status),
+      c.updated_at,
+      c.created_at
+    ) + retention_interval(p.data_retention_policy)
+  FROM consent_contracts c
+  JOIN user_profiles p ON p.id = c.user_id
+  WHERE c.id = p_contract_id
+    AND c.status IN ('completed', 'revoked', 'rejected')
+    AND NOT is_contract_on_legal_hold(c.id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.recording_retention_expires_at(p_recording_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.created_at + retention_interval(p.data_retention_policy)
+  FROM consent_recordings r
+  JOIN user_profiles p ON p.id = r.user_id
+  WHERE r.id = p_recording_id
+    AND NOT is_user_on_legal_hold(r.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM consent_contracts c
+      WHERE c.audio_url = r.file_url
+        AND c.status NOT IN ('completed', 'revoked', 'rejected')
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.contract_retention_expires_at(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recording_retention_expires_at(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.contract_retention_expires_at(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recording_retention_expires_at(UUID) TO service_role;
+
+-- ================================================================
+-- Purge schedule
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.retention_purges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type TEXT NOT NULL CHECK (item_type IN ('contract', 'recording', 'contract_history')),
+  item_id UUID NOT NULL,
+  owner_id UUID NOT NULL,
+  purge_after TIMESTAMPTZ NOT NULL,
+  warned_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  purged_at TIMESTAMPTZ,
+  CONSTRAINT retention_purges_item_key UNIQUE (item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_purges_due
+  ON public.retention_purges(purge_after) WHERE purged_at IS NULL;
+
+ALTER TABLE public.retention_purges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view purges of their own data"
+ON public.retention_purges FOR SELECT
+USING (owner_id = auth.uid());
+
+COMMENT ON TABLE public.retention_purges IS 'Contracts, recordings and the history of deleted contracts scheduled for deletion under their owner''s retention policy, kept as a log once purged';
+
+-- Storage objects can only be removed through the Storage API, so purges queue
+-- them here for the edge function
+CREATE TABLE IF NOT EXISTS public.storage_deletion_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket TEXT NOT NULL,
+  path TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.storage_deletion_queue ENABLE ROW LEVEL SECURITY;
+
+-- Schedules everything whose retention ends within the warning period and
+-- sends each affected user one retention_warning. Contracts warn every party.
+-- Returns the number of items scheduled.
+CREATE OR REPLACE FUNCTION public.schedule_retention_purges()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warning_period CONSTANT INTERVAL := INTERVAL '7 days';
+  v_count INTEGER;
+  v_recipient RECORD;
+BEGIN
+  INSERT INTO retention_purges (item_type, item_id, owner_id, purge_after, warned_at)
+  SELECT e.item_type, e.item_id, e.owner_id, GREATEST(e.expires_at, now() + v_warning_period), now()
+  FROM (
+    SELECT 'contract' AS item_type, c.id AS item_id, c.user_id AS owner_id,
+      contract_retention_expires_at(c.id) AS expires_at
+    FROM consent_contracts c
+    WHERE c.status IN ('completed', 'revoked', 'rejected')
+    UNION ALL
+    SELECT 'recording', r.id, r.user_id, recording_retention_expires_at(r.id)
+    FROM consent_recordings r
+  ) e
+  WHERE e.expires_at <= now() + v_warning_period
+  ON CONFLICT (item_type, item_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- now() is fixed for the transaction, so warned_at picks out this run's rows
+  FOR v_recipient IN
+    SELECT
+      u.user_id,
+      count(*) FILTER (WHERE rp.item_type = 'contract') AS contracts,
+      count(*) FILTER (WHERE rp.item_type = 'recording') AS recordings,
+      min(rp.purge_after) AS purge_after,
+      (array_agg(rp.item_id) FILTER (WHERE rp.item_type = 'contract'))[1] AS contract_id
+    FROM retention_purges rp
+    CROSS JOIN LATERAL unnest(
+      CASE WHEN rp.item_type = 'contract' THEN contract_party_ids(rp.item_id) ELSE ARRAY[rp.owner_id] END
+    ) AS u(user_id)
+    WHERE rp.warned_at = now() AND rp.purged_at IS NULL
+    GROUP BY u.user_id
+  LOOP
+    PERFORM notify_users(
+      ARRAY[v_recipient.user_id],
+      'retention_warning',
+      jsonb_build_object(
+        'summary', concat_ws(' and ',
+          CASE
+            WHEN v_recipient.contracts = 1 THEN '1 consent contract'
+            WHEN v_recipient.contracts > 1 THEN v_recipient.contracts || ' consent contracts'
+          END,
+          CASE
+            WHEN v_recipient.recordings = 1 THEN '1 recording'
+            WHEN v_recipient.recordings > 1 THEN v_recipient.recordings || ' recordings'
+          END
+        ),
+        'purge_date', to_char(v_recipient.purge_after, 'FMMonth FMDD, YYYY')
+      ),
+      CASE WHEN v_recipient.contracts = 1 AND v_recipient.recordings = 0 THEN v_recipient.contract_id END
+    );
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Deletes up to p_limit scheduled items whose warning period has passed,
+-- re-checking each one first: the owner may have lengthened their policy, a
+-- hold may have been placed or the contract reinstated since the warning.
+-- Returns the number of items purged.
+CREATE OR REPLACE FUNCTION public.purge_due_retention(p_limit INTEGER DEFAULT 100)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_expires_at TIMESTAMPTZ;
+  v_count INTEGER := 0;
+BEGIN
+  -- contract_versions is append-only except for purges
+  PERFORM set_config('pmy.allow_history_purge', 'on', true);
+
+  FOR v_item IN
+    SELECT * FROM retention_purges
+    WHERE purged_at IS NULL AND purge_after <= now()
+    ORDER BY purge_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_item.item_type = 'contract_history' THEN
+      -- Held history is checked again the next day
+      IF is_contract_on_legal_hold(v_item.item_id) OR is_user_on_legal_hold(v_item.owner_id) THEN
+        UPDATE retention_purges SET purge_after = now() + INTERVAL '1 day' WHERE id = v_item.id;
+        CONTINUE;
+      END IF;
+
+      DELETE FROM contract_versions WHERE contract_id = v_item.item_id;
+      UPDATE retention_purges SET purged_at = now() WHERE id = v_item.id;
+      v_count := v_count + 1;
+      CONTINUE;
+    END IF;
+
+    v_expires_at := CASE v_item.item_type
+      WHEN 'contract' THEN contract_retention_expires_at(v_item.item_id)
+      ELSE recording_retention_expires_at(v_item.item_id)
+    END;
+
+    -- No longer due (or already deleted by its owner); the next run reschedules
+    -- it with a fresh warning if it becomes due again
+    IF v_expires_at IS NULL OR v_expires_at > now() THEN
+      DELETE FROM retention_purges WHERE id = v_item.id;
+      CONTINUE;
+    END IF;
+
+    IF v_item.item_type = 'contract' THEN
+      -- Legacy rows may still hold public URLs rather than bucket paths
+      INSERT INTO storage_deletion_queue (bucket, path)
+      SELECT m.bucket, m.path
+      FROM consent_contracts c
+      CROSS JOIN LATERAL (VALUES ('photos', c.photo_url), ('recordings', c.audio_url)) AS m(bucket, path)
+      WHERE c.id = v_item.item_id
+        AND m.path IS NOT NULL
+        AND m.path !~ '^https?://';
+
+      DELETE FROM notifications WHERE related_contract_id = v_item.item_id;
+      DELETE FROM contract_amendments WHERE contract_id = v_item.item_id;
+      DELETE FROM contract_invitations WHERE contract_id = v_item.item_id;
+      DELETE FROM contract_collaborators WHERE contract_id = v_item.item_id;
+      DELETE FROM contract_versions WHERE contract_id = v_item.item_id;
+      -- Status history and key envelopes cascade
+      DELETE FROM consent_contracts WHERE id = v_item.item_id;
+    ELSE
+      INSERT INTO storage_deletion_queue (bucket, path)
+      SELECT 'recordings', r.file_url
+      FROM consent_recordings r
+      WHERE r.id = v_item.item_id
+        AND r.file_url IS NOT NULL
+        AND r.file_url !~ '^https?://';
+
+      DELETE FROM consent_recordings WHERE id = v_item.item_id;
+    END IF;
+
+    UPDATE retention_purges SET purged_at = now() WHERE id = v_item.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- A contract deleted by its owner leaves its history in contract_versions;
+-- schedule it for the end of the owner's retention period, or never
+-- ('infinity') under a keep-forever policy. Purges remove the history
+-- themselves, so contracts deleted by them are skipped.
+CREATE OR REPLACE FUNCTION public.schedule_deleted_contract_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('pmy.allow_history_purge', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO retention_purges (item_type, item_id, owner_id, purge_after)
+  VALUES (
+    'contract_history',
+    OLD.id,
+    OLD.user_id,
+    COALESCE(
+      now() + retention_interval((SELECT data_retention_policy FROM user_profiles WHERE id = OLD.user_id)),
+      'infinity'
+    )
+  )
+  ON CONFLICT (item_type, item_id) DO NOTHING;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consent_contracts_schedule_history_purge ON public.consent_contracts;
+CREATE TRIGGER consent_contracts_schedule_history_purge
+AFTER DELETE ON public.consent_contracts
+FOR EACH ROW EXECUTE FUNCTION public.schedule_deleted_contract_history();
+
+-- History already left behind by deleted contracts, counted from now. The
+-- earliest version with an author was written by the contract's owner.
+INSERT INTO public.retention_purges (item_type, item_id, owner_id, purge_after)
+SELECT 'contract_history', v.contract_id, v.created_by,
+  COALESCE(now() + public.retention_interval(p.data_retention_policy), 'infinity')
+FROM (
+  SELECT DISTINCT ON (contract_id) contract_id, created_by
+  FROM public.contract_versions
+  WHERE created_by IS NOT NULL
+  ORDER BY contract_id, version
+) v
+LEFT JOIN public.user_profiles p ON p.id = v.created_by
+WHERE NOT EXISTS (SELECT 1 FROM public.consent_contracts c WHERE c.id = v.contract_id)
+ON CONFLICT (item_type, item_id) DO NOTHING;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_retention_purges() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_due_retention(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_retention_purges() TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_due_retention(INTEGER) TO service_role;
+
+-- ================================================================
+-- Warning notification
+-- ================================================================
+
+-- retention_warning has no category, so it can't be turned off
+INSERT INTO public.notification_templates (type, category, required_vars, title, message)
+VALUES
+  ('retention_warning', NULL, ARRAY['summary', 'purge_date'], 'Data Scheduled for Deletion',
+   '{summary} will be permanently deleted on {purge_date} under the data retention policy.')
+ON CONFLICT (type) DO NOTHING;
+
+-- ================================================================
+-- Schedule
+-- ================================================================
+
+-- Uses the Vault secrets set up in 20261019103000_contract_lifecycle.sql
+SELECT cron.unschedule('retention-purge')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'retention-purge');
+
+SELECT cron.schedule(
+  'retention-purge',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/retention-purge',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
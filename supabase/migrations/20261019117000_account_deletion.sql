@@ -0,0 +1,333 @@
+-- Migration: Account deletion
+-- Users request deletion from the app after re-entering their password (the
+-- account-deletion edge function). The account stays usable for a 30-day grace
+-- period, during which the request can be cancelled. After that the
+-- purge-accounts job removes the profile, owned contracts, the history of
+-- contracts they deleted, recordings, storage objects and collaborator rows,
+-- then deletes the auth user, which cascades to device keys, push tokens and
+-- preferences.
+--
+-- Shared contracts:
+--   * contracts the user owns are deleted along with the account
+--   * contracts the user joined that are still in effect are revoked on their
+--     behalf, which notifies the other parties as usual; finished ones keep
+--     their record without the user's collaborator row
+--   * everyone the user shared a contract with gets a party_account_deleted
+--     notification before anything is removed
+-- A legal hold on the user, or on any contract they are party to, postpones
+-- the purge until it is released.
+
+-- ================================================================
+-- Requests
+-- ================================================================
+
+-- No foreign key: requests are kept as a record once the auth user is gone
+CREATE TABLE IF NOT EXISTS public.account_deletion_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  scheduled_for TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '30 days',
+  cancelled_at TIMESTAMPTZ,
+  data_purged_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+-- One open request per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_deletion_requests_open
+  ON public.account_deletion_requests(user_id)
+  WHERE cancelled_at IS NULL AND completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_due
+  ON public.account_deletion_requests(scheduled_for)
+  WHERE cancelled_at IS NULL AND data_purged_at IS NULL;
+
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are made and cancelled through the account-deletion edge function
+CREATE POLICY "Users can view their own deletion requests"
+ON public.account_deletion_requests FOR SELECT
+USING (user_id = auth.uid());
+
+-- ================================================================
+-- Purging
+-- ================================================================
+
+-- Deletes a contract with its amendments, invitations, collaborators, versions
+-- and notifications, and queues its photo and recording for removal from
+-- storage. Status history and key envelopes cascade.
+CREATE OR REPLACE FUNCTION public.purge_contract(p_contract_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- contract_versions is append-only except for purges
+  PERFORM set_config('pmy.allow_history_purge', 'on', true);
+
+  -- Legacy rows may still hold public URLs rather than bucket paths
+  INSERT INTO storage_deletion_queue (bucket, path)
+  SELECT m.bucket, m.path
+  FROM consent_contracts c
+  CROSS JOIN LATERAL (VALUES ('photos', c.photo_url), ('recordings', c.audio_url)) AS m(bucket, path)
+  WHERE c.id = p_contract_id
+    AND m.path IS NOT NULL
+    AND m.path !~ '^https?://';
+
+  DELETE FROM notifications WHERE related_contract_id = p_contract_id;
+  DELETE FROM contract_amendments WHERE contract_id = p_contract_id;
+  DELETE FROM contract_invitations WHERE contract_id = p_contract_id;
+  DELETE FROM contract_collaborators WHERE contract_id = p_contract_id;
+  DELETE FROM contract_versions WHERE contract_id = p_contract_id;
+  DELETE FROM consent_contracts WHERE id = p_contract_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_contract(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_contract(UUID) TO service_role;
+
+-- Same as 20261019116000_data_retention.sql, using purge_contract()
+CREATE OR REPLACE FUNCTION public.purge_due_retention(p_limit INTEGER DEFAULT 100)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item RECORD;
+  v_expires_at TIMESTAMPTZ;
+  v_count INTEGER := 0;
+BEGIN
+  -- contract_versions is append-only except for purges
+  PERFORM set_config('pmy.allow_history_purge', 'on', true);
+
+  FOR v_item IN
+    SELECT * FROM retention_purges
+    WHERE purged_at IS NULL AND purge_after <= now()
+    ORDER BY purge_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_item.item_type = 'contract_history' THEN
+      -- Held history is checked again the next day
+      IF is_contract_on_legal_hold(v_item.item_id) OR is_user_on_legal_hold(v_item.owner_id) THEN
+        UPDATE retention_purges SET purge_after = now() + INTERVAL '1 day' WHERE id = v_item.id;
+        CONTINUE;
+      END IF;
+
+      DELETE FROM contract_versions WHERE contract_id = v_item.item_id;
+      UPDATE retention_purges SET purged_at = now() WHERE id = v_item.id;
+      v_count := v_count + 1;
+      CONTINUE;
+    END IF;
+
+    v_expires_at := CASE v_item.item_type
+      WHEN 'contract' THEN contract_retention_expires_at(v_item.item_id)
+      ELSE recording_retention_expires_at(v_item.item_id)
+    END;
+
+    -- No longer due (or already deleted by its owner); the next run reschedules
+    -- it with a fresh warning if it becomes due again
+    IF v_expires_at IS NULL OR v_expires_at > now() THEN
+      DELETE FROM retention_purges WHERE id = v_item.id;
+      CONTINUE;
+    END IF;
+
+    IF v_item.item_type = 'contract' THEN
+      PERFORM purge_contract(v_item.item_id);
+    ELSE
+      INSERT INTO storage_deletion_queue (bucket, path)
+      SELECT 'recordings', r.file_url
+      FROM consent_recordings r
+      WHERE r.id = v_item.item_id
+        AND r.file_url IS NOT NULL
+        AND r.file_url !~ '^https?://';
+
+      DELETE FROM consent_recordings WHERE id = v_item.item_id;
+    END IF;
+
+    UPDATE retention_purges SET purged_at = now() WHERE id = v_item.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Removes everything the user owns except the auth user itself, which only the
+-- Auth admin API can delete. Returns false, leaving the request pending, while
+-- a legal hold applies.
+CREATE OR REPLACE FUNCTION public.purge_account(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_counterparties UUID[];
+  v_contract_id UUID;
+BEGIN
+  IF is_user_on_legal_hold(p_user_id) OR EXISTS (
+    SELECT 1 FROM consent_contracts c
+    WHERE (c.user_id = p_user_id OR EXISTS (
+        SELECT 1 FROM contract_collaborators cc
+        WHERE cc.contract_id = c.id AND cc.user_id = p_user_id
+      ))
+      AND is_contract_on_legal_hold(c.id)
+  ) OR EXISTS (
+    SELECT 1 FROM retention_purges rp
+    WHERE rp.item_type = 'contract_history'
+      AND rp.owner_id = p_user_id
+      AND rp.purged_at IS NULL
+      AND is_contract_on_legal_hold(rp.item_id)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT email INTO v_email FROM auth.users WHERE id = p_user_id;
+
+  SELECT array_agg(DISTINCT p.party_id) INTO v_counterparties
+  FROM (
+    SELECT unnest(contract_party_ids(c.id)) AS party_id
+    FROM consent_contracts c
+    WHERE c.user_id = p_user_id
+    UNION
+    SELECT unnest(contract_party_ids(cc.contract_id))
+    FROM contract_collaborators cc
+    WHERE cc.user_id = p_user_id
+  ) p
+  WHERE p.party_id <> p_user_id;
+
+  -- Consent given on someone else's contract ends with the account
+  FOR v_contract_id IN
+    SELECT c.id
+    FROM consent_contracts c
+    WHERE c.user_id <> p_user_id
+      AND c.status IN ('pending_approval', 'active', 'paused')
+      AND is_contract_party(c.id, p_user_id)
+  LOOP
+    PERFORM revoke_contract(v_contract_id, p_user_id, 'The party deleted their account');
+  END LOOP;
+
+  -- Sent while the profile still exists to name the user
+  IF cardinality(v_counterparties) > 0 THEN
+    PERFORM notify_users(
+      v_counterparties,
+      'party_account_deleted',
+      jsonb_build_object('party_name', notification_display_name(p_user_id))
+    );
+  END IF;
+
+  FOR v_contract_id IN
+    SELECT id FROM consent_contracts WHERE user_id = p_user_id
+  LOOP
+    PERFORM purge_contract(v_contract_id);
+  END LOOP;
+
+  -- History of contracts the user deleted earlier, whatever its retention
+  PERFORM set_config('pmy.allow_history_purge', 'on', true);
+  DELETE FROM contract_versions
+  WHERE contract_id IN (
+    SELECT item_id FROM retention_purges
+    WHERE item_type = 'contract_history' AND owner_id = p_user_id AND purged_at IS NULL
+  );
+
+  INSERT INTO storage_deletion_queue (bucket, path)
+  SELECT 'recordings', file_url
+  FROM consent_recordings
+  WHERE user_id = p_user_id
+    AND file_url IS NOT NULL
+    AND file_url !~ '^https?://';
+
+  -- Avatars are stored as <user id>/avatar.<extension>
+  INSERT INTO storage_deletion_queue (bucket, path)
+  SELECT 'avatars', p_user_id || '/avatar.' || extension
+  FROM unnest(ARRAY['jpg', 'jpeg', 'png', 'gif', 'webp']) AS extension;
+
+  DELETE FROM consent_recordings WHERE user_id = p_user_id;
+  DELETE FROM contract_collaborators WHERE user_id = p_user_id;
+  DELETE FROM contract_invitations
+  WHERE sender_id = p_user_id
+    OR recipient_user_id = p_user_id
+    OR (v_email IS NOT NULL AND lower(recipient_email) = lower(v_email));
+  DELETE FROM notifications WHERE user_id = p_user_id;
+  DELETE FROM user_contacts WHERE user_id = p_user_id;
+  DELETE FROM account_verifications WHERE user_id = p_user_id;
+  DELETE FROM retention_purges WHERE owner_id = p_user_id;
+  DELETE FROM user_profiles WHERE id = p_user_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Purges up to p_limit accounts whose grace period has ended and returns the
+-- users whose auth account is still to be deleted, including any left over from
+-- an earlier run
+CREATE OR REPLACE FUNCTION public.purge_due_accounts(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (user_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  FOR v_request IN
+    SELECT r.id, r.user_id FROM account_deletion_requests r
+    WHERE r.cancelled_at IS NULL
+      AND r.data_purged_at IS NULL
+      AND r.scheduled_for <= now()
+    ORDER BY r.scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF purge_account(v_request.user_id) THEN
+      UPDATE account_deletion_requests SET data_purged_at = now() WHERE id = v_request.id;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT r.user_id FROM account_deletion_requests r
+  WHERE r.data_purged_at IS NOT NULL AND r.completed_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_account(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_due_accounts(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_account(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_due_accounts(INTEGER) TO service_role;
+
+-- ================================================================
+-- Counterparty notification
+-- ================================================================
+
+-- party_account_deleted has no category, so it can't be turned off
+INSERT INTO public.notification_templates (type, category, required_vars, title, message)
+VALUES
+  ('party_account_deleted', NULL, ARRAY['party_name'], 'Account Deleted',
+   '{party_name} deleted their PMY account. Contracts they created with you have been deleted, and any they joined that were still in effect have been revoked.')
+ON CONFLICT (type) DO NOTHING;
+
+-- ================================================================
+-- Schedule
+-- ================================================================
+
+-- Uses the Vault secrets set up in 20261019103000_contract_lifecycle.sql
+SELECT cron.unschedule('purge-accounts')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-accounts');
+
+SELECT cron.schedule(
+  'purge-accounts',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-accounts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,154 @@
+-- Migration: Personal data exports
+-- Users request an export of their data from the app (the data-export edge
+-- function). Inserting the request calls the build-data-export edge function,
+-- which writes a zip archive with a JSON manifest to the private exports bucket
+-- and notifies the user. Archives can be downloaded through short-lived signed
+-- URLs for 7 days; after that the retention-purge job removes them.
+
+-- ================================================================
+-- Storage
+-- ================================================================
+
+-- No storage policies: archives are only reached through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- ================================================================
+-- Exports
+-- ================================================================
+
+CREATE TABLE IF NOT EXISTS public.data_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'ready', 'failed')),
+  storage_path TEXT,
+  size_bytes BIGINT,
+  error TEXT,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+);
+
+-- One export in progress per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_exports_in_progress
+  ON public.data_exports(user_id)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_user
+  ON public.data_exports(user_id, requested_at DESC);
+
+ALTER TABLE public.data_exports ENABLE ROW LEVEL SECURITY;
+
+-- Requested and downloaded through the data-export edge function
+CREATE POLICY "Users can view their own data exports"
+ON public.data_exports FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.build_data_export()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/build-data-export',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('exportId', NEW.id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS data_exports_build ON public.data_exports;
+CREATE TRIGGER data_exports_build
+AFTER INSERT ON public.data_exports
+FOR EACH ROW EXECUTE FUNCTION public.build_data_export();
+
+-- However an export row goes (expiry or account deletion), its archive goes too
+CREATE OR REPLACE FUNCTION public.queue_data_export_file_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.storage_path IS NOT NULL THEN
+    INSERT INTO storage_deletion_queue (bucket, path) VALUES ('exports', OLD.storage_path);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS data_exports_queue_file_deletion ON public.data_exports;
+CREATE TRIGGER data_exports_queue_file_deletion
+AFTER DELETE ON public.data_exports
+FOR EACH ROW EXECUTE FUNCTION public.queue_data_export_file_deletion();
+
+-- A build that died (timeout, crash, lost trigger call) leaves its row pending
+-- or processing, which would block the user's next request forever. Builds
+-- finish within the edge function time limit, so anything older than an hour
+-- is failed. Pass a user id to only check theirs. Returns the users affected.
+CREATE OR REPLACE FUNCTION public.fail_stale_data_exports(p_user_id UUID DEFAULT NULL)
+RETURNS UUID[]
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH failed AS (
+    UPDATE data_exports
+    SET status = 'failed', error = 'The export timed out', completed_at = now()
+    WHERE status IN ('pending', 'processing')
+      AND requested_at <= now() - INTERVAL '1 hour'
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    RETURNING user_id
+  )
+  SELECT COALESCE(array_agg(DISTINCT user_id), '{}') FROM failed
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_data_exports(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fail_stale_data_exports(UUID) TO service_role;
+
+-- Called by the retention-purge job. Fails stale builds and tells their users,
+-- then removes expired exports; failed ones are kept as long as ready ones so
+-- the app can show what happened. Returns the number removed.
+CREATE OR REPLACE FUNCTION public.expire_data_exports()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  PERFORM notify_users(fail_stale_data_exports(), 'data_export_failed');
+
+  DELETE FROM data_exports
+  WHERE (status = 'ready' AND expires_at <= now())
+    OR (status = 'failed' AND completed_at <= now() - INTERVAL '7 days');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_data_exports() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_data_exports() TO service_role;
+
+-- ================================================================
+-- Notifications
+-- ================================================================
+
+-- Neither export notification has a category, so they can't be turned off
+INSERT INTO public.notification_templates (type, category, required_vars, title, message)
+VALUES
+  ('data_export_ready', NULL, ARRAY['expires_on'], 'Data Export Ready',
+   'Your data export is ready to download until {expires_on}.'),
+  ('data_export_failed', NULL, '{}', 'Data Export Failed',
+   'We couldn''t create your data export. Please try again.')
+ON CONFLICT (type) DO NOTHING;
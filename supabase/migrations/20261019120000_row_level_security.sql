@@ -0,0 +1,327 @@
+-- Migration: Row level security for the base tables
+-- Replaces whatever policies the tables from 20241101000000_initial_schema.sql
+-- picked up in the dashboard with the app's access model:
+--   * a contract can be read by its owner and by collaborators who joined it
+--     (is_contract_party); only the owner edits or deletes it
+--   * a user shared a contract in-app can read it while deciding whether to join
+--   * only parties can request amendments; resolving them goes through
+--     approve_contract_amendment() / reject_contract_amendment()
+--   * invitations are issued and accepted server-side; sender and recipient can
+--     read them
+--   * profiles, contacts, recordings, verifications and notifications are
+--     scoped to their user
+--   * universities and state laws are public reference data
+-- Tables added by later migrations set up their own policies.
+--
+-- Columns that users may change on rows they can update are granted explicitly,
+-- so verification status, contract membership and notification content stay
+-- server-side.
+
+-- ================================================================
+-- Start from a clean slate
+-- ================================================================
+
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT tablename, policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'universities', 'state_laws', 'user_profiles', 'user_contacts',
+        'account_verifications', 'consent_recordings', 'consent_contracts',
+        'contract_collaborators', 'contract_invitations', 'contract_amendments',
+        'notifications'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.universities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.state_laws ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_verifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.consent_recordings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.consent_contracts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_collaborators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_amendments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- ================================================================
+-- Reference data
+-- ================================================================
+
+-- Loaded by the seed-legal-data function with the service role
+CREATE POLICY "Anyone can read universities"
+ON public.universities FOR SELECT TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Anyone can read state laws"
+ON public.state_laws FOR SELECT TO anon, authenticated
+USING (true);
+
+-- ================================================================
+-- Profiles, contacts and verifications
+-- ================================================================
+
+-- Profiles are created by the on_auth_user_created trigger; everything else
+-- reads other users' names through security definer functions
+CREATE POLICY "Users can read their own profile"
+ON public.user_profiles FOR SELECT TO authenticated
+USING (id = auth.uid());
+
+CREATE POLICY "Users can update their own profile"
+ON public.user_profiles FOR UPDATE TO authenticated
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+-- Verification and billing columns are set by the Stripe webhook
+REVOKE INSERT, UPDATE ON public.user_profiles FROM anon, authenticated;
+GRANT UPDATE (
+  username, first_name, last_name, profile_picture_url, bio, website_url,
+  saved_signature, saved_signature_type, saved_signature_text,
+  data_retention_policy, default_university_id, state_of_residence,
+  default_encounter_type, default_contract_duration,
+  email_notifications_enabled, updated_at
+) ON public.user_profiles TO authenticated;
+
+CREATE POLICY "Users can read their contacts"
+ON public.user_contacts FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add contacts"
+ON public.user_contacts FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their contacts"
+ON public.user_contacts FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read their verifications"
+ON public.account_verifications FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+-- ================================================================
+-- Recordings
+-- ================================================================
+
+CREATE POLICY "Users can read their recordings"
+ON public.consent_recordings FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save recordings"
+ON public.consent_recordings FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their recordings"
+ON public.consent_recordings FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+-- ================================================================
+-- Contracts
+-- ================================================================
+
+-- Pending in-app shares; like is_contract_party(), bypasses RLS so the contract
+-- and collaborator policies don't recurse into each other
+CREATE OR REPLACE FUNCTION public.is_contract_invitee(p_contract_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.contract_collaborators cc
+    WHERE cc.contract_id = p_contract_id
+      AND cc.user_id = p_user_id
+      AND cc.status = 'pending'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_contract_owner(p_contract_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.consent_contracts c
+    WHERE c.id = p_contract_id AND c.user_id = p_user_id
+  )
+$$;
+
+-- These answer for any user; policies use the wrappers bound to the caller below
+REVOKE EXECUTE ON FUNCTION public.is_contract_invitee(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_contract_owner(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_contract_invitee(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.is_contract_owner(UUID, UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.is_contract_invitee(p_contract_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_contract_invitee(p_contract_id, auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_contract_owner(p_contract_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_contract_owner(p_contract_id, auth.uid())
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_contract_invitee(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.is_contract_owner(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_contract_invitee(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_contract_owner(UUID) TO authenticated;
+
+-- Same as 20261019104000_contract_revocation.sql
+CREATE POLICY "Contract parties can view contracts"
+ON public.consent_contracts FOR SELECT TO authenticated
+USING (public.is_contract_party(id));
+
+CREATE POLICY "Invited users can review contracts"
+ON public.consent_contracts FOR SELECT TO authenticated
+USING (public.is_contract_invitee(id));
+
+CREATE POLICY "Users can create their own contracts"
+ON public.consent_contracts FOR INSERT TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Contract owners can update contracts"
+ON public.consent_contracts FOR UPDATE TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Contract owners can delete contracts"
+ON public.consent_contracts FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+-- ================================================================
+-- Collaborators
+-- ================================================================
+
+CREATE POLICY "Collaborators and parties can view collaborators"
+ON public.contract_collaborators FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR public.is_contract_party(contract_id));
+
+CREATE POLICY "Contract owners can add collaborators"
+ON public.contract_collaborators FOR INSERT TO authenticated
+WITH CHECK (public.is_contract_owner(contract_id));
+
+CREATE POLICY "Contract owners can remove collaborators"
+ON public.contract_collaborators FOR DELETE TO authenticated
+USING (public.is_contract_owner(contract_id));
+
+-- A collaborator answers for themselves, once
+CREATE POLICY "Collaborators can respond to contracts"
+ON public.contract_collaborators FOR UPDATE TO authenticated
+USING (user_id = auth.uid() AND status IN ('pending', 'reviewing'))
+WITH CHECK (user_id = auth.uid() AND status IN ('pending', 'reviewing', 'approved', 'rejected'));
+
+REVOKE UPDATE ON public.contract_collaborators FROM anon, authenticated;
+GRANT UPDATE (
+  status, approved_at, rejected_at, rejection_reason, last_viewed_at, confirmed_at
+) ON public.contract_collaborators TO authenticated;
+
+-- ================================================================
+-- Invitations
+-- ================================================================
+
+-- Issued by send-invitation and accepted through accept_contract_invitation()
+CREATE POLICY "Senders and recipients can view invitations"
+ON public.contract_invitations FOR SELECT TO authenticated
+USING (
+  sender_id = auth.uid()
+  OR recipient_user_id = auth.uid()
+  OR lower(recipient_email) = lower(auth.jwt() ->> 'email')
+);
+
+-- ================================================================
+-- Amendments
+-- ================================================================
+
+CREATE POLICY "Contract parties can view amendments"
+ON public.contract_amendments FOR SELECT TO authenticated
+USING (public.is_contract_party(contract_id));
+
+-- Also checked by the guard from 20261019106000_amendment_approvals.sql
+CREATE POLICY "Contract parties can request amendments"
+ON public.contract_amendments FOR INSERT TO authenticated
+WITH CHECK (
+  requested_by = auth.uid()
+  AND public.is_contract_party(contract_id)
+);
+
+-- ================================================================
+-- Notifications
+-- ================================================================
+
+-- Created by notify_users(); see 20261019115000_server_side_notifications.sql
+CREATE POLICY "Users can read their notifications"
+ON public.notifications FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+ON public.notifications FOR UPDATE TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (is_read) ON public.notifications TO authenticated;
+
+-- ================================================================
+-- Avatars
+-- ================================================================
+
+-- The bucket is public, so anyone can fetch an avatar by URL. Objects live under
+-- <user id>/avatar.<ext>.
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname
+    FROM pg_policies
+    WHERE schemaname = 'storage'
+      AND tablename = 'objects'
+      AND (
+        COALESCE(qual, '') ~ '''avatars'''
+        OR COALESCE(with_check, '') ~ '''avatars'''
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', v_policy.policyname);
+  END LOOP;
+END;
+$$;
+
+-- Replacing an avatar (upsert) needs SELECT and UPDATE as well as INSERT
+CREATE POLICY "Users can read their own avatar"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace their own avatar"
+ON storage.objects FOR UPDATE TO authenticated
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text)
+WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,110 @@
+-- Amendments are settled when the party they were waiting on leaves the contract.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'owner@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'approver@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'leaver@example.com');
+
+INSERT INTO public.consent_contracts (id, user_id, status, contract_duration)
+VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a', 'active', 60),
+  ('10000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000a', 'active', 60),
+  ('10000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-00000000000a', 'active', 60);
+
+INSERT INTO public.contract_collaborators (id, contract_id, user_id, status)
+SELECT gen_random_uuid(), c.id, u.id, 'approved'
+FROM unnest(ARRAY[
+  '10000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000002',
+  '10000000-0000-0000-0000-000000000003'
+]::uuid[]) AS c(id)
+CROSS JOIN unnest(ARRAY[
+  '00000000-0000-0000-0000-00000000000b',
+  '00000000-0000-0000-0000-00000000000c'
+]::uuid[]) AS u(id);
+
+CREATE FUNCTION pg_temp.act_as(p_user_id UUID) RETURNS VOID LANGUAGE sql AS $$
+  SELECT set_config('request.jwt.claims', json_build_object('sub', p_user_id, 'role', 'authenticated')::text, true)
+$$;
+
+-- The owner asks for 90 minutes on the first two contracts; the leaver asks on the third
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000a');
+INSERT INTO public.contract_amendments (id, contract_id, requested_by, type, new_value)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-00000000000a', 'change_duration', '90'),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002',
+   '00000000-0000-0000-0000-00000000000a', 'change_duration', '90');
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000c');
+INSERT INTO public.contract_amendments (id, contract_id, requested_by, type, new_value)
+VALUES
+  ('20000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000003',
+   '00000000-0000-0000-0000-00000000000c', 'change_duration', '90');
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000b');
+SELECT public.approve_contract_amendment('20000000-0000-0000-0000-000000000001');
+SELECT public.approve_contract_amendment('20000000-0000-0000-0000-000000000002');
+
+SELECT is(
+  (SELECT status FROM public.contract_amendments WHERE id = '20000000-0000-0000-0000-000000000001'),
+  'pending',
+  'waits for every other party to approve'
+);
+
+-- The owner removes the party the first amendment was waiting on
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000a');
+DELETE FROM public.contract_collaborators
+WHERE contract_id = '10000000-0000-0000-0000-000000000001'
+  AND user_id = '00000000-0000-0000-0000-00000000000c';
+
+SELECT is(
+  (SELECT status FROM public.contract_amendments WHERE id = '20000000-0000-0000-0000-000000000001'),
+  'approved',
+  'is approved once the last outstanding party is removed'
+);
+
+SELECT is(
+  (SELECT contract_duration FROM public.consent_contracts WHERE id = '10000000-0000-0000-0000-000000000001'),
+  90,
+  'is applied to the contract'
+);
+
+-- The party the second amendment was waiting on rejects the contract
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000c');
+UPDATE public.contract_collaborators
+SET status = 'rejected', rejected_at = now()
+WHERE contract_id = '10000000-0000-0000-0000-000000000002'
+  AND user_id = '00000000-0000-0000-0000-00000000000c';
+
+SELECT is(
+  (SELECT status FROM public.contract_amendments WHERE id = '20000000-0000-0000-0000-000000000002'),
+  'approved',
+  'is approved once the last outstanding party rejects the contract'
+);
+
+-- The requester of the third amendment is removed
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000a');
+DELETE FROM public.contract_collaborators
+WHERE contract_id = '10000000-0000-0000-0000-000000000003'
+  AND user_id = '00000000-0000-0000-0000-00000000000c';
+
+SELECT is(
+  (SELECT status FROM public.contract_amendments WHERE id = '20000000-0000-0000-0000-000000000003'),
+  'rejected',
+  'is rejected once its requester leaves the contract'
+);
+
+SELECT is(
+  (SELECT contract_duration FROM public.consent_contracts WHERE id = '10000000-0000-0000-0000-000000000003'),
+  60,
+  'leaves the contract unchanged when rejected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;